@@ -0,0 +1,26 @@
+import type { Id } from "@convex/_generated/dataModel";
+import { ProgramBuilder } from "@/components/program/program-builder";
+import { ProgramPublishPanel } from "@/components/program/program-publish-panel";
+
+export default async function ProgramBuilderPage({
+  params,
+}: {
+  params: Promise<{ programId: string }>;
+}) {
+  const { programId } = await params;
+
+  return (
+    <div className="container mx-auto max-w-4xl py-8">
+      <div className="space-y-8">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Program Builder</h1>
+          <p className="mt-2 text-muted-foreground">
+            Drag modules and workouts to reorder them
+          </p>
+        </div>
+        <ProgramPublishPanel programId={programId as Id<"programs">} />
+        <ProgramBuilder programId={programId as Id<"programs">} />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,28 @@
+import type { Id } from "@convex/_generated/dataModel";
+import Link from "next/link";
+import { WorkoutStructure } from "@/components/program/workout-structure";
+
+export default async function WorkoutPage({
+  params,
+}: {
+  params: Promise<{ programId: string; workoutId: string }>;
+}) {
+  const { programId, workoutId } = await params;
+
+  return (
+    <div className="container mx-auto max-w-4xl py-8">
+      <div className="space-y-8">
+        <div>
+          <Link
+            href={`/coach/programs/${programId}`}
+            className="text-sm text-muted-foreground hover:underline"
+          >
+            ← Back to program
+          </Link>
+          <h1 className="mt-2 text-3xl font-bold tracking-tight">Workout</h1>
+        </div>
+        <WorkoutStructure workoutId={workoutId as Id<"workouts">} />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,177 @@
+"use client";
+
+import { api } from "@convex/_generated/api";
+import type { Doc, Id } from "@convex/_generated/dataModel";
+import { useMutation, useQuery } from "convex/react";
+import { Copy } from "lucide-react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { type FormEvent, useState } from "react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+
+type ProgramLevel = "beginner" | "intermediate" | "advanced";
+
+function getProgramStatus(program: Doc<"programs">) {
+  if (program.copyingFromId) {
+    return "Copying...";
+  }
+  return program.isPublished ? "Published" : "Draft";
+}
+
+export default function CoachProgramsPage() {
+  const router = useRouter();
+  const programs = useQuery(api.programs.listMyPrograms);
+  const createProgram = useMutation(api.programs.createProgram);
+  const duplicateProgram = useMutation(api.programDuplication.duplicateProgram);
+
+  const [title, setTitle] = useState("");
+  const [description, setDescription] = useState("");
+  const [category, setCategory] = useState("");
+  const [level, setLevel] = useState<ProgramLevel>("beginner");
+  const [isCreating, setIsCreating] = useState(false);
+  const [duplicatingId, setDuplicatingId] = useState<Id<"programs"> | null>(
+    null
+  );
+
+  const handleCreate = async (e: FormEvent) => {
+    e.preventDefault();
+    setIsCreating(true);
+    try {
+      const programId = await createProgram({
+        title,
+        description,
+        category,
+        level,
+      });
+      router.push(`/coach/programs/${programId}`);
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to create program"
+      );
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleDuplicate = async (programId: Id<"programs">) => {
+    setDuplicatingId(programId);
+    try {
+      const result = await duplicateProgram({ programId });
+      toast.success(
+        result.isComplete
+          ? "Program duplicated"
+          : "Program duplicated - remaining workouts are still copying"
+      );
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to duplicate program"
+      );
+    } finally {
+      setDuplicatingId(null);
+    }
+  };
+
+  return (
+    <div className="container mx-auto max-w-6xl py-8">
+      <div className="space-y-8">
+        {/* Header */}
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Programs</h1>
+          <p className="mt-2 text-muted-foreground">
+            Build and manage your training programs
+          </p>
+        </div>
+
+        {/* Create Section */}
+        <div className="rounded-lg border bg-card p-6">
+          <h2 className="mb-4 text-lg font-semibold">New Program</h2>
+          <form className="space-y-4" onSubmit={handleCreate}>
+            <Input
+              placeholder="Title"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              required
+            />
+            <Textarea
+              placeholder="Description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              className="resize-none"
+              rows={3}
+            />
+            <div className="flex gap-4">
+              <Input
+                placeholder="Category (e.g. strength, mobility)"
+                value={category}
+                onChange={(e) => setCategory(e.target.value)}
+                required
+              />
+              <select
+                value={level}
+                onChange={(e) => setLevel(e.target.value as ProgramLevel)}
+                className="h-9 rounded-md border bg-transparent px-3 text-sm"
+              >
+                <option value="beginner">Beginner</option>
+                <option value="intermediate">Intermediate</option>
+                <option value="advanced">Advanced</option>
+              </select>
+            </div>
+            <Button type="submit" disabled={isCreating}>
+              {isCreating ? "Creating..." : "Create Program"}
+            </Button>
+          </form>
+        </div>
+
+        {/* Programs List */}
+        <div>
+          <h2 className="mb-4 text-lg font-semibold">Your Programs</h2>
+          {programs === undefined ? (
+            <p className="text-sm text-muted-foreground">Loading programs...</p>
+          ) : programs.length === 0 ? (
+            <div className="flex h-32 items-center justify-center rounded-lg border border-dashed">
+              <p className="text-sm text-muted-foreground">
+                No programs created yet
+              </p>
+            </div>
+          ) : (
+            <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+              {programs.map((program) => (
+                <Card
+                  key={program._id}
+                  className="h-full gap-2 p-4 transition-colors hover:border-orange-400"
+                >
+                  <Link href={`/coach/programs/${program._id}`}>
+                    <h3 className="truncate font-medium">{program.title}</h3>
+                    <p className="text-xs text-muted-foreground">
+                      {program.category} · {program.level} ·{" "}
+                      {getProgramStatus(program)}
+                    </p>
+                  </Link>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="self-start"
+                    disabled={
+                      duplicatingId === program._id ||
+                      program.copyingFromId !== undefined
+                    }
+                    onClick={() => handleDuplicate(program._id)}
+                  >
+                    <Copy className="size-4" />
+                    {duplicatingId === program._id
+                      ? "Duplicating..."
+                      : "Duplicate"}
+                  </Button>
+                </Card>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,193 @@
+"use client";
+
+import { api } from "@convex/_generated/api";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation } from "convex/react";
+import { useRouter } from "next/navigation";
+import { useForm } from "react-hook-form";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  type CoachProfileFormValues,
+  coachProfileSchema,
+} from "@/lib/validations/user-schemas";
+
+const specialtyOptions = [
+  "strength",
+  "mobility",
+  "yoga",
+  "running",
+  "conditioning",
+  "rehab",
+  "nutrition",
+];
+
+export function CoachProfileStep() {
+  const router = useRouter();
+  const createCoachProfile = useMutation(api.profiles.createCoachProfile);
+
+  const form = useForm<CoachProfileFormValues>({
+    resolver: zodResolver(coachProfileSchema),
+    defaultValues: {
+      specialties: [],
+      certifications: "",
+      dateOfBirth: "",
+      bio: "",
+    },
+  });
+
+  const onSubmit = async (data: CoachProfileFormValues) => {
+    try {
+      await createCoachProfile({
+        specialties: data.specialties,
+        // One certification per line
+        certifications: (data.certifications ?? "").split("\n"),
+        dateOfBirth: new Date(data.dateOfBirth).getTime(),
+        bio: data.bio,
+      });
+      toast.success("Welcome! Your coach profile is ready.");
+      router.push("/dashboard");
+    } catch (error) {
+      toast.error(
+        error instanceof Error
+          ? error.message
+          : "Failed to create coach profile. Please try again."
+      );
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Coach Details</CardTitle>
+        <CardDescription>
+          Step 2 of 2 - tell athletes about your coaching
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+            <FormField
+              control={form.control}
+              name="specialties"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Specialties</FormLabel>
+                  <div className="flex flex-wrap gap-2">
+                    {specialtyOptions.map((specialty) => {
+                      const selected = field.value.includes(specialty);
+                      return (
+                        <Button
+                          key={specialty}
+                          type="button"
+                          size="sm"
+                          variant={selected ? "default" : "outline"}
+                          className="rounded-full capitalize"
+                          aria-pressed={selected}
+                          onClick={() =>
+                            field.onChange(
+                              selected
+                                ? field.value.filter((s) => s !== specialty)
+                                : [...field.value, specialty]
+                            )
+                          }
+                        >
+                          {specialty}
+                        </Button>
+                      );
+                    })}
+                  </div>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="certifications"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Certifications (Optional)</FormLabel>
+                  <FormControl>
+                    <Textarea
+                      placeholder={"NSCA-CSCS\nRYT-200"}
+                      className="resize-none"
+                      rows={3}
+                      {...field}
+                    />
+                  </FormControl>
+                  <FormDescription>One certification per line</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="dateOfBirth"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Date of Birth</FormLabel>
+                  <FormControl>
+                    <Input type="date" {...field} />
+                  </FormControl>
+                  <FormDescription>
+                    Only your age is shown to athletes
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="bio"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Coach Bio</FormLabel>
+                  <FormControl>
+                    <Textarea
+                      placeholder="Your coaching background, approach and experience..."
+                      className="resize-none"
+                      rows={6}
+                      {...field}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <Button
+              type="submit"
+              className="w-full"
+              disabled={form.formState.isSubmitting}
+            >
+              {form.formState.isSubmitting
+                ? "Saving coach profile..."
+                : "Complete Setup"}
+            </Button>
+          </form>
+        </Form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -32,6 +32,7 @@ import {
   type OnboardingFormValues,
   onboardingSchema,
 } from "@/lib/validations/user-schemas";
+import { CoachProfileStep } from "./coach-profile-step";
 
 type OnboardingFormProps = {
   preloadedUserQuery: Preloaded<typeof api.profiles.getCurrentUser>;
@@ -93,6 +94,12 @@ export function OnboardingForm({ preloadedUserQuery }: OnboardingFormProps) {
         bio: data.bio,
         location: data.location,
       });
+      // Coaches continue with the coach profile step (rendered once the
+      // profile shows up in the current user query)
+      if (data.role === "coach") {
+        toast.success("Profile created. One more step!");
+        return;
+      }
       toast.success("Welcome! Your profile has been created.");
       router.push("/dashboard");
     } catch {
@@ -109,13 +116,16 @@ export function OnboardingForm({ preloadedUserQuery }: OnboardingFormProps) {
         </p>
       </div>
 
-      {selectedRole ? (
+      {currentUser?.profile?.needsCoachProfile ? (
+        <CoachProfileStep />
+      ) : selectedRole ? (
         <Card>
           <CardHeader>
             <CardTitle>
               {selectedRole === "athlete" ? "Athlete Profile" : "Coach Profile"}
             </CardTitle>
             <CardDescription>
+              {selectedRole === "coach" && "Step 1 of 2 - "}
               Tell us a bit about yourself
               <Button
                 variant="link"
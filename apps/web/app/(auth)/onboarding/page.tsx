@@ -23,7 +23,8 @@ export default async function OnboardingPage() {
   }
 
   // Already completed onboarding - redirect to dashboard
-  if (currentUser.profile) {
+  // (coaches still need the coach profile step)
+  if (currentUser.profile && !currentUser.profile.needsCoachProfile) {
     redirect("/dashboard");
   }
 
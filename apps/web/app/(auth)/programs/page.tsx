@@ -0,0 +1,17 @@
+import { ProgramCatalog } from "@/components/program/program-catalog";
+
+export default function ProgramsPage() {
+  return (
+    <div className="container mx-auto max-w-6xl py-8">
+      <div className="space-y-8">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Programs</h1>
+          <p className="mt-2 text-muted-foreground">
+            Browse training programs from our coaches
+          </p>
+        </div>
+        <ProgramCatalog />
+      </div>
+    </div>
+  );
+}
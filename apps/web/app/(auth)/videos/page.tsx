@@ -1,7 +1,16 @@
 "use client";
 
+import { api } from "@convex/_generated/api";
 import type { Id } from "@convex/_generated/dataModel";
+import { useQuery } from "convex/react";
 import { useState } from "react";
+import { CaptionTracks } from "@/components/video/caption-tracks";
+import { ChapterEditor } from "@/components/video/chapter-editor";
+import { ClipCreator } from "@/components/video/clip-creator";
+import { ContinueWatching } from "@/components/video/continue-watching";
+import { ReplaceSource } from "@/components/video/replace-source";
+import { ThumbnailPicker } from "@/components/video/thumbnail-picker";
+import { UploadUsage } from "@/components/video/upload-usage";
 import { VideoList } from "@/components/video/video-list";
 import { VideoPlayer } from "@/components/video/video-player";
 import { VideoUploader } from "@/components/video/video-uploader";
@@ -11,6 +20,8 @@ export default function VideosPage() {
     null
   );
   const [showUploader, setShowUploader] = useState(false);
+  const [currentTime, setCurrentTime] = useState(0);
+  const usage = useQuery(api.mux.usage.getVideoUsage, {});
 
   const handleUploadSuccess = (videoId: Id<"videos">) => {
     setShowUploader(false);
@@ -31,6 +42,7 @@ export default function VideosPage() {
         {/* Upload Section */}
         <div className="rounded-lg border bg-card p-6">
           <h2 className="mb-4 text-lg font-semibold">Upload New Video</h2>
+          {usage && <UploadUsage usage={usage} />}
           {showUploader ? (
             <div className="space-y-4">
               <VideoUploader onSuccess={handleUploadSuccess} />
@@ -46,7 +58,8 @@ export default function VideosPage() {
             <button
               type="button"
               onClick={() => setShowUploader(true)}
-              className="rounded-md bg-primary px-4 py-2 text-sm font-medium text-primary-foreground hover:bg-primary/90"
+              disabled={!usage || usage.blockedReason !== null}
+              className="rounded-md bg-primary px-4 py-2 text-sm font-medium text-primary-foreground hover:bg-primary/90 disabled:pointer-events-none disabled:opacity-50"
             >
               Start Upload
             </button>
@@ -66,10 +79,32 @@ export default function VideosPage() {
                 Close
               </button>
             </div>
-            <VideoPlayer videoId={selectedVideoId} />
+            <VideoPlayer
+              videoId={selectedVideoId}
+              onTimeUpdate={setCurrentTime}
+              onVideoSelect={setSelectedVideoId}
+            />
+            <ThumbnailPicker
+              videoId={selectedVideoId}
+              currentTime={currentTime}
+            />
+            <ChapterEditor
+              videoId={selectedVideoId}
+              currentTime={currentTime}
+            />
+            <CaptionTracks videoId={selectedVideoId} />
+            <ReplaceSource videoId={selectedVideoId} />
+            <ClipCreator
+              videoId={selectedVideoId}
+              currentTime={currentTime}
+              onVideoSelect={setSelectedVideoId}
+            />
           </div>
         )}
 
+        {/* Continue Watching */}
+        <ContinueWatching onVideoSelect={setSelectedVideoId} />
+
         {/* Videos List */}
         <div>
           <h2 className="mb-4 text-lg font-semibold">Your Videos</h2>
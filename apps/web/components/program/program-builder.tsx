@@ -0,0 +1,382 @@
+"use client";
+
+import { api } from "@convex/_generated/api";
+import type { Id } from "@convex/_generated/dataModel";
+import { useMutation, useQuery } from "convex/react";
+import { AlertCircle, Eye, GripVertical, Plus, Trash2 } from "lucide-react";
+import Link from "next/link";
+import { type FormEvent, useState } from "react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { cn } from "@/lib/utils";
+
+type ProgramBuilderProps = {
+  programId: Id<"programs">;
+};
+
+type DragItem =
+  | { type: "module"; id: Id<"programModules"> }
+  | {
+      type: "workout";
+      id: Id<"workouts">;
+      moduleId: Id<"programModules">;
+    };
+
+/**
+ * Move `id` to `targetIndex` within `ids` (drag-and-drop helper).
+ */
+function moveId<T extends string>(ids: T[], id: T, targetIndex: number): T[] {
+  const next = ids.filter((existing) => existing !== id);
+  next.splice(targetIndex, 0, id);
+  return next;
+}
+
+function getErrorMessage(error: unknown, fallback: string) {
+  return error instanceof Error ? error.message : fallback;
+}
+
+export function ProgramBuilder({ programId }: ProgramBuilderProps) {
+  const outline = useQuery(api.programs.getProgramOutline, { programId });
+  const readiness = useQuery(api.programPublishing.getPublishReadiness, {
+    programId,
+  });
+
+  const addModule = useMutation(api.programModules.addModule);
+  const updateModule = useMutation(api.programModules.updateModule);
+  const removeModule = useMutation(api.programModules.removeModule);
+  const reorderModules = useMutation(api.programModules.reorderModules);
+  const addWorkout = useMutation(api.workouts.addWorkout);
+  const removeWorkout = useMutation(api.workouts.removeWorkout);
+  const reorderWorkouts = useMutation(api.workouts.reorderWorkouts);
+  const moveWorkout = useMutation(api.workouts.moveWorkout);
+
+  const [dragItem, setDragItem] = useState<DragItem | null>(null);
+  const [newModuleTitle, setNewModuleTitle] = useState("");
+  const [newWorkoutTitles, setNewWorkoutTitles] = useState<
+    Record<string, string>
+  >({});
+
+  if (!outline) {
+    return (
+      <div className="flex h-32 items-center justify-center">
+        <p className="text-sm text-muted-foreground">Loading program...</p>
+      </div>
+    );
+  }
+
+  // Publish problems tied to a workout, shown inline on its row
+  const problemsByWorkout = new Map<
+    string,
+    NonNullable<typeof readiness>["problems"]
+  >();
+  for (const problem of readiness?.problems ?? []) {
+    if (problem.workoutId) {
+      const problems = problemsByWorkout.get(problem.workoutId) ?? [];
+      problems.push(problem);
+      problemsByWorkout.set(problem.workoutId, problems);
+    }
+  }
+
+  const run = async (action: () => Promise<unknown>, fallback: string) => {
+    try {
+      await action();
+    } catch (error) {
+      toast.error(getErrorMessage(error, fallback));
+    }
+  };
+
+  const handleAddModule = async (e: FormEvent) => {
+    e.preventDefault();
+    const title = newModuleTitle.trim();
+    if (!title) {
+      return;
+    }
+    await run(
+      () => addModule({ programId, title, description: "" }),
+      "Failed to add module"
+    );
+    setNewModuleTitle("");
+  };
+
+  const handleAddWorkout = async (
+    e: FormEvent,
+    moduleId: Id<"programModules">
+  ) => {
+    e.preventDefault();
+    const title = newWorkoutTitles[moduleId]?.trim();
+    if (!title) {
+      return;
+    }
+    await run(
+      () => addWorkout({ moduleId, title, description: "", difficulty: 1 }),
+      "Failed to add workout"
+    );
+    setNewWorkoutTitles((prev) => ({ ...prev, [moduleId]: "" }));
+  };
+
+  const handleRenameModule = async (
+    moduleId: Id<"programModules">,
+    currentTitle: string,
+    title: string
+  ) => {
+    const trimmed = title.trim();
+    if (!trimmed || trimmed === currentTitle) {
+      return;
+    }
+    await run(
+      () => updateModule({ moduleId, title: trimmed }),
+      "Failed to rename module"
+    );
+  };
+
+  // Drop on a module card: reorder modules, or move a workout to the end
+  const handleModuleDrop = async (
+    targetModuleId: Id<"programModules">,
+    targetIndex: number
+  ) => {
+    const item = dragItem;
+    setDragItem(null);
+    if (!item) {
+      return;
+    }
+
+    if (item.type === "module") {
+      const moduleIds = outline.modules.map((m) => m._id);
+      await run(
+        () =>
+          reorderModules({
+            programId,
+            moduleIds: moveId(moduleIds, item.id, targetIndex),
+          }),
+        "Failed to reorder modules"
+      );
+      return;
+    }
+
+    if (item.moduleId !== targetModuleId) {
+      await run(
+        () => moveWorkout({ workoutId: item.id, targetModuleId }),
+        "Failed to move workout"
+      );
+    }
+  };
+
+  // Drop on a workout row: reorder within module or move across modules
+  const handleWorkoutDrop = async (
+    targetModuleId: Id<"programModules">,
+    workoutIds: Id<"workouts">[],
+    targetIndex: number
+  ) => {
+    const item = dragItem;
+    setDragItem(null);
+    if (item?.type !== "workout") {
+      return;
+    }
+
+    if (item.moduleId === targetModuleId) {
+      await run(
+        () =>
+          reorderWorkouts({
+            moduleId: targetModuleId,
+            workoutIds: moveId(workoutIds, item.id, targetIndex),
+          }),
+        "Failed to reorder workouts"
+      );
+    } else {
+      await run(
+        () =>
+          moveWorkout({
+            workoutId: item.id,
+            targetModuleId,
+            index: targetIndex,
+          }),
+        "Failed to move workout"
+      );
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {outline.modules.length === 0 && (
+        <div className="flex h-32 items-center justify-center rounded-lg border border-dashed">
+          <p className="text-sm text-muted-foreground">
+            No modules yet - add the first one below
+          </p>
+        </div>
+      )}
+
+      {outline.modules.map((programModule, moduleIndex) => {
+        const workoutIds = programModule.workouts.map((w) => w._id);
+
+        return (
+          <Card
+            key={programModule._id}
+            className={cn(
+              "gap-3 p-4",
+              dragItem?.type === "module" &&
+                dragItem.id === programModule._id &&
+                "opacity-50"
+            )}
+            onDragOver={(e) => e.preventDefault()}
+            onDrop={(e) => {
+              e.preventDefault();
+              handleModuleDrop(programModule._id, moduleIndex);
+            }}
+          >
+            {/* Module header */}
+            <div className="flex items-center gap-2">
+              <button
+                type="button"
+                draggable
+                aria-label="Drag to reorder module"
+                className="cursor-grab text-muted-foreground"
+                onDragStart={() =>
+                  setDragItem({ type: "module", id: programModule._id })
+                }
+                onDragEnd={() => setDragItem(null)}
+              >
+                <GripVertical className="size-4" />
+              </button>
+              <Input
+                defaultValue={programModule.title}
+                className="h-8 font-medium"
+                onBlur={(e) =>
+                  handleRenameModule(
+                    programModule._id,
+                    programModule.title,
+                    e.target.value
+                  )
+                }
+              />
+              <Button
+                variant="ghost"
+                size="icon-sm"
+                aria-label="Remove module"
+                onClick={() =>
+                  run(
+                    () => removeModule({ moduleId: programModule._id }),
+                    "Failed to remove module"
+                  )
+                }
+              >
+                <Trash2 className="size-4 text-destructive" />
+              </Button>
+            </div>
+
+            {/* Workouts */}
+            <div className="space-y-1 pl-6">
+              {programModule.workouts.map((workout, workoutIndex) => (
+                <div
+                  key={workout._id}
+                  className={cn(
+                    "flex items-center gap-2 rounded-md border bg-background px-2 py-1.5 text-sm",
+                    dragItem?.type === "workout" &&
+                      dragItem.id === workout._id &&
+                      "opacity-50"
+                  )}
+                >
+                  {/* Row is both drag handle and drop target */}
+                  <button
+                    type="button"
+                    draggable
+                    aria-label={`Drag to reorder ${workout.title}`}
+                    className="flex flex-1 cursor-grab items-center gap-2 text-left"
+                    onDragStart={() =>
+                      setDragItem({
+                        type: "workout",
+                        id: workout._id,
+                        moduleId: programModule._id,
+                      })
+                    }
+                    onDragEnd={() => setDragItem(null)}
+                    onDragOver={(e) => e.preventDefault()}
+                    onDrop={(e) => {
+                      e.preventDefault();
+                      e.stopPropagation();
+                      handleWorkoutDrop(
+                        programModule._id,
+                        workoutIds,
+                        workoutIndex
+                      );
+                    }}
+                  >
+                    <GripVertical className="size-4 text-muted-foreground" />
+                    <span className="flex-1 truncate">{workout.title}</span>
+                    {problemsByWorkout.get(workout._id)?.map((problem) => (
+                      <span
+                        key={problem.code}
+                        title={problem.message}
+                        className="flex items-center gap-1 text-xs text-destructive"
+                      >
+                        <AlertCircle className="size-3.5" />
+                        {problem.code === "video_missing"
+                          ? "Video missing"
+                          : "Video not ready"}
+                      </span>
+                    ))}
+                  </button>
+                  <Button variant="ghost" size="icon-sm" asChild>
+                    <Link
+                      href={`/coach/programs/${programId}/workouts/${workout._id}`}
+                      aria-label={`View ${workout.title}`}
+                    >
+                      <Eye className="size-4" />
+                    </Link>
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon-sm"
+                    aria-label="Remove workout"
+                    onClick={() =>
+                      run(
+                        () => removeWorkout({ workoutId: workout._id }),
+                        "Failed to remove workout"
+                      )
+                    }
+                  >
+                    <Trash2 className="size-4 text-destructive" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+
+            <form
+              className="flex gap-2 pl-6"
+              onSubmit={(e) => handleAddWorkout(e, programModule._id)}
+            >
+              <Input
+                placeholder="New workout title"
+                className="h-8"
+                value={newWorkoutTitles[programModule._id] ?? ""}
+                onChange={(e) =>
+                  setNewWorkoutTitles((prev) => ({
+                    ...prev,
+                    [programModule._id]: e.target.value,
+                  }))
+                }
+              />
+              <Button type="submit" size="sm" variant="outline">
+                <Plus className="size-4" />
+                Workout
+              </Button>
+            </form>
+          </Card>
+        );
+      })}
+
+      <form className="flex gap-2" onSubmit={handleAddModule}>
+        <Input
+          placeholder="New module title"
+          value={newModuleTitle}
+          onChange={(e) => setNewModuleTitle(e.target.value)}
+        />
+        <Button type="submit">
+          <Plus className="size-4" />
+          Add Module
+        </Button>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,178 @@
+"use client";
+
+import { api } from "@convex/_generated/api";
+import { usePaginatedQuery } from "convex/react";
+import { PlayCircle } from "lucide-react";
+import { useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { cn } from "@/lib/utils";
+
+type ProgramLevel = "beginner" | "intermediate" | "advanced";
+
+const PAGE_SIZE = 12;
+
+const categories = ["strength", "mobility", "yoga", "running"];
+const levels: ProgramLevel[] = ["beginner", "intermediate", "advanced"];
+
+type FilterChipsProps<T extends string> = {
+  label: string;
+  options: T[];
+  value: T | undefined;
+  onChange: (value: T | undefined) => void;
+};
+
+function FilterChips<T extends string>({
+  label,
+  options,
+  value,
+  onChange,
+}: FilterChipsProps<T>) {
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <span className="text-sm text-muted-foreground">{label}:</span>
+      <Button
+        size="sm"
+        variant={value === undefined ? "default" : "outline"}
+        className="rounded-full"
+        onClick={() => onChange(undefined)}
+      >
+        All
+      </Button>
+      {options.map((option) => (
+        <Button
+          key={option}
+          size="sm"
+          variant={value === option ? "default" : "outline"}
+          className="rounded-full capitalize"
+          onClick={() => onChange(option)}
+        >
+          {option}
+        </Button>
+      ))}
+    </div>
+  );
+}
+
+export function ProgramCatalog() {
+  const [category, setCategory] = useState<string | undefined>();
+  const [level, setLevel] = useState<ProgramLevel | undefined>();
+  const sentinelRef = useRef<HTMLDivElement>(null);
+
+  const { results, status, loadMore } = usePaginatedQuery(
+    api.programs.listPublishedPrograms,
+    { category, level },
+    { initialNumItems: PAGE_SIZE }
+  );
+
+  // Infinite scroll: load the next page when the sentinel comes into view
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || status !== "CanLoadMore") {
+      return;
+    }
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0]?.isIntersecting) {
+        loadMore(PAGE_SIZE);
+      }
+    });
+    observer.observe(sentinel);
+
+    return () => observer.disconnect();
+  }, [status, loadMore]);
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-3">
+        <FilterChips
+          label="Category"
+          options={categories}
+          value={category}
+          onChange={setCategory}
+        />
+        <FilterChips
+          label="Level"
+          options={levels}
+          value={level}
+          onChange={setLevel}
+        />
+      </div>
+
+      {status === "LoadingFirstPage" && (
+        <div className="flex h-32 items-center justify-center">
+          <p className="text-sm text-muted-foreground">Loading programs...</p>
+        </div>
+      )}
+
+      {status !== "LoadingFirstPage" && results.length === 0 && (
+        <div className="flex h-32 items-center justify-center rounded-lg border border-dashed">
+          <p className="text-sm text-muted-foreground">
+            No programs match these filters
+          </p>
+        </div>
+      )}
+
+      <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+        {results.map((program) => (
+          <Card key={program._id} className="gap-0 overflow-hidden p-0">
+            <div className="relative aspect-video bg-muted">
+              {program.thumbnailUrl ? (
+                <img
+                  width={100}
+                  height={100}
+                  src={program.thumbnailUrl}
+                  alt={program.title}
+                  className="h-full w-full object-cover"
+                />
+              ) : (
+                <div className="flex h-full items-center justify-center">
+                  <span className="text-xs text-muted-foreground">
+                    No thumbnail
+                  </span>
+                </div>
+              )}
+              {program.previewPlaybackId && (
+                <span className="absolute right-2 top-2 flex items-center gap-1 rounded-full bg-black/60 px-2 py-0.5 text-xs text-white">
+                  <PlayCircle className="size-3.5" />
+                  Preview
+                </span>
+              )}
+            </div>
+            <div className="space-y-1 p-4">
+              <h3 className="truncate font-semibold">{program.title}</h3>
+              {program.coachName && (
+                <p className="text-sm text-muted-foreground">
+                  by {program.coachName}
+                </p>
+              )}
+              <p className="line-clamp-2 text-sm text-muted-foreground">
+                {program.description}
+              </p>
+              <div className="flex gap-2 pt-2 text-xs capitalize">
+                <span className="rounded-full bg-muted px-2 py-0.5">
+                  {program.category}
+                </span>
+                <span className="rounded-full bg-muted px-2 py-0.5">
+                  {program.level}
+                </span>
+              </div>
+            </div>
+          </Card>
+        ))}
+      </div>
+
+      <div
+        ref={sentinelRef}
+        className={cn(
+          "flex h-12 items-center justify-center",
+          status === "Exhausted" && "hidden"
+        )}
+      >
+        {status === "LoadingMore" && (
+          <p className="text-sm text-muted-foreground">Loading more...</p>
+        )}
+      </div>
+    </div>
+  );
+}
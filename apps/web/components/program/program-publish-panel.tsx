@@ -0,0 +1,199 @@
+"use client";
+
+import { api } from "@convex/_generated/api";
+import type { Id } from "@convex/_generated/dataModel";
+import { useMutation, useQuery } from "convex/react";
+import { AlertCircle, CalendarClock, CheckCircle } from "lucide-react";
+import { useState } from "react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+
+type ProgramPublishPanelProps = {
+  programId: Id<"programs">;
+};
+
+export function ProgramPublishPanel({ programId }: ProgramPublishPanelProps) {
+  const readiness = useQuery(api.programPublishing.getPublishReadiness, {
+    programId,
+  });
+  const publishProgram = useMutation(api.programPublishing.publishProgram);
+  const unpublishProgram = useMutation(api.programPublishing.unpublishProgram);
+  const schedulePublish = useMutation(api.programPublishing.schedulePublish);
+  const cancelScheduledPublish = useMutation(
+    api.programPublishing.cancelScheduledPublish
+  );
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [scheduleAt, setScheduleAt] = useState("");
+
+  if (!readiness) {
+    return null;
+  }
+
+  const handlePublish = async () => {
+    setIsSubmitting(true);
+    try {
+      const result = await publishProgram({ programId });
+      if (result.success) {
+        toast.success("Program published");
+      } else {
+        toast.error("Fix the listed problems before publishing");
+      }
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to publish program"
+      );
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleUnpublish = async () => {
+    setIsSubmitting(true);
+    try {
+      await unpublishProgram({ programId });
+      toast.success("Program moved back to draft");
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to unpublish program"
+      );
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleSchedule = async () => {
+    if (!scheduleAt) {
+      return;
+    }
+    setIsSubmitting(true);
+    try {
+      const result = await schedulePublish({
+        programId,
+        publishAt: new Date(scheduleAt).getTime(),
+      });
+      if (result.problems.length > 0) {
+        toast.warning(
+          "Publish scheduled - fix the listed problems before the launch date"
+        );
+      } else {
+        toast.success("Publish scheduled");
+      }
+      setScheduleAt("");
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to schedule publish"
+      );
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleCancelSchedule = async () => {
+    setIsSubmitting(true);
+    try {
+      await cancelScheduledPublish({ programId });
+      toast.success("Scheduled publish cancelled");
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to cancel schedule"
+      );
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  // Module/workout problems are shown inline in the builder
+  const programProblems = readiness.problems.filter((p) => !p.workoutId);
+
+  return (
+    <div className="rounded-lg border bg-card p-6">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <h2 className="text-lg font-semibold">
+            {readiness.isPublished ? "Published" : "Draft"}
+          </h2>
+          <p className="text-sm text-muted-foreground">
+            {readiness.canPublish
+              ? "All checks passed"
+              : `${readiness.problems.length} problem(s) to fix before publishing`}
+          </p>
+        </div>
+        {readiness.isPublished ? (
+          <Button
+            variant="outline"
+            onClick={handleUnpublish}
+            disabled={isSubmitting}
+          >
+            Unpublish
+          </Button>
+        ) : (
+          <Button
+            onClick={handlePublish}
+            disabled={isSubmitting || !readiness.canPublish}
+          >
+            {isSubmitting ? "Publishing..." : "Publish"}
+          </Button>
+        )}
+      </div>
+
+      {!readiness.isPublished && (
+        <div className="mt-4 flex flex-wrap items-center gap-2 text-sm">
+          <CalendarClock className="size-4 text-muted-foreground" />
+          {readiness.publishAt ? (
+            <>
+              <span>
+                Scheduled for {new Date(readiness.publishAt).toLocaleString()}
+              </span>
+              <Button
+                variant="link"
+                size="sm"
+                onClick={handleCancelSchedule}
+                disabled={isSubmitting}
+              >
+                Cancel schedule
+              </Button>
+            </>
+          ) : (
+            <span className="text-muted-foreground">Schedule a launch:</span>
+          )}
+          <Input
+            type="datetime-local"
+            className="h-8 w-auto"
+            value={scheduleAt}
+            onChange={(e) => setScheduleAt(e.target.value)}
+          />
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleSchedule}
+            disabled={isSubmitting || !scheduleAt}
+          >
+            {readiness.publishAt ? "Reschedule" : "Schedule"}
+          </Button>
+        </div>
+      )}
+
+      {programProblems.length > 0 && (
+        <ul className="mt-4 space-y-1">
+          {programProblems.map((problem) => (
+            <li
+              key={`${problem.code}-${problem.videoId ?? ""}`}
+              className="flex items-center gap-2 text-sm text-destructive"
+            >
+              <AlertCircle className="size-4 shrink-0" />
+              {problem.message}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {readiness.canPublish && !readiness.isPublished && (
+        <p className="mt-4 flex items-center gap-2 text-sm text-green-700 dark:text-green-400">
+          <CheckCircle className="size-4" />
+          Ready to go live
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,160 @@
+"use client";
+
+import { api } from "@convex/_generated/api";
+import type { Id } from "@convex/_generated/dataModel";
+import { useQuery } from "convex/react";
+import type { FunctionReturnType } from "convex/server";
+import { Card } from "@/components/ui/card";
+import { cn } from "@/lib/utils";
+
+type WorkoutTree = NonNullable<
+  FunctionReturnType<typeof api.workoutBlocks.getWorkoutTree>
+>;
+type TreeItem = WorkoutTree["items"][number];
+type BlockItem = Extract<TreeItem, { kind: "block" }>;
+type ExerciseItem = Extract<TreeItem, { kind: "exercise" }>;
+
+type WorkoutStructureProps = {
+  workoutId: Id<"workouts">;
+};
+
+function formatSeconds(seconds: number) {
+  if (seconds >= 60 && seconds % 60 === 0) {
+    return `${seconds / 60} min`;
+  }
+  return `${seconds}s`;
+}
+
+/** Header summary for a block, e.g. "AMRAP 12 min" or "Tabata 8 × 20s/10s". */
+function describeBlock(block: BlockItem) {
+  switch (block.type) {
+    case "superset":
+      return block.rounds ? `Superset · ${block.rounds} rounds` : "Superset";
+    case "circuit":
+      return block.restSeconds
+        ? `Circuit · ${block.rounds} rounds, ${formatSeconds(block.restSeconds)} rest`
+        : `Circuit · ${block.rounds} rounds`;
+    case "emom":
+      return `EMOM ${block.rounds} × ${formatSeconds(block.intervalSeconds ?? 60)}`;
+    case "amrap":
+      return `AMRAP ${formatSeconds(block.timeCapSeconds ?? 0)}`;
+    case "tabata":
+      return `Tabata ${block.rounds} × ${block.workSeconds}s/${block.restSeconds}s`;
+    default:
+      return block.type;
+  }
+}
+
+function describePrescription(item: ExerciseItem) {
+  const work =
+    item.durationSeconds !== undefined
+      ? formatSeconds(item.durationSeconds)
+      : item.reps;
+  return [
+    `${item.sets} × ${work}`,
+    item.load,
+    item.tempo && `tempo ${item.tempo}`,
+    item.restSeconds !== undefined && `${formatSeconds(item.restSeconds)} rest`,
+  ]
+    .filter(Boolean)
+    .join(" · ");
+}
+
+function ExerciseRow({ item }: { item: ExerciseItem }) {
+  return (
+    <div className="flex items-baseline justify-between gap-4 rounded-md border bg-background px-3 py-2 text-sm">
+      <span className="truncate font-medium">
+        {item.exercise?.name ?? "Exercise unavailable"}
+      </span>
+      <span className="shrink-0 text-muted-foreground">
+        {describePrescription(item)}
+      </span>
+    </div>
+  );
+}
+
+function StructureItems({ items }: { items: TreeItem[] }) {
+  return (
+    <div className="space-y-2">
+      {items.map((item) =>
+        item.kind === "block" ? (
+          <BlockCard key={item._id} block={item} />
+        ) : (
+          <ExerciseRow key={item._id} item={item} />
+        )
+      )}
+    </div>
+  );
+}
+
+function BlockCard({ block }: { block: BlockItem }) {
+  return (
+    <Card
+      className={cn(
+        "gap-3 border-l-4 p-3",
+        block.parentBlockId ? "border-l-sky-400" : "border-l-orange-400"
+      )}
+    >
+      <div className="flex items-baseline justify-between gap-4">
+        <span className="text-sm font-semibold">{describeBlock(block)}</span>
+        {block.title && (
+          <span className="truncate text-sm text-muted-foreground">
+            {block.title}
+          </span>
+        )}
+      </div>
+      {block.notes && (
+        <p className="text-xs text-muted-foreground">{block.notes}</p>
+      )}
+      {block.items.length === 0 ? (
+        <p className="text-xs text-muted-foreground">No exercises yet</p>
+      ) : (
+        <StructureItems items={block.items} />
+      )}
+    </Card>
+  );
+}
+
+/**
+ * Read-only workout outline: exercises in performed order, with supersets,
+ * circuits and interval blocks rendered as grouped (nested) cards.
+ */
+export function WorkoutStructure({ workoutId }: WorkoutStructureProps) {
+  const workout = useQuery(api.workoutBlocks.getWorkoutTree, { workoutId });
+
+  if (workout === undefined) {
+    return (
+      <div className="flex h-32 items-center justify-center">
+        <p className="text-sm text-muted-foreground">Loading workout...</p>
+      </div>
+    );
+  }
+
+  if (workout === null) {
+    return (
+      <div className="flex h-32 items-center justify-center rounded-lg border border-dashed">
+        <p className="text-sm text-muted-foreground">Workout not found</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h2 className="text-xl font-semibold">{workout.title}</h2>
+        {workout.description && (
+          <p className="mt-1 text-sm text-muted-foreground">
+            {workout.description}
+          </p>
+        )}
+      </div>
+      {workout.items.length === 0 ? (
+        <div className="flex h-24 items-center justify-center rounded-lg border border-dashed">
+          <p className="text-sm text-muted-foreground">No exercises yet</p>
+        </div>
+      ) : (
+        <StructureItems items={workout.items} />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,279 @@
+"use client";
+
+import { api } from "@convex/_generated/api";
+import type { Id } from "@convex/_generated/dataModel";
+import { useMutation, useQuery } from "convex/react";
+import { Trash2 } from "lucide-react";
+import { type FormEvent, useState } from "react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+
+type TrackStatus = "preparing" | "ready" | "errored";
+
+/**
+ * Languages offered for captions. Mux can only auto-generate some of them
+ * (canGenerate) - Serbian captions have to be uploaded.
+ */
+const CAPTION_LANGUAGES = [
+  { code: "sr", name: "Srpski", canGenerate: false },
+  { code: "en", name: "English", canGenerate: true },
+  { code: "hr", name: "Hrvatski", canGenerate: true },
+  { code: "de", name: "Deutsch", canGenerate: true },
+  { code: "es", name: "Español", canGenerate: true },
+  { code: "fr", name: "Français", canGenerate: true },
+  { code: "it", name: "Italiano", canGenerate: true },
+];
+
+// Browsers often report no type for .srt - Convex storage needs one
+const CAPTION_MIME_TYPES: Record<string, string> = {
+  vtt: "text/vtt",
+  srt: "application/x-subrip",
+};
+
+const trackStatusConfig = {
+  preparing: {
+    label: "Preparing",
+    className:
+      "bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-100",
+  },
+  ready: {
+    label: "Ready",
+    className:
+      "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-100",
+  },
+  errored: {
+    label: "Error",
+    className: "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-100",
+  },
+};
+
+function getCaptionMimeType(fileName: string) {
+  const extension = fileName.split(".").pop()?.toLowerCase() ?? "";
+  return CAPTION_MIME_TYPES[extension];
+}
+
+type CaptionTracksProps = {
+  videoId: Id<"videos">;
+};
+
+/**
+ * Compact per-track status (e.g. "SR Ready") for video cards.
+ */
+export function TrackStatusBadges({ videoId }: CaptionTracksProps) {
+  const tracks = useQuery(api.mux.tracks.listVideoTracks, { videoId });
+
+  if (!tracks || tracks.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="mt-2 flex flex-wrap gap-1">
+      {tracks.map((track) => {
+        const config = trackStatusConfig[track.status as TrackStatus];
+        return (
+          <span
+            key={track._id}
+            title={track.errorMessage ?? track.name}
+            className={`rounded-full px-2 py-0.5 text-xs font-medium ${config.className}`}
+          >
+            {track.languageCode.toUpperCase()} {config.label}
+          </span>
+        );
+      })}
+    </div>
+  );
+}
+
+/**
+ * Caption management for the video owner: per-track status, uploading
+ * WebVTT/SRT files and requesting Mux auto-generated captions.
+ */
+export function CaptionTracks({ videoId }: CaptionTracksProps) {
+  const video = useQuery(api.mux.queries.getVideoById, { videoId });
+  const tracks = useQuery(api.mux.tracks.listVideoTracks, { videoId });
+  const generateUploadUrl = useMutation(api.files.generateUploadUrl);
+  const registerUpload = useMutation(api.files.registerUpload);
+  const addCaptionTrack = useMutation(api.mux.tracks.addCaptionTrack);
+  const requestGeneratedCaptions = useMutation(
+    api.mux.tracks.requestGeneratedCaptions
+  );
+  const deleteCaptionTrack = useMutation(api.mux.tracks.deleteCaptionTrack);
+
+  const [languageCode, setLanguageCode] = useState(CAPTION_LANGUAGES[0].code);
+  const [file, setFile] = useState<File | null>(null);
+  const [fileInputKey, setFileInputKey] = useState(0);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const language =
+    CAPTION_LANGUAGES.find((option) => option.code === languageCode) ??
+    CAPTION_LANGUAGES[0];
+
+  if (!(video && tracks) || video.status !== "ready") {
+    return null;
+  }
+
+  const handleUpload = async (event: FormEvent) => {
+    event.preventDefault();
+    if (!file) {
+      return;
+    }
+
+    const contentType = getCaptionMimeType(file.name);
+    if (!contentType) {
+      toast.error("Choose a WebVTT (.vtt) or SRT (.srt) file");
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const uploadUrl = await generateUploadUrl();
+      const result = await fetch(uploadUrl, {
+        method: "POST",
+        headers: { "Content-Type": contentType },
+        body: file,
+      });
+      if (!result.ok) {
+        throw new Error("Upload failed");
+      }
+      const { storageId } = await result.json();
+
+      const fileId = await registerUpload({
+        storageId,
+        fileName: file.name,
+        fileType: "caption",
+      });
+      await addCaptionTrack({
+        videoId,
+        fileId,
+        languageCode: language.code,
+        name: language.name,
+      });
+      setFile(null);
+      setFileInputKey((key) => key + 1);
+      toast.success(`${language.name} captions are being prepared`);
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to add captions"
+      );
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleGenerate = async () => {
+    setIsSubmitting(true);
+    try {
+      await requestGeneratedCaptions({
+        videoId,
+        languageCode: language.code,
+        name: `${language.name} (auto)`,
+      });
+      toast.success(`Generating ${language.name} captions`);
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to request captions"
+      );
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDelete = async (trackId: Id<"videoTracks">) => {
+    try {
+      await deleteCaptionTrack({ trackId });
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to delete captions"
+      );
+    }
+  };
+
+  return (
+    <div className="mt-6 space-y-4">
+      <h3 className="text-sm font-semibold">Captions</h3>
+      {tracks.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No captions yet</p>
+      ) : (
+        <ul className="divide-y rounded-md border">
+          {tracks.map((track) => {
+            const config = trackStatusConfig[track.status as TrackStatus];
+            return (
+              <li
+                key={track._id}
+                className="flex items-center justify-between gap-2 p-3"
+              >
+                <div className="min-w-0">
+                  <p className="truncate text-sm font-medium">
+                    {track.name}{" "}
+                    <span className="text-xs text-muted-foreground">
+                      {track.languageCode} ·{" "}
+                      {track.source === "generated" ? "auto" : "uploaded"}
+                    </span>
+                  </p>
+                  {track.status === "errored" && track.errorMessage && (
+                    <p className="mt-1 text-xs text-destructive">
+                      {track.errorMessage}
+                    </p>
+                  )}
+                </div>
+                <div className="flex shrink-0 items-center gap-2">
+                  <span
+                    className={`rounded-full px-2 py-1 text-xs font-medium ${config.className}`}
+                  >
+                    {config.label}
+                  </span>
+                  <Button
+                    variant="ghost"
+                    size="icon-sm"
+                    onClick={() => handleDelete(track._id)}
+                  >
+                    <Trash2 className="size-4 text-destructive" />
+                  </Button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      <form onSubmit={handleUpload} className="flex flex-wrap gap-2">
+        <select
+          value={languageCode}
+          onChange={(e) => setLanguageCode(e.target.value)}
+          className="h-9 rounded-md border bg-transparent px-3 text-sm"
+        >
+          {CAPTION_LANGUAGES.map((option) => (
+            <option key={option.code} value={option.code}>
+              {option.name}
+            </option>
+          ))}
+        </select>
+        <Input
+          key={fileInputKey}
+          type="file"
+          accept=".vtt,.srt"
+          onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+          disabled={isSubmitting}
+          className="max-w-xs"
+        />
+        <Button type="submit" disabled={isSubmitting || !file}>
+          Upload Captions
+        </Button>
+        <Button
+          type="button"
+          variant="outline"
+          onClick={handleGenerate}
+          disabled={isSubmitting || !language.canGenerate}
+          title={
+            language.canGenerate
+              ? undefined
+              : "Mux can't generate captions in this language"
+          }
+        >
+          Generate Captions
+        </Button>
+      </form>
+    </div>
+  );
+}
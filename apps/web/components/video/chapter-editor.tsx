@@ -0,0 +1,288 @@
+"use client";
+
+import { api } from "@convex/_generated/api";
+import type { Id } from "@convex/_generated/dataModel";
+import { useMutation, useQuery } from "convex/react";
+import type { FunctionReturnType } from "convex/server";
+import { Pencil, Trash2 } from "lucide-react";
+import { type FormEvent, useState } from "react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+
+type VideoChapter = FunctionReturnType<
+  typeof api.mux.chapters.listVideoChapters
+>[number];
+
+type ExerciseOption = { _id: Id<"exercises">; name: string };
+
+type ChapterEditorProps = {
+  videoId: Id<"videos">;
+  /** Player position, used as the start of new chapters */
+  currentTime: number;
+};
+
+function formatTime(seconds: number) {
+  const mins = Math.floor(seconds / 60);
+  const secs = Math.floor(seconds % 60);
+  return `${mins}:${secs.toString().padStart(2, "0")}`;
+}
+
+function getErrorMessage(error: unknown, fallback: string) {
+  return error instanceof Error ? error.message : fallback;
+}
+
+type ChapterFormValues = {
+  startTime: string;
+  title: string;
+  exerciseId: string;
+};
+
+type ChapterFieldsProps = {
+  values: ChapterFormValues;
+  exercises: ExerciseOption[];
+  disabled: boolean;
+  onChange: (values: ChapterFormValues) => void;
+};
+
+/**
+ * Start time (seconds), title and exercise inputs shared by the add and
+ * edit forms.
+ */
+function ChapterFields({
+  values,
+  exercises,
+  disabled,
+  onChange,
+}: ChapterFieldsProps) {
+  return (
+    <>
+      <Input
+        type="number"
+        min={0}
+        step={0.1}
+        placeholder="Seconds"
+        value={values.startTime}
+        onChange={(e) => onChange({ ...values, startTime: e.target.value })}
+        disabled={disabled}
+        className="w-28"
+      />
+      <Input
+        placeholder="Chapter title"
+        value={values.title}
+        onChange={(e) => onChange({ ...values, title: e.target.value })}
+        disabled={disabled}
+        className="max-w-xs"
+      />
+      {exercises.length > 0 && (
+        <select
+          value={values.exerciseId}
+          onChange={(e) => onChange({ ...values, exerciseId: e.target.value })}
+          disabled={disabled}
+          className="h-9 rounded-md border bg-transparent px-3 text-sm"
+        >
+          <option value="">No exercise</option>
+          {exercises.map((exercise) => (
+            <option key={exercise._id} value={exercise._id}>
+              {exercise.name}
+            </option>
+          ))}
+        </select>
+      )}
+    </>
+  );
+}
+
+type ChapterRowProps = {
+  chapter: VideoChapter;
+  exercises: ExerciseOption[];
+};
+
+/**
+ * One chapter with inline editing and deletion.
+ */
+function ChapterRow({ chapter, exercises }: ChapterRowProps) {
+  const updateChapter = useMutation(api.mux.chapters.updateChapter);
+  const deleteChapter = useMutation(api.mux.chapters.deleteChapter);
+
+  const [values, setValues] = useState<ChapterFormValues | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const startEditing = () =>
+    setValues({
+      startTime: String(chapter.startTime),
+      title: chapter.title,
+      exerciseId: chapter.exercise?._id ?? "",
+    });
+
+  const handleSave = async (event: FormEvent) => {
+    event.preventDefault();
+    if (!values) {
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      await updateChapter({
+        chapterId: chapter._id,
+        startTime: Number(values.startTime),
+        title: values.title,
+        exerciseId: (values.exerciseId as Id<"exercises">) || null,
+      });
+      setValues(null);
+    } catch (error) {
+      toast.error(getErrorMessage(error, "Failed to update chapter"));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    try {
+      await deleteChapter({ chapterId: chapter._id });
+    } catch (error) {
+      toast.error(getErrorMessage(error, "Failed to delete chapter"));
+    }
+  };
+
+  if (values) {
+    // Keep a linked public exercise selectable - it's not in the library
+    const linked = chapter.exercise;
+    const options =
+      linked && !exercises.some((exercise) => exercise._id === linked._id)
+        ? [...exercises, linked]
+        : exercises;
+
+    return (
+      <li className="p-3">
+        <form onSubmit={handleSave} className="flex flex-wrap gap-2">
+          <ChapterFields
+            values={values}
+            exercises={options}
+            disabled={isSubmitting}
+            onChange={setValues}
+          />
+          <Button type="submit" disabled={isSubmitting}>
+            Save
+          </Button>
+          <Button
+            type="button"
+            variant="ghost"
+            onClick={() => setValues(null)}
+            disabled={isSubmitting}
+          >
+            Cancel
+          </Button>
+        </form>
+      </li>
+    );
+  }
+
+  return (
+    <li className="flex items-center justify-between gap-2 p-3">
+      <p className="min-w-0 truncate text-sm">
+        <span className="text-xs tabular-nums text-muted-foreground">
+          {formatTime(chapter.startTime)}
+        </span>{" "}
+        <span className="font-medium">{chapter.title}</span>
+        {chapter.exercise && (
+          <span className="text-xs text-muted-foreground">
+            {" "}
+            · {chapter.exercise.name}
+          </span>
+        )}
+      </p>
+      <div className="flex shrink-0 items-center gap-1">
+        <Button variant="ghost" size="icon-sm" onClick={startEditing}>
+          <Pencil className="size-4" />
+        </Button>
+        <Button variant="ghost" size="icon-sm" onClick={handleDelete}>
+          <Trash2 className="size-4 text-destructive" />
+        </Button>
+      </div>
+    </li>
+  );
+}
+
+/**
+ * Chapter markers for the video owner: add chapters at the current player
+ * position (or a typed time), optionally linked to one of the coach's
+ * exercises, and edit or delete existing ones.
+ */
+export function ChapterEditor({ videoId, currentTime }: ChapterEditorProps) {
+  const video = useQuery(api.mux.queries.getVideoById, { videoId });
+  const chapters = useQuery(api.mux.chapters.listVideoChapters, { videoId });
+  const currentUser = useQuery(api.profiles.getCurrentUser, {
+    needImageUrl: false,
+  });
+  const exercises = useQuery(
+    api.exercises.listMyExercises,
+    currentUser?.profile?.role === "coach" ? {} : "skip"
+  );
+  const addChapter = useMutation(api.mux.chapters.addChapter);
+
+  const [values, setValues] = useState<ChapterFormValues>({
+    startTime: "",
+    title: "",
+    exerciseId: "",
+  });
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  if (!(video && chapters) || video.status !== "ready") {
+    return null;
+  }
+
+  // Empty start time = current player position
+  const startTime =
+    values.startTime.trim() === "" ? currentTime : Number(values.startTime);
+
+  const handleAdd = async (event: FormEvent) => {
+    event.preventDefault();
+
+    setIsSubmitting(true);
+    try {
+      await addChapter({
+        videoId,
+        startTime,
+        title: values.title,
+        exerciseId: (values.exerciseId as Id<"exercises">) || undefined,
+      });
+      setValues({ startTime: "", title: "", exerciseId: "" });
+    } catch (error) {
+      toast.error(getErrorMessage(error, "Failed to add chapter"));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="mt-6 space-y-4">
+      <h3 className="text-sm font-semibold">Chapters</h3>
+      {chapters.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No chapters yet</p>
+      ) : (
+        <ul className="divide-y rounded-md border">
+          {chapters.map((chapter) => (
+            <ChapterRow
+              key={chapter._id}
+              chapter={chapter}
+              exercises={exercises ?? []}
+            />
+          ))}
+        </ul>
+      )}
+
+      <form onSubmit={handleAdd} className="flex flex-wrap gap-2">
+        <ChapterFields
+          values={values}
+          exercises={exercises ?? []}
+          disabled={isSubmitting}
+          onChange={setValues}
+        />
+        <Button type="submit" disabled={isSubmitting || !values.title.trim()}>
+          Add Chapter at {formatTime(startTime)}
+        </Button>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,179 @@
+"use client";
+
+import { api } from "@convex/_generated/api";
+import type { Id } from "@convex/_generated/dataModel";
+import { useAction, useQuery } from "convex/react";
+import { type FormEvent, useState } from "react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+
+/** Default range: the first 30 seconds, the usual program trailer */
+const DEFAULT_CLIP_SECONDS = 30;
+
+type ClipCreatorProps = {
+  videoId: Id<"videos">;
+  /** Player position, used by "Set start" / "Set end" */
+  currentTime: number;
+  onVideoSelect?: (videoId: Id<"videos">) => void;
+};
+
+function formatTime(seconds: number) {
+  const mins = Math.floor(seconds / 60);
+  const secs = Math.floor(seconds % 60);
+  return `${mins}:${secs.toString().padStart(2, "0")}`;
+}
+
+function getErrorMessage(error: unknown, fallback: string) {
+  return error instanceof Error ? error.message : fallback;
+}
+
+/**
+ * Range picker for the video owner: cuts a new video (e.g. a trailer) from
+ * a start/end range of the video playing above, and lists the clips
+ * already cut from it.
+ */
+export function ClipCreator({
+  videoId,
+  currentTime,
+  onVideoSelect,
+}: ClipCreatorProps) {
+  const video = useQuery(api.mux.queries.getVideoById, { videoId });
+  const clips = useQuery(
+    api.mux.clips.listVideoClips,
+    video?.status === "ready" ? { videoId } : "skip"
+  );
+  const createClip = useAction(api.mux.actions.createClip);
+
+  const [startTime, setStartTime] = useState("0");
+  const [endTime, setEndTime] = useState(String(DEFAULT_CLIP_SECONDS));
+  const [title, setTitle] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  if (!video || video.status !== "ready") {
+    return null;
+  }
+
+  const duration = video.duration ?? 0;
+  const start = Number(startTime);
+  const end = Math.min(Number(endTime), duration);
+  const length = end - start;
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+    setIsSubmitting(true);
+    try {
+      await createClip({
+        videoId,
+        startTime: start,
+        endTime: end,
+        title: title || undefined,
+      });
+      setTitle("");
+      toast.success("Clip created - it will be ready after processing");
+    } catch (error) {
+      toast.error(getErrorMessage(error, "Failed to create clip"));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="mt-6 space-y-4">
+      <div>
+        <h3 className="text-sm font-semibold">Create Clip</h3>
+        <p className="mt-1 text-xs text-muted-foreground">
+          Cut a new video from part of this one, e.g. a trailer for a program.
+        </p>
+      </div>
+
+      <form onSubmit={handleSubmit} className="space-y-2">
+        <div className="flex flex-wrap items-center gap-2">
+          <Input
+            type="number"
+            min={0}
+            step={0.1}
+            aria-label="Clip start (seconds)"
+            value={startTime}
+            onChange={(e) => setStartTime(e.target.value)}
+            disabled={isSubmitting}
+            className="w-28"
+          />
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => setStartTime(currentTime.toFixed(1))}
+            disabled={isSubmitting}
+          >
+            Set Start
+          </Button>
+          <span className="text-sm text-muted-foreground">to</span>
+          <Input
+            type="number"
+            min={0}
+            step={0.1}
+            aria-label="Clip end (seconds)"
+            value={endTime}
+            onChange={(e) => setEndTime(e.target.value)}
+            disabled={isSubmitting}
+            className="w-28"
+          />
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => setEndTime(currentTime.toFixed(1))}
+            disabled={isSubmitting}
+          >
+            Set End
+          </Button>
+          <span className="text-xs text-muted-foreground">
+            {length > 0
+              ? `${formatTime(start)}–${formatTime(end)} (${formatTime(length)})`
+              : "End must be after start"}
+          </span>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <Input
+            placeholder={`${video.title} (Clip)`}
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            disabled={isSubmitting}
+            className="max-w-xs"
+          />
+          <Button type="submit" disabled={isSubmitting || length <= 0}>
+            {isSubmitting ? "Creating..." : "Create Clip"}
+          </Button>
+        </div>
+      </form>
+
+      {clips && clips.length > 0 && (
+        <ul className="space-y-1">
+          {clips.map((clip) => (
+            <li key={clip._id} className="flex items-center gap-2 text-sm">
+              <button
+                type="button"
+                onClick={() => onVideoSelect?.(clip._id)}
+                className="truncate hover:underline"
+              >
+                {clip.title}
+              </button>
+              {clip.clip && (
+                <span className="text-xs text-muted-foreground">
+                  {formatTime(clip.clip.startTime)}–
+                  {formatTime(clip.clip.endTime)}
+                </span>
+              )}
+              {clip.status !== "ready" && (
+                <span className="text-xs text-muted-foreground capitalize">
+                  {clip.status}
+                </span>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
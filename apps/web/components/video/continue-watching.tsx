@@ -0,0 +1,89 @@
+"use client";
+
+import { api } from "@convex/_generated/api";
+import type { Id } from "@convex/_generated/dataModel";
+import { useMutation, useQuery } from "convex/react";
+import { X } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+
+type ContinueWatchingProps = {
+  onVideoSelect: (videoId: Id<"videos">) => void;
+};
+
+function formatTime(seconds: number) {
+  const mins = Math.floor(seconds / 60);
+  const secs = Math.floor(seconds % 60);
+  return `${mins}:${secs.toString().padStart(2, "0")}`;
+}
+
+/**
+ * Videos the user started but hasn't finished, most recently watched
+ * first. Selecting one opens it in the player, which resumes where they
+ * left off.
+ */
+export function ContinueWatching({ onVideoSelect }: ContinueWatchingProps) {
+  const entries = useQuery(api.mux.progress.listContinueWatching, {});
+  const resetProgress = useMutation(api.mux.progress.resetVideoProgress);
+
+  if (!entries || entries.length === 0) {
+    return null;
+  }
+
+  const handleRemove = async (videoId: Id<"videos">) => {
+    try {
+      await resetProgress({ videoId });
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to remove video"
+      );
+    }
+  };
+
+  return (
+    <div>
+      <h2 className="mb-4 text-lg font-semibold">Continue Watching</h2>
+      <ul className="grid gap-3 sm:grid-cols-2 lg:grid-cols-3">
+        {entries.map((entry) => {
+          const duration = entry.video.duration ?? 0;
+          const percent =
+            duration > 0 ? Math.min((entry.position / duration) * 100, 100) : 0;
+
+          return (
+            <li
+              key={entry._id}
+              className="flex items-start gap-2 rounded-lg border bg-card p-3"
+            >
+              <button
+                type="button"
+                onClick={() => onVideoSelect(entry.videoId)}
+                className="min-w-0 flex-1 text-left"
+              >
+                <p className="truncate text-sm font-medium">
+                  {entry.video.title}
+                </p>
+                <p className="mt-1 text-xs text-muted-foreground">
+                  {formatTime(entry.position)} of {formatTime(duration)}
+                </p>
+                <div className="mt-2 h-1 overflow-hidden rounded-full bg-muted">
+                  <div
+                    className="h-full bg-primary"
+                    style={{ width: `${percent}%` }}
+                  />
+                </div>
+              </button>
+              <Button
+                variant="ghost"
+                size="icon-sm"
+                aria-label="Remove from Continue Watching"
+                onClick={() => handleRemove(entry.videoId)}
+              >
+                <X className="size-4" />
+              </Button>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
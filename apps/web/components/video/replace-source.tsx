@@ -0,0 +1,158 @@
+"use client";
+
+import { api } from "@convex/_generated/api";
+import type { Id } from "@convex/_generated/dataModel";
+import MuxUploader from "@mux/mux-uploader-react";
+import { useAction, useMutation, useQuery } from "convex/react";
+import { useState } from "react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+
+type ReplaceSourceProps = {
+  videoId: Id<"videos">;
+};
+
+function getErrorMessage(error: unknown, fallback: string) {
+  return error instanceof Error ? error.message : fallback;
+}
+
+/**
+ * Re-upload for the video owner: replaces the video's source while its
+ * workouts, exercises and profiles keep pointing at it. The current
+ * version keeps playing until the new one is ready.
+ */
+export function ReplaceSource({ videoId }: ReplaceSourceProps) {
+  const video = useQuery(api.mux.queries.getVideoById, { videoId });
+  const createReplacementUpload = useAction(
+    api.mux.actions.createReplacementUpload
+  );
+  const cancelReplacement = useMutation(api.mux.replace.cancelReplacement);
+
+  const [uploadUrl, setUploadUrl] = useState<string | null>(null);
+  const [isConfirming, setIsConfirming] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  if (!video || (video.status !== "ready" && !video.replacement)) {
+    return null;
+  }
+
+  const { replacement } = video;
+
+  const handleStart = async () => {
+    setIsSubmitting(true);
+    try {
+      const result = await createReplacementUpload({ videoId });
+      setUploadUrl(result.uploadUrl);
+      setIsConfirming(false);
+    } catch (error) {
+      toast.error(getErrorMessage(error, "Failed to start replacement"));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleCancel = async () => {
+    setIsSubmitting(true);
+    try {
+      await cancelReplacement({ videoId });
+      setUploadUrl(null);
+    } catch (error) {
+      toast.error(getErrorMessage(error, "Failed to cancel replacement"));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const canStart = !replacement || replacement.status === "error";
+
+  return (
+    <div className="mt-6 space-y-4">
+      <div>
+        <h3 className="text-sm font-semibold">Replace Video</h3>
+        <p className="mt-1 text-xs text-muted-foreground">
+          Upload a new version - links from workouts, exercises and your profile
+          stay the same.
+        </p>
+      </div>
+
+      {replacement?.status === "waiting_for_upload" && uploadUrl && (
+        <div className="rounded-lg border bg-card p-4">
+          <MuxUploader
+            endpoint={uploadUrl}
+            onSuccess={() => setUploadUrl(null)}
+          />
+        </div>
+      )}
+
+      {replacement?.status === "waiting_for_upload" && !uploadUrl && (
+        <p className="text-sm text-muted-foreground">
+          Waiting for the new version to be uploaded...
+        </p>
+      )}
+
+      {replacement?.status === "processing" && (
+        <p className="text-sm text-muted-foreground">
+          Processing the new version - the current one keeps playing until it's
+          ready.
+        </p>
+      )}
+
+      {replacement?.status === "error" && (
+        <div className="rounded-md bg-destructive/10 p-3 text-sm text-destructive">
+          Replacement failed: {replacement.errorMessage ?? "Unknown error"}
+        </div>
+      )}
+
+      {canStart && isConfirming && (
+        <div className="space-y-2 rounded-md border p-3 text-sm">
+          <p>Once the new version is ready, it replaces the current one:</p>
+          <ul className="list-disc space-y-1 pl-5 text-muted-foreground">
+            <li>
+              Uploaded captions are added to it again and generated captions are
+              regenerated - they are unavailable while processing
+            </li>
+            <li>Chapters that start after its end are deleted</li>
+            <li>
+              A chosen thumbnail frame after its end goes back to the default
+            </li>
+          </ul>
+        </div>
+      )}
+
+      <div className="flex flex-wrap gap-2">
+        {canStart && isConfirming && (
+          <>
+            <Button onClick={handleStart} disabled={isSubmitting}>
+              Continue
+            </Button>
+            <Button
+              variant="ghost"
+              onClick={() => setIsConfirming(false)}
+              disabled={isSubmitting}
+            >
+              Back
+            </Button>
+          </>
+        )}
+        {canStart && !isConfirming && (
+          <Button
+            variant="outline"
+            onClick={() => setIsConfirming(true)}
+            disabled={isSubmitting}
+          >
+            {replacement ? "Try Again" : "Upload New Version"}
+          </Button>
+        )}
+        {replacement && (
+          <Button
+            variant="ghost"
+            onClick={handleCancel}
+            disabled={isSubmitting}
+          >
+            {replacement.status === "error" ? "Dismiss" : "Cancel Replacement"}
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
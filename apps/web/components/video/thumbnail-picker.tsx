@@ -0,0 +1,169 @@
+"use client";
+
+import { api } from "@convex/_generated/api";
+import type { Doc, Id } from "@convex/_generated/dataModel";
+import { useMutation, useQuery } from "convex/react";
+import { type FormEvent, useState } from "react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+
+type ThumbnailPickerProps = {
+  videoId: Id<"videos">;
+  /** Player position, offered as "Use Current Frame" */
+  currentTime: number;
+};
+
+function formatTime(seconds: number) {
+  const mins = Math.floor(seconds / 60);
+  const secs = (seconds % 60).toFixed(1).padStart(4, "0");
+  return `${mins}:${secs}`;
+}
+
+function getErrorMessage(error: unknown, fallback: string) {
+  return error instanceof Error ? error.message : fallback;
+}
+
+function describeChoice(
+  video: Pick<Doc<"videos">, "thumbnailFileId" | "thumbnailTime">
+) {
+  if (video.thumbnailFileId) {
+    return "Uploaded image";
+  }
+  if (video.thumbnailTime !== undefined) {
+    return `Frame at ${formatTime(video.thumbnailTime)}`;
+  }
+  return "Middle frame (default)";
+}
+
+/**
+ * Thumbnail choice for the video owner: a frame of the video (the current
+ * player position or a typed timestamp) or an uploaded image.
+ */
+export function ThumbnailPicker({
+  videoId,
+  currentTime,
+}: ThumbnailPickerProps) {
+  const video = useQuery(api.mux.queries.getVideoById, { videoId });
+  const setThumbnailTime = useMutation(api.mux.mutations.setThumbnailTime);
+  const setThumbnailImage = useMutation(api.mux.mutations.setThumbnailImage);
+  const generateUploadUrl = useMutation(api.files.generateUploadUrl);
+  const registerUpload = useMutation(api.files.registerUpload);
+
+  const [seconds, setSeconds] = useState("");
+  const [file, setFile] = useState<File | null>(null);
+  const [fileInputKey, setFileInputKey] = useState(0);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  if (!video || video.status !== "ready") {
+    return null;
+  }
+
+  const chooseTime = async (time: number) => {
+    setIsSubmitting(true);
+    try {
+      await setThumbnailTime({ videoId, time });
+      setSeconds("");
+      toast.success(`Thumbnail set to ${formatTime(time)}`);
+    } catch (error) {
+      toast.error(getErrorMessage(error, "Failed to set thumbnail"));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleTimeSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+    const time = Number(seconds);
+    if (seconds.trim() === "" || Number.isNaN(time)) {
+      toast.error("Enter the thumbnail time in seconds");
+      return;
+    }
+    await chooseTime(time);
+  };
+
+  const handleImageSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+    if (!file) {
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const uploadUrl = await generateUploadUrl();
+      const result = await fetch(uploadUrl, {
+        method: "POST",
+        headers: { "Content-Type": file.type },
+        body: file,
+      });
+      if (!result.ok) {
+        throw new Error("Upload failed");
+      }
+      const { storageId } = await result.json();
+
+      const fileId = await registerUpload({
+        storageId,
+        fileName: file.name,
+        fileType: "thumbnail",
+      });
+      await setThumbnailImage({ videoId, fileId });
+      setFile(null);
+      setFileInputKey((key) => key + 1);
+      toast.success("Thumbnail image uploaded");
+    } catch (error) {
+      toast.error(getErrorMessage(error, "Failed to upload thumbnail"));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="mt-6 space-y-4">
+      <div>
+        <h3 className="text-sm font-semibold">Thumbnail</h3>
+        <p className="mt-1 text-xs text-muted-foreground">
+          {describeChoice(video)}
+        </p>
+      </div>
+
+      <form onSubmit={handleTimeSubmit} className="flex flex-wrap gap-2">
+        <Button
+          type="button"
+          variant="outline"
+          onClick={() => chooseTime(currentTime)}
+          disabled={isSubmitting}
+        >
+          Use Current Frame ({formatTime(currentTime)})
+        </Button>
+        <Input
+          type="number"
+          min={0}
+          max={video.duration}
+          step={0.1}
+          placeholder="Seconds"
+          value={seconds}
+          onChange={(e) => setSeconds(e.target.value)}
+          disabled={isSubmitting}
+          className="w-28"
+        />
+        <Button type="submit" variant="outline" disabled={isSubmitting}>
+          Set Time
+        </Button>
+      </form>
+
+      <form onSubmit={handleImageSubmit} className="flex flex-wrap gap-2">
+        <Input
+          key={fileInputKey}
+          type="file"
+          accept="image/jpeg,image/png,image/webp"
+          onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+          disabled={isSubmitting}
+          className="max-w-xs"
+        />
+        <Button type="submit" disabled={isSubmitting || !file}>
+          Upload Image
+        </Button>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,51 @@
+"use client";
+
+import type { api } from "@convex/_generated/api";
+import type { FunctionReturnType } from "convex/server";
+
+type VideoUsage = FunctionReturnType<typeof api.mux.usage.getVideoUsage>;
+
+type UploadUsageProps = {
+  usage: VideoUsage;
+};
+
+function formatMinutes(seconds: number) {
+  return `${Math.round(seconds / 60)} min`;
+}
+
+function formatLimit(used: string, limit: string | null) {
+  return limit === null ? used : `${used} / ${limit}`;
+}
+
+/**
+ * The current user's upload usage against their plan's limits, and why
+ * no further upload can be started (if so).
+ */
+export function UploadUsage({ usage: summary }: UploadUsageProps) {
+  const { usage, limits } = summary;
+
+  return (
+    <div className="mb-4 space-y-2">
+      <p className="text-xs text-muted-foreground">
+        <span className="capitalize">{summary.plan}</span> plan ·{" "}
+        {formatLimit(
+          String(usage.videoCount),
+          limits.maxVideos === null ? null : String(limits.maxVideos)
+        )}{" "}
+        videos ·{" "}
+        {formatLimit(
+          formatMinutes(usage.totalDuration),
+          limits.maxTotalDuration === null
+            ? null
+            : formatMinutes(limits.maxTotalDuration)
+        )}{" "}
+        · {usage.pendingUploadCount} in progress
+      </p>
+      {summary.blockedReason && (
+        <div className="rounded-md bg-destructive/10 p-3 text-sm text-destructive">
+          {summary.blockedReason}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,10 +1,11 @@
 "use client";
 
 import { api } from "@convex/_generated/api";
-import type { Id } from "@convex/_generated/dataModel";
-import { useMutation, useQuery } from "convex/react";
+import type { Doc, Id } from "@convex/_generated/dataModel";
+import { useAction, useMutation, useQuery } from "convex/react";
+import type { FunctionReturnType } from "convex/server";
 import { Trash2 } from "lucide-react";
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -17,6 +18,7 @@ import {
 } from "@/components/ui/alert-dialog";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
+import { TrackStatusBadges } from "@/components/video/caption-tracks";
 
 type VideoStatus =
   | "waiting_for_upload"
@@ -55,17 +57,215 @@ const statusConfig = {
   },
 };
 
+/** Shown beside the status while the video's source is being replaced */
+const replacementConfig = {
+  inProgress: {
+    label: "Replacing…",
+    className: "bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-100",
+  },
+  error: {
+    label: "Replacement failed",
+    className: "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-100",
+  },
+};
+
+type VideoPreview = FunctionReturnType<
+  typeof api.mux.actions.getVideoPreviews
+>[number];
+
+// Fetch fresh preview URLs this long before signed ones expire
+const PREVIEW_REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+/**
+ * Loads thumbnail and animated preview URLs for the ready videos - again
+ * when one of them changes (e.g. a new thumbnail) and before signed URLs
+ * expire.
+ */
+function useVideoPreviews(
+  videos: Pick<Doc<"videos">, "_id" | "status" | "updatedAt">[] | undefined
+) {
+  const getVideoPreviews = useAction(api.mux.actions.getVideoPreviews);
+  const [previews, setPreviews] = useState<Record<string, VideoPreview>>({});
+
+  // Stable dependency: changes only when a ready video is added or updated
+  const readyKey = (videos ?? [])
+    .filter((video) => video.status === "ready")
+    .map((video) => `${video._id}:${video.updatedAt}`)
+    .join(",");
+
+  useEffect(() => {
+    if (!readyKey) {
+      setPreviews({});
+      return;
+    }
+
+    const videoIds = readyKey
+      .split(",")
+      .map((entry) => entry.split(":")[0] as Id<"videos">);
+    let cancelled = false;
+    let refreshTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const load = () => {
+      getVideoPreviews({ videoIds })
+        .then((result) => {
+          if (cancelled) {
+            return;
+          }
+          setPreviews(
+            Object.fromEntries(
+              result.map((preview) => [preview.videoId, preview])
+            )
+          );
+          const expiries = result
+            .map((preview) => preview.expiresAt)
+            .filter((expiresAt) => expiresAt !== null);
+          if (expiries.length > 0) {
+            const delay =
+              Math.min(...expiries) - Date.now() - PREVIEW_REFRESH_MARGIN_MS;
+            refreshTimer = setTimeout(load, Math.max(delay, 0));
+          }
+        })
+        .catch((err: unknown) => {
+          if (!cancelled) {
+            console.error("Failed to load video previews:", err);
+          }
+        });
+    };
+    load();
+
+    return () => {
+      cancelled = true;
+      clearTimeout(refreshTimer);
+    };
+  }, [readyKey, getVideoPreviews]);
+
+  return previews;
+}
+
+type VideoThumbnailProps = {
+  video: Pick<
+    Doc<"videos">,
+    "status" | "title" | "thumbnailUrl" | "replacement"
+  >;
+  preview?: VideoPreview;
+  onSelect: () => void;
+};
+
+/**
+ * Chosen thumbnail, replaced by the animated preview while hovered.
+ */
+function VideoThumbnail({ video, preview, onSelect }: VideoThumbnailProps) {
+  const [isHovered, setIsHovered] = useState(false);
+  const config = statusConfig[video.status as VideoStatus];
+  const replacement =
+    video.replacement &&
+    replacementConfig[
+      video.replacement.status === "error" ? "error" : "inProgress"
+    ];
+  const thumbnailUrl = preview?.thumbnailUrl ?? video.thumbnailUrl;
+
+  return (
+    <button
+      type="button"
+      className="relative aspect-video w-full cursor-pointer bg-muted"
+      onClick={onSelect}
+      onMouseEnter={() => setIsHovered(true)}
+      onMouseLeave={() => setIsHovered(false)}
+      onFocus={() => setIsHovered(true)}
+      onBlur={() => setIsHovered(false)}
+    >
+      {thumbnailUrl && video.status === "ready" ? (
+        <img
+          width={100}
+          height={100}
+          src={thumbnailUrl}
+          alt={video.title}
+          className="h-full w-full object-cover"
+        />
+      ) : (
+        <div className="flex h-full items-center justify-center">
+          <span className="text-xs text-muted-foreground">{config.label}</span>
+        </div>
+      )}
+
+      {/* Animated preview - only loaded while hovered */}
+      {isHovered && preview && (
+        <img
+          width={100}
+          height={100}
+          src={preview.animatedPreviewUrl}
+          alt=""
+          className="absolute inset-0 h-full w-full object-cover"
+        />
+      )}
+
+      {/* Status Badges */}
+      <div className="absolute right-2 top-2 flex gap-1">
+        {replacement && (
+          <span
+            className={`rounded-full px-2 py-1 text-xs font-medium ${replacement.className}`}
+          >
+            {replacement.label}
+          </span>
+        )}
+        <span
+          className={`rounded-full px-2 py-1 text-xs font-medium ${config.className}`}
+        >
+          {config.label}
+        </span>
+      </div>
+    </button>
+  );
+}
+
+function formatTime(seconds: number): string {
+  const mins = Math.floor(seconds / 60);
+  const secs = Math.floor(seconds % 60);
+  return `${mins}:${secs.toString().padStart(2, "0")}`;
+}
+
 function formatDuration(seconds?: number): string {
   if (!seconds) {
     return "—";
   }
-  const mins = Math.floor(seconds / 60);
-  const secs = Math.floor(seconds % 60);
-  return `${mins}:${secs.toString().padStart(2, "0")}`;
+  return formatTime(seconds);
+}
+
+type ClipSourceProps = {
+  clip: NonNullable<Doc<"videos">["clip"]>;
+  source?: Pick<Doc<"videos">, "_id" | "title">;
+  onVideoSelect?: (videoId: Id<"videos">) => void;
+};
+
+/**
+ * The video and range a clip was cut from, linking to the source when it's
+ * in the list.
+ */
+function ClipSource({ clip, source, onVideoSelect }: ClipSourceProps) {
+  const range = `${formatTime(clip.startTime)}–${formatTime(clip.endTime)}`;
+
+  return (
+    <p className="mt-1 truncate text-xs text-muted-foreground">
+      Clip of{" "}
+      {source ? (
+        <button
+          type="button"
+          onClick={() => onVideoSelect?.(source._id)}
+          className="font-medium hover:underline"
+        >
+          {source.title}
+        </button>
+      ) : (
+        "another video"
+      )}{" "}
+      ({range})
+    </p>
+  );
 }
 
 export function VideoList({ status, onVideoSelect }: VideoListProps) {
   const videos = useQuery(api.mux.queries.listUserVideos, { status });
+  const previews = useVideoPreviews(videos);
   const deleteVideo = useMutation(api.mux.mutations.deleteVideo);
 
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
@@ -114,46 +314,13 @@ export function VideoList({ status, onVideoSelect }: VideoListProps) {
     <>
       <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
         {videos.map((video: (typeof videos)[number]) => {
-          const config = statusConfig[video.status as VideoStatus];
-
           return (
             <Card key={video._id} className="overflow-hidden">
-              {/* Thumbnail */}
-              <button
-                type="button"
-                className="relative aspect-video cursor-pointer bg-muted"
-                onClick={() => onVideoSelect?.(video._id)}
-                onKeyDown={(e) => {
-                  if (e.key === "Enter" || e.key === " ") {
-                    onVideoSelect?.(video._id);
-                  }
-                }}
-              >
-                {video.thumbnailUrl && video.status === "ready" ? (
-                  <img
-                    width={100}
-                    height={100}
-                    src={video.thumbnailUrl}
-                    alt={video.title}
-                    className="h-full w-full object-cover"
-                  />
-                ) : (
-                  <div className="flex h-full items-center justify-center">
-                    <span className="text-xs text-muted-foreground">
-                      {config.label}
-                    </span>
-                  </div>
-                )}
-
-                {/* Status Badge */}
-                <div className="absolute right-2 top-2">
-                  <span
-                    className={`rounded-full px-2 py-1 text-xs font-medium ${config.className}`}
-                  >
-                    {config.label}
-                  </span>
-                </div>
-              </button>
+              <VideoThumbnail
+                video={video}
+                preview={previews[video._id]}
+                onSelect={() => onVideoSelect?.(video._id)}
+              />
 
               {/* Info */}
               <div className="p-4">
@@ -167,10 +334,22 @@ export function VideoList({ status, onVideoSelect }: VideoListProps) {
                         {video.description}
                       </p>
                     )}
+                    {video.clip && (
+                      <ClipSource
+                        clip={video.clip}
+                        source={videos.find(
+                          (other) => other._id === video.clip?.sourceVideoId
+                        )}
+                        onVideoSelect={onVideoSelect}
+                      />
+                    )}
                     <div className="mt-2 flex items-center gap-4 text-xs text-muted-foreground">
                       <span>{formatDuration(video.duration)}</span>
                       {video.aspectRatio && <span>{video.aspectRatio}</span>}
                     </div>
+                    {video.status === "ready" && (
+                      <TrackStatusBadges videoId={video._id} />
+                    )}
                   </div>
 
                   <Button
@@ -2,15 +2,413 @@
 
 import { api } from "@convex/_generated/api";
 import type { Id } from "@convex/_generated/dataModel";
-import MuxPlayer from "@mux/mux-player-react";
-import { useQuery } from "convex/react";
+import MuxPlayer, { type MuxPlayerRefAttributes } from "@mux/mux-player-react";
+import { useAction, useMutation, useQuery } from "convex/react";
+import type { FunctionReturnType } from "convex/server";
+import { type RefObject, useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
 
 type VideoPlayerProps = {
   videoId: Id<"videos">;
+  onTimeUpdate?: (currentTime: number) => void;
+  /** Opens another video, e.g. the demo of a chapter's exercise */
+  onVideoSelect?: (videoId: Id<"videos">) => void;
 };
 
-export function VideoPlayer({ videoId }: VideoPlayerProps) {
+type PlaybackGrant = FunctionReturnType<
+  typeof api.mux.actions.getPlaybackTokens
+>;
+
+type VideoTrack = FunctionReturnType<
+  typeof api.mux.tracks.listVideoTracks
+>[number];
+
+type VideoChapter = FunctionReturnType<
+  typeof api.mux.chapters.listVideoChapters
+>[number];
+
+// Fetch fresh tokens this long before the current ones expire
+const TOKEN_REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+function getRefreshDelay(expiresAt: number) {
+  return Math.max(expiresAt - Date.now() - TOKEN_REFRESH_MARGIN_MS, 0);
+}
+
+/**
+ * Requests signed playback tokens for a video (and refreshes them before
+ * they expire) while `enabled` is true - again when its playback ID
+ * changes, e.g. after its source was replaced.
+ */
+function usePlaybackTokens(
+  videoId: Id<"videos">,
+  playbackId: string | undefined,
+  enabled: boolean
+) {
+  const getPlaybackTokens = useAction(api.mux.actions.getPlaybackTokens);
+  const [grant, setGrant] = useState<PlaybackGrant | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setGrant(null);
+    setError(null);
+    if (!(enabled && playbackId)) {
+      return;
+    }
+
+    let cancelled = false;
+    let refreshTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const load = () => {
+      getPlaybackTokens({ videoId })
+        .then((result) => {
+          if (cancelled) {
+            return;
+          }
+          setGrant(result);
+          if (result.expiresAt) {
+            refreshTimer = setTimeout(load, getRefreshDelay(result.expiresAt));
+          }
+        })
+        .catch((err: unknown) => {
+          if (!cancelled) {
+            setError(
+              err instanceof Error ? err.message : "Failed to load video"
+            );
+          }
+        });
+    };
+    load();
+
+    return () => {
+      cancelled = true;
+      clearTimeout(refreshTimer);
+    };
+  }, [videoId, playbackId, enabled, getPlaybackTokens]);
+
+  return { grant, error };
+}
+
+type CaptionMenuProps = {
+  videoId: Id<"videos">;
+  playerRef: RefObject<MuxPlayerRefAttributes | null>;
+};
+
+/**
+ * Lists the video's ready caption tracks. Mux serves them with the stream
+ * (named after the track); picking one shows the matching player text track.
+ */
+function CaptionMenu({ videoId, playerRef }: CaptionMenuProps) {
+  const tracks = useQuery(api.mux.tracks.listVideoTracks, { videoId });
+  const readyTracks = (tracks ?? []).filter(
+    (track) => track.status === "ready"
+  );
+  const [activeTrackId, setActiveTrackId] = useState<string | null>(null);
+
+  const showTrack = (track: VideoTrack | null) => {
+    const textTracks = Array.from(playerRef.current?.textTracks ?? []);
+    for (const textTrack of textTracks) {
+      if (textTrack.kind !== "subtitles" && textTrack.kind !== "captions") {
+        continue;
+      }
+      const isMatch =
+        track !== null &&
+        textTrack.language === track.languageCode &&
+        textTrack.label === track.name;
+      textTrack.mode = isMatch ? "showing" : "disabled";
+    }
+    setActiveTrackId(track?._id ?? null);
+  };
+
+  if (readyTracks.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 pt-3">
+      <span className="text-xs text-muted-foreground">Captions</span>
+      <Button
+        size="sm"
+        variant={activeTrackId === null ? "secondary" : "ghost"}
+        onClick={() => showTrack(null)}
+      >
+        Off
+      </Button>
+      {readyTracks.map((track) => (
+        <Button
+          key={track._id}
+          size="sm"
+          variant={activeTrackId === track._id ? "secondary" : "ghost"}
+          onClick={() => showTrack(track)}
+        >
+          {track.name}
+        </Button>
+      ))}
+    </div>
+  );
+}
+
+function formatTime(seconds: number) {
+  const mins = Math.floor(seconds / 60);
+  const secs = Math.floor(seconds % 60);
+  return `${mins}:${secs.toString().padStart(2, "0")}`;
+}
+
+/**
+ * Replaces the player's chapters (addChapters only appends cues).
+ */
+function syncPlayerChapters(
+  player: MuxPlayerRefAttributes,
+  chapters: VideoChapter[]
+) {
+  for (const textTrack of Array.from(player.textTracks ?? [])) {
+    if (textTrack.kind !== "chapters") {
+      continue;
+    }
+    for (const cue of Array.from(textTrack.cues ?? [])) {
+      textTrack.removeCue(cue);
+    }
+  }
+
+  player.addChapters(
+    chapters.map((chapter) => ({
+      startTime: chapter.startTime,
+      value: chapter.title,
+    }))
+  );
+}
+
+// Save watch progress at most this often during playback
+const PROGRESS_SAVE_INTERVAL_MS = 15 * 1000;
+
+// Longer steps between time updates are seeks, not playback
+const MAX_PLAYBACK_STEP_SECONDS = 2;
+
+type WatchProgressProps = {
+  videoId: Id<"videos">;
+  playerRef: RefObject<MuxPlayerRefAttributes | null>;
+};
+
+/**
+ * Resumes playback from the viewer's saved position, then saves their
+ * progress while they watch - periodically during playback and when
+ * playback seeks, pauses, ends or the player closes.
+ */
+function WatchProgress({ videoId, playerRef }: WatchProgressProps) {
+  const progress = useQuery(api.mux.progress.getVideoProgress, { videoId });
+  const saveProgress = useMutation(api.mux.progress.saveVideoProgress);
+  const [resumedFrom, setResumedFrom] = useState<number | null>(null);
+  const resumedVideoRef = useRef<Id<"videos"> | null>(null);
+
+  const isProgressLoaded = progress !== undefined;
+  const resumePosition = progress?.resumePosition ?? 0;
+
+  // Resume once per video, as soon as the player can seek
+  useEffect(() => {
+    const player = playerRef.current;
+    if (!(player && isProgressLoaded) || resumedVideoRef.current === videoId) {
+      return;
+    }
+    resumedVideoRef.current = videoId;
+    if (resumePosition <= 0) {
+      return;
+    }
+
+    const resume = () => {
+      player.currentTime = resumePosition;
+      setResumedFrom(resumePosition);
+    };
+    if (player.readyState > 0) {
+      resume();
+      return;
+    }
+    player.addEventListener("loadedmetadata", resume, { once: true });
+    return () => player.removeEventListener("loadedmetadata", resume);
+  }, [videoId, isProgressLoaded, resumePosition, playerRef]);
+
+  useEffect(() => {
+    const player = playerRef.current;
+    if (!player) {
+      return;
+    }
+
+    let lastTime = player.currentTime;
+    let lastSavedPosition = player.currentTime;
+    let watchedSeconds = 0;
+
+    const save = (position: number) => {
+      if (watchedSeconds === 0 && Math.abs(position - lastSavedPosition) < 1) {
+        return;
+      }
+      saveProgress({ videoId, position, watchedSeconds }).catch(() => {
+        // Best effort - the next save sends the current position again
+      });
+      lastSavedPosition = position;
+      watchedSeconds = 0;
+    };
+    const saveCurrent = () => save(player.currentTime);
+
+    const handleTimeUpdate = () => {
+      const step = player.currentTime - lastTime;
+      lastTime = player.currentTime;
+      if (!player.paused && step > 0 && step <= MAX_PLAYBACK_STEP_SECONDS) {
+        watchedSeconds += step;
+      }
+    };
+    // The played seconds so far end where the seek started
+    const handleSeeking = () => save(lastTime);
+    const handleSeeked = () => {
+      lastTime = player.currentTime;
+    };
+
+    const saveTimer = setInterval(saveCurrent, PROGRESS_SAVE_INTERVAL_MS);
+    player.addEventListener("timeupdate", handleTimeUpdate);
+    player.addEventListener("seeking", handleSeeking);
+    player.addEventListener("seeked", handleSeeked);
+    player.addEventListener("pause", saveCurrent);
+    player.addEventListener("ended", saveCurrent);
+    return () => {
+      clearInterval(saveTimer);
+      player.removeEventListener("timeupdate", handleTimeUpdate);
+      player.removeEventListener("seeking", handleSeeking);
+      player.removeEventListener("seeked", handleSeeked);
+      player.removeEventListener("pause", saveCurrent);
+      player.removeEventListener("ended", saveCurrent);
+      saveCurrent();
+    };
+  }, [videoId, playerRef, saveProgress]);
+
+  if (resumedFrom === null) {
+    return null;
+  }
+
+  const startOver = () => {
+    if (playerRef.current) {
+      playerRef.current.currentTime = 0;
+    }
+    setResumedFrom(null);
+  };
+
+  return (
+    <div className="flex items-center gap-2 pt-3">
+      <span className="text-xs text-muted-foreground">
+        Resumed from {formatTime(resumedFrom)}
+      </span>
+      <Button size="sm" variant="ghost" onClick={startOver}>
+        Start over
+      </Button>
+    </div>
+  );
+}
+
+type ChapterListProps = {
+  videoId: Id<"videos">;
+  playerRef: RefObject<MuxPlayerRefAttributes | null>;
+  onVideoSelect?: (videoId: Id<"videos">) => void;
+};
+
+/**
+ * Passes the video's chapters to the Mux player (timeline markers and
+ * chapter menu) and lists them beside the video. Chapters linked to an
+ * exercise can open its demo video.
+ */
+function ChapterList({ videoId, playerRef, onVideoSelect }: ChapterListProps) {
+  const chapters = useQuery(api.mux.chapters.listVideoChapters, { videoId });
+  const [activeStartTime, setActiveStartTime] = useState<number | null>(null);
+
+  useEffect(() => {
+    const player = playerRef.current;
+    if (!(player && chapters)) {
+      return;
+    }
+
+    // Chapters can only be added once the media loaded - again after a
+    // source change
+    const sync = () => syncPlayerChapters(player, chapters);
+    const handleChapterChange = () =>
+      setActiveStartTime(player.activeChapter?.startTime ?? null);
+
+    sync();
+    player.addEventListener("loadedmetadata", sync);
+    player.addEventListener("chapterchange", handleChapterChange);
+    return () => {
+      player.removeEventListener("loadedmetadata", sync);
+      player.removeEventListener("chapterchange", handleChapterChange);
+    };
+  }, [chapters, playerRef]);
+
+  if (!chapters || chapters.length === 0) {
+    return null;
+  }
+
+  const seekTo = (startTime: number) => {
+    const player = playerRef.current;
+    if (!player) {
+      return;
+    }
+    player.currentTime = startTime;
+    player.play()?.catch(() => {
+      // Autoplay blocked - the player stays at the chapter start
+    });
+  };
+
+  return (
+    <div className="shrink-0 lg:w-64">
+      <h3 className="mb-2 text-sm font-semibold">Chapters</h3>
+      <ol className="divide-y rounded-md border">
+        {chapters.map((chapter) => {
+          const demoVideoId = chapter.exercise?.demoVideoId;
+          return (
+            <li key={chapter._id} className="p-2">
+              <button
+                type="button"
+                onClick={() => seekTo(chapter.startTime)}
+                className={`flex w-full items-baseline gap-2 rounded px-1 text-left text-sm hover:bg-muted ${
+                  activeStartTime === chapter.startTime ? "font-medium" : ""
+                }`}
+              >
+                <span className="text-xs tabular-nums text-muted-foreground">
+                  {formatTime(chapter.startTime)}
+                </span>
+                <span className="min-w-0 truncate">{chapter.title}</span>
+              </button>
+              {chapter.exercise && demoVideoId && onVideoSelect ? (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="mt-1 h-7 px-1 text-xs"
+                  onClick={() => onVideoSelect(demoVideoId)}
+                >
+                  Watch {chapter.exercise.name} demo
+                </Button>
+              ) : (
+                chapter.exercise && (
+                  <p className="mt-1 px-1 text-xs text-muted-foreground">
+                    {chapter.exercise.name}
+                  </p>
+                )
+              )}
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+}
+
+export function VideoPlayer({
+  videoId,
+  onTimeUpdate,
+  onVideoSelect,
+}: VideoPlayerProps) {
   const video = useQuery(api.mux.queries.getVideoById, { videoId });
+  const isSigned =
+    video?.status === "ready" && video.playbackPolicy === "signed";
+  const { grant, error: tokenError } = usePlaybackTokens(
+    videoId,
+    video?.muxPlaybackId,
+    isSigned
+  );
+  const playerRef = useRef<MuxPlayerRefAttributes>(null);
 
   if (!video) {
     return (
@@ -64,16 +462,51 @@ export function VideoPlayer({ videoId }: VideoPlayerProps) {
     );
   }
 
+  if (isSigned && tokenError) {
+    return (
+      <div className="flex h-64 items-center justify-center rounded-lg border border-destructive/20 bg-destructive/10">
+        <p className="text-sm text-destructive">{tokenError}</p>
+      </div>
+    );
+  }
+
+  if (isSigned && !grant) {
+    return (
+      <div className="flex h-64 items-center justify-center rounded-lg border bg-muted">
+        <p className="text-sm text-muted-foreground">Loading video...</p>
+      </div>
+    );
+  }
+
   return (
-    <div className="overflow-hidden rounded-lg">
-      <MuxPlayer
-        playbackId={video.muxPlaybackId}
-        metadata={{
-          video_id: videoId,
-          video_title: video.title,
-        }}
-        streamType="on-demand"
-        accentColor="#000000"
+    <div className="flex flex-col gap-4 lg:flex-row">
+      <div className="min-w-0 flex-1">
+        <div className="overflow-hidden rounded-lg">
+          <MuxPlayer
+            ref={playerRef}
+            playbackId={grant?.playbackId ?? video.muxPlaybackId}
+            tokens={grant?.tokens ?? undefined}
+            metadata={{
+              video_id: videoId,
+              video_title: video.title,
+            }}
+            // Signed thumbnail tokens already carry the chosen time
+            thumbnailTime={grant ? undefined : video.thumbnailTime}
+            onTimeUpdate={() =>
+              onTimeUpdate?.(playerRef.current?.currentTime ?? 0)
+            }
+            defaultHiddenCaptions
+            streamType="on-demand"
+            accentColor="#000000"
+          />
+        </div>
+        <CaptionMenu videoId={videoId} playerRef={playerRef} />
+        <WatchProgress videoId={videoId} playerRef={playerRef} />
+      </div>
+      <ChapterList
+        videoId={videoId}
+        playerRef={playerRef}
+        onVideoSelect={onVideoSelect}
       />
     </div>
   );
@@ -11,12 +11,15 @@ type VideoUploaderProps = {
   onSuccess?: (videoId: Id<"videos">) => void;
   title?: string;
   description?: string;
+  /** "signed" (default) videos need playback tokens; "public" ones don't */
+  playbackPolicy?: "public" | "signed";
 };
 
 export function VideoUploader({
   onSuccess,
   title = "Untitled Video",
   description,
+  playbackPolicy = "signed",
 }: VideoUploaderProps) {
   const createUpload = useAction(api.mux.actions.createDirectUpload);
   const [uploadUrl, setUploadUrl] = useState<string | null>(null);
@@ -32,6 +35,7 @@ export function VideoUploader({
       const result = await createUpload({
         title,
         description,
+        playbackPolicy,
       });
 
       setUploadUrl(result.uploadUrl);
@@ -144,3 +144,22 @@ export const onboardingSchema = z.object({
 });
 
 export type OnboardingFormValues = z.infer<typeof onboardingSchema>;
+
+// Coach onboarding schema (second step for coaches)
+export const coachProfileSchema = z.object({
+  specialties: z
+    .array(z.string())
+    .min(1, "Select at least one specialty")
+    .max(10, "Select at most 10 specialties"),
+  certifications: z
+    .string()
+    .max(2000, "Certifications must be less than 2000 characters")
+    .optional(),
+  dateOfBirth: z.string().min(1, "Date of birth is required"),
+  bio: z
+    .string()
+    .min(1, "Coach bio is required")
+    .max(2000, "Coach bio must be less than 2000 characters"),
+});
+
+export type CoachProfileFormValues = z.infer<typeof coachProfileSchema>;
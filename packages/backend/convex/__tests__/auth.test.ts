@@ -1,14 +1,16 @@
-import { describe, expect, it } from "vitest";
-import { api, components } from "../_generated/api";
+import { describe, expect, it, vi } from "vitest";
+import { api, components, internal } from "../_generated/api";
+import type { Id } from "../_generated/dataModel";
 import { setupConvexTest } from "../test.setup";
-import { createAuthenticatedTestUser } from "./helpers";
+import { createAuthenticatedTestUser, createTestCoach } from "./helpers";
 
 /**
  * Comprehensive Auth & Profile Tests
  *
  * Tests the authentication and profile management functionality of EKVI platform.
  * Covers:
- * - User profile creation and onboarding
+ * - User profile creation and onboarding (including the coach step)
+ * - Coach intro video (pending until the video is ready)
  * - Profile queries and retrieval
  * - Profile updates
  * - Authorization checks
@@ -162,6 +164,281 @@ describe("Profile Management", () => {
     });
   });
 
+  describe("Coach Onboarding", () => {
+    const coachDetails = {
+      specialties: [" strength ", "mobility", "strength"],
+      certifications: ["NSCA-CSCS", ""],
+      dateOfBirth: Date.UTC(1990, 4, 12),
+      bio: "  Strength coach for endurance athletes  ",
+    };
+
+    it("should create one coach profile after the coach role step", async () => {
+      const t = setupConvexTest();
+      const { asUser } = await createAuthenticatedTestUser(t, {
+        email: "coach@example.com",
+        name: "Test Coach",
+      });
+      const profileId = await asUser.mutation(api.profiles.createProfile, {
+        displayName: "Elite Coach",
+        role: "coach",
+      });
+
+      const before = await asUser.query(api.profiles.getCurrentUser, {
+        needImageUrl: false,
+      });
+      expect(before?.profile?.needsCoachProfile).toBe(true);
+
+      const coachProfileId = await asUser.mutation(
+        api.profiles.createCoachProfile,
+        coachDetails
+      );
+
+      const coachProfile = await t.run(
+        async (ctx) => await ctx.db.get(coachProfileId)
+      );
+      expect(coachProfile).toMatchObject({
+        profileId,
+        specialties: ["strength", "mobility"],
+        certifications: ["NSCA-CSCS"],
+        dateOfBirth: coachDetails.dateOfBirth,
+        bio: "Strength coach for endurance athletes",
+      });
+
+      const after = await asUser.query(api.profiles.getCurrentUser, {
+        needImageUrl: false,
+      });
+      expect(after?.profile?.needsCoachProfile).toBe(false);
+
+      await expect(
+        asUser.mutation(api.profiles.createCoachProfile, coachDetails)
+      ).rejects.toThrow("Coach profile already exists");
+    });
+
+    it("should reject non-coaches and invalid details", async () => {
+      const t = setupConvexTest();
+      const { asUser: asAthlete } = await createAuthenticatedTestUser(t, {
+        email: "athlete@example.com",
+        name: "Athlete",
+      });
+      await asAthlete.mutation(api.profiles.createProfile, {
+        displayName: "Athlete",
+        role: "athlete",
+      });
+      await expect(
+        asAthlete.mutation(api.profiles.createCoachProfile, coachDetails)
+      ).rejects.toThrow("Coach access required");
+
+      const { asUser: asCoach } = await createAuthenticatedTestUser(t, {
+        email: "coach@example.com",
+        name: "Coach",
+      });
+      await asCoach.mutation(api.profiles.createProfile, {
+        displayName: "Coach",
+        role: "coach",
+      });
+
+      await expect(
+        asCoach.mutation(api.profiles.createCoachProfile, {
+          ...coachDetails,
+          specialties: [" "],
+        })
+      ).rejects.toThrow("Add at least one specialty");
+      await expect(
+        asCoach.mutation(api.profiles.createCoachProfile, {
+          ...coachDetails,
+          bio: "   ",
+        })
+      ).rejects.toThrow("Coach bio is required");
+      await expect(
+        asCoach.mutation(api.profiles.createCoachProfile, {
+          ...coachDetails,
+          dateOfBirth: Date.now() - 1000,
+        })
+      ).rejects.toThrow("Coaches must be at least 18 years old");
+    });
+
+    it("should update coach profile fields", async () => {
+      const t = setupConvexTest();
+      const { asUser } = await createAuthenticatedTestUser(t, {
+        email: "coach@example.com",
+        name: "Coach",
+      });
+      await asUser.mutation(api.profiles.createProfile, {
+        displayName: "Coach",
+        role: "coach",
+      });
+
+      // Coach profile must exist before it can be edited
+      await expect(
+        asUser.mutation(api.profiles.updateCoachProfile, { bio: "New bio" })
+      ).rejects.toThrow(
+        "Coach profile not found - complete coach onboarding first"
+      );
+
+      await asUser.mutation(api.profiles.createCoachProfile, coachDetails);
+      await asUser.mutation(api.profiles.updateCoachProfile, {
+        certifications: ["NSCA-CSCS", "FRC Mobility Specialist"],
+      });
+
+      const coachProfile = await asUser.query(api.profiles.getMyCoachProfile);
+      expect(coachProfile).toMatchObject({
+        specialties: ["strength", "mobility"],
+        certifications: ["NSCA-CSCS", "FRC Mobility Specialist"],
+      });
+
+      await expect(
+        asUser.mutation(api.profiles.updateCoachProfile, { specialties: [] })
+      ).rejects.toThrow("Add at least one specialty");
+    });
+  });
+
+  describe("Coach Intro Video", () => {
+    async function insertVideo(
+      t: ReturnType<typeof setupConvexTest>,
+      uploadedBy: Id<"userProfiles">,
+      status: "processing" | "ready" | "error"
+    ) {
+      return await t.run(async (ctx) => {
+        const now = Date.now();
+        return await ctx.db.insert("videos", {
+          uploadedBy,
+          muxAssetId: `asset-${status}-${now}`,
+          status,
+          title: "Intro",
+          createdAt: now,
+          updatedAt: now,
+        });
+      });
+    }
+
+    it("should attach a ready video immediately", async () => {
+      const t = setupConvexTest();
+      const { asUser, profileId } = await createTestCoach(t, {
+        email: "coach@example.com",
+        name: "Coach",
+      });
+      const videoId = await insertVideo(t, profileId, "ready");
+
+      const result = await asUser.mutation(api.profiles.setCoachIntroVideo, {
+        videoId,
+      });
+
+      expect(result).toEqual({ status: "active" });
+      const coachProfile = await asUser.query(api.profiles.getMyCoachProfile);
+      expect(coachProfile?.introVideoId).toBe(videoId);
+    });
+
+    it("should activate a processing video when its asset is ready", async () => {
+      const t = setupConvexTest();
+      const { asUser, profileId } = await createTestCoach(t, {
+        email: "coach@example.com",
+        name: "Coach",
+      });
+      const currentId = await insertVideo(t, profileId, "ready");
+      await asUser.mutation(api.profiles.setCoachIntroVideo, {
+        videoId: currentId,
+      });
+      const videoId = await insertVideo(t, profileId, "processing");
+
+      const result = await asUser.mutation(api.profiles.setCoachIntroVideo, {
+        videoId,
+      });
+      expect(result).toEqual({ status: "pending" });
+
+      // Current intro stays active while the new one processes
+      let coachProfile = await asUser.query(api.profiles.getMyCoachProfile);
+      expect(coachProfile).toMatchObject({
+        introVideoId: currentId,
+        pendingIntroVideoId: videoId,
+      });
+
+      const video = await t.run(async (ctx) => await ctx.db.get(videoId));
+      await t.mutation(internal.mux.webhooks.handleAssetReady, {
+        assetId: video?.muxAssetId ?? "",
+        playbackIds: [{ id: "playback-1", policy: "public" }],
+      });
+
+      coachProfile = await asUser.query(api.profiles.getMyCoachProfile);
+      expect(coachProfile?.introVideoId).toBe(videoId);
+      expect(coachProfile?.pendingIntroVideoId).toBeUndefined();
+    });
+
+    it("should drop a pending video that fails processing", async () => {
+      const t = setupConvexTest();
+      const { asUser, profileId } = await createTestCoach(t, {
+        email: "coach@example.com",
+        name: "Coach",
+      });
+      const videoId = await insertVideo(t, profileId, "processing");
+      await asUser.mutation(api.profiles.setCoachIntroVideo, { videoId });
+
+      const video = await t.run(async (ctx) => await ctx.db.get(videoId));
+      await t.mutation(internal.mux.webhooks.handleAssetErrored, {
+        assetId: video?.muxAssetId ?? "",
+      });
+
+      const coachProfile = await asUser.query(api.profiles.getMyCoachProfile);
+      expect(coachProfile?.introVideoId).toBeUndefined();
+      expect(coachProfile?.pendingIntroVideoId).toBeUndefined();
+    });
+
+    it("should detach intro videos when they are deleted", async () => {
+      vi.useFakeTimers();
+      const t = setupConvexTest();
+      const { asUser, profileId } = await createTestCoach(t, {
+        email: "coach@example.com",
+        name: "Coach",
+      });
+      const currentId = await insertVideo(t, profileId, "ready");
+      await asUser.mutation(api.profiles.setCoachIntroVideo, {
+        videoId: currentId,
+      });
+      const pendingId = await insertVideo(t, profileId, "processing");
+      await asUser.mutation(api.profiles.setCoachIntroVideo, {
+        videoId: pendingId,
+      });
+
+      await asUser.mutation(api.mux.mutations.deleteVideo, {
+        videoId: pendingId,
+      });
+      let coachProfile = await asUser.query(api.profiles.getMyCoachProfile);
+      expect(coachProfile?.introVideoId).toBe(currentId);
+      expect(coachProfile?.pendingIntroVideoId).toBeUndefined();
+
+      await asUser.mutation(api.mux.mutations.deleteVideo, {
+        videoId: currentId,
+      });
+      coachProfile = await asUser.query(api.profiles.getMyCoachProfile);
+      expect(coachProfile?.introVideoId).toBeUndefined();
+      await t.finishAllScheduledFunctions(vi.runAllTimers);
+      vi.useRealTimers();
+    });
+
+    it("should reject errored and other coaches' videos", async () => {
+      const t = setupConvexTest();
+      const { asUser, profileId } = await createTestCoach(t, {
+        email: "coach@example.com",
+        name: "Coach",
+      });
+      const { profileId: otherProfileId } = await createTestCoach(t, {
+        email: "other@example.com",
+        name: "Other",
+      });
+
+      const erroredId = await insertVideo(t, profileId, "error");
+      await expect(
+        asUser.mutation(api.profiles.setCoachIntroVideo, {
+          videoId: erroredId,
+        })
+      ).rejects.toThrow("This video failed to process");
+
+      const otherId = await insertVideo(t, otherProfileId, "ready");
+      await expect(
+        asUser.mutation(api.profiles.setCoachIntroVideo, { videoId: otherId })
+      ).rejects.toThrow("Unauthorized - you don't own this video");
+    });
+  });
+
   describe("Profile Queries", () => {
     it("should get current user profile", async () => {
       const t = setupConvexTest();
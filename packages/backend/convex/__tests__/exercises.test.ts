@@ -0,0 +1,237 @@
+import { describe, expect, it } from "vitest";
+import { api } from "../_generated/api";
+import { setupConvexTest } from "../test.setup";
+import { createAuthenticatedTestUser, createTestCoach } from "./helpers";
+
+/**
+ * Exercise Library Tests
+ *
+ * Tests for the coach exercise library covering:
+ * - Create/update/delete with ownership checks
+ * - "My exercises" listing
+ * - Browsing public exercises from other coaches (category/equipment filters)
+ * - Forking a public exercise into a private copy
+ */
+
+const baseExercise = {
+  name: "Back Squat",
+  description: "Barbell squat with the bar on the upper back",
+  category: "strength",
+  equipment: ["barbell", "rack"],
+};
+
+describe("Exercise Library", () => {
+  describe("Exercise CRUD", () => {
+    it("should create a private exercise for the current coach", async () => {
+      const t = setupConvexTest();
+      const { asUser, profileId } = await createTestCoach(t, {
+        email: "coach@example.com",
+        name: "Coach Test",
+      });
+
+      const exerciseId = await asUser.mutation(
+        api.exercises.createExercise,
+        baseExercise
+      );
+
+      const exercise = await t.run(async (ctx) => await ctx.db.get(exerciseId));
+      expect(exercise).toMatchObject({
+        ...baseExercise,
+        createdBy: profileId,
+        isPublic: false,
+      });
+    });
+
+    it("should reject non-coaches", async () => {
+      const t = setupConvexTest();
+      const { asUser } = await createAuthenticatedTestUser(t, {
+        email: "athlete@example.com",
+        name: "Athlete",
+      });
+      await asUser.mutation(api.profiles.createProfile, {
+        displayName: "Athlete",
+        role: "athlete",
+      });
+
+      await expect(
+        asUser.mutation(api.exercises.createExercise, baseExercise)
+      ).rejects.toThrow("Coach access required");
+    });
+
+    it("should only let the owner update or delete", async () => {
+      const t = setupConvexTest();
+      const { asUser: owner } = await createTestCoach(t, {
+        email: "owner@example.com",
+        name: "Owner",
+      });
+      const { asUser: other } = await createTestCoach(t, {
+        email: "other@example.com",
+        name: "Other",
+      });
+      const exerciseId = await owner.mutation(
+        api.exercises.createExercise,
+        baseExercise
+      );
+
+      await expect(
+        other.mutation(api.exercises.updateExercise, {
+          exerciseId,
+          name: "Hijacked",
+        })
+      ).rejects.toThrow("Unauthorized - you don't own this exercise");
+      await expect(
+        other.mutation(api.exercises.deleteExercise, { exerciseId })
+      ).rejects.toThrow("Unauthorized - you don't own this exercise");
+
+      await owner.mutation(api.exercises.updateExercise, {
+        exerciseId,
+        name: "Front Squat",
+        isPublic: true,
+      });
+      const mine = await owner.query(api.exercises.listMyExercises);
+      expect(mine).toHaveLength(1);
+      expect(mine[0]).toMatchObject({ name: "Front Squat", isPublic: true });
+
+      await owner.mutation(api.exercises.deleteExercise, { exerciseId });
+      expect(await owner.query(api.exercises.listMyExercises)).toHaveLength(0);
+    });
+  });
+
+  describe("Public Exercise Browsing", () => {
+    it("should list other coaches' public exercises with filters", async () => {
+      const t = setupConvexTest();
+      const { asUser: author } = await createTestCoach(t, {
+        email: "author@example.com",
+        name: "Author Coach",
+      });
+      const { asUser: browser } = await createTestCoach(t, {
+        email: "browser@example.com",
+        name: "Browser Coach",
+      });
+
+      await author.mutation(api.exercises.createExercise, {
+        ...baseExercise,
+        isPublic: true,
+      });
+      await author.mutation(api.exercises.createExercise, {
+        ...baseExercise,
+        name: "Kettlebell Swing",
+        equipment: ["kettlebell"],
+        isPublic: true,
+      });
+      await author.mutation(api.exercises.createExercise, {
+        ...baseExercise,
+        name: "Hamstring Stretch",
+        category: "flexibility",
+        equipment: [],
+        isPublic: true,
+      });
+      await author.mutation(api.exercises.createExercise, {
+        ...baseExercise,
+        name: "Secret Squat",
+      });
+      await browser.mutation(api.exercises.createExercise, {
+        ...baseExercise,
+        name: "My Own Public Squat",
+        isPublic: true,
+      });
+
+      const paginationOpts = { numItems: 10, cursor: null };
+
+      const all = await browser.query(api.exercises.browsePublicExercises, {
+        paginationOpts,
+      });
+      expect(all.page.map((e) => e.name).sort()).toEqual([
+        "Back Squat",
+        "Hamstring Stretch",
+        "Kettlebell Swing",
+      ]);
+      expect(all.page[0].creatorName).toBe("Author Coach");
+
+      const strength = await browser.query(
+        api.exercises.browsePublicExercises,
+        { paginationOpts, category: "strength" }
+      );
+      expect(strength.page).toHaveLength(2);
+
+      const barbell = await browser.query(api.exercises.browsePublicExercises, {
+        paginationOpts,
+        category: "strength",
+        equipment: "barbell",
+      });
+      expect(barbell.page.map((e) => e.name)).toEqual(["Back Squat"]);
+    });
+  });
+
+  describe("Exercise Forking", () => {
+    it("should fork a public exercise into a private editable copy", async () => {
+      const t = setupConvexTest();
+      const { asUser: author } = await createTestCoach(t, {
+        email: "author@example.com",
+        name: "Author Coach",
+      });
+      const { asUser: forker, profileId } = await createTestCoach(t, {
+        email: "forker@example.com",
+        name: "Forker Coach",
+      });
+      const sourceId = await author.mutation(api.exercises.createExercise, {
+        ...baseExercise,
+        isPublic: true,
+      });
+
+      const forkId = await forker.mutation(api.exercises.forkExercise, {
+        exerciseId: sourceId,
+      });
+      expect(forkId).not.toBe(sourceId);
+
+      const fork = await t.run(async (ctx) => await ctx.db.get(forkId));
+      expect(fork).toMatchObject({
+        ...baseExercise,
+        createdBy: profileId,
+        isPublic: false,
+        forkedFromId: sourceId,
+      });
+
+      // Fork is editable without touching the original
+      await forker.mutation(api.exercises.updateExercise, {
+        exerciseId: forkId,
+        name: "Paused Back Squat",
+      });
+      const source = await t.run(async (ctx) => await ctx.db.get(sourceId));
+      expect(source?.name).toBe("Back Squat");
+
+      // Forking again returns the existing copy
+      const again = await forker.mutation(api.exercises.forkExercise, {
+        exerciseId: sourceId,
+      });
+      expect(again).toBe(forkId);
+    });
+
+    it("should not fork private or own exercises", async () => {
+      const t = setupConvexTest();
+      const { asUser: author } = await createTestCoach(t, {
+        email: "author@example.com",
+        name: "Author Coach",
+      });
+      const { asUser: forker } = await createTestCoach(t, {
+        email: "forker@example.com",
+        name: "Forker Coach",
+      });
+      const privateId = await author.mutation(
+        api.exercises.createExercise,
+        baseExercise
+      );
+      const publicId = await author.mutation(api.exercises.createExercise, {
+        ...baseExercise,
+        isPublic: true,
+      });
+
+      await expect(
+        forker.mutation(api.exercises.forkExercise, { exerciseId: privateId })
+      ).rejects.toThrow("Exercise not found");
+      await expect(
+        author.mutation(api.exercises.forkExercise, { exerciseId: publicId })
+      ).rejects.toThrow("Exercise is already in your library");
+    });
+  });
+});
@@ -0,0 +1,248 @@
+import { describe, expect, it } from "vitest";
+import { api } from "../_generated/api";
+import type { Id } from "../_generated/dataModel";
+import { setupConvexTest } from "../test.setup";
+import { createTestCoach } from "./helpers";
+
+/**
+ * File Storage Tests
+ *
+ * Tests for the files API covering:
+ * - Registering uploads (content type/size checked against _storage)
+ * - "My files" listing with fileType/mimeType filters
+ * - On-demand URL resolution
+ * - Ownership-checked deletion of row and storage object
+ */
+
+/**
+ * Store a blob and record its content type. convex-test doesn't set
+ * `_storage.contentType` (the real backend takes it from the upload's
+ * Content-Type header), so it's patched in here.
+ */
+async function storeBlob(
+  t: ReturnType<typeof setupConvexTest>,
+  contentType: string,
+  size = 16
+) {
+  return await t.run(async (ctx) => {
+    const storageId = await ctx.storage.store(
+      new Blob([new Uint8Array(size)], { type: contentType })
+    );
+    await (ctx.db as any).patch(storageId, { contentType });
+    return storageId;
+  });
+}
+
+describe("Files", () => {
+  describe("Upload Registration", () => {
+    it("should register an upload with metadata from storage", async () => {
+      const t = setupConvexTest();
+      const { asUser, profileId } = await createTestCoach(t, {
+        email: "coach@example.com",
+        name: "Coach",
+      });
+      const storageId = await storeBlob(t, "image/png");
+
+      const fileId = await asUser.mutation(api.files.registerUpload, {
+        storageId,
+        fileName: " cover.png ",
+        fileType: "thumbnail",
+        width: 1280,
+        height: 720,
+      });
+
+      const file = await t.run(async (ctx) => await ctx.db.get(fileId));
+      expect(file).toMatchObject({
+        uploadedBy: profileId,
+        storageId,
+        fileName: "cover.png",
+        fileType: "thumbnail",
+        mimeType: "image/png",
+        width: 1280,
+        height: 720,
+      });
+
+      await expect(
+        asUser.mutation(api.files.registerUpload, {
+          storageId,
+          fileName: "again.png",
+          fileType: "thumbnail",
+        })
+      ).rejects.toThrow("Upload is already registered");
+    });
+
+    it("should reject uploads that don't match the file type", async () => {
+      const t = setupConvexTest();
+      const { asUser } = await createTestCoach(t, {
+        email: "coach@example.com",
+        name: "Coach",
+      });
+
+      const pdfId = await storeBlob(t, "application/pdf");
+      await expect(
+        asUser.mutation(api.files.registerUpload, {
+          storageId: pdfId,
+          fileName: "cover.png",
+          fileType: "thumbnail",
+        })
+      ).rejects.toThrow("Unsupported thumbnail format (application/pdf)");
+
+      const largeId = await storeBlob(t, "image/jpeg", 3 * 1024 * 1024);
+      await expect(
+        asUser.mutation(api.files.registerUpload, {
+          storageId: largeId,
+          fileName: "huge.jpg",
+          fileType: "thumbnail",
+        })
+      ).rejects.toThrow("thumbnail files can be at most 2 MB");
+
+      await expect(
+        asUser.mutation(api.files.registerUpload, {
+          storageId: pdfId,
+          fileName: "plan.pdf",
+          fileType: "document",
+          width: 100,
+          height: 100,
+        })
+      ).rejects.toThrow("Dimensions don't apply to document files");
+    });
+  });
+
+  describe("Listing and URLs", () => {
+    it("should list own files filtered by fileType and mimeType", async () => {
+      const t = setupConvexTest();
+      const { asUser } = await createTestCoach(t, {
+        email: "coach@example.com",
+        name: "Coach",
+      });
+      const { asUser: other } = await createTestCoach(t, {
+        email: "other@example.com",
+        name: "Other",
+      });
+
+      const uploads = [
+        { type: "image/png", fileName: "a.png", fileType: "image" },
+        { type: "image/jpeg", fileName: "b.jpg", fileType: "thumbnail" },
+        { type: "application/pdf", fileName: "c.pdf", fileType: "document" },
+      ] as const;
+      for (const upload of uploads) {
+        await asUser.mutation(api.files.registerUpload, {
+          storageId: await storeBlob(t, upload.type),
+          fileName: upload.fileName,
+          fileType: upload.fileType,
+        });
+      }
+      await other.mutation(api.files.registerUpload, {
+        storageId: await storeBlob(t, "image/png"),
+        fileName: "other.png",
+        fileType: "image",
+      });
+
+      const paginationOpts = { numItems: 10, cursor: null };
+      const list = async (filters: {
+        fileType?: "image" | "thumbnail" | "document";
+        mimeType?: string;
+      }) => {
+        const result = await asUser.query(api.files.listMyFiles, {
+          paginationOpts,
+          ...filters,
+        });
+        return result.page.map((file) => file.fileName).sort();
+      };
+
+      expect(await list({})).toEqual(["a.png", "b.jpg", "c.pdf"]);
+      expect(await list({ fileType: "document" })).toEqual(["c.pdf"]);
+      expect(await list({ mimeType: "image/jpeg" })).toEqual(["b.jpg"]);
+      expect(await list({ mimeType: "image/*" })).toEqual(["a.png", "b.jpg"]);
+
+      const all = await asUser.query(api.files.listMyFiles, {
+        paginationOpts,
+      });
+      expect(all.page[0].url).toEqual(expect.any(String));
+      expect(all.page[0].size).toBe(16);
+    });
+
+    it("should only resolve URLs for the owner", async () => {
+      const t = setupConvexTest();
+      const { asUser } = await createTestCoach(t, {
+        email: "coach@example.com",
+        name: "Coach",
+      });
+      const { asUser: other } = await createTestCoach(t, {
+        email: "other@example.com",
+        name: "Other",
+      });
+      const fileId = await asUser.mutation(api.files.registerUpload, {
+        storageId: await storeBlob(t, "image/png"),
+        fileName: "a.png",
+        fileType: "image",
+      });
+
+      expect(await asUser.query(api.files.getFileUrl, { fileId })).toEqual(
+        expect.any(String)
+      );
+      expect(await other.query(api.files.getFileUrl, { fileId })).toBeNull();
+    });
+  });
+
+  describe("Deletion", () => {
+    it("should delete the row and storage object for the owner", async () => {
+      const t = setupConvexTest();
+      const { asUser } = await createTestCoach(t, {
+        email: "coach@example.com",
+        name: "Coach",
+      });
+      const { asUser: other } = await createTestCoach(t, {
+        email: "other@example.com",
+        name: "Other",
+      });
+      const storageId = await storeBlob(t, "image/png");
+      const fileId = await asUser.mutation(api.files.registerUpload, {
+        storageId,
+        fileName: "a.png",
+        fileType: "image",
+      });
+
+      await expect(
+        other.mutation(api.files.deleteFile, { fileId })
+      ).rejects.toThrow("Unauthorized - you don't own this file");
+
+      await asUser.mutation(api.files.deleteFile, { fileId });
+
+      const remaining = await t.run(async (ctx) => ({
+        file: await ctx.db.get(fileId),
+        storage: await ctx.db.system.get(storageId),
+      }));
+      expect(remaining).toEqual({ file: null, storage: null });
+    });
+
+    it("should not delete a file used as a thumbnail", async () => {
+      const t = setupConvexTest();
+      const { asUser } = await createTestCoach(t, {
+        email: "coach@example.com",
+        name: "Coach",
+      });
+      const fileId: Id<"files"> = await asUser.mutation(
+        api.files.registerUpload,
+        {
+          storageId: await storeBlob(t, "image/png"),
+          fileName: "squat.png",
+          fileType: "thumbnail",
+        }
+      );
+      await asUser.mutation(api.exercises.createExercise, {
+        name: "Back Squat",
+        description: "Barbell squat",
+        category: "strength",
+        equipment: ["barbell"],
+        thumbnailId: fileId,
+      });
+
+      await expect(
+        asUser.mutation(api.files.deleteFile, { fileId })
+      ).rejects.toThrow(
+        'File is used as the thumbnail of exercise "Back Squat" - replace it first'
+      );
+    });
+  });
+});
@@ -1,4 +1,4 @@
-import { components } from "../_generated/api";
+import { api, components } from "../_generated/api";
 import type { setupConvexTest } from "../test.setup";
 
 /**
@@ -82,3 +82,33 @@ export async function createAuthenticatedTestUser(
     sessionId: result.sessionId,
   };
 }
+
+/**
+ * Create an authenticated coach with a userProfiles and coachProfiles entry
+ *
+ * Goes through both onboarding steps: createProfile (role: "coach") and
+ * createCoachProfile.
+ */
+export async function createTestCoach(
+  t: ReturnType<typeof setupConvexTest>,
+  options: { email: string; name: string }
+) {
+  const { asUser, userId } = await createAuthenticatedTestUser(t, options);
+
+  const profileId = await asUser.mutation(api.profiles.createProfile, {
+    displayName: options.name,
+    role: "coach",
+  });
+
+  const coachProfileId = await asUser.mutation(
+    api.profiles.createCoachProfile,
+    {
+      specialties: ["strength"],
+      dateOfBirth: 0,
+      certifications: [],
+      bio: `${options.name} bio`,
+    }
+  );
+
+  return { asUser, userId, profileId, coachProfileId };
+}
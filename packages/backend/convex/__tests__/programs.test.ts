@@ -0,0 +1,1483 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { api, internal } from "../_generated/api";
+import type { Id } from "../_generated/dataModel";
+import { setupConvexTest } from "../test.setup";
+import { createAuthenticatedTestUser, createTestCoach } from "./helpers";
+
+/**
+ * Program Authoring Tests
+ *
+ * Tests for the coach program authoring API covering:
+ * - Program creation (coach-only)
+ * - Program updates and ownership checks
+ * - Draft visibility rules
+ * - Cascading deletion of modules and workouts
+ * - Module/workout management and contiguous ordering
+ * - Publish workflow and pre-publish validation
+ * - Scheduled publishing (runAt job, cancellation, failure notifications)
+ * - Public marketplace catalog (pagination, filters, resolved media)
+ * - Program duplication (deep clone, scheduled batches for large programs)
+ *
+ * Architecture:
+ * - Programs belong to coachProfiles (not userProfiles directly)
+ * - Ownership resolved via getCurrentCoachProfile helper
+ * - Programs always start as drafts (isPublished: false)
+ */
+
+const baseProgram = {
+  title: "Strength Foundations",
+  description: "Eight weeks of barbell basics",
+  category: "strength",
+  level: "beginner" as const,
+};
+
+describe("Program Operations", () => {
+  describe("Program Creation", () => {
+    it("should create a draft program for a coach", async () => {
+      const t = setupConvexTest();
+      const { asUser, coachProfileId } = await createTestCoach(t, {
+        email: "coach@example.com",
+        name: "Coach Test",
+      });
+
+      const programId = await asUser.mutation(
+        api.programs.createProgram,
+        baseProgram
+      );
+
+      const program = await t.run(async (ctx) => {
+        return await ctx.db.get(programId);
+      });
+
+      expect(program).toMatchObject({
+        ...baseProgram,
+        coachProfileId,
+        isPublished: false,
+      });
+      expect(program?.createdAt).toBeDefined();
+    });
+
+    it("should reject program creation by athletes", async () => {
+      const t = setupConvexTest();
+      const { asUser } = await createAuthenticatedTestUser(t, {
+        email: "athlete@example.com",
+        name: "Athlete Test",
+      });
+
+      await asUser.mutation(api.profiles.createProfile, {
+        displayName: "Athlete Test",
+        role: "athlete",
+      });
+
+      await expect(
+        asUser.mutation(api.programs.createProgram, baseProgram)
+      ).rejects.toThrow("Coach access required");
+    });
+
+    it("should reject coaches without a coach profile", async () => {
+      const t = setupConvexTest();
+      const { asUser } = await createAuthenticatedTestUser(t, {
+        email: "new-coach@example.com",
+        name: "New Coach",
+      });
+
+      await asUser.mutation(api.profiles.createProfile, {
+        displayName: "New Coach",
+        role: "coach",
+      });
+
+      await expect(
+        asUser.mutation(api.programs.createProgram, baseProgram)
+      ).rejects.toThrow("Coach profile not found");
+    });
+
+    it("should reject preview videos owned by someone else", async () => {
+      const t = setupConvexTest();
+      const coach1 = await createTestCoach(t, {
+        email: "coach1@example.com",
+        name: "Coach One",
+      });
+      const coach2 = await createTestCoach(t, {
+        email: "coach2@example.com",
+        name: "Coach Two",
+      });
+
+      const videoId = await t.run(async (ctx) => {
+        return await ctx.db.insert("videos", {
+          uploadedBy: coach2.profileId,
+          muxAssetId: "asset-1",
+          title: "Not yours",
+          status: "ready",
+          createdAt: Date.now(),
+          updatedAt: Date.now(),
+        });
+      });
+
+      await expect(
+        coach1.asUser.mutation(api.programs.createProgram, {
+          ...baseProgram,
+          previewVideoId: videoId,
+        })
+      ).rejects.toThrow("Unauthorized - you don't own this video");
+    });
+  });
+
+  describe("Program Updates", () => {
+    it("should update program fields", async () => {
+      const t = setupConvexTest();
+      const { asUser } = await createTestCoach(t, {
+        email: "coach@example.com",
+        name: "Coach Test",
+      });
+
+      const programId = await asUser.mutation(
+        api.programs.createProgram,
+        baseProgram
+      );
+
+      await asUser.mutation(api.programs.updateProgram, {
+        programId,
+        title: "Strength Foundations II",
+        level: "intermediate",
+      });
+
+      const program = await asUser.query(api.programs.getProgram, {
+        programId,
+      });
+
+      expect(program?.title).toBe("Strength Foundations II");
+      expect(program?.level).toBe("intermediate");
+      expect(program?.description).toBe(baseProgram.description);
+    });
+
+    it("should prevent other coaches from updating a program", async () => {
+      const t = setupConvexTest();
+      const owner = await createTestCoach(t, {
+        email: "owner@example.com",
+        name: "Owner",
+      });
+      const other = await createTestCoach(t, {
+        email: "other@example.com",
+        name: "Other",
+      });
+
+      const programId = await owner.asUser.mutation(
+        api.programs.createProgram,
+        baseProgram
+      );
+
+      await expect(
+        other.asUser.mutation(api.programs.updateProgram, {
+          programId,
+          title: "Hijacked",
+        })
+      ).rejects.toThrow("Unauthorized - you don't own this program");
+    });
+  });
+
+  describe("Program Queries", () => {
+    it("should list only the current coach's programs", async () => {
+      const t = setupConvexTest();
+      const coach1 = await createTestCoach(t, {
+        email: "coach1@example.com",
+        name: "Coach One",
+      });
+      const coach2 = await createTestCoach(t, {
+        email: "coach2@example.com",
+        name: "Coach Two",
+      });
+
+      await coach1.asUser.mutation(api.programs.createProgram, baseProgram);
+      await coach1.asUser.mutation(api.programs.createProgram, {
+        ...baseProgram,
+        title: "Mobility Flow",
+      });
+      await coach2.asUser.mutation(api.programs.createProgram, baseProgram);
+
+      const programs = await coach1.asUser.query(
+        api.programs.listMyPrograms,
+        {}
+      );
+
+      expect(programs).toHaveLength(2);
+      expect(programs[0].title).toBe("Mobility Flow"); // Newest first
+    });
+
+    it("should hide drafts from other users", async () => {
+      const t = setupConvexTest();
+      const owner = await createTestCoach(t, {
+        email: "owner@example.com",
+        name: "Owner",
+      });
+      const other = await createTestCoach(t, {
+        email: "other@example.com",
+        name: "Other",
+      });
+
+      const programId = await owner.asUser.mutation(
+        api.programs.createProgram,
+        baseProgram
+      );
+
+      expect(
+        await other.asUser.query(api.programs.getProgram, { programId })
+      ).toBeNull();
+      expect(await t.query(api.programs.getProgram, { programId })).toBeNull();
+
+      await t.run(async (ctx) => {
+        await ctx.db.patch(programId, { isPublished: true });
+      });
+
+      const published = await t.query(api.programs.getProgram, { programId });
+      expect(published?._id).toBe(programId);
+    });
+  });
+
+  describe("Program Deletion", () => {
+    it("should cascade delete modules and workouts", async () => {
+      const t = setupConvexTest();
+      const { asUser } = await createTestCoach(t, {
+        email: "coach@example.com",
+        name: "Coach Test",
+      });
+
+      const programId = await asUser.mutation(
+        api.programs.createProgram,
+        baseProgram
+      );
+
+      const { moduleId, workoutId } = await t.run(async (ctx) => {
+        const now = Date.now();
+        const insertedModuleId = await ctx.db.insert("programModules", {
+          programId,
+          title: "Week 1",
+          description: "Intro week",
+          order: 0,
+          createdAt: now,
+          updatedAt: now,
+        });
+        const insertedWorkoutId = await ctx.db.insert("workouts", {
+          moduleId: insertedModuleId,
+          title: "Day 1",
+          description: "Squats",
+          order: 0,
+          difficulty: 2,
+          createdAt: now,
+          updatedAt: now,
+        });
+        return { moduleId: insertedModuleId, workoutId: insertedWorkoutId };
+      });
+
+      const result = await asUser.mutation(api.programs.deleteProgram, {
+        programId,
+      });
+
+      expect(result).toEqual({
+        success: true,
+        deletedModules: 1,
+        deletedWorkouts: 1,
+      });
+
+      const remaining = await t.run(async (ctx) => ({
+        program: await ctx.db.get(programId),
+        module: await ctx.db.get(moduleId),
+        workout: await ctx.db.get(workoutId),
+      }));
+
+      expect(remaining).toEqual({ program: null, module: null, workout: null });
+    });
+
+    it("should prevent other coaches from deleting a program", async () => {
+      const t = setupConvexTest();
+      const owner = await createTestCoach(t, {
+        email: "owner@example.com",
+        name: "Owner",
+      });
+      const other = await createTestCoach(t, {
+        email: "other@example.com",
+        name: "Other",
+      });
+
+      const programId = await owner.asUser.mutation(
+        api.programs.createProgram,
+        baseProgram
+      );
+
+      await expect(
+        other.asUser.mutation(api.programs.deleteProgram, { programId })
+      ).rejects.toThrow("Unauthorized - you don't own this program");
+    });
+  });
+
+  describe("Module Management", () => {
+    it("should append and insert modules with contiguous order", async () => {
+      const t = setupConvexTest();
+      const { asUser } = await createTestCoach(t, {
+        email: "coach@example.com",
+        name: "Coach Test",
+      });
+
+      const programId = await asUser.mutation(
+        api.programs.createProgram,
+        baseProgram
+      );
+
+      const week1 = await asUser.mutation(api.programModules.addModule, {
+        programId,
+        title: "Week 1",
+        description: "",
+      });
+      const week2 = await asUser.mutation(api.programModules.addModule, {
+        programId,
+        title: "Week 2",
+        description: "",
+      });
+      const intro = await asUser.mutation(api.programModules.addModule, {
+        programId,
+        title: "Intro",
+        description: "",
+        index: 0,
+      });
+
+      const outline = await asUser.query(api.programs.getProgramOutline, {
+        programId,
+      });
+
+      expect(outline.modules.map((m) => m._id)).toEqual([intro, week1, week2]);
+      expect(outline.modules.map((m) => m.order)).toEqual([0, 1, 2]);
+    });
+
+    it("should reorder modules and reject stale orderings", async () => {
+      const t = setupConvexTest();
+      const { asUser } = await createTestCoach(t, {
+        email: "coach@example.com",
+        name: "Coach Test",
+      });
+
+      const programId = await asUser.mutation(
+        api.programs.createProgram,
+        baseProgram
+      );
+      const ids: Id<"programModules">[] = [];
+      for (const title of ["A", "B", "C"]) {
+        ids.push(
+          await asUser.mutation(api.programModules.addModule, {
+            programId,
+            title,
+            description: "",
+          })
+        );
+      }
+
+      await asUser.mutation(api.programModules.reorderModules, {
+        programId,
+        moduleIds: [ids[2], ids[0], ids[1]],
+      });
+
+      const outline = await asUser.query(api.programs.getProgramOutline, {
+        programId,
+      });
+      expect(outline.modules.map((m) => m.title)).toEqual(["C", "A", "B"]);
+
+      // Missing a module (e.g. stale tab that hasn't seen "C")
+      await expect(
+        asUser.mutation(api.programModules.reorderModules, {
+          programId,
+          moduleIds: [ids[0], ids[1]],
+        })
+      ).rejects.toThrow("Order is out of date");
+
+      // Duplicate entries
+      await expect(
+        asUser.mutation(api.programModules.reorderModules, {
+          programId,
+          moduleIds: [ids[0], ids[0], ids[1]],
+        })
+      ).rejects.toThrow("Order is out of date");
+    });
+
+    it("should close order gaps and delete workouts when removing a module", async () => {
+      const t = setupConvexTest();
+      const { asUser } = await createTestCoach(t, {
+        email: "coach@example.com",
+        name: "Coach Test",
+      });
+
+      const programId = await asUser.mutation(
+        api.programs.createProgram,
+        baseProgram
+      );
+      const first = await asUser.mutation(api.programModules.addModule, {
+        programId,
+        title: "First",
+        description: "",
+      });
+      await asUser.mutation(api.programModules.addModule, {
+        programId,
+        title: "Second",
+        description: "",
+      });
+      const workoutId = await asUser.mutation(api.workouts.addWorkout, {
+        moduleId: first,
+        title: "Day 1",
+        description: "",
+        difficulty: 3,
+      });
+
+      const result = await asUser.mutation(api.programModules.removeModule, {
+        moduleId: first,
+      });
+      expect(result.deletedWorkouts).toBe(1);
+
+      const outline = await asUser.query(api.programs.getProgramOutline, {
+        programId,
+      });
+      expect(outline.modules).toHaveLength(1);
+      expect(outline.modules[0]).toMatchObject({ title: "Second", order: 0 });
+
+      const workout = await t.run(async (ctx) => await ctx.db.get(workoutId));
+      expect(workout).toBeNull();
+    });
+
+    it("should prevent other coaches from editing modules", async () => {
+      const t = setupConvexTest();
+      const owner = await createTestCoach(t, {
+        email: "owner@example.com",
+        name: "Owner",
+      });
+      const other = await createTestCoach(t, {
+        email: "other@example.com",
+        name: "Other",
+      });
+
+      const programId = await owner.asUser.mutation(
+        api.programs.createProgram,
+        baseProgram
+      );
+      const moduleId = await owner.asUser.mutation(
+        api.programModules.addModule,
+        { programId, title: "Week 1", description: "" }
+      );
+
+      await expect(
+        other.asUser.mutation(api.programModules.updateModule, {
+          moduleId,
+          title: "Hijacked",
+        })
+      ).rejects.toThrow("Unauthorized - you don't own this program");
+    });
+  });
+
+  describe("Workout Management", () => {
+    async function setupProgramWithModules(
+      t: ReturnType<typeof setupConvexTest>
+    ) {
+      const coach = await createTestCoach(t, {
+        email: "coach@example.com",
+        name: "Coach Test",
+      });
+      const programId = await coach.asUser.mutation(
+        api.programs.createProgram,
+        baseProgram
+      );
+      const moduleA = await coach.asUser.mutation(
+        api.programModules.addModule,
+        { programId, title: "A", description: "" }
+      );
+      const moduleB = await coach.asUser.mutation(
+        api.programModules.addModule,
+        { programId, title: "B", description: "" }
+      );
+      return { ...coach, programId, moduleA, moduleB };
+    }
+
+    it("should validate workout difficulty", async () => {
+      const t = setupConvexTest();
+      const { asUser, moduleA } = await setupProgramWithModules(t);
+
+      await expect(
+        asUser.mutation(api.workouts.addWorkout, {
+          moduleId: moduleA,
+          title: "Too hard",
+          description: "",
+          difficulty: 6,
+        })
+      ).rejects.toThrow("Difficulty must be a whole number between 1 and 5");
+    });
+
+    it("should reorder workouts within a module", async () => {
+      const t = setupConvexTest();
+      const { asUser, programId, moduleA } = await setupProgramWithModules(t);
+
+      const ids: Id<"workouts">[] = [];
+      for (const title of ["W1", "W2", "W3"]) {
+        ids.push(
+          await asUser.mutation(api.workouts.addWorkout, {
+            moduleId: moduleA,
+            title,
+            description: "",
+            difficulty: 2,
+          })
+        );
+      }
+
+      await asUser.mutation(api.workouts.reorderWorkouts, {
+        moduleId: moduleA,
+        workoutIds: [ids[1], ids[2], ids[0]],
+      });
+
+      const outline = await asUser.query(api.programs.getProgramOutline, {
+        programId,
+      });
+      const workouts = outline.modules[0].workouts;
+      expect(workouts.map((w) => w.title)).toEqual(["W2", "W3", "W1"]);
+      expect(workouts.map((w) => w.order)).toEqual([0, 1, 2]);
+    });
+
+    it("should move a workout to another module and resequence both", async () => {
+      const t = setupConvexTest();
+      const { asUser, programId, moduleA, moduleB } =
+        await setupProgramWithModules(t);
+
+      const a1 = await asUser.mutation(api.workouts.addWorkout, {
+        moduleId: moduleA,
+        title: "A1",
+        description: "",
+        difficulty: 1,
+      });
+      await asUser.mutation(api.workouts.addWorkout, {
+        moduleId: moduleA,
+        title: "A2",
+        description: "",
+        difficulty: 1,
+      });
+      await asUser.mutation(api.workouts.addWorkout, {
+        moduleId: moduleB,
+        title: "B1",
+        description: "",
+        difficulty: 1,
+      });
+
+      await asUser.mutation(api.workouts.moveWorkout, {
+        workoutId: a1,
+        targetModuleId: moduleB,
+        index: 0,
+      });
+
+      const outline = await asUser.query(api.programs.getProgramOutline, {
+        programId,
+      });
+      const [modA, modB] = outline.modules;
+
+      expect(modA.workouts.map((w) => [w.title, w.order])).toEqual([["A2", 0]]);
+      expect(modB.workouts.map((w) => [w.title, w.order])).toEqual([
+        ["A1", 0],
+        ["B1", 1],
+      ]);
+    });
+
+    it("should reject moving a workout into another program", async () => {
+      const t = setupConvexTest();
+      const { asUser, moduleA } = await setupProgramWithModules(t);
+
+      const otherProgramId = await asUser.mutation(api.programs.createProgram, {
+        ...baseProgram,
+        title: "Other",
+      });
+      const otherModule = await asUser.mutation(api.programModules.addModule, {
+        programId: otherProgramId,
+        title: "X",
+        description: "",
+      });
+      const workoutId = await asUser.mutation(api.workouts.addWorkout, {
+        moduleId: moduleA,
+        title: "A1",
+        description: "",
+        difficulty: 1,
+      });
+
+      await expect(
+        asUser.mutation(api.workouts.moveWorkout, {
+          workoutId,
+          targetModuleId: otherModule,
+        })
+      ).rejects.toThrow("Workouts can only be moved within the same program");
+    });
+
+    it("should close order gaps when removing a workout", async () => {
+      const t = setupConvexTest();
+      const { asUser, programId, moduleA } = await setupProgramWithModules(t);
+
+      const first = await asUser.mutation(api.workouts.addWorkout, {
+        moduleId: moduleA,
+        title: "W1",
+        description: "",
+        difficulty: 1,
+      });
+      await asUser.mutation(api.workouts.addWorkout, {
+        moduleId: moduleA,
+        title: "W2",
+        description: "",
+        difficulty: 1,
+      });
+
+      await asUser.mutation(api.workouts.removeWorkout, { workoutId: first });
+
+      const outline = await asUser.query(api.programs.getProgramOutline, {
+        programId,
+      });
+      expect(
+        outline.modules[0].workouts.map((w) => [w.title, w.order])
+      ).toEqual([["W2", 0]]);
+    });
+  });
+
+  describe("Program Publishing", () => {
+    async function setupPublishableProgram(
+      t: ReturnType<typeof setupConvexTest>
+    ) {
+      const coach = await createTestCoach(t, {
+        email: "coach@example.com",
+        name: "Coach Test",
+      });
+
+      const { thumbnailId, videoId } = await t.run(async (ctx) => {
+        const storageId = await ctx.storage.store(
+          new Blob(["thumbnail"], { type: "image/png" })
+        );
+        const insertedThumbnailId = await ctx.db.insert("files", {
+          uploadedBy: coach.profileId,
+          storageId,
+          fileName: "thumb.png",
+          fileType: "thumbnail",
+          mimeType: "image/png",
+        });
+        const insertedVideoId = await ctx.db.insert("videos", {
+          uploadedBy: coach.profileId,
+          muxAssetId: "asset-ready",
+          muxPlaybackId: "playback-ready",
+          title: "Squat demo",
+          status: "ready",
+          createdAt: Date.now(),
+          updatedAt: Date.now(),
+        });
+        return { thumbnailId: insertedThumbnailId, videoId: insertedVideoId };
+      });
+
+      const programId = await coach.asUser.mutation(
+        api.programs.createProgram,
+        { ...baseProgram, thumbnailId }
+      );
+      const moduleId = await coach.asUser.mutation(
+        api.programModules.addModule,
+        { programId, title: "Week 1", description: "" }
+      );
+      const workoutId = await coach.asUser.mutation(api.workouts.addWorkout, {
+        moduleId,
+        title: "Day 1",
+        description: "",
+        difficulty: 2,
+        videoId,
+      });
+
+      return { ...coach, programId, moduleId, workoutId, videoId };
+    }
+
+    it("should publish a valid program", async () => {
+      const t = setupConvexTest();
+      const { asUser, programId } = await setupPublishableProgram(t);
+
+      const result = await asUser.mutation(
+        api.programPublishing.publishProgram,
+        { programId }
+      );
+
+      expect(result).toEqual({ success: true, problems: [] });
+
+      const program = await t.run(async (ctx) => await ctx.db.get(programId));
+      expect(program?.isPublished).toBe(true);
+    });
+
+    it("should return structured problems for an empty program", async () => {
+      const t = setupConvexTest();
+      const { asUser } = await createTestCoach(t, {
+        email: "coach@example.com",
+        name: "Coach Test",
+      });
+
+      const programId = await asUser.mutation(
+        api.programs.createProgram,
+        baseProgram
+      );
+
+      const result = await asUser.mutation(
+        api.programPublishing.publishProgram,
+        { programId }
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.problems.map((p) => p.code)).toEqual([
+        "missing_thumbnail",
+        "no_modules",
+      ]);
+
+      const program = await t.run(async (ctx) => await ctx.db.get(programId));
+      expect(program?.isPublished).toBe(false);
+    });
+
+    it("should flag modules without workouts", async () => {
+      const t = setupConvexTest();
+      const { asUser, programId, workoutId } = await setupPublishableProgram(t);
+
+      await asUser.mutation(api.workouts.removeWorkout, { workoutId });
+
+      const readiness = await asUser.query(
+        api.programPublishing.getPublishReadiness,
+        { programId }
+      );
+
+      expect(readiness.canPublish).toBe(false);
+      expect(readiness.problems.map((p) => p.code)).toEqual(["no_workouts"]);
+    });
+
+    it("should flag workout videos that are not ready", async () => {
+      const t = setupConvexTest();
+      const { asUser, programId, moduleId, workoutId, videoId } =
+        await setupPublishableProgram(t);
+
+      await t.run(async (ctx) => {
+        await ctx.db.patch(videoId, {
+          status: "processing",
+          muxPlaybackId: undefined,
+        });
+      });
+
+      const result = await asUser.mutation(
+        api.programPublishing.publishProgram,
+        { programId }
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.problems).toEqual([
+        expect.objectContaining({
+          code: "video_not_ready",
+          moduleId,
+          workoutId,
+          videoId,
+        }),
+      ]);
+    });
+
+    it("should flag exercise demo videos that are not playable", async () => {
+      const t = setupConvexTest();
+      const { asUser, profileId, programId, moduleId, workoutId } =
+        await setupPublishableProgram(t);
+
+      const [erroredId, deletedId] = await t.run(async (ctx) =>
+        Promise.all(
+          ["Lunge demo", "Plank demo"].map((title, i) =>
+            ctx.db.insert("videos", {
+              uploadedBy: profileId,
+              muxAssetId: `asset-demo-${i}`,
+              muxPlaybackId: `playback-demo-${i}`,
+              title,
+              status: "ready",
+              createdAt: Date.now(),
+              updatedAt: Date.now(),
+            })
+          )
+        )
+      );
+      const exercises = [
+        { name: "Lunge", videoId: erroredId },
+        { name: "Plank", videoId: deletedId },
+      ];
+      for (const { name, videoId } of exercises) {
+        const exerciseId = await asUser.mutation(api.exercises.createExercise, {
+          name,
+          description: "",
+          category: "strength",
+          equipment: [],
+          videoId,
+        });
+        // Prescribed twice, reported once
+        for (const sets of [3, 2]) {
+          await asUser.mutation(api.workoutExercises.addWorkoutExercise, {
+            workoutId,
+            exerciseId,
+            sets,
+            reps: "10",
+          });
+        }
+      }
+
+      await t.run(async (ctx) => {
+        await ctx.db.patch(erroredId, { status: "error" });
+        await ctx.db.delete(deletedId);
+      });
+
+      const result = await asUser.mutation(
+        api.programPublishing.publishProgram,
+        { programId }
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.problems).toEqual([
+        expect.objectContaining({
+          code: "video_not_ready",
+          message:
+            'Exercise "Lunge" demo video "Lunge demo" is not ready for playback (status: error)',
+          moduleId,
+          workoutId,
+          videoId: erroredId,
+        }),
+        expect.objectContaining({
+          code: "video_missing",
+          message: 'Exercise "Plank" demo video no longer exists',
+          moduleId,
+          workoutId,
+          videoId: deletedId,
+        }),
+      ]);
+    });
+
+    it("should unpublish a program", async () => {
+      const t = setupConvexTest();
+      const { asUser, programId } = await setupPublishableProgram(t);
+
+      await asUser.mutation(api.programPublishing.publishProgram, {
+        programId,
+      });
+      await asUser.mutation(api.programPublishing.unpublishProgram, {
+        programId,
+      });
+
+      const program = await t.run(async (ctx) => await ctx.db.get(programId));
+      expect(program?.isPublished).toBe(false);
+    });
+  });
+
+  describe("Scheduled Publishing", () => {
+    const oneDay = 24 * 60 * 60 * 1000;
+
+    async function getScheduledFunction(
+      t: ReturnType<typeof setupConvexTest>,
+      jobId: Id<"_scheduled_functions"> | undefined
+    ) {
+      return await t.run(async (ctx) =>
+        jobId ? await ctx.db.system.get(jobId) : null
+      );
+    }
+
+    it("should schedule a publish and store the pending job", async () => {
+      const t = setupConvexTest();
+      const { asUser } = await createTestCoach(t, {
+        email: "coach@example.com",
+        name: "Coach Test",
+      });
+      const programId = await asUser.mutation(
+        api.programs.createProgram,
+        baseProgram
+      );
+      const publishAt = Date.now() + oneDay;
+
+      const result = await asUser.mutation(
+        api.programPublishing.schedulePublish,
+        { programId, publishAt }
+      );
+
+      // Current problems are reported but don't block scheduling
+      expect(result.success).toBe(true);
+      expect(result.problems.length).toBeGreaterThan(0);
+
+      const program = await t.run(async (ctx) => await ctx.db.get(programId));
+      expect(program?.publishAt).toBe(publishAt);
+
+      const job = await getScheduledFunction(t, program?.publishJobId);
+      expect(job?.scheduledTime).toBe(publishAt);
+      expect(job?.state.kind).toBe("pending");
+    });
+
+    it("should reject publish dates in the past", async () => {
+      const t = setupConvexTest();
+      const { asUser } = await createTestCoach(t, {
+        email: "coach@example.com",
+        name: "Coach Test",
+      });
+      const programId = await asUser.mutation(
+        api.programs.createProgram,
+        baseProgram
+      );
+
+      await expect(
+        asUser.mutation(api.programPublishing.schedulePublish, {
+          programId,
+          publishAt: Date.now() - 1000,
+        })
+      ).rejects.toThrow("Publish date must be in the future");
+    });
+
+    it("should cancel the pending job when rescheduling or cancelling", async () => {
+      const t = setupConvexTest();
+      const { asUser } = await createTestCoach(t, {
+        email: "coach@example.com",
+        name: "Coach Test",
+      });
+      const programId = await asUser.mutation(
+        api.programs.createProgram,
+        baseProgram
+      );
+
+      await asUser.mutation(api.programPublishing.schedulePublish, {
+        programId,
+        publishAt: Date.now() + oneDay,
+      });
+      const first = await t.run(async (ctx) => await ctx.db.get(programId));
+
+      await asUser.mutation(api.programPublishing.schedulePublish, {
+        programId,
+        publishAt: Date.now() + 2 * oneDay,
+      });
+      const second = await t.run(async (ctx) => await ctx.db.get(programId));
+
+      expect(second?.publishJobId).not.toBe(first?.publishJobId);
+      expect(
+        (await getScheduledFunction(t, first?.publishJobId))?.state.kind
+      ).toBe("canceled");
+
+      await asUser.mutation(api.programPublishing.cancelScheduledPublish, {
+        programId,
+      });
+      const cancelled = await t.run(async (ctx) => await ctx.db.get(programId));
+
+      expect(cancelled?.publishAt).toBeUndefined();
+      expect(cancelled?.publishJobId).toBeUndefined();
+      expect(
+        (await getScheduledFunction(t, second?.publishJobId))?.state.kind
+      ).toBe("canceled");
+    });
+
+    it("should notify the coach when scheduled validation fails", async () => {
+      const t = setupConvexTest();
+      const { asUser, profileId } = await createTestCoach(t, {
+        email: "coach@example.com",
+        name: "Coach Test",
+      });
+      const programId = await asUser.mutation(
+        api.programs.createProgram,
+        baseProgram
+      );
+      const publishAt = Date.now() + oneDay;
+
+      await asUser.mutation(api.programPublishing.schedulePublish, {
+        programId,
+        publishAt,
+      });
+
+      const result = await t.mutation(
+        internal.programPublishing.runScheduledPublish,
+        { programId, publishAt }
+      );
+      expect(result.published).toBe(false);
+
+      const { program, notifications } = await t.run(async (ctx) => ({
+        program: await ctx.db.get(programId),
+        notifications: await ctx.db
+          .query("notifications")
+          .withIndex("by_user_createdAt", (q) => q.eq("userId", profileId))
+          .collect(),
+      }));
+
+      expect(program?.isPublished).toBe(false);
+      expect(program?.publishAt).toBeUndefined();
+      expect(notifications).toHaveLength(1);
+      expect(notifications[0]).toMatchObject({
+        type: "program_publish_failed",
+        actionUrl: `/coach/programs/${programId}`,
+        isRead: false,
+      });
+    });
+
+    it("should ignore stale scheduled runs", async () => {
+      const t = setupConvexTest();
+      const { asUser } = await createTestCoach(t, {
+        email: "coach@example.com",
+        name: "Coach Test",
+      });
+      const programId = await asUser.mutation(
+        api.programs.createProgram,
+        baseProgram
+      );
+      const publishAt = Date.now() + oneDay;
+
+      await asUser.mutation(api.programPublishing.schedulePublish, {
+        programId,
+        publishAt: publishAt + oneDay,
+      });
+
+      const result = await t.mutation(
+        internal.programPublishing.runScheduledPublish,
+        { programId, publishAt }
+      );
+
+      expect(result.published).toBe(false);
+      const program = await t.run(async (ctx) => await ctx.db.get(programId));
+      expect(program?.publishAt).toBe(publishAt + oneDay);
+    });
+  });
+
+  describe("Program Catalog", () => {
+    it("should list only published programs with resolved media", async () => {
+      const t = setupConvexTest();
+      const { asUser, profileId } = await createTestCoach(t, {
+        email: "coach@example.com",
+        name: "Coach Catalog",
+      });
+
+      const { thumbnailId, videoId } = await t.run(async (ctx) => {
+        const storageId = await ctx.storage.store(
+          new Blob(["thumbnail"], { type: "image/png" })
+        );
+        return {
+          thumbnailId: await ctx.db.insert("files", {
+            uploadedBy: profileId,
+            storageId,
+            fileName: "thumb.png",
+            fileType: "thumbnail",
+            mimeType: "image/png",
+          }),
+          videoId: await ctx.db.insert("videos", {
+            uploadedBy: profileId,
+            muxAssetId: "asset-preview",
+            muxPlaybackId: "playback-preview",
+            title: "Trailer",
+            status: "ready",
+            createdAt: Date.now(),
+            updatedAt: Date.now(),
+          }),
+        };
+      });
+
+      const publishedId = await asUser.mutation(api.programs.createProgram, {
+        ...baseProgram,
+        thumbnailId,
+        previewVideoId: videoId,
+      });
+      await asUser.mutation(api.programs.createProgram, {
+        ...baseProgram,
+        title: "Draft",
+      });
+      await t.run(async (ctx) => {
+        await ctx.db.patch(publishedId, { isPublished: true });
+      });
+
+      const result = await t.query(api.programs.listPublishedPrograms, {
+        paginationOpts: { numItems: 10, cursor: null },
+      });
+
+      expect(result.page).toHaveLength(1);
+      expect(result.page[0]).toMatchObject({
+        _id: publishedId,
+        coachName: "Coach Catalog",
+        previewPlaybackId: "playback-preview",
+      });
+      expect(result.page[0].thumbnailUrl).toEqual(expect.any(String));
+    });
+
+    it("should filter by category and level", async () => {
+      const t = setupConvexTest();
+      const { asUser } = await createTestCoach(t, {
+        email: "coach@example.com",
+        name: "Coach Catalog",
+      });
+
+      const ids = await Promise.all(
+        [
+          { category: "strength", level: "beginner" as const },
+          { category: "strength", level: "advanced" as const },
+          { category: "yoga", level: "beginner" as const },
+        ].map((fields) =>
+          asUser.mutation(api.programs.createProgram, {
+            ...baseProgram,
+            ...fields,
+          })
+        )
+      );
+      await t.run(async (ctx) => {
+        for (const id of ids) {
+          await ctx.db.patch(id, { isPublished: true });
+        }
+      });
+
+      const paginationOpts = { numItems: 10, cursor: null };
+
+      const strength = await t.query(api.programs.listPublishedPrograms, {
+        paginationOpts,
+        category: "strength",
+      });
+      expect(strength.page).toHaveLength(2);
+
+      const strengthBeginner = await t.query(
+        api.programs.listPublishedPrograms,
+        { paginationOpts, category: "strength", level: "beginner" }
+      );
+      expect(strengthBeginner.page.map((p) => p._id)).toEqual([ids[0]]);
+    });
+
+    it("should return full filtered pages past non-matching programs", async () => {
+      const t = setupConvexTest();
+      const { asUser } = await createTestCoach(t, {
+        email: "coach@example.com",
+        name: "Coach Catalog",
+      });
+
+      // Older yoga programs, newer strength ones
+      const categories = ["yoga", "yoga", "strength", "strength", "strength"];
+      const ids: Id<"programs">[] = [];
+      for (const category of categories) {
+        const id = await asUser.mutation(api.programs.createProgram, {
+          ...baseProgram,
+          category,
+        });
+        await t.run(async (ctx) => {
+          await ctx.db.patch(id, { isPublished: true });
+        });
+        ids.push(id);
+      }
+
+      const yoga = await t.query(api.programs.listPublishedPrograms, {
+        paginationOpts: { numItems: 2, cursor: null },
+        category: "yoga",
+      });
+      expect(yoga.page.map((p) => p._id)).toEqual([ids[1], ids[0]]);
+
+      const advanced = await t.query(api.programs.listPublishedPrograms, {
+        paginationOpts: { numItems: 2, cursor: null },
+        level: "advanced",
+      });
+      expect(advanced.page).toHaveLength(0);
+      expect(advanced.isDone).toBe(true);
+    });
+
+    it("should paginate results", async () => {
+      const t = setupConvexTest();
+      const { asUser } = await createTestCoach(t, {
+        email: "coach@example.com",
+        name: "Coach Catalog",
+      });
+
+      for (let i = 0; i < 3; i++) {
+        const id = await asUser.mutation(api.programs.createProgram, {
+          ...baseProgram,
+          title: `Program ${i}`,
+        });
+        await t.run(async (ctx) => {
+          await ctx.db.patch(id, { isPublished: true });
+        });
+      }
+
+      const first = await t.query(api.programs.listPublishedPrograms, {
+        paginationOpts: { numItems: 2, cursor: null },
+      });
+      expect(first.page).toHaveLength(2);
+      expect(first.isDone).toBe(false);
+
+      const second = await t.query(api.programs.listPublishedPrograms, {
+        paginationOpts: { numItems: 2, cursor: first.continueCursor },
+      });
+      expect(second.page).toHaveLength(1);
+      expect(second.isDone).toBe(true);
+    });
+  });
+
+  describe("Program Duplication", () => {
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it("should deep-clone modules and workouts as a new draft", async () => {
+      const t = setupConvexTest();
+      const { asUser, profileId } = await createTestCoach(t, {
+        email: "coach@example.com",
+        name: "Coach Test",
+      });
+      const videoId = await t.run(
+        async (ctx) =>
+          await ctx.db.insert("videos", {
+            uploadedBy: profileId,
+            muxAssetId: "asset-1",
+            muxPlaybackId: "playback-1",
+            title: "Squat demo",
+            status: "ready",
+            createdAt: Date.now(),
+            updatedAt: Date.now(),
+          })
+      );
+      const programId = await asUser.mutation(
+        api.programs.createProgram,
+        baseProgram
+      );
+      for (const title of ["Week 1", "Week 2"]) {
+        const moduleId = await asUser.mutation(api.programModules.addModule, {
+          programId,
+          title,
+          description: "",
+        });
+        for (const workoutTitle of ["Day A", "Day B"]) {
+          await asUser.mutation(api.workouts.addWorkout, {
+            moduleId,
+            title: `${title} ${workoutTitle}`,
+            description: "",
+            difficulty: 2,
+            videoId,
+          });
+        }
+      }
+      await t.run(async (ctx) => {
+        await ctx.db.patch(programId, { isPublished: true });
+      });
+
+      const result = await asUser.mutation(
+        api.programDuplication.duplicateProgram,
+        { programId }
+      );
+      expect(result.isComplete).toBe(true);
+      expect(result.programId).not.toBe(programId);
+
+      const copy = await asUser.query(api.programs.getProgramOutline, {
+        programId: result.programId,
+      });
+      expect(copy.title).toBe("Strength Foundations (copy)");
+      expect(copy.isPublished).toBe(false);
+      expect(copy.copyingFromId).toBeUndefined();
+      expect(copy.modules.map((m) => [m.title, m.order])).toEqual([
+        ["Week 1", 0],
+        ["Week 2", 1],
+      ]);
+      expect(
+        copy.modules[1].workouts.map((w) => [w.title, w.order, w.videoId])
+      ).toEqual([
+        ["Week 2 Day A", 0, videoId],
+        ["Week 2 Day B", 1, videoId],
+      ]);
+
+      // Source is untouched and videos are shared, not copied
+      const source = await asUser.query(api.programs.getProgramOutline, {
+        programId,
+      });
+      expect(source.modules).toHaveLength(2);
+      expect(source.modules[0]._id).not.toBe(copy.modules[0]._id);
+      const videoCount = await t.run(
+        async (ctx) => (await ctx.db.query("videos").collect()).length
+      );
+      expect(videoCount).toBe(1);
+    });
+
+    it("should continue large copies in scheduled batches", async () => {
+      vi.useFakeTimers();
+      const t = setupConvexTest();
+      const { asUser } = await createTestCoach(t, {
+        email: "coach@example.com",
+        name: "Coach Test",
+      });
+      const programId = await asUser.mutation(
+        api.programs.createProgram,
+        baseProgram
+      );
+
+      // 3 modules x 150 workouts - more than one batch
+      await t.run(async (ctx) => {
+        const now = Date.now();
+        for (let m = 0; m < 3; m++) {
+          const moduleId = await ctx.db.insert("programModules", {
+            programId,
+            title: `Module ${m}`,
+            description: "",
+            order: m,
+            createdAt: now,
+            updatedAt: now,
+          });
+          for (let w = 0; w < 150; w++) {
+            await ctx.db.insert("workouts", {
+              moduleId,
+              title: `Workout ${m}.${w}`,
+              description: "",
+              order: w,
+              difficulty: 1,
+              createdAt: now,
+              updatedAt: now,
+            });
+          }
+        }
+      });
+
+      const result = await asUser.mutation(
+        api.programDuplication.duplicateProgram,
+        { programId }
+      );
+      expect(result.isComplete).toBe(false);
+
+      // Partial copy can't be published yet
+      const readiness = await asUser.query(
+        api.programPublishing.getPublishReadiness,
+        { programId: result.programId }
+      );
+      expect(readiness.problems.map((p) => p.code)).toEqual([
+        "copy_in_progress",
+      ]);
+
+      await t.finishAllScheduledFunctions(vi.runAllTimers);
+
+      const copy = await asUser.query(api.programs.getProgramOutline, {
+        programId: result.programId,
+      });
+      expect(copy.copyingFromId).toBeUndefined();
+      expect(copy.modules).toHaveLength(3);
+      for (const [m, programModule] of copy.modules.entries()) {
+        expect(programModule.workouts).toHaveLength(150);
+        expect(programModule.workouts.map((w) => w.order)).toEqual(
+          Array.from({ length: 150 }, (_, i) => i)
+        );
+        expect(programModule.workouts[149].title).toBe(`Workout ${m}.149`);
+      }
+    });
+
+    it("should reject structural edits on both programs between batches", async () => {
+      vi.useFakeTimers();
+      const t = setupConvexTest();
+      const { asUser } = await createTestCoach(t, {
+        email: "coach@example.com",
+        name: "Coach Test",
+      });
+      const programId = await asUser.mutation(
+        api.programs.createProgram,
+        baseProgram
+      );
+
+      // 2 modules x 150 workouts - more than one batch
+      const sourceModuleIds = await t.run(async (ctx) => {
+        const now = Date.now();
+        const moduleIds: Id<"programModules">[] = [];
+        for (let m = 0; m < 2; m++) {
+          const moduleId = await ctx.db.insert("programModules", {
+            programId,
+            title: `Module ${m}`,
+            description: "",
+            order: m,
+            createdAt: now,
+            updatedAt: now,
+          });
+          for (let w = 0; w < 150; w++) {
+            await ctx.db.insert("workouts", {
+              moduleId,
+              title: `Workout ${m}.${w}`,
+              description: "",
+              order: w,
+              difficulty: 1,
+              createdAt: now,
+              updatedAt: now,
+            });
+          }
+          moduleIds.push(moduleId);
+        }
+        return moduleIds;
+      });
+
+      const result = await asUser.mutation(
+        api.programDuplication.duplicateProgram,
+        { programId }
+      );
+      expect(result.isComplete).toBe(false);
+
+      const partial = await asUser.query(api.programs.getProgramOutline, {
+        programId: result.programId,
+      });
+      const [firstSourceWorkout] = await t.run(
+        async (ctx) =>
+          await ctx.db
+            .query("workouts")
+            .withIndex("by_module_order", (q) =>
+              q.eq("moduleId", sourceModuleIds[0])
+            )
+            .take(1)
+      );
+
+      // Source: would shift the rows the next batch looks up by order
+      await expect(
+        asUser.mutation(api.programModules.removeModule, {
+          moduleId: sourceModuleIds[0],
+        })
+      ).rejects.toThrow("Program is being duplicated - try again shortly");
+      await expect(
+        asUser.mutation(api.workouts.removeWorkout, {
+          workoutId: firstSourceWorkout._id,
+        })
+      ).rejects.toThrow("Program is being duplicated - try again shortly");
+      await expect(
+        asUser.mutation(api.programModules.reorderModules, {
+          programId,
+          moduleIds: [...sourceModuleIds].reverse(),
+        })
+      ).rejects.toThrow("Program is being duplicated - try again shortly");
+
+      // Copy: would collide with the orders still to be copied
+      await expect(
+        asUser.mutation(api.programModules.addModule, {
+          programId: result.programId,
+          title: "Extra",
+          description: "",
+        })
+      ).rejects.toThrow("Program is still being copied - try again shortly");
+      await expect(
+        asUser.mutation(api.workouts.addWorkout, {
+          moduleId: partial.modules[0]._id,
+          title: "Extra",
+          description: "",
+          difficulty: 1,
+        })
+      ).rejects.toThrow("Program is still being copied - try again shortly");
+
+      await t.finishAllScheduledFunctions(vi.runAllTimers);
+
+      const copy = await asUser.query(api.programs.getProgramOutline, {
+        programId: result.programId,
+      });
+      expect(copy.modules.map((m) => m.order)).toEqual([0, 1]);
+      for (const programModule of copy.modules) {
+        expect(programModule.workouts.map((w) => w.order)).toEqual(
+          Array.from({ length: 150 }, (_, i) => i)
+        );
+      }
+
+      // Both programs are editable again once the copy is done
+      await asUser.mutation(api.programModules.addModule, {
+        programId: result.programId,
+        title: "Extra",
+        description: "",
+      });
+      await asUser.mutation(api.programModules.removeModule, {
+        moduleId: sourceModuleIds[0],
+      });
+    });
+
+    it("should only duplicate programs the coach owns", async () => {
+      const t = setupConvexTest();
+      const { asUser: owner } = await createTestCoach(t, {
+        email: "owner@example.com",
+        name: "Owner",
+      });
+      const { asUser: other } = await createTestCoach(t, {
+        email: "other@example.com",
+        name: "Other",
+      });
+      const programId = await owner.mutation(
+        api.programs.createProgram,
+        baseProgram
+      );
+
+      await expect(
+        other.mutation(api.programDuplication.duplicateProgram, { programId })
+      ).rejects.toThrow("Unauthorized - you don't own this program");
+    });
+  });
+});
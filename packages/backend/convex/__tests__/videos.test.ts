@@ -1,7 +1,21 @@
-import { describe, expect, it } from "vitest";
+import { describe, expect, it, vi } from "vitest";
 import { api, internal } from "../_generated/api";
+import type { Id } from "../_generated/dataModel";
+import {
+  type MuxAssetState,
+  type MuxStateClient,
+  type MuxUploadState,
+  reconcileVideos,
+} from "../mux/reconcile";
+import {
+  type MuxAssetSummary,
+  type MuxInventoryClient,
+  type MuxUploadSummary,
+  SWEEP_PAGE_SIZE,
+  sweepOrphans,
+} from "../mux/sweep";
 import { setupConvexTest } from "../test.setup";
-import { createAuthenticatedTestUser } from "./helpers";
+import { createAuthenticatedTestUser, createTestCoach } from "./helpers";
 
 /**
  * Video Management Tests
@@ -13,6 +27,18 @@ import { createAuthenticatedTestUser } from "./helpers";
  * - Video listing and filtering
  * - Authorization checks
  * - Abandoned upload cleanup (cron job)
+ * - Signed playback access (owner, enrolled athlete, public preview)
+ * - Webhook event log (deduplication, parking, replay)
+ * - Upload and asset lifecycle webhooks (cancelled, deleted, tracks...)
+ * - Caption tracks (uploaded files, generated captions, track webhooks)
+ * - Chosen thumbnails and animated previews
+ * - Chapter markers (ordering, validation, exercise links)
+ * - Upload quotas and usage counters (limits by role/plan, admin overrides)
+ * - Watch progress (resume position, completion, continue watching)
+ * - Source replacement (old asset serves until the new one is swapped in)
+ * - Preview clips (range validation, processing via webhooks, source link)
+ * - Reconciliation of stuck videos (stand-in Mux client)
+ * - Orphaned Mux asset/upload sweep (dry run and cleanup)
  * - Edge cases and error scenarios
  *
  * Architecture:
@@ -898,7 +924,8 @@ describe("Video Operations", () => {
       // Run cleanup
       const result = await t.run(async (ctx) => {
         return await ctx.runMutation(
-          internal.mux.mutations.cleanupAbandonedUploads
+          internal.mux.mutations.cleanupAbandonedUploads,
+          {}
         );
       });
 
@@ -954,7 +981,8 @@ describe("Video Operations", () => {
       // Run cleanup
       await t.run(async (ctx) => {
         return await ctx.runMutation(
-          internal.mux.mutations.cleanupAbandonedUploads
+          internal.mux.mutations.cleanupAbandonedUploads,
+          {}
         );
       });
 
@@ -1015,7 +1043,8 @@ describe("Video Operations", () => {
       // Run cleanup
       const result = await t.run(async (ctx) => {
         return await ctx.runMutation(
-          internal.mux.mutations.cleanupAbandonedUploads
+          internal.mux.mutations.cleanupAbandonedUploads,
+          {}
         );
       });
 
@@ -1039,11 +1068,3097 @@ describe("Video Operations", () => {
       // Run cleanup with no stale videos
       const result = await t.run(async (ctx) => {
         return await ctx.runMutation(
-          internal.mux.mutations.cleanupAbandonedUploads
+          internal.mux.mutations.cleanupAbandonedUploads,
+          {}
         );
       });
 
       expect(result.deletedCount).toBe(0);
     });
+
+    it("should delete large backlogs in scheduled batches and cancel uploads", async () => {
+      vi.useFakeTimers();
+      const t = setupConvexTest();
+      const coach = await createTestCoach(t, {
+        email: "coach@example.com",
+        name: "Coach",
+      });
+
+      // 250 stale uploads across both statuses - three batches
+      const staleTimestamp = Date.now() - 25 * 60 * 60 * 1000;
+      await t.run(async (ctx) => {
+        for (let i = 0; i < 250; i += 1) {
+          await ctx.db.insert("videos", {
+            uploadedBy: coach.profileId,
+            muxUploadId: `stale-upload-${i}`,
+            muxAssetId: "",
+            title: `Stale ${i}`,
+            status: i % 2 === 0 ? "waiting_for_upload" : "uploading",
+            createdAt: staleTimestamp,
+            updatedAt: staleTimestamp,
+          });
+        }
+      });
+      const recentId = await t.mutation(internal.mux.mutations.insertVideo, {
+        uploadedBy: coach.profileId,
+        muxUploadId: "recent-upload",
+        title: "Recent",
+        status: "waiting_for_upload",
+      });
+
+      const first = await t.mutation(
+        internal.mux.mutations.cleanupAbandonedUploads,
+        {}
+      );
+      expect(first).toEqual({
+        deletedCount: 100,
+        batchCount: 1,
+        isComplete: false,
+      });
+
+      // Each batch cancels its Mux uploads
+      const scheduled = await t.run(
+        async (ctx) =>
+          await ctx.db.system.query("_scheduled_functions").collect()
+      );
+      const cancellation = scheduled.find((job) =>
+        job.name.includes("cancelMuxUploads")
+      );
+      expect(cancellation?.args[0].uploadIds).toHaveLength(100);
+
+      await t.finishAllScheduledFunctions(vi.runAllTimers);
+
+      const remaining = await t.run(
+        async (ctx) => await ctx.db.query("videos").collect()
+      );
+      expect(remaining.map((video) => video._id)).toEqual([recentId]);
+      vi.useRealTimers();
+    });
+  });
+
+  describe("Signed Playback Access", () => {
+    async function setupSignedVideo(t: ReturnType<typeof setupConvexTest>) {
+      const coach = await createTestCoach(t, {
+        email: "coach@example.com",
+        name: "Coach",
+      });
+      const videoId = await t.run(async (ctx) => {
+        return await ctx.runMutation(internal.mux.mutations.insertVideo, {
+          uploadedBy: coach.profileId,
+          muxUploadId: "upload-signed",
+          title: "Day A",
+          status: "waiting_for_upload",
+          playbackPolicy: "signed",
+        });
+      });
+      await t.mutation(internal.mux.webhooks.handleUploadAssetCreated, {
+        uploadId: "upload-signed",
+        assetId: "asset-signed",
+      });
+      await t.mutation(internal.mux.webhooks.handleAssetReady, {
+        assetId: "asset-signed",
+        playbackIds: [
+          { id: "public-playback", policy: "public" },
+          { id: "signed-playback", policy: "signed" },
+        ],
+      });
+
+      const programId = await coach.asUser.mutation(
+        api.programs.createProgram,
+        {
+          title: "Strength Foundations",
+          description: "Eight weeks of barbell basics",
+          category: "strength",
+          level: "beginner",
+        }
+      );
+      const moduleId = await coach.asUser.mutation(
+        api.programModules.addModule,
+        { programId, title: "Week 1", description: "" }
+      );
+
+      const athlete = await createAuthenticatedTestUser(t, {
+        email: "athlete@example.com",
+        name: "Athlete",
+      });
+      const athleteProfileId = await athlete.asUser.mutation(
+        api.profiles.createProfile,
+        { displayName: "Athlete", role: "athlete" }
+      );
+
+      return {
+        coach,
+        athlete: athlete.asUser,
+        athleteProfileId,
+        videoId,
+        programId,
+        moduleId,
+      };
+    }
+
+    it("should store the signed playback ID without a public thumbnail", async () => {
+      const t = setupConvexTest();
+      const { videoId } = await setupSignedVideo(t);
+
+      const video = await t.run(async (ctx) => await ctx.db.get(videoId));
+      expect(video).toMatchObject({
+        status: "ready",
+        playbackPolicy: "signed",
+        muxPlaybackId: "signed-playback",
+      });
+      expect(video?.thumbnailUrl).toBeUndefined();
+    });
+
+    it("should grant playback to the owner and enrolled athletes only", async () => {
+      const t = setupConvexTest();
+      const { coach, athlete, athleteProfileId, videoId, programId, moduleId } =
+        await setupSignedVideo(t);
+      await coach.asUser.mutation(api.workouts.addWorkout, {
+        moduleId,
+        title: "Day A",
+        description: "",
+        difficulty: 2,
+        videoId,
+      });
+
+      expect(
+        await coach.asUser.query(internal.mux.queries.getPlaybackGrant, {
+          videoId,
+        })
+      ).toEqual({ playbackId: "signed-playback", playbackPolicy: "signed" });
+
+      await expect(
+        athlete.query(internal.mux.queries.getPlaybackGrant, { videoId })
+      ).rejects.toThrow("Unauthorized - you don't have access to this video");
+
+      await t.mutation(internal.enrollments.grantEnrollment, {
+        programId,
+        athleteProfileId,
+      });
+      expect(
+        await athlete.query(internal.mux.queries.getPlaybackGrant, { videoId })
+      ).toMatchObject({ playbackId: "signed-playback" });
+
+      // Enrolled programs can't be deleted
+      await expect(
+        coach.asUser.mutation(api.programs.deleteProgram, { programId })
+      ).rejects.toThrow("Program has enrolled athletes");
+    });
+
+    it("should grant exercise videos to athletes enrolled in a program using the exercise", async () => {
+      const t = setupConvexTest();
+      const { coach, athlete, athleteProfileId, videoId, programId, moduleId } =
+        await setupSignedVideo(t);
+      const workoutId = await coach.asUser.mutation(api.workouts.addWorkout, {
+        moduleId,
+        title: "Day A",
+        description: "",
+        difficulty: 2,
+      });
+      const exerciseId = await coach.asUser.mutation(
+        api.exercises.createExercise,
+        {
+          name: "Back Squat",
+          description: "",
+          category: "strength",
+          equipment: ["barbell"],
+          videoId,
+        }
+      );
+      await coach.asUser.mutation(api.workoutExercises.addWorkoutExercise, {
+        workoutId,
+        exerciseId,
+        sets: 3,
+        reps: "5",
+      });
+      await t.mutation(internal.enrollments.grantEnrollment, {
+        programId,
+        athleteProfileId,
+      });
+
+      expect(
+        await athlete.query(internal.mux.queries.getPlaybackGrant, { videoId })
+      ).toMatchObject({ playbackId: "signed-playback" });
+    });
+
+    it("should grant published program previews to anyone", async () => {
+      const t = setupConvexTest();
+      const { coach, videoId, programId } = await setupSignedVideo(t);
+      await coach.asUser.mutation(api.programs.updateProgram, {
+        programId,
+        previewVideoId: videoId,
+      });
+
+      // Draft program previews aren't public yet
+      await expect(
+        t.query(internal.mux.queries.getPlaybackGrant, { videoId })
+      ).rejects.toThrow("Unauthorized");
+
+      await t.run(async (ctx) => {
+        await ctx.db.patch(programId, { isPublished: true });
+      });
+      expect(
+        await t.query(internal.mux.queries.getPlaybackGrant, { videoId })
+      ).toMatchObject({ playbackId: "signed-playback" });
+    });
+
+    it("should reject videos that aren't ready", async () => {
+      const t = setupConvexTest();
+      const { asUser, profileId } = await createTestCoach(t, {
+        email: "coach@example.com",
+        name: "Coach",
+      });
+      const videoId = await t.run(async (ctx) => {
+        return await ctx.runMutation(internal.mux.mutations.insertVideo, {
+          uploadedBy: profileId,
+          muxUploadId: "upload-pending",
+          title: "Pending",
+          status: "waiting_for_upload",
+          playbackPolicy: "signed",
+        });
+      });
+
+      await expect(
+        asUser.query(internal.mux.queries.getPlaybackGrant, { videoId })
+      ).rejects.toThrow("Video is not ready for playback");
+    });
+  });
+
+  describe("Webhook Event Log", () => {
+    async function setupUploadingVideo(t: ReturnType<typeof setupConvexTest>) {
+      const coach = await createTestCoach(t, {
+        email: "coach@example.com",
+        name: "Coach",
+      });
+      const videoId = await t.mutation(internal.mux.mutations.insertVideo, {
+        uploadedBy: coach.profileId,
+        muxUploadId: "upload-1",
+        title: "Squat Demo",
+        status: "uploading",
+      });
+      return { coach, videoId };
+    }
+
+    const assetCreated = {
+      muxEventId: "evt-created",
+      type: "video.upload.asset_created",
+      data: { id: "upload-1", asset_id: "asset-1" },
+    };
+    const assetReady = {
+      muxEventId: "evt-ready",
+      type: "video.asset.ready",
+      data: {
+        id: "asset-1",
+        playback_ids: [{ id: "playback-1", policy: "public" }],
+        duration: 42,
+      },
+    };
+
+    async function getEvents(t: ReturnType<typeof setupConvexTest>) {
+      return await t.run(
+        async (ctx) => await ctx.db.query("muxWebhookEvents").collect()
+      );
+    }
+
+    it("should skip redelivered events", async () => {
+      const t = setupConvexTest();
+      const { videoId } = await setupUploadingVideo(t);
+
+      const first = await t.mutation(
+        internal.mux.events.ingestWebhookEvent,
+        assetCreated
+      );
+      expect(first).toEqual({ status: "processed", duplicate: false });
+
+      // Video moved on - a redelivery must not reset it to processing
+      await t.run(async (ctx) => {
+        await ctx.db.patch(videoId, { status: "ready" });
+      });
+      const second = await t.mutation(
+        internal.mux.events.ingestWebhookEvent,
+        assetCreated
+      );
+      expect(second).toEqual({ status: "processed", duplicate: true });
+
+      const video = await t.run(async (ctx) => await ctx.db.get(videoId));
+      expect(video?.status).toBe("ready");
+
+      const events = await getEvents(t);
+      expect(events).toHaveLength(1);
+      expect(events[0].attempts).toBe(1);
+      expect(events[0].muxObjectId).toBe("upload-1");
+    });
+
+    it("should park events that arrive before their video is linked", async () => {
+      const t = setupConvexTest();
+      const { videoId } = await setupUploadingVideo(t);
+
+      const parked = await t.mutation(
+        internal.mux.events.ingestWebhookEvent,
+        assetReady
+      );
+      expect(parked).toEqual({ status: "parked", duplicate: false });
+
+      let video = await t.run(async (ctx) => await ctx.db.get(videoId));
+      expect(video?.status).toBe("uploading");
+
+      // Linking the asset replays the parked ready event
+      await t.mutation(internal.mux.events.ingestWebhookEvent, assetCreated);
+
+      video = await t.run(async (ctx) => await ctx.db.get(videoId));
+      expect(video?.status).toBe("ready");
+      expect(video?.muxPlaybackId).toBe("playback-1");
+      expect(video?.duration).toBe(42);
+
+      const events = await getEvents(t);
+      const ready = events.find((e) => e.muxEventId === "evt-ready");
+      expect(ready?.status).toBe("processed");
+      expect(ready?.attempts).toBe(2);
+      expect(ready?.processedAt).toBeDefined();
+    });
+
+    it("should store unhandled event types as ignored", async () => {
+      const t = setupConvexTest();
+
+      const event = {
+        muxEventId: "evt-live",
+        type: "video.live_stream.active",
+        data: { id: "stream-1" },
+      };
+      const first = await t.mutation(
+        internal.mux.events.ingestWebhookEvent,
+        event
+      );
+      const second = await t.mutation(
+        internal.mux.events.ingestWebhookEvent,
+        event
+      );
+
+      expect(first).toEqual({ status: "ignored", duplicate: false });
+      expect(second).toEqual({ status: "ignored", duplicate: true });
+    });
+
+    it("should replay parked and failed events", async () => {
+      const t = setupConvexTest();
+      const { videoId } = await setupUploadingVideo(t);
+
+      // Parked: no video has asset-1 yet
+      await t.mutation(internal.mux.events.ingestWebhookEvent, assetReady);
+      // Failed: handler threw during delivery
+      await t.mutation(internal.mux.events.markWebhookEventFailed, {
+        ...assetCreated,
+        error: "Transient failure",
+      });
+
+      let events = await getEvents(t);
+      const failed = events.find((e) => e.muxEventId === "evt-created");
+      expect(failed?.status).toBe("failed");
+      expect(failed?.lastError).toBe("Transient failure");
+
+      // Replaying the failed upload event links the asset, which in turn
+      // replays the parked ready event
+      const counts = await t.action(internal.mux.events.replayWebhookEvents, {
+        status: "failed",
+      });
+      expect(counts).toEqual({
+        processed: 1,
+        parked: 0,
+        ignored: 0,
+        failed: 0,
+      });
+
+      events = await getEvents(t);
+      expect(events.every((e) => e.status === "processed")).toBe(true);
+      expect(
+        events.find((e) => e.muxEventId === "evt-created")?.lastError
+      ).toBeUndefined();
+
+      const video = await t.run(async (ctx) => await ctx.db.get(videoId));
+      expect(video?.status).toBe("ready");
+
+      // Nothing left to replay
+      const empty = await t.action(internal.mux.events.replayWebhookEvents, {});
+      expect(empty.processed).toBe(0);
+    });
+
+    it("should only let admins list webhook events", async () => {
+      const t = setupConvexTest();
+      const { coach } = await setupUploadingVideo(t);
+      await t.mutation(internal.mux.events.ingestWebhookEvent, assetReady);
+      await t.mutation(internal.mux.events.ingestWebhookEvent, assetCreated);
+      await t.mutation(internal.mux.events.ingestWebhookEvent, {
+        muxEventId: "evt-orphan",
+        type: "video.asset.errored",
+        data: { id: "asset-unknown", errors: { messages: ["Bad input"] } },
+      });
+
+      const paginationOpts = { numItems: 10, cursor: null };
+      await expect(
+        coach.asUser.query(api.mux.events.listWebhookEvents, {
+          paginationOpts,
+        })
+      ).rejects.toThrow("Admin access required");
+
+      const admin = await createAuthenticatedTestUser(t, {
+        email: "admin@example.com",
+        name: "Admin",
+      });
+      await admin.asUser.mutation(api.profiles.createProfile, {
+        displayName: "Admin",
+        role: "admin",
+      });
+
+      const all = await admin.asUser.query(api.mux.events.listWebhookEvents, {
+        paginationOpts,
+      });
+      expect(all.page.map((e) => e.muxEventId)).toEqual([
+        "evt-orphan",
+        "evt-created",
+        "evt-ready",
+      ]);
+
+      const parked = await admin.asUser.query(
+        api.mux.events.listWebhookEvents,
+        { paginationOpts, status: "parked" }
+      );
+      expect(parked.page).toHaveLength(1);
+      expect(parked.page[0].muxEventId).toBe("evt-orphan");
+      expect(parked.page[0].data.errors.messages).toEqual(["Bad input"]);
+    });
+  });
+
+  describe("Lifecycle Webhooks", () => {
+    async function setupVideo(
+      t: ReturnType<typeof setupConvexTest>,
+      options: { ready?: boolean } = {}
+    ) {
+      const coach = await createTestCoach(t, {
+        email: "coach@example.com",
+        name: "Coach",
+      });
+      const videoId = await t.mutation(internal.mux.mutations.insertVideo, {
+        uploadedBy: coach.profileId,
+        muxUploadId: "upload-1",
+        title: "Squat Demo",
+        status: "uploading",
+      });
+      if (options.ready) {
+        await t.mutation(internal.mux.webhooks.handleUploadAssetCreated, {
+          uploadId: "upload-1",
+          assetId: "asset-1",
+        });
+        await t.mutation(internal.mux.webhooks.handleAssetReady, {
+          assetId: "asset-1",
+          playbackIds: [{ id: "playback-1", policy: "public" }],
+          duration: 42,
+          aspectRatio: "16:9",
+        });
+      }
+      return { coach, videoId };
+    }
+
+    async function getVideo(
+      t: ReturnType<typeof setupConvexTest>,
+      videoId: Id<"videos">
+    ) {
+      return await t.run(async (ctx) => await ctx.db.get(videoId));
+    }
+
+    it("should mark cancelled and errored uploads as failed", async () => {
+      const t = setupConvexTest();
+      const { coach, videoId } = await setupVideo(t);
+
+      await t.mutation(internal.mux.webhooks.handleUploadCancelled, {
+        uploadId: "upload-1",
+      });
+      let video = await getVideo(t, videoId);
+      expect(video?.status).toBe("error");
+      expect(video?.errorMessage).toBe("Upload was cancelled");
+
+      const otherId = await t.mutation(internal.mux.mutations.insertVideo, {
+        uploadedBy: coach.profileId,
+        muxUploadId: "upload-2",
+        title: "Deadlift Demo",
+        status: "waiting_for_upload",
+      });
+      await t.mutation(internal.mux.webhooks.handleUploadErrored, {
+        uploadId: "upload-2",
+        error: { type: "invalid_input", message: "File is not a video" },
+      });
+      video = await getVideo(t, otherId);
+      expect(video?.status).toBe("error");
+      expect(video?.errorMessage).toBe("File is not a video");
+    });
+
+    it("should ignore upload failures after the asset was created", async () => {
+      const t = setupConvexTest();
+      const { videoId } = await setupVideo(t, { ready: true });
+
+      const found = await t.mutation(
+        internal.mux.webhooks.handleUploadCancelled,
+        { uploadId: "upload-1" }
+      );
+
+      expect(found).toBe(true);
+      const video = await getVideo(t, videoId);
+      expect(video?.status).toBe("ready");
+      expect(video?.errorMessage).toBeUndefined();
+    });
+
+    it("should reflect assets deleted from Mux", async () => {
+      const t = setupConvexTest();
+      const { videoId } = await setupVideo(t, { ready: true });
+
+      await t.mutation(internal.mux.webhooks.handleAssetDeleted, {
+        assetId: "asset-1",
+      });
+
+      const video = await getVideo(t, videoId);
+      expect(video?.status).toBe("error");
+      expect(video?.errorMessage).toBe(
+        "Video was deleted from Mux - upload it again"
+      );
+      expect(video?.muxPlaybackId).toBeUndefined();
+      expect(video?.thumbnailUrl).toBeUndefined();
+
+      // Assets of videos deleted in EKVI have no row - nothing to park
+      const result = await t.mutation(internal.mux.events.ingestWebhookEvent, {
+        muxEventId: "evt-deleted",
+        type: "video.asset.deleted",
+        data: { id: "asset-gone" },
+      });
+      expect(result.status).toBe("processed");
+    });
+
+    it("should sync asset updates once the video is ready", async () => {
+      const t = setupConvexTest();
+      const { videoId } = await setupVideo(t, { ready: true });
+
+      await t.mutation(internal.mux.webhooks.handleAssetUpdated, {
+        assetId: "asset-1",
+        playbackIds: [{ id: "playback-2", policy: "public" }],
+      });
+
+      const video = await getVideo(t, videoId);
+      expect(video?.status).toBe("ready");
+      expect(video?.muxPlaybackId).toBe("playback-2");
+      expect(video?.thumbnailUrl).toBe(
+        "https://image.mux.com/playback-2/thumbnail.jpg"
+      );
+      // Fields missing from the payload are kept
+      expect(video?.duration).toBe(42);
+      expect(video?.aspectRatio).toBe("16:9");
+    });
+
+    it("should store ready static renditions", async () => {
+      const t = setupConvexTest();
+      const { videoId } = await setupVideo(t, { ready: true });
+
+      await t.mutation(internal.mux.webhooks.handleStaticRenditionsReady, {
+        assetId: "asset-1",
+        files: [
+          { name: "low.mp4", status: "ready" },
+          { name: "high.mp4", status: "ready" },
+          { name: "highest.mp4", status: "skipped" },
+        ],
+      });
+
+      const video = await getVideo(t, videoId);
+      expect(video?.staticRenditions).toEqual(["low.mp4", "high.mp4"]);
+    });
+
+    it("should record text track status from track webhooks", async () => {
+      const t = setupConvexTest();
+      const { videoId } = await setupVideo(t, { ready: true });
+
+      const track = (id: string, languageCode: string, extra = {}) => ({
+        id,
+        asset_id: "asset-1",
+        type: "text",
+        text_source: "uploaded",
+        language_code: languageCode,
+        name: languageCode,
+        ...extra,
+      });
+
+      await t.mutation(internal.mux.webhooks.applyReconciledEvent, {
+        type: "video.asset.track.ready",
+        data: track("track-en", "en"),
+      });
+      await t.mutation(internal.mux.webhooks.applyReconciledEvent, {
+        type: "video.asset.track.errored",
+        data: track("track-sr", "sr", {
+          error: { type: "invalid_input", messages: ["Invalid WebVTT"] },
+        }),
+      });
+      // A late "created" doesn't downgrade a ready track
+      await t.mutation(internal.mux.webhooks.applyReconciledEvent, {
+        type: "video.asset.track.created",
+        data: track("track-en", "en"),
+      });
+      await t.mutation(internal.mux.webhooks.applyReconciledEvent, {
+        type: "video.asset.track.ready",
+        data: { id: "track-audio", asset_id: "asset-1", type: "audio" },
+      });
+
+      const tracks = await t.run(
+        async (ctx) =>
+          await ctx.db
+            .query("videoTracks")
+            .withIndex("by_videoId", (q) => q.eq("videoId", videoId))
+            .collect()
+      );
+      expect(tracks).toHaveLength(2);
+      expect(tracks[0]).toMatchObject({
+        muxTrackId: "track-en",
+        source: "uploaded",
+        languageCode: "en",
+        status: "ready",
+      });
+      expect(tracks[1]).toMatchObject({
+        muxTrackId: "track-sr",
+        status: "errored",
+        errorMessage: "Invalid WebVTT",
+      });
+
+      await t.mutation(internal.mux.webhooks.applyReconciledEvent, {
+        type: "video.asset.track.deleted",
+        data: track("track-sr", "sr"),
+      });
+      const remaining = await t.run(
+        async (ctx) => await ctx.db.query("videoTracks").collect()
+      );
+      expect(remaining.map((row) => row.muxTrackId)).toEqual(["track-en"]);
+    });
+
+    it("should apply track events through the direct handlers", async () => {
+      const t = setupConvexTest();
+      const { videoId } = await setupVideo(t, { ready: true });
+
+      await t.mutation(internal.mux.webhooks.handleTrackEvent, {
+        type: "video.asset.track.created",
+        trackId: "track-en",
+        assetId: "asset-1",
+        trackType: "text",
+        textSource: "generated_vod",
+        languageCode: "en",
+        name: "English",
+        closedCaptions: true,
+      });
+      await t.mutation(internal.mux.webhooks.handleTrackEvent, {
+        type: "video.asset.track.ready",
+        trackId: "track-en",
+        assetId: "asset-1",
+        trackType: "text",
+        textSource: "generated_vod",
+        languageCode: "en",
+      });
+      await t.mutation(internal.mux.webhooks.handleTrackEvent, {
+        type: "video.asset.track.errored",
+        trackId: "track-sr",
+        assetId: "asset-1",
+        trackType: "text",
+        languageCode: "sr",
+        errorMessages: ["Invalid WebVTT"],
+      });
+
+      // Audio tracks and unknown assets
+      expect(
+        await t.mutation(internal.mux.webhooks.handleTrackEvent, {
+          type: "video.asset.track.ready",
+          trackId: "track-audio",
+          assetId: "asset-1",
+          trackType: "audio",
+        })
+      ).toBe(true);
+      expect(
+        await t.mutation(internal.mux.webhooks.handleTrackEvent, {
+          type: "video.asset.track.ready",
+          trackId: "track-other",
+          assetId: "asset-unknown",
+          trackType: "text",
+          languageCode: "en",
+        })
+      ).toBe(false);
+
+      const tracks = await t.run(
+        async (ctx) =>
+          await ctx.db
+            .query("videoTracks")
+            .withIndex("by_videoId", (q) => q.eq("videoId", videoId))
+            .collect()
+      );
+      expect(tracks).toHaveLength(2);
+      expect(tracks[0]).toMatchObject({
+        muxTrackId: "track-en",
+        source: "generated",
+        name: "English",
+        closedCaptions: true,
+        status: "ready",
+      });
+      expect(tracks[1]).toMatchObject({
+        muxTrackId: "track-sr",
+        source: "uploaded",
+        status: "errored",
+        errorMessage: "Invalid WebVTT",
+      });
+
+      await t.mutation(internal.mux.webhooks.handleTrackDeleted, {
+        trackId: "track-sr",
+      });
+      // Already gone - nothing to do
+      expect(
+        await t.mutation(internal.mux.webhooks.handleTrackDeleted, {
+          trackId: "track-sr",
+        })
+      ).toBe(true);
+      const remaining = await t.run(
+        async (ctx) => await ctx.db.query("videoTracks").collect()
+      );
+      expect(remaining.map((row) => row.muxTrackId)).toEqual(["track-en"]);
+    });
+
+    it("should park track events until their asset is linked", async () => {
+      const t = setupConvexTest();
+      const { videoId } = await setupVideo(t);
+
+      const parked = await t.mutation(internal.mux.events.ingestWebhookEvent, {
+        muxEventId: "evt-track",
+        type: "video.asset.track.ready",
+        data: {
+          id: "track-1",
+          asset_id: "asset-1",
+          type: "text",
+          language_code: "en",
+        },
+      });
+      expect(parked.status).toBe("parked");
+
+      await t.mutation(internal.mux.events.ingestWebhookEvent, {
+        muxEventId: "evt-created",
+        type: "video.upload.asset_created",
+        data: { id: "upload-1", asset_id: "asset-1" },
+      });
+
+      const tracks = await t.run(
+        async (ctx) => await ctx.db.query("videoTracks").collect()
+      );
+      expect(tracks).toHaveLength(1);
+      expect(tracks[0]).toMatchObject({
+        videoId,
+        muxTrackId: "track-1",
+        languageCode: "en",
+        status: "ready",
+      });
+    });
+  });
+
+  describe("Caption Tracks", () => {
+    async function setupReadyVideo(t: ReturnType<typeof setupConvexTest>) {
+      const coach = await createTestCoach(t, {
+        email: "coach@example.com",
+        name: "Coach",
+      });
+      const videoId = await t.mutation(internal.mux.mutations.insertVideo, {
+        uploadedBy: coach.profileId,
+        muxUploadId: "upload-1",
+        title: "Squat Demo",
+        status: "uploading",
+      });
+      await t.mutation(internal.mux.webhooks.handleUploadAssetCreated, {
+        uploadId: "upload-1",
+        assetId: "asset-1",
+      });
+      await t.mutation(internal.mux.webhooks.handleAssetReady, {
+        assetId: "asset-1",
+        playbackIds: [{ id: "playback-1", policy: "public" }],
+      });
+      return { coach, videoId };
+    }
+
+    /** Register a WebVTT file (convex-test doesn't set contentType) */
+    async function uploadCaptionFile(
+      t: ReturnType<typeof setupConvexTest>,
+      asUser: Awaited<ReturnType<typeof createTestCoach>>["asUser"],
+      contentType = "text/vtt"
+    ) {
+      const storageId = await t.run(async (ctx) => {
+        const id = await ctx.storage.store(
+          new Blob(["WEBVTT\n\n00:00.000 --> 00:02.000\nZdravo"], {
+            type: contentType,
+          })
+        );
+        await (ctx.db as any).patch(id, { contentType });
+        return id;
+      });
+      return await asUser.mutation(api.files.registerUpload, {
+        storageId,
+        fileName: "squat.sr.vtt",
+        fileType: "caption",
+      });
+    }
+
+    it("should add an uploaded caption track as preparing", async () => {
+      vi.useFakeTimers();
+      const t = setupConvexTest();
+      const { coach, videoId } = await setupReadyVideo(t);
+      const fileId = await uploadCaptionFile(t, coach.asUser);
+
+      const trackId = await coach.asUser.mutation(
+        api.mux.tracks.addCaptionTrack,
+        { videoId, fileId, languageCode: "sr", name: "Srpski" }
+      );
+
+      const tracks = await coach.asUser.query(api.mux.tracks.listVideoTracks, {
+        videoId,
+      });
+      expect(tracks).toHaveLength(1);
+      expect(tracks[0]).toMatchObject({
+        _id: trackId,
+        source: "uploaded",
+        languageCode: "sr",
+        name: "Srpski",
+        closedCaptions: false,
+        fileId,
+        status: "preparing",
+      });
+
+      const scheduled = await t.run(
+        async (ctx) => await ctx.db.system.query("_scheduled_functions").first()
+      );
+      expect(scheduled?.name).toContain("createMuxTrack");
+      expect(scheduled?.args[0]).toEqual({ trackId });
+
+      // Without Mux credentials the request fails and the track is errored
+      await t.finishAllScheduledFunctions(vi.runAllTimers);
+      const track = await t.run(async (ctx) => await ctx.db.get(trackId));
+      expect(track?.status).toBe("errored");
+      expect(track?.errorMessage).toContain("Mux credentials not configured");
+      vi.useRealTimers();
+    });
+
+    it("should error an uploaded track whose caption file is missing", async () => {
+      vi.useFakeTimers();
+      const t = setupConvexTest();
+      const { coach, videoId } = await setupReadyVideo(t);
+      const fileId = await uploadCaptionFile(t, coach.asUser);
+
+      const trackId = await coach.asUser.mutation(
+        api.mux.tracks.addCaptionTrack,
+        { videoId, fileId, languageCode: "sr", name: "Srpski" }
+      );
+      await t.run(async (ctx) => {
+        const file = await ctx.db.get(fileId);
+        if (file) {
+          await ctx.storage.delete(file.storageId);
+        }
+      });
+
+      await t.finishAllScheduledFunctions(vi.runAllTimers);
+      const track = await t.run(async (ctx) => await ctx.db.get(trackId));
+      expect(track?.status).toBe("errored");
+      expect(track?.errorMessage).toBe(
+        "Caption file not found in storage - upload it again"
+      );
+      vi.useRealTimers();
+    });
+
+    it("should link webhooks to tracks still waiting for their Mux ID", async () => {
+      const t = setupConvexTest();
+      const { coach, videoId } = await setupReadyVideo(t);
+
+      const trackId = await coach.asUser.mutation(
+        api.mux.tracks.requestGeneratedCaptions,
+        { videoId, languageCode: "en", name: "English (auto)" }
+      );
+
+      await t.mutation(internal.mux.webhooks.applyReconciledEvent, {
+        type: "video.asset.track.ready",
+        data: {
+          id: "track-generated",
+          asset_id: "asset-1",
+          type: "text",
+          text_source: "generated_vod",
+          language_code: "en",
+          name: "English (auto)",
+        },
+      });
+
+      const tracks = await t.run(
+        async (ctx) =>
+          await ctx.db
+            .query("videoTracks")
+            .withIndex("by_videoId", (q) => q.eq("videoId", videoId))
+            .collect()
+      );
+      expect(tracks).toHaveLength(1);
+      expect(tracks[0]).toMatchObject({
+        _id: trackId,
+        source: "generated",
+        muxTrackId: "track-generated",
+        closedCaptions: true,
+        status: "ready",
+      });
+    });
+
+    it("should reject invalid caption requests", async () => {
+      vi.useFakeTimers();
+      const t = setupConvexTest();
+      const { coach, videoId } = await setupReadyVideo(t);
+      const fileId = await uploadCaptionFile(t, coach.asUser);
+
+      // Mux can't generate Serbian captions - upload a file instead
+      await expect(
+        coach.asUser.mutation(api.mux.tracks.requestGeneratedCaptions, {
+          videoId,
+          languageCode: "sr",
+          name: "Srpski",
+        })
+      ).rejects.toThrow("Mux can't generate captions");
+
+      await expect(
+        coach.asUser.mutation(api.mux.tracks.addCaptionTrack, {
+          videoId,
+          fileId,
+          languageCode: "Serbian",
+          name: "Srpski",
+        })
+      ).rejects.toThrow("Invalid language code");
+
+      await coach.asUser.mutation(api.mux.tracks.addCaptionTrack, {
+        videoId,
+        fileId,
+        languageCode: "sr-Latn",
+        name: "Srpski",
+      });
+      // Run the scheduled createMuxTrack before the next call
+      await t.finishAllScheduledFunctions(vi.runAllTimers);
+      await expect(
+        coach.asUser.mutation(api.mux.tracks.addCaptionTrack, {
+          videoId,
+          fileId,
+          languageCode: "sr-Latn",
+          name: "Srpski 2",
+        })
+      ).rejects.toThrow("already has uploaded captions");
+
+      const processingId = await t.mutation(
+        internal.mux.mutations.insertVideo,
+        {
+          uploadedBy: coach.profileId,
+          muxUploadId: "upload-2",
+          title: "Lunge Demo",
+          status: "processing",
+        }
+      );
+      await expect(
+        coach.asUser.mutation(api.mux.tracks.requestGeneratedCaptions, {
+          videoId: processingId,
+          languageCode: "en",
+          name: "English",
+        })
+      ).rejects.toThrow("Captions can be added once the video is ready");
+
+      const other = await createTestCoach(t, {
+        email: "other@example.com",
+        name: "Other Coach",
+      });
+      await expect(
+        other.asUser.mutation(api.mux.tracks.requestGeneratedCaptions, {
+          videoId,
+          languageCode: "en",
+          name: "English",
+        })
+      ).rejects.toThrow("Unauthorized - you don't own this video");
+      await expect(
+        other.asUser.query(api.mux.tracks.listVideoTracks, { videoId })
+      ).rejects.toThrow("Unauthorized - you don't have access to this video");
+      vi.useRealTimers();
+    });
+
+    it("should delete tracks with their caption files and Mux tracks", async () => {
+      vi.useFakeTimers();
+      const t = setupConvexTest();
+      const { coach, videoId } = await setupReadyVideo(t);
+      const fileId = await uploadCaptionFile(t, coach.asUser);
+
+      const trackId = await coach.asUser.mutation(
+        api.mux.tracks.addCaptionTrack,
+        { videoId, fileId, languageCode: "sr", name: "Srpski" }
+      );
+      await t.mutation(internal.mux.tracks.linkMuxTrack, {
+        trackId,
+        muxTrackId: "track-sr",
+      });
+
+      await coach.asUser.mutation(api.mux.tracks.deleteCaptionTrack, {
+        trackId,
+      });
+
+      const { track, file, scheduled } = await t.run(async (ctx) => ({
+        track: await ctx.db.get(trackId),
+        file: await ctx.db.get(fileId),
+        scheduled: await ctx.db.system.query("_scheduled_functions").collect(),
+      }));
+      expect(track).toBeNull();
+      expect(file).toBeNull();
+      const deletion = scheduled.find((job) =>
+        job.name.includes("deleteMuxTrack")
+      );
+      expect(deletion?.args[0]).toEqual({
+        assetId: "asset-1",
+        muxTrackId: "track-sr",
+      });
+      await t.finishAllScheduledFunctions(vi.runAllTimers);
+      vi.useRealTimers();
+    });
+
+    it("should not delete a caption file used by a track", async () => {
+      vi.useFakeTimers();
+      const t = setupConvexTest();
+      const { coach, videoId } = await setupReadyVideo(t);
+      const fileId = await uploadCaptionFile(t, coach.asUser);
+      await coach.asUser.mutation(api.mux.tracks.addCaptionTrack, {
+        videoId,
+        fileId,
+        languageCode: "sr",
+        name: "Srpski",
+      });
+
+      await expect(
+        coach.asUser.mutation(api.files.deleteFile, { fileId })
+      ).rejects.toThrow(
+        'File is used as the "Srpski" captions of video "Squat Demo" - remove the caption track first'
+      );
+
+      const file = await t.run(async (ctx) => await ctx.db.get(fileId));
+      expect(file).not.toBeNull();
+      await t.finishAllScheduledFunctions(vi.runAllTimers);
+      vi.useRealTimers();
+    });
+
+    it("should delete tracks with their video", async () => {
+      const t = setupConvexTest();
+      const { coach, videoId } = await setupReadyVideo(t);
+      await coach.asUser.mutation(api.mux.tracks.requestGeneratedCaptions, {
+        videoId,
+        languageCode: "en",
+        name: "English",
+      });
+
+      await coach.asUser.mutation(api.mux.mutations.deleteVideo, { videoId });
+
+      const tracks = await t.run(
+        async (ctx) => await ctx.db.query("videoTracks").collect()
+      );
+      expect(tracks).toHaveLength(0);
+    });
+  });
+
+  describe("Thumbnails and Previews", () => {
+    async function setupPublicVideo(
+      t: ReturnType<typeof setupConvexTest>,
+      options: { duration?: number } = {}
+    ) {
+      const coach = await createTestCoach(t, {
+        email: "coach@example.com",
+        name: "Coach",
+      });
+      const videoId = await t.mutation(internal.mux.mutations.insertVideo, {
+        uploadedBy: coach.profileId,
+        muxUploadId: "upload-1",
+        title: "Squat Demo",
+        status: "uploading",
+        playbackPolicy: "public",
+      });
+      await t.mutation(internal.mux.webhooks.handleUploadAssetCreated, {
+        uploadId: "upload-1",
+        assetId: "asset-1",
+      });
+      await t.mutation(internal.mux.webhooks.handleAssetReady, {
+        assetId: "asset-1",
+        playbackIds: [{ id: "playback-1", policy: "public" }],
+        duration: options.duration ?? 60,
+      });
+      return { coach, videoId };
+    }
+
+    async function uploadImage(
+      t: ReturnType<typeof setupConvexTest>,
+      asUser: Awaited<ReturnType<typeof createTestCoach>>["asUser"],
+      options: {
+        contentType?: string;
+        fileType?: "thumbnail" | "document";
+      } = {}
+    ) {
+      const contentType = options.contentType ?? "image/png";
+      const storageId = await t.run(async (ctx) => {
+        const id = await ctx.storage.store(
+          new Blob([new Uint8Array(16)], { type: contentType })
+        );
+        await (ctx.db as any).patch(id, { contentType });
+        return id;
+      });
+      return await asUser.mutation(api.files.registerUpload, {
+        storageId,
+        fileName: "cover",
+        fileType: options.fileType ?? "thumbnail",
+      });
+    }
+
+    it("should default to the middle frame instead of the first", async () => {
+      const t = setupConvexTest();
+      const { videoId } = await setupPublicVideo(t);
+
+      const video = await t.run(async (ctx) => await ctx.db.get(videoId));
+      expect(video?.thumbnailUrl).toBe(
+        "https://image.mux.com/playback-1/thumbnail.jpg"
+      );
+    });
+
+    it("should set the thumbnail time within the video", async () => {
+      const t = setupConvexTest();
+      const { coach, videoId } = await setupPublicVideo(t);
+
+      await coach.asUser.mutation(api.mux.mutations.setThumbnailTime, {
+        videoId,
+        time: 12.34,
+      });
+
+      const video = await t.run(async (ctx) => await ctx.db.get(videoId));
+      expect(video?.thumbnailTime).toBe(12.3);
+      expect(video?.thumbnailUrl).toBe(
+        "https://image.mux.com/playback-1/thumbnail.jpg?time=12.3"
+      );
+
+      await expect(
+        coach.asUser.mutation(api.mux.mutations.setThumbnailTime, {
+          videoId,
+          time: 61,
+        })
+      ).rejects.toThrow("Thumbnail time must be within the video");
+
+      const other = await createTestCoach(t, {
+        email: "other@example.com",
+        name: "Other Coach",
+      });
+      await expect(
+        other.asUser.mutation(api.mux.mutations.setThumbnailTime, {
+          videoId,
+          time: 5,
+        })
+      ).rejects.toThrow("Unauthorized - you don't own this video");
+    });
+
+    it("should use an uploaded image until a frame is picked again", async () => {
+      const t = setupConvexTest();
+      const { coach, videoId } = await setupPublicVideo(t);
+      const fileId = await uploadImage(t, coach.asUser);
+
+      await coach.asUser.mutation(api.mux.mutations.setThumbnailImage, {
+        videoId,
+        fileId,
+      });
+
+      let [preview] = await coach.asUser.action(
+        api.mux.actions.getVideoPreviews,
+        { videoIds: [videoId] }
+      );
+      expect(preview.thumbnailUrl).not.toContain("image.mux.com");
+
+      // The image can't be deleted while the video uses it
+      await expect(
+        coach.asUser.mutation(api.files.deleteFile, { fileId })
+      ).rejects.toThrow('File is used as the thumbnail of video "Squat Demo"');
+
+      await coach.asUser.mutation(api.mux.mutations.setThumbnailTime, {
+        videoId,
+        time: 10,
+      });
+      [preview] = await coach.asUser.action(api.mux.actions.getVideoPreviews, {
+        videoIds: [videoId],
+      });
+      expect(preview.thumbnailUrl).toBe(
+        "https://image.mux.com/playback-1/thumbnail.jpg?time=10"
+      );
+
+      const documentId = await uploadImage(t, coach.asUser, {
+        contentType: "application/pdf",
+        fileType: "document",
+      });
+      await expect(
+        coach.asUser.mutation(api.mux.mutations.setThumbnailImage, {
+          videoId,
+          fileId: documentId,
+        })
+      ).rejects.toThrow("Thumbnail must be an image");
+    });
+
+    it("should build animated previews that end within the video", async () => {
+      const t = setupConvexTest();
+      const { coach, videoId } = await setupPublicVideo(t, { duration: 20 });
+      await coach.asUser.mutation(api.mux.mutations.setThumbnailTime, {
+        videoId,
+        time: 18,
+      });
+
+      const [preview] = await coach.asUser.action(
+        api.mux.actions.getVideoPreviews,
+        { videoIds: [videoId] }
+      );
+
+      expect(preview).toEqual({
+        videoId,
+        thumbnailUrl: "https://image.mux.com/playback-1/thumbnail.jpg?time=18",
+        animatedPreviewUrl:
+          "https://image.mux.com/playback-1/animated.webp?start=16&end=20&width=320&fps=12",
+        expiresAt: null,
+      });
+    });
+
+    it("should only preview ready videos the viewer may watch", async () => {
+      const t = setupConvexTest();
+      const { coach, videoId } = await setupPublicVideo(t);
+      const pendingId = await t.mutation(internal.mux.mutations.insertVideo, {
+        uploadedBy: coach.profileId,
+        muxUploadId: "upload-2",
+        title: "Lunge Demo",
+        status: "processing",
+      });
+
+      const grants = await coach.asUser.query(
+        internal.mux.queries.getPreviewGrants,
+        { videoIds: [videoId, pendingId] }
+      );
+      expect(grants.map((grant) => grant.videoId)).toEqual([videoId]);
+
+      const other = await createTestCoach(t, {
+        email: "other@example.com",
+        name: "Other Coach",
+      });
+      const otherGrants = await other.asUser.query(
+        internal.mux.queries.getPreviewGrants,
+        { videoIds: [videoId] }
+      );
+      expect(otherGrants).toEqual([]);
+    });
+  });
+
+  describe("Chapters", () => {
+    async function setupReadyVideo(
+      t: ReturnType<typeof setupConvexTest>,
+      coach: Awaited<ReturnType<typeof createTestCoach>>,
+      upload: { uploadId: string; assetId: string; title: string }
+    ) {
+      const videoId = await t.mutation(internal.mux.mutations.insertVideo, {
+        uploadedBy: coach.profileId,
+        muxUploadId: upload.uploadId,
+        title: upload.title,
+        status: "uploading",
+        playbackPolicy: "signed",
+      });
+      await t.mutation(internal.mux.webhooks.handleUploadAssetCreated, {
+        uploadId: upload.uploadId,
+        assetId: upload.assetId,
+      });
+      await t.mutation(internal.mux.webhooks.handleAssetReady, {
+        assetId: upload.assetId,
+        playbackIds: [{ id: `playback-${upload.assetId}`, policy: "signed" }],
+        duration: 600,
+      });
+      return videoId;
+    }
+
+    async function setupWorkoutVideo(t: ReturnType<typeof setupConvexTest>) {
+      const coach = await createTestCoach(t, {
+        email: "coach@example.com",
+        name: "Coach",
+      });
+      const videoId = await setupReadyVideo(t, coach, {
+        uploadId: "upload-1",
+        assetId: "asset-1",
+        title: "Full Body Workout",
+      });
+      return { coach, videoId };
+    }
+
+    it("should add chapters in start time order", async () => {
+      const t = setupConvexTest();
+      const { coach, videoId } = await setupWorkoutVideo(t);
+
+      await coach.asUser.mutation(api.mux.chapters.addChapter, {
+        videoId,
+        startTime: 120.04,
+        title: " Squats ",
+      });
+      await coach.asUser.mutation(api.mux.chapters.addChapter, {
+        videoId,
+        startTime: 0,
+        title: "Warm-up",
+      });
+
+      const chapters = await coach.asUser.query(
+        api.mux.chapters.listVideoChapters,
+        { videoId }
+      );
+      expect(
+        chapters.map(({ startTime, title, exercise }) => ({
+          startTime,
+          title,
+          exercise,
+        }))
+      ).toEqual([
+        { startTime: 0, title: "Warm-up", exercise: null },
+        { startTime: 120, title: "Squats", exercise: null },
+      ]);
+    });
+
+    it("should validate chapters and ownership", async () => {
+      const t = setupConvexTest();
+      const { coach, videoId } = await setupWorkoutVideo(t);
+      await coach.asUser.mutation(api.mux.chapters.addChapter, {
+        videoId,
+        startTime: 60,
+        title: "Squats",
+      });
+
+      await expect(
+        coach.asUser.mutation(api.mux.chapters.addChapter, {
+          videoId,
+          startTime: 600,
+          title: "Cool-down",
+        })
+      ).rejects.toThrowError("Chapter start must be within the video");
+      await expect(
+        coach.asUser.mutation(api.mux.chapters.addChapter, {
+          videoId,
+          startTime: 90,
+          title: "  ",
+        })
+      ).rejects.toThrowError("Chapter title must be between 1 and 100");
+      await expect(
+        coach.asUser.mutation(api.mux.chapters.addChapter, {
+          videoId,
+          startTime: 60,
+          title: "Lunges",
+        })
+      ).rejects.toThrowError("Another chapter already starts at 60s");
+
+      const other = await createTestCoach(t, {
+        email: "other@example.com",
+        name: "Other Coach",
+      });
+      await expect(
+        other.asUser.mutation(api.mux.chapters.addChapter, {
+          videoId,
+          startTime: 90,
+          title: "Lunges",
+        })
+      ).rejects.toThrowError("Unauthorized - you don't own this video");
+      await expect(
+        other.asUser.query(api.mux.chapters.listVideoChapters, { videoId })
+      ).rejects.toThrowError("you don't have access to this video");
+    });
+
+    it("should move, rename, link and unlink exercises", async () => {
+      const t = setupConvexTest();
+      const { coach, videoId } = await setupWorkoutVideo(t);
+      const demoVideoId = await setupReadyVideo(t, coach, {
+        uploadId: "upload-2",
+        assetId: "asset-2",
+        title: "Squat Demo",
+      });
+      const exerciseId = await coach.asUser.mutation(
+        api.exercises.createExercise,
+        {
+          name: "Back Squat",
+          description: "",
+          category: "strength",
+          equipment: ["barbell"],
+          videoId: demoVideoId,
+        }
+      );
+      const chapterId = await coach.asUser.mutation(
+        api.mux.chapters.addChapter,
+        { videoId, startTime: 60, title: "Squats", exerciseId }
+      );
+
+      let [chapter] = await coach.asUser.query(
+        api.mux.chapters.listVideoChapters,
+        { videoId }
+      );
+      expect(chapter.exercise).toEqual({
+        _id: exerciseId,
+        name: "Back Squat",
+        demoVideoId,
+      });
+
+      await coach.asUser.mutation(api.mux.chapters.updateChapter, {
+        chapterId,
+        startTime: 75,
+        title: "Back Squats",
+      });
+      [chapter] = await coach.asUser.query(api.mux.chapters.listVideoChapters, {
+        videoId,
+      });
+      expect(chapter).toMatchObject({ startTime: 75, title: "Back Squats" });
+      expect(chapter.exercise?._id).toBe(exerciseId);
+
+      await coach.asUser.mutation(api.mux.chapters.updateChapter, {
+        chapterId,
+        exerciseId: null,
+      });
+      [chapter] = await coach.asUser.query(api.mux.chapters.listVideoChapters, {
+        videoId,
+      });
+      expect(chapter.exercise).toBeNull();
+    });
+
+    it("should only link usable exercises", async () => {
+      const t = setupConvexTest();
+      const { coach, videoId } = await setupWorkoutVideo(t);
+      const other = await createTestCoach(t, {
+        email: "other@example.com",
+        name: "Other Coach",
+      });
+      const otherDemoId = await setupReadyVideo(t, other, {
+        uploadId: "upload-2",
+        assetId: "asset-2",
+        title: "Lunge Demo",
+      });
+      const privateId = await other.asUser.mutation(
+        api.exercises.createExercise,
+        {
+          name: "Secret Lunge",
+          description: "",
+          category: "strength",
+          equipment: [],
+        }
+      );
+      const publicId = await other.asUser.mutation(
+        api.exercises.createExercise,
+        {
+          name: "Walking Lunge",
+          description: "",
+          category: "strength",
+          equipment: [],
+          videoId: otherDemoId,
+          isPublic: true,
+        }
+      );
+
+      await expect(
+        coach.asUser.mutation(api.mux.chapters.addChapter, {
+          videoId,
+          startTime: 30,
+          title: "Lunges",
+          exerciseId: privateId,
+        })
+      ).rejects.toThrowError("Unauthorized - this exercise is private");
+
+      await coach.asUser.mutation(api.mux.chapters.addChapter, {
+        videoId,
+        startTime: 30,
+        title: "Lunges",
+        exerciseId: publicId,
+      });
+      const [chapter] = await coach.asUser.query(
+        api.mux.chapters.listVideoChapters,
+        { videoId }
+      );
+      // Demo videos of public exercises are public previews
+      expect(chapter.exercise?.demoVideoId).toBe(otherDemoId);
+    });
+
+    it("should unlink deleted exercises and delete chapters with the video", async () => {
+      const t = setupConvexTest();
+      const { coach, videoId } = await setupWorkoutVideo(t);
+      const exerciseId = await coach.asUser.mutation(
+        api.exercises.createExercise,
+        {
+          name: "Plank",
+          description: "",
+          category: "core",
+          equipment: [],
+        }
+      );
+      const chapterId = await coach.asUser.mutation(
+        api.mux.chapters.addChapter,
+        { videoId, startTime: 300, title: "Core", exerciseId }
+      );
+
+      await coach.asUser.mutation(api.exercises.deleteExercise, {
+        exerciseId,
+      });
+      const chapter = await t.run(async (ctx) => await ctx.db.get(chapterId));
+      expect(chapter?.exerciseId).toBeUndefined();
+
+      await coach.asUser.mutation(api.mux.mutations.deleteVideo, { videoId });
+      const remaining = await t.run(
+        async (ctx) => await ctx.db.query("videoChapters").collect()
+      );
+      expect(remaining).toEqual([]);
+    });
+  });
+
+  describe("Upload Quotas", () => {
+    async function createProfile(
+      t: ReturnType<typeof setupConvexTest>,
+      role: "athlete" | "admin"
+    ) {
+      const user = await createAuthenticatedTestUser(t, {
+        email: `${role}@example.com`,
+        name: role,
+      });
+      const profileId = await user.asUser.mutation(api.profiles.createProfile, {
+        displayName: role,
+        role,
+      });
+      return { asUser: user.asUser, profileId };
+    }
+
+    async function insertUpload(
+      t: ReturnType<typeof setupConvexTest>,
+      profileId: Id<"userProfiles">,
+      uploadId: string
+    ) {
+      return await t.mutation(internal.mux.mutations.insertVideo, {
+        uploadedBy: profileId,
+        muxUploadId: uploadId,
+        title: uploadId,
+        status: "waiting_for_upload",
+        enforceQuota: true,
+      });
+    }
+
+    it("should count videos, pending uploads and duration from webhooks", async () => {
+      vi.useFakeTimers();
+      const t = setupConvexTest();
+      const coach = await createTestCoach(t, {
+        email: "coach@example.com",
+        name: "Coach",
+      });
+      const getUsage = async () =>
+        (await coach.asUser.query(api.mux.usage.getVideoUsage, {})).usage;
+
+      const videoId = await insertUpload(t, coach.profileId, "upload-1");
+      expect(await getUsage()).toEqual({
+        videoCount: 1,
+        pendingUploadCount: 1,
+        totalDuration: 0,
+      });
+
+      await t.mutation(internal.mux.webhooks.handleUploadAssetCreated, {
+        uploadId: "upload-1",
+        assetId: "asset-1",
+      });
+      await t.mutation(internal.mux.webhooks.handleAssetReady, {
+        assetId: "asset-1",
+        playbackIds: [{ id: "playback-1", policy: "public" }],
+        duration: 120,
+      });
+      expect(await getUsage()).toEqual({
+        videoCount: 1,
+        pendingUploadCount: 0,
+        totalDuration: 120,
+      });
+
+      await t.mutation(internal.mux.webhooks.applyReconciledEvent, {
+        type: "video.asset.updated",
+        data: { id: "asset-1", duration: 130.5 },
+      });
+      expect((await getUsage()).totalDuration).toBe(130.5);
+
+      await coach.asUser.mutation(api.mux.mutations.deleteVideo, { videoId });
+      expect(await getUsage()).toEqual({
+        videoCount: 0,
+        pendingUploadCount: 0,
+        totalDuration: 0,
+      });
+      await t.finishAllScheduledFunctions(vi.runAllTimers);
+      vi.useRealTimers();
+    });
+
+    it("should release failed uploads", async () => {
+      const t = setupConvexTest();
+      const coach = await createTestCoach(t, {
+        email: "coach@example.com",
+        name: "Coach",
+      });
+      await insertUpload(t, coach.profileId, "upload-1");
+
+      await t.mutation(internal.mux.webhooks.applyReconciledEvent, {
+        type: "video.upload.errored",
+        data: { id: "upload-1", error: { message: "Invalid file" } },
+      });
+
+      const { usage } = await coach.asUser.query(
+        api.mux.usage.getVideoUsage,
+        {}
+      );
+      expect(usage).toEqual({
+        videoCount: 0,
+        pendingUploadCount: 0,
+        totalDuration: 0,
+      });
+    });
+
+    it("should enforce pending upload and role limits", async () => {
+      const t = setupConvexTest();
+      const coach = await createTestCoach(t, {
+        email: "coach@example.com",
+        name: "Coach",
+      });
+      for (const uploadId of ["upload-1", "upload-2", "upload-3"]) {
+        await insertUpload(t, coach.profileId, uploadId);
+      }
+
+      await expect(
+        insertUpload(t, coach.profileId, "upload-4")
+      ).rejects.toThrowError("3 uploads are already in progress");
+      await expect(
+        t.query(internal.mux.usage.checkUploadQuota, {
+          profileId: coach.profileId,
+        })
+      ).rejects.toThrowError("3 uploads are already in progress");
+
+      const summary = await coach.asUser.query(api.mux.usage.getVideoUsage, {});
+      expect(summary).toMatchObject({
+        role: "coach",
+        plan: "free",
+        limits: {
+          maxVideos: 50,
+          maxTotalDuration: 36_000,
+          maxPendingUploads: 3,
+        },
+        blockedReason:
+          "3 uploads are already in progress - wait for them to finish",
+      });
+
+      const athlete = await createProfile(t, "athlete");
+      await expect(
+        insertUpload(t, athlete.profileId, "upload-5")
+      ).rejects.toThrowError("Your plan doesn't include video uploads");
+    });
+
+    it("should let admins change plans and override limits", async () => {
+      const t = setupConvexTest();
+      const athlete = await createProfile(t, "athlete");
+      const admin = await createProfile(t, "admin");
+
+      await expect(async () => {
+        await athlete.asUser.mutation(api.mux.usage.setUploadQuota, {
+          profileId: athlete.profileId,
+          plan: "pro",
+        });
+      }).rejects.toThrowError("Admin access required");
+      await expect(
+        athlete.asUser.query(api.mux.usage.getVideoUsage, {
+          profileId: admin.profileId,
+        })
+      ).rejects.toThrowError("Admin access required");
+
+      await admin.asUser.mutation(api.mux.usage.setUploadQuota, {
+        profileId: athlete.profileId,
+        plan: "pro",
+      });
+      await insertUpload(t, athlete.profileId, "upload-1");
+
+      await admin.asUser.mutation(api.mux.usage.setUploadQuota, {
+        profileId: athlete.profileId,
+        quotaOverride: { maxPendingUploads: 2 },
+      });
+      await insertUpload(t, athlete.profileId, "upload-2");
+
+      const summary = await admin.asUser.query(api.mux.usage.getVideoUsage, {
+        profileId: athlete.profileId,
+      });
+      expect(summary).toMatchObject({
+        plan: "pro",
+        quotaOverride: { maxPendingUploads: 2 },
+        limits: { maxVideos: 10, maxTotalDuration: 3600, maxPendingUploads: 2 },
+        usage: { videoCount: 2, pendingUploadCount: 2 },
+      });
+
+      await expect(
+        admin.asUser.mutation(api.mux.usage.setUploadQuota, {
+          profileId: athlete.profileId,
+          quotaOverride: { maxVideos: -1 },
+        })
+      ).rejects.toThrowError("Quota limits must be whole numbers");
+
+      // {} goes back to the plan's limits
+      await admin.asUser.mutation(api.mux.usage.setUploadQuota, {
+        profileId: athlete.profileId,
+        quotaOverride: {},
+      });
+      const reset = await admin.asUser.query(api.mux.usage.getVideoUsage, {
+        profileId: athlete.profileId,
+      });
+      expect(reset.quotaOverride).toBeNull();
+      expect(reset.limits.maxPendingUploads).toBe(1);
+    });
+
+    it("should count existing videos when usage is first recorded", async () => {
+      const t = setupConvexTest();
+      const coach = await createTestCoach(t, {
+        email: "coach@example.com",
+        name: "Coach",
+      });
+      // Videos from before usage was tracked
+      await t.run(async (ctx) => {
+        const now = Date.now();
+        for (const [status, duration] of [
+          ["ready", 60],
+          ["ready", 30],
+          ["error", 45],
+        ] as const) {
+          await ctx.db.insert("videos", {
+            uploadedBy: coach.profileId,
+            muxAssetId: `asset-${duration}`,
+            title: "Old video",
+            status,
+            duration,
+            createdAt: now,
+            updatedAt: now,
+          });
+        }
+      });
+
+      const counted = await coach.asUser.query(api.mux.usage.getVideoUsage, {});
+      expect(counted.usage).toEqual({
+        videoCount: 2,
+        pendingUploadCount: 0,
+        totalDuration: 90,
+      });
+
+      await insertUpload(t, coach.profileId, "upload-1");
+      const usageRows = await t.run(
+        async (ctx) => await ctx.db.query("videoUsage").collect()
+      );
+      expect(usageRows).toMatchObject([
+        { videoCount: 3, pendingUploadCount: 1, totalDuration: 90 },
+      ]);
+    });
+  });
+
+  describe("Watch Progress", () => {
+    async function setupReadyVideo(
+      t: ReturnType<typeof setupConvexTest>,
+      coach: Awaited<ReturnType<typeof createTestCoach>>,
+      id: number
+    ) {
+      const videoId = await t.mutation(internal.mux.mutations.insertVideo, {
+        uploadedBy: coach.profileId,
+        muxUploadId: `upload-${id}`,
+        title: `Workout ${id}`,
+        status: "uploading",
+        playbackPolicy: "signed",
+      });
+      await t.mutation(internal.mux.webhooks.handleUploadAssetCreated, {
+        uploadId: `upload-${id}`,
+        assetId: `asset-${id}`,
+      });
+      await t.mutation(internal.mux.webhooks.handleAssetReady, {
+        assetId: `asset-${id}`,
+        playbackIds: [{ id: `playback-${id}`, policy: "signed" }],
+        duration: 100,
+      });
+      return videoId;
+    }
+
+    it("should save progress and resume from the last position", async () => {
+      vi.useFakeTimers();
+      const t = setupConvexTest();
+      const coach = await createTestCoach(t, {
+        email: "coach@example.com",
+        name: "Coach",
+      });
+      const videoId = await setupReadyVideo(t, coach, 1);
+
+      expect(
+        await coach.asUser.query(api.mux.progress.getVideoProgress, {
+          videoId,
+        })
+      ).toBeNull();
+
+      await coach.asUser.mutation(api.mux.progress.saveVideoProgress, {
+        videoId,
+        position: 20,
+        watchedSeconds: 20,
+      });
+      vi.advanceTimersByTime(10_000);
+      await coach.asUser.mutation(api.mux.progress.saveVideoProgress, {
+        videoId,
+        position: 30,
+        watchedSeconds: 10,
+      });
+
+      const progress = await coach.asUser.query(
+        api.mux.progress.getVideoProgress,
+        { videoId }
+      );
+      expect(progress).toMatchObject({
+        position: 30,
+        watchedSeconds: 30,
+        completed: false,
+        resumePosition: 30,
+      });
+
+      // Played seconds can't outrun the clock (10s at up to 2x speed)
+      vi.advanceTimersByTime(10_000);
+      await coach.asUser.mutation(api.mux.progress.saveVideoProgress, {
+        videoId,
+        position: 40,
+        watchedSeconds: 500,
+      });
+      const capped = await coach.asUser.query(
+        api.mux.progress.getVideoProgress,
+        { videoId }
+      );
+      expect(capped?.watchedSeconds).toBe(50);
+
+      // The first save can't claim more than its position
+      const otherId = await setupReadyVideo(t, coach, 2);
+      await coach.asUser.mutation(api.mux.progress.saveVideoProgress, {
+        videoId: otherId,
+        position: 3,
+        watchedSeconds: 100,
+      });
+      const first = await coach.asUser.query(
+        api.mux.progress.getVideoProgress,
+        { videoId: otherId }
+      );
+      expect(first).toMatchObject({
+        watchedSeconds: 3,
+        completed: false,
+        // Barely started - start over
+        resumePosition: 0,
+      });
+      vi.useRealTimers();
+    });
+
+    /** Plays from one position to another, saving every 15 seconds */
+    async function watch(
+      asUser: Awaited<ReturnType<typeof createTestCoach>>["asUser"],
+      videoId: Id<"videos">,
+      from: number,
+      to: number
+    ) {
+      let result = { success: true, completed: false };
+      for (let position = from; position < to; ) {
+        const step = Math.min(15, to - position);
+        vi.advanceTimersByTime(step * 1000);
+        position += step;
+        result = await asUser.mutation(api.mux.progress.saveVideoProgress, {
+          videoId,
+          position,
+          watchedSeconds: step,
+        });
+      }
+      return result;
+    }
+
+    it("should complete videos at the threshold and keep them completed", async () => {
+      vi.useFakeTimers();
+      const t = setupConvexTest();
+      const coach = await createTestCoach(t, {
+        email: "coach@example.com",
+        name: "Coach",
+      });
+      const videoId = await setupReadyVideo(t, coach, 1);
+
+      expect((await watch(coach.asUser, videoId, 0, 89)).completed).toBe(false);
+      const result = await watch(coach.asUser, videoId, 89, 98);
+      expect(result.completed).toBe(true);
+
+      const progress = await coach.asUser.query(
+        api.mux.progress.getVideoProgress,
+        { videoId }
+      );
+      expect(progress?.watchedRanges).toEqual([{ start: 0, end: 98 }]);
+      expect(progress?.completedAt).toBeDefined();
+      // Finished - start over
+      expect(progress?.resumePosition).toBe(0);
+
+      // Rewatching doesn't undo the completion
+      vi.advanceTimersByTime(10_000);
+      await coach.asUser.mutation(api.mux.progress.saveVideoProgress, {
+        videoId,
+        position: 10,
+        watchedSeconds: 10,
+      });
+      const rewatched = await coach.asUser.query(
+        api.mux.progress.getVideoProgress,
+        { videoId }
+      );
+      expect(rewatched).toMatchObject({
+        position: 10,
+        completed: true,
+        completedAt: progress?.completedAt,
+      });
+      vi.useRealTimers();
+    });
+
+    it("should only complete videos whose parts were all watched", async () => {
+      vi.useFakeTimers();
+      const t = setupConvexTest();
+      const coach = await createTestCoach(t, {
+        email: "coach@example.com",
+        name: "Coach",
+      });
+      const videoId = await setupReadyVideo(t, coach, 1);
+
+      // Replaying the first 10 seconds nine times
+      for (let replay = 0; replay < 9; replay += 1) {
+        await watch(coach.asUser, videoId, 0, 10);
+      }
+      let progress = await coach.asUser.query(
+        api.mux.progress.getVideoProgress,
+        { videoId }
+      );
+      expect(progress).toMatchObject({
+        watchedSeconds: 90,
+        watchedRanges: [{ start: 0, end: 10 }],
+        completed: false,
+      });
+
+      // A save after a long pause can't claim the whole video
+      vi.advanceTimersByTime(60 * 60 * 1000);
+      await coach.asUser.mutation(api.mux.progress.saveVideoProgress, {
+        videoId,
+        position: 100,
+        watchedSeconds: 100,
+      });
+      progress = await coach.asUser.query(api.mux.progress.getVideoProgress, {
+        videoId,
+      });
+      expect(progress?.watchedRanges).toEqual([
+        { start: 0, end: 10 },
+        { start: 60, end: 100 },
+      ]);
+      expect(progress?.completed).toBe(false);
+
+      // Filling the gap completes it
+      const result = await watch(coach.asUser, videoId, 10, 60);
+      expect(result.completed).toBe(true);
+      vi.useRealTimers();
+    });
+
+    it("should use the configured completion threshold", async () => {
+      vi.useFakeTimers();
+      vi.stubEnv("VIDEO_COMPLETION_THRESHOLD", "0.5");
+      const t = setupConvexTest();
+      const coach = await createTestCoach(t, {
+        email: "coach@example.com",
+        name: "Coach",
+      });
+      const videoId = await setupReadyVideo(t, coach, 1);
+
+      expect((await watch(coach.asUser, videoId, 0, 45)).completed).toBe(false);
+      expect((await watch(coach.asUser, videoId, 45, 50)).completed).toBe(true);
+
+      // Invalid values fall back to the default
+      vi.stubEnv("VIDEO_COMPLETION_THRESHOLD", "2");
+      const otherId = await setupReadyVideo(t, coach, 2);
+      expect((await watch(coach.asUser, otherId, 0, 50)).completed).toBe(false);
+      vi.unstubAllEnvs();
+      vi.useRealTimers();
+    });
+
+    it("should list started videos to continue watching", async () => {
+      vi.useFakeTimers();
+      const t = setupConvexTest();
+      const coach = await createTestCoach(t, {
+        email: "coach@example.com",
+        name: "Coach",
+      });
+      const firstId = await setupReadyVideo(t, coach, 1);
+      const secondId = await setupReadyVideo(t, coach, 2);
+      const completedId = await setupReadyVideo(t, coach, 3);
+
+      for (const videoId of [firstId, secondId, completedId]) {
+        await coach.asUser.mutation(api.mux.progress.saveVideoProgress, {
+          videoId,
+          position: 30,
+          watchedSeconds: 30,
+        });
+        vi.advanceTimersByTime(60_000);
+      }
+      await watch(coach.asUser, completedId, 30, 95);
+
+      const list = await coach.asUser.query(
+        api.mux.progress.listContinueWatching,
+        {}
+      );
+      expect(list.map((entry) => entry.videoId)).toEqual([secondId, firstId]);
+      expect(list[0].video.title).toBe("Workout 2");
+      expect(
+        await coach.asUser.query(api.mux.progress.listContinueWatching, {
+          limit: 1,
+        })
+      ).toHaveLength(1);
+
+      // Deleted videos take their progress with them
+      await coach.asUser.mutation(api.mux.mutations.deleteVideo, {
+        videoId: secondId,
+      });
+      const remaining = await t.run(
+        async (ctx) => await ctx.db.query("videoProgress").collect()
+      );
+      expect(remaining.map((row) => row.videoId).sort()).toEqual(
+        [firstId, completedId].sort()
+      );
+
+      await coach.asUser.mutation(api.mux.progress.resetVideoProgress, {
+        videoId: firstId,
+      });
+      expect(
+        await coach.asUser.query(api.mux.progress.listContinueWatching, {})
+      ).toEqual([]);
+      vi.useRealTimers();
+    });
+
+    it("should only save progress for viewers with access", async () => {
+      const t = setupConvexTest();
+      const coach = await createTestCoach(t, {
+        email: "coach@example.com",
+        name: "Coach",
+      });
+      const videoId = await setupReadyVideo(t, coach, 1);
+
+      const stranger = await createAuthenticatedTestUser(t, {
+        email: "athlete@example.com",
+        name: "Athlete",
+      });
+      await stranger.asUser.mutation(api.profiles.createProfile, {
+        displayName: "Athlete",
+        role: "athlete",
+      });
+
+      await expect(async () => {
+        await stranger.asUser.mutation(api.mux.progress.saveVideoProgress, {
+          videoId,
+          position: 10,
+          watchedSeconds: 10,
+        });
+      }).rejects.toThrowError("you don't have access to this video");
+      await expect(async () => {
+        await t.mutation(api.mux.progress.saveVideoProgress, {
+          videoId,
+          position: 10,
+          watchedSeconds: 10,
+        });
+      }).rejects.toThrowError("Unauthenticated");
+      expect(
+        await t.query(api.mux.progress.getVideoProgress, { videoId })
+      ).toBeNull();
+    });
+  });
+
+  describe("Source Replacement", () => {
+    async function setupReadyVideo(t: ReturnType<typeof setupConvexTest>) {
+      const coach = await createTestCoach(t, {
+        email: "coach@example.com",
+        name: "Coach",
+      });
+      const videoId = await t.mutation(internal.mux.mutations.insertVideo, {
+        uploadedBy: coach.profileId,
+        muxUploadId: "upload-1",
+        title: "Squat Demo",
+        status: "uploading",
+        playbackPolicy: "signed",
+      });
+      await t.mutation(internal.mux.webhooks.handleUploadAssetCreated, {
+        uploadId: "upload-1",
+        assetId: "asset-1",
+      });
+      await t.mutation(internal.mux.webhooks.handleAssetReady, {
+        assetId: "asset-1",
+        playbackIds: [{ id: "playback-1", policy: "signed" }],
+        duration: 600,
+      });
+      return { coach, videoId };
+    }
+
+    async function startReplacement(
+      t: ReturnType<typeof setupConvexTest>,
+      coach: Awaited<ReturnType<typeof createTestCoach>>,
+      videoId: Id<"videos">,
+      muxUploadId: string
+    ) {
+      await t.query(internal.mux.replace.checkReplaceable, {
+        videoId,
+        profileId: coach.profileId,
+      });
+      await t.mutation(internal.mux.replace.startReplacement, {
+        videoId,
+        profileId: coach.profileId,
+        muxUploadId,
+      });
+    }
+
+    it("should keep the old asset serving until the new one is ready", async () => {
+      vi.useFakeTimers();
+      const t = setupConvexTest();
+      const { coach, videoId } = await setupReadyVideo(t);
+      await coach.asUser.mutation(api.mux.mutations.setThumbnailTime, {
+        videoId,
+        time: 450,
+      });
+      for (const startTime of [0, 120, 400]) {
+        await coach.asUser.mutation(api.mux.chapters.addChapter, {
+          videoId,
+          startTime,
+          title: `Part ${startTime}`,
+        });
+      }
+
+      await startReplacement(t, coach, videoId, "upload-2");
+      await t.mutation(internal.mux.webhooks.handleUploadAssetCreated, {
+        uploadId: "upload-2",
+        assetId: "asset-2",
+      });
+
+      // Still the old source, with the replacement in progress
+      const replacing = await t.run(async (ctx) => await ctx.db.get(videoId));
+      expect(replacing).toMatchObject({
+        status: "ready",
+        muxAssetId: "asset-1",
+        muxPlaybackId: "playback-1",
+        duration: 600,
+        replacement: {
+          muxUploadId: "upload-2",
+          muxAssetId: "asset-2",
+          status: "processing",
+        },
+      });
+
+      await t.mutation(internal.mux.webhooks.handleAssetReady, {
+        assetId: "asset-2",
+        playbackIds: [{ id: "playback-2", policy: "signed" }],
+        duration: 300,
+        aspectRatio: "9:16",
+      });
+
+      const { video, chapters, usage, scheduled } = await t.run(
+        async (ctx) => ({
+          video: await ctx.db.get(videoId),
+          chapters: await ctx.db.query("videoChapters").collect(),
+          usage: await ctx.db.query("videoUsage").first(),
+          scheduled: await ctx.db.system
+            .query("_scheduled_functions")
+            .collect(),
+        })
+      );
+      expect(video).toMatchObject({
+        status: "ready",
+        muxUploadId: "upload-2",
+        muxAssetId: "asset-2",
+        muxPlaybackId: "playback-2",
+        duration: 300,
+        aspectRatio: "9:16",
+      });
+      expect(video?.replacement).toBeUndefined();
+      // Past the new end
+      expect(video?.thumbnailTime).toBeUndefined();
+      expect(chapters.map((chapter) => chapter.startTime)).toEqual([0, 120]);
+      expect(usage?.totalDuration).toBe(300);
+      const deletion = scheduled.find((job) =>
+        job.name.includes("deleteMuxAsset")
+      );
+      expect(deletion?.args[0]).toEqual({ assetId: "asset-1" });
+
+      // Deleting the old asset no longer affects the video
+      await t.mutation(internal.mux.webhooks.handleAssetDeleted, {
+        assetId: "asset-1",
+      });
+      const after = await t.run(async (ctx) => await ctx.db.get(videoId));
+      expect(after?.status).toBe("ready");
+      await t.finishAllScheduledFunctions(vi.runAllTimers);
+      vi.useRealTimers();
+    });
+
+    it("should recreate caption tracks on the new asset", async () => {
+      // Keep the scheduled createMuxTrack jobs from running mid-test
+      vi.useFakeTimers();
+      const t = setupConvexTest();
+      const { coach, videoId } = await setupReadyVideo(t);
+
+      const { fileId, uploadedId, generatedId, externalId } = await t.run(
+        async (ctx) => {
+          const now = Date.now();
+          const storageId = await ctx.storage.store(
+            new Blob(["WEBVTT"], { type: "text/vtt" })
+          );
+          const insertedFileId = await ctx.db.insert("files", {
+            uploadedBy: coach.profileId,
+            storageId,
+            fileName: "squat.sr.vtt",
+            fileType: "caption",
+            mimeType: "text/vtt",
+          });
+          const track = {
+            videoId,
+            closedCaptions: false,
+            status: "ready" as const,
+            createdAt: now,
+            updatedAt: now,
+          };
+          return {
+            fileId: insertedFileId,
+            uploadedId: await ctx.db.insert("videoTracks", {
+              ...track,
+              muxTrackId: "track-uploaded",
+              source: "uploaded",
+              languageCode: "sr",
+              name: "Srpski",
+              fileId: insertedFileId,
+            }),
+            generatedId: await ctx.db.insert("videoTracks", {
+              ...track,
+              muxTrackId: "track-generated",
+              source: "generated",
+              languageCode: "en",
+              name: "English (auto)",
+            }),
+            // Added in the Mux dashboard - no file to recreate it from
+            externalId: await ctx.db.insert("videoTracks", {
+              ...track,
+              muxTrackId: "track-external",
+              source: "uploaded",
+              languageCode: "de",
+              name: "Deutsch",
+            }),
+          };
+        }
+      );
+
+      await startReplacement(t, coach, videoId, "upload-2");
+      await t.mutation(internal.mux.webhooks.handleUploadAssetCreated, {
+        uploadId: "upload-2",
+        assetId: "asset-2",
+      });
+      await t.mutation(internal.mux.webhooks.handleAssetReady, {
+        assetId: "asset-2",
+        playbackIds: [{ id: "playback-2", policy: "signed" }],
+        duration: 300,
+      });
+
+      const { tracks, file, scheduled } = await t.run(async (ctx) => ({
+        tracks: await ctx.db
+          .query("videoTracks")
+          .withIndex("by_videoId", (q) => q.eq("videoId", videoId))
+          .collect(),
+        file: await ctx.db.get(fileId),
+        scheduled: await ctx.db.system.query("_scheduled_functions").collect(),
+      }));
+      expect(tracks.map((track) => track._id)).toEqual([
+        uploadedId,
+        generatedId,
+      ]);
+      for (const track of tracks) {
+        expect(track.status).toBe("preparing");
+        expect(track.muxTrackId).toBeUndefined();
+      }
+      expect(tracks[0].fileId).toBe(fileId);
+      expect(file).not.toBeNull();
+      expect(
+        scheduled
+          .filter((job) => job.name.includes("createMuxTrack"))
+          .map((job) => job.args[0])
+      ).toEqual([{ trackId: uploadedId }, { trackId: generatedId }]);
+      expect(tracks.some((track) => track._id === externalId)).toBe(false);
+
+      // Webhooks for the new asset's track link the waiting row
+      await t.mutation(internal.mux.webhooks.applyReconciledEvent, {
+        type: "video.asset.track.ready",
+        data: {
+          id: "track-uploaded-2",
+          asset_id: "asset-2",
+          type: "text",
+          text_source: "uploaded",
+          language_code: "sr",
+          name: "Srpski",
+        },
+      });
+      const relinked = await t.run(async (ctx) => await ctx.db.get(uploadedId));
+      expect(relinked).toMatchObject({
+        muxTrackId: "track-uploaded-2",
+        status: "ready",
+      });
+      vi.useRealTimers();
+    });
+
+    it("should swap in a replacement whose ready event arrived first", async () => {
+      const t = setupConvexTest();
+      const { coach, videoId } = await setupReadyVideo(t);
+      await startReplacement(t, coach, videoId, "upload-2");
+
+      const ready = {
+        type: "video.asset.ready",
+        data: {
+          id: "asset-2",
+          playback_ids: [{ id: "playback-2", policy: "signed" }],
+          duration: 90,
+        },
+      };
+      const parked = await t.mutation(internal.mux.events.ingestWebhookEvent, {
+        muxEventId: "event-ready",
+        ...ready,
+      });
+      expect(parked.status).toBe("parked");
+
+      await t.mutation(internal.mux.webhooks.handleUploadAssetCreated, {
+        uploadId: "upload-2",
+        assetId: "asset-2",
+      });
+
+      const video = await t.run(async (ctx) => await ctx.db.get(videoId));
+      expect(video).toMatchObject({
+        muxAssetId: "asset-2",
+        muxPlaybackId: "playback-2",
+        duration: 90,
+      });
+      expect(video?.replacement).toBeUndefined();
+
+      const event = await t.run(
+        async (ctx) => await ctx.db.query("muxWebhookEvents").first()
+      );
+      expect(event?.status).toBe("processed");
+    });
+
+    it("should keep the video unchanged when the replacement fails", async () => {
+      vi.useFakeTimers();
+      const t = setupConvexTest();
+      const { coach, videoId } = await setupReadyVideo(t);
+      await startReplacement(t, coach, videoId, "upload-2");
+
+      await expect(
+        startReplacement(t, coach, videoId, "upload-3")
+      ).rejects.toThrowError("A replacement is already in progress");
+
+      await t.mutation(internal.mux.webhooks.handleUploadAssetCreated, {
+        uploadId: "upload-2",
+        assetId: "asset-2",
+      });
+      await t.mutation(internal.mux.webhooks.handleAssetErrored, {
+        assetId: "asset-2",
+        errors: { messages: ["Invalid file"] },
+      });
+
+      const failed = await t.run(async (ctx) => await ctx.db.get(videoId));
+      expect(failed).toMatchObject({
+        status: "ready",
+        muxAssetId: "asset-1",
+        replacement: { status: "error", errorMessage: "Invalid file" },
+      });
+
+      // Failed replacements can be retried - the failed asset is deleted
+      await startReplacement(t, coach, videoId, "upload-3");
+      const retried = await t.run(async (ctx) => ({
+        video: await ctx.db.get(videoId),
+        scheduled: await ctx.db.system.query("_scheduled_functions").collect(),
+      }));
+      expect(retried.video?.replacement).toMatchObject({
+        muxUploadId: "upload-3",
+        status: "waiting_for_upload",
+      });
+      expect(
+        retried.scheduled.find((job) => job.name.includes("deleteMuxAsset"))
+          ?.args[0]
+      ).toEqual({ assetId: "asset-2" });
+
+      // A cancelled upload only fails the replacement
+      await t.mutation(internal.mux.webhooks.handleUploadCancelled, {
+        uploadId: "upload-3",
+      });
+      const cancelled = await t.run(async (ctx) => await ctx.db.get(videoId));
+      expect(cancelled?.status).toBe("ready");
+      expect(cancelled?.replacement?.status).toBe("error");
+      await t.finishAllScheduledFunctions(vi.runAllTimers);
+      vi.useRealTimers();
+    });
+
+    it("should let owners cancel replacements and keep them out of the sweep", async () => {
+      vi.useFakeTimers();
+      const t = setupConvexTest();
+      const { coach, videoId } = await setupReadyVideo(t);
+      await startReplacement(t, coach, videoId, "upload-2");
+
+      expect(
+        await t.query(internal.mux.queries.findOrphanedMuxUploads, {
+          uploadIds: ["upload-2", "upload-unknown"],
+        })
+      ).toEqual(["upload-unknown"]);
+
+      const other = await createAuthenticatedTestUser(t, {
+        email: "other@example.com",
+        name: "Other",
+      });
+      await other.asUser.mutation(api.profiles.createProfile, {
+        displayName: "Other",
+        role: "coach",
+      });
+      await expect(async () => {
+        await other.asUser.mutation(api.mux.replace.cancelReplacement, {
+          videoId,
+        });
+      }).rejects.toThrowError("you don't own this video");
+
+      await coach.asUser.mutation(api.mux.replace.cancelReplacement, {
+        videoId,
+      });
+
+      const { video, scheduled } = await t.run(async (ctx) => ({
+        video: await ctx.db.get(videoId),
+        scheduled: await ctx.db.system.query("_scheduled_functions").collect(),
+      }));
+      expect(video?.replacement).toBeUndefined();
+      expect(
+        scheduled.find((job) => job.name.includes("cancelMuxUploads"))?.args[0]
+      ).toEqual({ uploadIds: ["upload-2"] });
+      await expect(
+        coach.asUser.mutation(api.mux.replace.cancelReplacement, { videoId })
+      ).rejects.toThrowError("No replacement in progress");
+      await t.finishAllScheduledFunctions(vi.runAllTimers);
+      vi.useRealTimers();
+    });
+  });
+
+  describe("Preview Clips", () => {
+    async function setupReadyVideo(t: ReturnType<typeof setupConvexTest>) {
+      const coach = await createTestCoach(t, {
+        email: "coach@example.com",
+        name: "Coach",
+      });
+      const videoId = await t.mutation(internal.mux.mutations.insertVideo, {
+        uploadedBy: coach.profileId,
+        muxUploadId: "upload-1",
+        title: "Full Workout",
+        status: "uploading",
+        playbackPolicy: "signed",
+      });
+      await t.mutation(internal.mux.webhooks.handleUploadAssetCreated, {
+        uploadId: "upload-1",
+        assetId: "asset-1",
+      });
+      await t.mutation(internal.mux.webhooks.handleAssetReady, {
+        assetId: "asset-1",
+        playbackIds: [{ id: "playback-1", policy: "signed" }],
+        duration: 600,
+      });
+      return { coach, videoId };
+    }
+
+    it("should create a clip that becomes ready through the webhooks", async () => {
+      const t = setupConvexTest();
+      const { coach, videoId } = await setupReadyVideo(t);
+
+      const source = await t.query(internal.mux.clips.checkClippable, {
+        videoId,
+        profileId: coach.profileId,
+        startTime: 0,
+        endTime: 30.04,
+      });
+      expect(source).toEqual({
+        muxAssetId: "asset-1",
+        playbackPolicy: "signed",
+        startTime: 0,
+        endTime: 30,
+      });
+
+      const clipId = await t.mutation(internal.mux.clips.insertClip, {
+        sourceVideoId: videoId,
+        profileId: coach.profileId,
+        muxAssetId: "clip-asset-1",
+        startTime: source.startTime,
+        endTime: source.endTime,
+      });
+
+      const processing = await t.run(async (ctx) => await ctx.db.get(clipId));
+      expect(processing).toMatchObject({
+        uploadedBy: coach.profileId,
+        muxAssetId: "clip-asset-1",
+        title: "Full Workout (Clip)",
+        status: "processing",
+        playbackPolicy: "signed",
+        clip: { sourceVideoId: videoId, startTime: 0, endTime: 30 },
+      });
+      expect(processing?.muxUploadId).toBeUndefined();
+
+      await t.mutation(internal.mux.webhooks.handleAssetReady, {
+        assetId: "clip-asset-1",
+        playbackIds: [{ id: "clip-playback-1", policy: "signed" }],
+        duration: 30,
+      });
+
+      const { clip, usage } = await t.run(async (ctx) => ({
+        clip: await ctx.db.get(clipId),
+        usage: await ctx.db.query("videoUsage").first(),
+      }));
+      expect(clip).toMatchObject({
+        status: "ready",
+        muxPlaybackId: "clip-playback-1",
+        duration: 30,
+      });
+      expect(usage).toMatchObject({ videoCount: 2, totalDuration: 630 });
+
+      const clips = await coach.asUser.query(api.mux.clips.listVideoClips, {
+        videoId,
+      });
+      expect(clips.map((row) => row._id)).toEqual([clipId]);
+    });
+
+    it("should apply a ready event that arrived before the clip was recorded", async () => {
+      const t = setupConvexTest();
+      const { coach, videoId } = await setupReadyVideo(t);
+
+      const event = await t.mutation(internal.mux.events.ingestWebhookEvent, {
+        muxEventId: "event-clip-ready",
+        type: "video.asset.ready",
+        data: {
+          id: "clip-asset-1",
+          playback_ids: [{ id: "clip-playback-1", policy: "signed" }],
+          duration: 30,
+        },
+      });
+      expect(event.status).toBe("parked");
+
+      const clipId = await t.mutation(internal.mux.clips.insertClip, {
+        sourceVideoId: videoId,
+        profileId: coach.profileId,
+        muxAssetId: "clip-asset-1",
+        startTime: 0,
+        endTime: 30,
+        title: "  Trailer  ",
+      });
+
+      const clip = await t.run(async (ctx) => await ctx.db.get(clipId));
+      expect(clip).toMatchObject({
+        title: "Trailer",
+        status: "ready",
+        muxPlaybackId: "clip-playback-1",
+      });
+    });
+
+    it("should reject invalid ranges, other owners and exhausted quotas", async () => {
+      const t = setupConvexTest();
+      const { coach, videoId } = await setupReadyVideo(t);
+      const check = (startTime: number, endTime: number) =>
+        t.query(internal.mux.clips.checkClippable, {
+          videoId,
+          profileId: coach.profileId,
+          startTime,
+          endTime,
+        });
+
+      await expect(check(-1, 30)).rejects.toThrowError(
+        "Clip must be within the video"
+      );
+      await expect(check(590, 601)).rejects.toThrowError(
+        "Clip must be within the video"
+      );
+      await expect(check(10, Number.NaN)).rejects.toThrowError(
+        "Clip must be within the video"
+      );
+      await expect(check(30, 30.5)).rejects.toThrowError(
+        "Clip must be at least 1 second long"
+      );
+      await expect(check(30, 10)).rejects.toThrowError(
+        "Clip must be at least 1 second long"
+      );
+
+      const other = await createTestCoach(t, {
+        email: "other@example.com",
+        name: "Other",
+      });
+      await expect(
+        t.query(internal.mux.clips.checkClippable, {
+          videoId,
+          profileId: other.profileId,
+          startTime: 0,
+          endTime: 30,
+        })
+      ).rejects.toThrowError("you don't own this video");
+      await expect(async () => {
+        await other.asUser.query(api.mux.clips.listVideoClips, { videoId });
+      }).rejects.toThrowError("you don't own this video");
+
+      const pendingId = await t.mutation(internal.mux.mutations.insertVideo, {
+        uploadedBy: coach.profileId,
+        muxUploadId: "upload-2",
+        title: "Pending",
+        status: "waiting_for_upload",
+      });
+      await expect(
+        t.query(internal.mux.clips.checkClippable, {
+          videoId: pendingId,
+          profileId: coach.profileId,
+          startTime: 0,
+          endTime: 30,
+        })
+      ).rejects.toThrowError("Only ready videos can be clipped");
+
+      await t.run(async (ctx) => {
+        const usage = await ctx.db.query("videoUsage").first();
+        if (usage) {
+          await ctx.db.patch(usage._id, { quotaOverride: { maxVideos: 2 } });
+        }
+      });
+      await expect(
+        t.mutation(internal.mux.clips.insertClip, {
+          sourceVideoId: videoId,
+          profileId: coach.profileId,
+          muxAssetId: "clip-asset-1",
+          startTime: 0,
+          endTime: 30,
+        })
+      ).rejects.toThrowError("Video limit reached (2 videos)");
+    });
+
+    it("should keep clips when their source is deleted", async () => {
+      vi.useFakeTimers();
+      const t = setupConvexTest();
+      const { coach, videoId } = await setupReadyVideo(t);
+      const clipId = await t.mutation(internal.mux.clips.insertClip, {
+        sourceVideoId: videoId,
+        profileId: coach.profileId,
+        muxAssetId: "clip-asset-1",
+        startTime: 0,
+        endTime: 30,
+      });
+
+      await coach.asUser.mutation(api.mux.mutations.deleteVideo, { videoId });
+
+      const clip = await t.run(async (ctx) => await ctx.db.get(clipId));
+      expect(clip).toMatchObject({
+        muxAssetId: "clip-asset-1",
+        status: "processing",
+      });
+      expect(clip?.clip).toBeUndefined();
+
+      // The clip's own asset isn't deleted with the source
+      await t.mutation(internal.mux.webhooks.handleAssetDeleted, {
+        assetId: "asset-1",
+      });
+      const after = await t.run(async (ctx) => await ctx.db.get(clipId));
+      expect(after?.status).toBe("processing");
+      await t.finishAllScheduledFunctions(vi.runAllTimers);
+      vi.useRealTimers();
+    });
+  });
+
+  describe("Video Reconciliation", () => {
+    const HOUR = 60 * 60 * 1000;
+
+    /** Stand-in Mux client backed by fixed upload/asset state */
+    function createMuxStandIn(state: {
+      uploads?: Record<string, MuxUploadState>;
+      assets?: Record<string, MuxAssetState>;
+      unavailable?: string[];
+    }): MuxStateClient {
+      const lookup = <T>(records: Record<string, T>, id: string) =>
+        state.unavailable?.includes(id)
+          ? Promise.reject(new Error("Mux API unavailable"))
+          : Promise.resolve(records[id] ?? null);
+      return {
+        getUpload: (uploadId) => lookup(state.uploads ?? {}, uploadId),
+        getAsset: (assetId) => lookup(state.assets ?? {}, assetId),
+      };
+    }
+
+    async function insertStuckVideo(
+      t: ReturnType<typeof setupConvexTest>,
+      profileId: Id<"userProfiles">,
+      video: {
+        muxUploadId: string;
+        muxAssetId?: string;
+        status: "waiting_for_upload" | "uploading" | "processing";
+        age?: number;
+      }
+    ) {
+      return await t.run(async (ctx) => {
+        const updatedAt = Date.now() - (video.age ?? 2 * HOUR);
+        return await ctx.db.insert("videos", {
+          uploadedBy: profileId,
+          muxUploadId: video.muxUploadId,
+          muxAssetId: video.muxAssetId ?? "",
+          title: video.muxUploadId,
+          status: video.status,
+          createdAt: updatedAt,
+          updatedAt,
+        });
+      });
+    }
+
+    function reconcile(
+      t: ReturnType<typeof setupConvexTest>,
+      mux: MuxStateClient
+    ) {
+      return reconcileVideos(
+        { runQuery: t.query, runMutation: t.mutation },
+        mux
+      );
+    }
+
+    it("should apply the real asset state to stuck processing videos", async () => {
+      const t = setupConvexTest();
+      const coach = await createTestCoach(t, {
+        email: "coach@example.com",
+        name: "Coach",
+      });
+      const readyId = await insertStuckVideo(t, coach.profileId, {
+        muxUploadId: "upload-1",
+        muxAssetId: "asset-1",
+        status: "processing",
+      });
+      const erroredId = await insertStuckVideo(t, coach.profileId, {
+        muxUploadId: "upload-2",
+        muxAssetId: "asset-2",
+        status: "processing",
+      });
+      const deletedId = await insertStuckVideo(t, coach.profileId, {
+        muxUploadId: "upload-3",
+        muxAssetId: "asset-3",
+        status: "processing",
+      });
+
+      const counts = await reconcile(
+        t,
+        createMuxStandIn({
+          assets: {
+            "asset-1": {
+              id: "asset-1",
+              status: "ready",
+              playback_ids: [{ id: "playback-1", policy: "public" }],
+              duration: 42,
+            },
+            "asset-2": {
+              id: "asset-2",
+              status: "errored",
+              errors: { messages: ["Invalid file"] },
+            },
+          },
+        })
+      );
+
+      expect(counts).toEqual({
+        checked: 3,
+        updated: 3,
+        unchanged: 0,
+        failed: 0,
+      });
+      const [ready, errored, deleted] = await t.run(
+        async (ctx) =>
+          await Promise.all(
+            [readyId, erroredId, deletedId].map((id) => ctx.db.get(id))
+          )
+      );
+      expect(ready).toMatchObject({
+        status: "ready",
+        muxPlaybackId: "playback-1",
+        duration: 42,
+      });
+      expect(errored).toMatchObject({
+        status: "error",
+        errorMessage: "Invalid file",
+      });
+      expect(deleted?.status).toBe("error");
+    });
+
+    it("should follow finished uploads through to the asset", async () => {
+      const t = setupConvexTest();
+      const coach = await createTestCoach(t, {
+        email: "coach@example.com",
+        name: "Coach",
+      });
+      const finishedId = await insertStuckVideo(t, coach.profileId, {
+        muxUploadId: "upload-1",
+        status: "waiting_for_upload",
+      });
+      const cancelledId = await insertStuckVideo(t, coach.profileId, {
+        muxUploadId: "upload-2",
+        status: "uploading",
+      });
+      const waitingId = await insertStuckVideo(t, coach.profileId, {
+        muxUploadId: "upload-3",
+        status: "waiting_for_upload",
+      });
+
+      const counts = await reconcile(
+        t,
+        createMuxStandIn({
+          uploads: {
+            "upload-1": {
+              id: "upload-1",
+              status: "asset_created",
+              asset_id: "asset-1",
+            },
+            "upload-2": { id: "upload-2", status: "cancelled" },
+            "upload-3": { id: "upload-3", status: "waiting" },
+          },
+          assets: {
+            "asset-1": { id: "asset-1", status: "preparing" },
+          },
+        })
+      );
+
+      expect(counts).toEqual({
+        checked: 3,
+        updated: 2,
+        unchanged: 1,
+        failed: 0,
+      });
+      const [finished, cancelled, waiting] = await t.run(
+        async (ctx) =>
+          await Promise.all(
+            [finishedId, cancelledId, waitingId].map((id) => ctx.db.get(id))
+          )
+      );
+      expect(finished).toMatchObject({
+        status: "processing",
+        muxAssetId: "asset-1",
+      });
+      expect(cancelled).toMatchObject({
+        status: "error",
+        errorMessage: "Upload was cancelled",
+      });
+      expect(waiting?.status).toBe("waiting_for_upload");
+    });
+
+    it("should skip recent videos and keep going when Mux fails", async () => {
+      const t = setupConvexTest();
+      const coach = await createTestCoach(t, {
+        email: "coach@example.com",
+        name: "Coach",
+      });
+      await insertStuckVideo(t, coach.profileId, {
+        muxUploadId: "upload-recent",
+        muxAssetId: "asset-recent",
+        status: "processing",
+        age: 5 * 60 * 1000,
+      });
+      await insertStuckVideo(t, coach.profileId, {
+        muxUploadId: "upload-1",
+        muxAssetId: "asset-1",
+        status: "processing",
+      });
+      const readyId = await insertStuckVideo(t, coach.profileId, {
+        muxUploadId: "upload-2",
+        muxAssetId: "asset-2",
+        status: "processing",
+      });
+
+      const counts = await reconcile(
+        t,
+        createMuxStandIn({
+          assets: {
+            "asset-2": {
+              id: "asset-2",
+              status: "ready",
+              playback_ids: [{ id: "playback-2", policy: "public" }],
+            },
+          },
+          unavailable: ["asset-1"],
+        })
+      );
+
+      expect(counts).toEqual({
+        checked: 2,
+        updated: 1,
+        unchanged: 0,
+        failed: 1,
+      });
+      const ready = await t.run(async (ctx) => await ctx.db.get(readyId));
+      expect(ready?.status).toBe("ready");
+    });
+  });
+
+  describe("Orphaned Media Sweep", () => {
+    const DAY_SECONDS = 24 * 60 * 60;
+
+    function secondsAgo(seconds: number) {
+      return String(Math.floor(Date.now() / 1000) - seconds);
+    }
+
+    /** Stand-in Mux inventory, paged like the Mux list endpoints */
+    function createMuxInventory(
+      assets: MuxAssetSummary[],
+      uploads: MuxUploadSummary[],
+      options: { failingAssets?: string[] } = {}
+    ) {
+      const page = <T>(items: T[], pageNumber: number) =>
+        Promise.resolve(
+          items.slice(
+            (pageNumber - 1) * SWEEP_PAGE_SIZE,
+            pageNumber * SWEEP_PAGE_SIZE
+          )
+        );
+      const client: MuxInventoryClient = {
+        listAssets: (pageNumber) => page(assets, pageNumber),
+        listUploads: (pageNumber) => page(uploads, pageNumber),
+        deleteAsset: vi.fn((assetId: string) =>
+          options.failingAssets?.includes(assetId)
+            ? Promise.reject(new Error("Mux API unavailable"))
+            : Promise.resolve()
+        ),
+        cancelUpload: vi.fn(() => Promise.resolve()),
+      };
+      return client;
+    }
+
+    function sweepCtx(t: ReturnType<typeof setupConvexTest>) {
+      return { runQuery: t.query, runMutation: t.mutation };
+    }
+
+    async function setupVideos(t: ReturnType<typeof setupConvexTest>) {
+      const coach = await createTestCoach(t, {
+        email: "coach@example.com",
+        name: "Coach",
+      });
+      // Linked asset
+      await t.mutation(internal.mux.mutations.insertVideo, {
+        uploadedBy: coach.profileId,
+        muxUploadId: "upload-linked",
+        title: "Linked",
+        status: "waiting_for_upload",
+      });
+      await t.mutation(internal.mux.webhooks.handleUploadAssetCreated, {
+        uploadId: "upload-linked",
+        assetId: "asset-linked",
+      });
+      // Asset created, webhook not applied yet
+      await t.mutation(internal.mux.mutations.insertVideo, {
+        uploadedBy: coach.profileId,
+        muxUploadId: "upload-pending",
+        title: "Pending",
+        status: "waiting_for_upload",
+      });
+      // Found unreferenced by an earlier sweep
+      await t.run(async (ctx) => {
+        await ctx.db.insert("orphanedMuxUploads", {
+          uploadId: "upload-orphan",
+          firstSeenAt: Date.now() - 2 * DAY_SECONDS * 1000,
+        });
+      });
+    }
+
+    const muxAssets: MuxAssetSummary[] = [
+      { id: "asset-linked", created_at: secondsAgo(3 * DAY_SECONDS) },
+      {
+        id: "asset-pending",
+        created_at: secondsAgo(3 * DAY_SECONDS),
+        upload_id: "upload-pending",
+      },
+      { id: "asset-orphan", created_at: secondsAgo(3 * DAY_SECONDS) },
+      { id: "asset-recent", created_at: secondsAgo(60) },
+    ];
+    const muxUploads: MuxUploadSummary[] = [
+      { id: "upload-pending", status: "waiting" },
+      { id: "upload-orphan", status: "waiting" },
+      { id: "upload-finished", status: "asset_created" },
+    ];
+
+    it("should only report orphans in dry-run mode", async () => {
+      const t = setupConvexTest();
+      await setupVideos(t);
+      const mux = createMuxInventory(muxAssets, muxUploads);
+
+      const report = await sweepOrphans(sweepCtx(t), mux);
+
+      expect(report).toEqual({
+        dryRun: true,
+        assets: {
+          scanned: 4,
+          orphaned: ["asset-orphan"],
+          deleted: 0,
+          failed: 0,
+        },
+        uploads: {
+          scanned: 3,
+          orphaned: ["upload-orphan"],
+          cancelled: 0,
+          failed: 0,
+        },
+      });
+      expect(mux.deleteAsset).not.toHaveBeenCalled();
+      expect(mux.cancelUpload).not.toHaveBeenCalled();
+    });
+
+    it("should delete orphaned assets and cancel orphaned uploads", async () => {
+      const t = setupConvexTest();
+      await setupVideos(t);
+      const mux = createMuxInventory(muxAssets, muxUploads);
+
+      const report = await sweepOrphans(sweepCtx(t), mux, {
+        dryRun: false,
+      });
+
+      expect(report.assets.deleted).toBe(1);
+      expect(report.uploads.cancelled).toBe(1);
+      expect(mux.deleteAsset).toHaveBeenCalledWith("asset-orphan");
+      expect(mux.cancelUpload).toHaveBeenCalledWith("upload-orphan");
+    });
+
+    it("should only cancel uploads unreferenced past the grace period", async () => {
+      vi.useFakeTimers();
+      const t = setupConvexTest();
+      const mux = createMuxInventory(
+        [],
+        [{ id: "upload-new", status: "waiting" }]
+      );
+
+      // Just created - createDirectUpload hasn't inserted its video yet
+      let report = await sweepOrphans(sweepCtx(t), mux, { dryRun: false });
+      expect(report.uploads).toEqual({
+        scanned: 1,
+        orphaned: [],
+        cancelled: 0,
+        failed: 0,
+      });
+
+      vi.advanceTimersByTime(23 * 60 * 60 * 1000);
+      report = await sweepOrphans(sweepCtx(t), mux, { dryRun: false });
+      expect(report.uploads.orphaned).toEqual([]);
+      expect(mux.cancelUpload).not.toHaveBeenCalled();
+
+      vi.advanceTimersByTime(2 * 60 * 60 * 1000);
+      report = await sweepOrphans(sweepCtx(t), mux, { dryRun: false });
+      expect(report.uploads.cancelled).toBe(1);
+      expect(mux.cancelUpload).toHaveBeenCalledWith("upload-new");
+
+      // Uploads no longer waiting are forgotten
+      const cancelled = createMuxInventory(
+        [],
+        [{ id: "upload-new", status: "cancelled" }]
+      );
+      await sweepOrphans(sweepCtx(t), cancelled, { dryRun: false });
+      const rows = await t.run(
+        async (ctx) => await ctx.db.query("orphanedMuxUploads").collect()
+      );
+      expect(rows).toEqual([]);
+      vi.useRealTimers();
+    });
+
+    it("should page through the whole inventory and count failures", async () => {
+      const t = setupConvexTest();
+      const orphans = Array.from({ length: SWEEP_PAGE_SIZE + 20 }, (_, i) => ({
+        id: `asset-${i}`,
+        created_at: secondsAgo(2 * DAY_SECONDS),
+      }));
+      const mux = createMuxInventory(orphans, [], {
+        failingAssets: ["asset-3"],
+      });
+
+      const report = await sweepOrphans(sweepCtx(t), mux, {
+        dryRun: false,
+      });
+
+      expect(report.assets.scanned).toBe(SWEEP_PAGE_SIZE + 20);
+      expect(report.assets.orphaned).toHaveLength(SWEEP_PAGE_SIZE + 20);
+      expect(report.assets.deleted).toBe(SWEEP_PAGE_SIZE + 19);
+      expect(report.assets.failed).toBe(1);
+    });
   });
 });
@@ -0,0 +1,546 @@
+import { describe, expect, it } from "vitest";
+import { api } from "../_generated/api";
+import type { Id } from "../_generated/dataModel";
+import { setupConvexTest } from "../test.setup";
+import { createTestCoach } from "./helpers";
+
+/**
+ * Workout Prescription Tests
+ *
+ * Tests for exercise prescriptions within workouts covering:
+ * - Adding prescriptions (validation, exercise visibility)
+ * - Contiguous ordering on add/remove/reorder
+ * - Resolved workout queries and draft visibility
+ * - Cascades (workout deletion, exercise deletion guard, duplication)
+ * - Blocks (per-type validation, nesting, shared ordering, render tree)
+ */
+
+async function setupWorkout(t: ReturnType<typeof setupConvexTest>) {
+  const coach = await createTestCoach(t, {
+    email: "coach@example.com",
+    name: "Coach Test",
+  });
+  const programId = await coach.asUser.mutation(api.programs.createProgram, {
+    title: "Strength Foundations",
+    description: "Eight weeks of barbell basics",
+    category: "strength",
+    level: "beginner",
+  });
+  const moduleId = await coach.asUser.mutation(api.programModules.addModule, {
+    programId,
+    title: "Week 1",
+    description: "",
+  });
+  const workoutId = await coach.asUser.mutation(api.workouts.addWorkout, {
+    moduleId,
+    title: "Day A",
+    description: "",
+    difficulty: 2,
+  });
+  const squatId = await coach.asUser.mutation(api.exercises.createExercise, {
+    name: "Back Squat",
+    description: "",
+    category: "strength",
+    equipment: ["barbell"],
+  });
+  const plankId = await coach.asUser.mutation(api.exercises.createExercise, {
+    name: "Plank",
+    description: "",
+    category: "core",
+    equipment: [],
+  });
+
+  return { ...coach, programId, moduleId, workoutId, squatId, plankId };
+}
+
+describe("Workout Exercises", () => {
+  describe("Prescriptions", () => {
+    it("should add prescriptions and resolve them in order", async () => {
+      const t = setupConvexTest();
+      const { asUser, workoutId, squatId, plankId } = await setupWorkout(t);
+
+      await asUser.mutation(api.workoutExercises.addWorkoutExercise, {
+        workoutId,
+        exerciseId: plankId,
+        sets: 3,
+        durationSeconds: 45,
+        restSeconds: 60,
+      });
+      await asUser.mutation(api.workoutExercises.addWorkoutExercise, {
+        workoutId,
+        exerciseId: squatId,
+        sets: 5,
+        reps: "5",
+        load: "80kg",
+        tempo: "3-1-1-0",
+        index: 0,
+      });
+
+      const workout = await asUser.query(
+        api.workoutExercises.getWorkoutWithExercises,
+        { workoutId }
+      );
+      expect(
+        workout?.exercises.map((e) => [e.order, e.exercise?.name])
+      ).toEqual([
+        [0, "Back Squat"],
+        [1, "Plank"],
+      ]);
+      expect(workout?.exercises[0]).toMatchObject({
+        sets: 5,
+        reps: "5",
+        load: "80kg",
+        tempo: "3-1-1-0",
+      });
+      expect(workout?.exercises[1]).toMatchObject({
+        durationSeconds: 45,
+        restSeconds: 60,
+      });
+    });
+
+    it("should require either reps or a duration", async () => {
+      const t = setupConvexTest();
+      const { asUser, workoutId, squatId } = await setupWorkout(t);
+
+      await expect(
+        asUser.mutation(api.workoutExercises.addWorkoutExercise, {
+          workoutId,
+          exerciseId: squatId,
+          sets: 3,
+        })
+      ).rejects.toThrow("Prescribe either reps or a duration (not both)");
+      await expect(
+        asUser.mutation(api.workoutExercises.addWorkoutExercise, {
+          workoutId,
+          exerciseId: squatId,
+          sets: 3,
+          reps: "10",
+          durationSeconds: 30,
+        })
+      ).rejects.toThrow("Prescribe either reps or a duration (not both)");
+      await expect(
+        asUser.mutation(api.workoutExercises.addWorkoutExercise, {
+          workoutId,
+          exerciseId: squatId,
+          sets: 0,
+          reps: "10",
+        })
+      ).rejects.toThrow("Sets must be a whole number of at least 1");
+    });
+
+    it("should switch a prescription from reps to time", async () => {
+      const t = setupConvexTest();
+      const { asUser, workoutId, plankId } = await setupWorkout(t);
+      const workoutExerciseId = await asUser.mutation(
+        api.workoutExercises.addWorkoutExercise,
+        { workoutId, exerciseId: plankId, sets: 3, reps: "10" }
+      );
+
+      await asUser.mutation(api.workoutExercises.updateWorkoutExercise, {
+        workoutExerciseId,
+        reps: "",
+        durationSeconds: 30,
+      });
+
+      const updated = await t.run(
+        async (ctx) => await ctx.db.get(workoutExerciseId)
+      );
+      expect(updated?.reps).toBeUndefined();
+      expect(updated?.durationSeconds).toBe(30);
+    });
+
+    it("should allow public exercises but not other coaches' private ones", async () => {
+      const t = setupConvexTest();
+      const { asUser, workoutId } = await setupWorkout(t);
+      const { asUser: other } = await createTestCoach(t, {
+        email: "other@example.com",
+        name: "Other Coach",
+      });
+      const privateId = await other.mutation(api.exercises.createExercise, {
+        name: "Secret Lift",
+        description: "",
+        category: "strength",
+        equipment: [],
+      });
+      const publicId = await other.mutation(api.exercises.createExercise, {
+        name: "Shared Lunge",
+        description: "",
+        category: "strength",
+        equipment: [],
+        isPublic: true,
+      });
+
+      await expect(
+        asUser.mutation(api.workoutExercises.addWorkoutExercise, {
+          workoutId,
+          exerciseId: privateId,
+          sets: 3,
+          reps: "8",
+        })
+      ).rejects.toThrow("Unauthorized - this exercise is private");
+
+      await asUser.mutation(api.workoutExercises.addWorkoutExercise, {
+        workoutId,
+        exerciseId: publicId,
+        sets: 3,
+        reps: "8",
+      });
+    });
+
+    it("should keep orders contiguous on remove and reorder", async () => {
+      const t = setupConvexTest();
+      const { asUser, workoutId, squatId, plankId } = await setupWorkout(t);
+      const ids: Id<"workoutExercises">[] = [];
+      for (const exerciseId of [squatId, plankId, squatId]) {
+        ids.push(
+          await asUser.mutation(api.workoutExercises.addWorkoutExercise, {
+            workoutId,
+            exerciseId,
+            sets: 3,
+            reps: "8",
+          })
+        );
+      }
+
+      await asUser.mutation(api.workoutExercises.removeWorkoutExercise, {
+        workoutExerciseId: ids[0],
+      });
+      await asUser.mutation(api.workoutExercises.reorderWorkoutItems, {
+        workoutId,
+        itemIds: [ids[2], ids[1]],
+      });
+
+      const workout = await asUser.query(
+        api.workoutExercises.getWorkoutWithExercises,
+        { workoutId }
+      );
+      expect(workout?.exercises.map((e) => [e._id, e.order])).toEqual([
+        [ids[2], 0],
+        [ids[1], 1],
+      ]);
+    });
+  });
+
+  describe("Visibility", () => {
+    it("should hide draft workouts from other users", async () => {
+      const t = setupConvexTest();
+      const { asUser, programId, moduleId, workoutId } = await setupWorkout(t);
+      const { asUser: other } = await createTestCoach(t, {
+        email: "other@example.com",
+        name: "Other Coach",
+      });
+
+      expect(
+        await other.query(api.workoutExercises.getWorkoutWithExercises, {
+          workoutId,
+        })
+      ).toBeNull();
+      expect(
+        await asUser.query(
+          api.workoutExercises.getModuleWorkoutsWithExercises,
+          { moduleId }
+        )
+      ).toHaveLength(1);
+
+      await t.run(async (ctx) => {
+        await ctx.db.patch(programId, { isPublished: true });
+      });
+
+      expect(
+        await t.query(api.workoutExercises.getWorkoutWithExercises, {
+          workoutId,
+        })
+      ).toMatchObject({ _id: workoutId, exercises: [] });
+    });
+  });
+
+  describe("Cascades", () => {
+    it("should delete prescriptions with their workout", async () => {
+      const t = setupConvexTest();
+      const { asUser, workoutId, squatId } = await setupWorkout(t);
+      await asUser.mutation(api.workoutExercises.addWorkoutExercise, {
+        workoutId,
+        exerciseId: squatId,
+        sets: 3,
+        reps: "8",
+      });
+
+      await asUser.mutation(api.workouts.removeWorkout, { workoutId });
+
+      const remaining = await t.run(
+        async (ctx) => await ctx.db.query("workoutExercises").collect()
+      );
+      expect(remaining).toHaveLength(0);
+    });
+
+    it("should block deleting an exercise that is still prescribed", async () => {
+      const t = setupConvexTest();
+      const { asUser, workoutId, squatId } = await setupWorkout(t);
+      await asUser.mutation(api.workoutExercises.addWorkoutExercise, {
+        workoutId,
+        exerciseId: squatId,
+        sets: 3,
+        reps: "8",
+      });
+
+      await expect(
+        asUser.mutation(api.exercises.deleteExercise, { exerciseId: squatId })
+      ).rejects.toThrow(
+        "Exercise is used in workouts - remove it from those workouts first"
+      );
+    });
+
+    it("should copy prescriptions when duplicating a program", async () => {
+      const t = setupConvexTest();
+      const { asUser, programId, workoutId, squatId } = await setupWorkout(t);
+      await asUser.mutation(api.workoutExercises.addWorkoutExercise, {
+        workoutId,
+        exerciseId: squatId,
+        sets: 5,
+        reps: "5",
+      });
+
+      const { programId: copyId } = await asUser.mutation(
+        api.programDuplication.duplicateProgram,
+        { programId }
+      );
+
+      const copy = await asUser.query(api.programs.getProgramOutline, {
+        programId: copyId,
+      });
+      const copiedWorkout = await asUser.query(
+        api.workoutExercises.getWorkoutWithExercises,
+        { workoutId: copy.modules[0].workouts[0]._id }
+      );
+      expect(copiedWorkout?.exercises).toHaveLength(1);
+      expect(copiedWorkout?.exercises[0]).toMatchObject({
+        exerciseId: squatId,
+        sets: 5,
+        reps: "5",
+      });
+    });
+  });
+
+  describe("Workout Blocks", () => {
+    it("should validate the parameters each block type needs", async () => {
+      const t = setupConvexTest();
+      const { asUser, workoutId } = await setupWorkout(t);
+
+      await expect(
+        asUser.mutation(api.workoutBlocks.addBlock, {
+          workoutId,
+          type: "circuit",
+        })
+      ).rejects.toThrow("Circuit blocks need rounds");
+      await expect(
+        asUser.mutation(api.workoutBlocks.addBlock, {
+          workoutId,
+          type: "amrap",
+        })
+      ).rejects.toThrow("AMRAP blocks need time cap");
+      await expect(
+        asUser.mutation(api.workoutBlocks.addBlock, {
+          workoutId,
+          type: "superset",
+          timeCapSeconds: 600,
+        })
+      ).rejects.toThrow("Time cap doesn't apply to Superset blocks");
+      await expect(
+        asUser.mutation(api.workoutBlocks.addBlock, {
+          workoutId,
+          type: "circuit",
+          rounds: 2.5,
+        })
+      ).rejects.toThrow("Rounds must be a whole number of at least 1");
+
+      const tabataId = await asUser.mutation(api.workoutBlocks.addBlock, {
+        workoutId,
+        type: "tabata",
+      });
+      const tabata = await t.run(async (ctx) => await ctx.db.get(tabataId));
+      expect(tabata).toMatchObject({
+        rounds: 8,
+        workSeconds: 20,
+        restSeconds: 10,
+      });
+    });
+
+    it("should return a nested render tree with shared ordering", async () => {
+      const t = setupConvexTest();
+      const { asUser, workoutId, squatId, plankId } = await setupWorkout(t);
+
+      await asUser.mutation(api.workoutExercises.addWorkoutExercise, {
+        workoutId,
+        exerciseId: squatId,
+        sets: 5,
+        reps: "5",
+      });
+      const circuitId = await asUser.mutation(api.workoutBlocks.addBlock, {
+        workoutId,
+        type: "circuit",
+        rounds: 3,
+      });
+      const supersetId = await asUser.mutation(api.workoutBlocks.addBlock, {
+        workoutId,
+        parentBlockId: circuitId,
+        type: "superset",
+      });
+      await asUser.mutation(api.workoutExercises.addWorkoutExercise, {
+        workoutId,
+        blockId: supersetId,
+        exerciseId: squatId,
+        sets: 1,
+        reps: "10",
+      });
+      await asUser.mutation(api.workoutExercises.addWorkoutExercise, {
+        workoutId,
+        blockId: supersetId,
+        exerciseId: plankId,
+        sets: 1,
+        durationSeconds: 30,
+      });
+      await asUser.mutation(api.workoutExercises.addWorkoutExercise, {
+        workoutId,
+        blockId: circuitId,
+        exerciseId: plankId,
+        sets: 1,
+        durationSeconds: 60,
+      });
+
+      const workout = await asUser.query(api.workoutBlocks.getWorkoutTree, {
+        workoutId,
+      });
+      const [first, circuit] = workout?.items ?? [];
+      expect(first).toMatchObject({ kind: "exercise", order: 0 });
+      expect(circuit).toMatchObject({
+        kind: "block",
+        type: "circuit",
+        rounds: 3,
+        order: 1,
+      });
+      if (circuit?.kind !== "block") {
+        throw new Error("Expected circuit block");
+      }
+      expect(circuit.items.map((item) => [item.kind, item.order])).toEqual([
+        ["block", 0],
+        ["exercise", 1],
+      ]);
+      const superset = circuit.items[0];
+      if (superset.kind !== "block") {
+        throw new Error("Expected superset block");
+      }
+      expect(
+        superset.items.map((item) =>
+          item.kind === "exercise" ? item.exercise?.name : null
+        )
+      ).toEqual(["Back Squat", "Plank"]);
+
+      // Flat list follows the performed order
+      const flat = await asUser.query(
+        api.workoutExercises.getWorkoutWithExercises,
+        { workoutId }
+      );
+      expect(flat?.exercises.map((e) => e.durationSeconds ?? e.reps)).toEqual([
+        "5",
+        "10",
+        30,
+        60,
+      ]);
+    });
+
+    it("should limit nesting depth", async () => {
+      const t = setupConvexTest();
+      const { asUser, workoutId } = await setupWorkout(t);
+      const outerId = await asUser.mutation(api.workoutBlocks.addBlock, {
+        workoutId,
+        type: "circuit",
+        rounds: 3,
+      });
+      const innerId = await asUser.mutation(api.workoutBlocks.addBlock, {
+        workoutId,
+        parentBlockId: outerId,
+        type: "superset",
+      });
+
+      await expect(
+        asUser.mutation(api.workoutBlocks.addBlock, {
+          workoutId,
+          parentBlockId: innerId,
+          type: "superset",
+        })
+      ).rejects.toThrow("Blocks can be nested at most 2 levels deep");
+    });
+
+    it("should move exercises between blocks and remove blocks with contents", async () => {
+      const t = setupConvexTest();
+      const { asUser, workoutId, squatId } = await setupWorkout(t);
+      const exerciseId = await asUser.mutation(
+        api.workoutExercises.addWorkoutExercise,
+        { workoutId, exerciseId: squatId, sets: 3, reps: "8" }
+      );
+      const amrapId = await asUser.mutation(api.workoutBlocks.addBlock, {
+        workoutId,
+        type: "amrap",
+        timeCapSeconds: 600,
+      });
+
+      await asUser.mutation(api.workoutExercises.moveWorkoutExercise, {
+        workoutExerciseId: exerciseId,
+        targetBlockId: amrapId,
+      });
+
+      const moved = await t.run(async (ctx) => await ctx.db.get(exerciseId));
+      expect(moved).toMatchObject({ blockId: amrapId, order: 0 });
+      const amrap = await t.run(async (ctx) => await ctx.db.get(amrapId));
+      expect(amrap?.order).toBe(0); // Top level resequenced
+
+      const result = await asUser.mutation(api.workoutBlocks.removeBlock, {
+        blockId: amrapId,
+      });
+      expect(result).toMatchObject({ deletedBlocks: 1, deletedExercises: 1 });
+
+      const workout = await asUser.query(api.workoutBlocks.getWorkoutTree, {
+        workoutId,
+      });
+      expect(workout?.items).toEqual([]);
+    });
+
+    it("should copy blocks when duplicating a program", async () => {
+      const t = setupConvexTest();
+      const { asUser, programId, workoutId, squatId } = await setupWorkout(t);
+      const emomId = await asUser.mutation(api.workoutBlocks.addBlock, {
+        workoutId,
+        type: "emom",
+        rounds: 10,
+      });
+      await asUser.mutation(api.workoutExercises.addWorkoutExercise, {
+        workoutId,
+        blockId: emomId,
+        exerciseId: squatId,
+        sets: 1,
+        reps: "5",
+      });
+
+      const { programId: copyId } = await asUser.mutation(
+        api.programDuplication.duplicateProgram,
+        { programId }
+      );
+      const outline = await asUser.query(api.programs.getProgramOutline, {
+        programId: copyId,
+      });
+      const copy = await asUser.query(api.workoutBlocks.getWorkoutTree, {
+        workoutId: outline.modules[0].workouts[0]._id,
+      });
+
+      const [block] = copy?.items ?? [];
+      expect(block).toMatchObject({
+        kind: "block",
+        type: "emom",
+        rounds: 10,
+        intervalSeconds: 60,
+      });
+      expect(block?.kind === "block" && block._id).not.toBe(emomId);
+      expect(block?.kind === "block" && block.items).toHaveLength(1);
+    });
+  });
+});
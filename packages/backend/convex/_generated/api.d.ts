@@ -23,15 +23,36 @@ import type * as emails_components_magicLink from "../emails/components/magicLin
 import type * as emails_components_resetPassword from "../emails/components/resetPassword.js";
 import type * as emails_components_verifyEmail from "../emails/components/verifyEmail.js";
 import type * as emails_components_welcome from "../emails/components/welcome.js";
+import type * as enrollments from "../enrollments.js";
+import type * as exercises from "../exercises.js";
+import type * as files from "../files.js";
 import type * as http from "../http.js";
 import type * as mux_actions from "../mux/actions.js";
+import type * as mux_chapters from "../mux/chapters.js";
+import type * as mux_clips from "../mux/clips.js";
+import type * as mux_events from "../mux/events.js";
 import type * as mux_httpActions from "../mux/httpActions.js";
 import type * as mux_mutations from "../mux/mutations.js";
+import type * as mux_progress from "../mux/progress.js";
 import type * as mux_queries from "../mux/queries.js";
+import type * as mux_reconcile from "../mux/reconcile.js";
+import type * as mux_replace from "../mux/replace.js";
+import type * as mux_sweep from "../mux/sweep.js";
+import type * as mux_thumbnails from "../mux/thumbnails.js";
+import type * as mux_tracks from "../mux/tracks.js";
 import type * as mux_types from "../mux/types.js";
+import type * as mux_usage from "../mux/usage.js";
 import type * as mux_webhooks from "../mux/webhooks.js";
+import type * as ordering from "../ordering.js";
 import type * as profiles from "../profiles.js";
+import type * as programDuplication from "../programDuplication.js";
+import type * as programModules from "../programModules.js";
+import type * as programPublishing from "../programPublishing.js";
+import type * as programs from "../programs.js";
 import type * as users from "../users.js";
+import type * as workoutBlocks from "../workoutBlocks.js";
+import type * as workoutExercises from "../workoutExercises.js";
+import type * as workouts from "../workouts.js";
 
 import type {
   ApiFromModules,
@@ -55,15 +76,36 @@ declare const fullApi: ApiFromModules<{
   "emails/components/resetPassword": typeof emails_components_resetPassword;
   "emails/components/verifyEmail": typeof emails_components_verifyEmail;
   "emails/components/welcome": typeof emails_components_welcome;
+  enrollments: typeof enrollments;
+  exercises: typeof exercises;
+  files: typeof files;
   http: typeof http;
   "mux/actions": typeof mux_actions;
+  "mux/chapters": typeof mux_chapters;
+  "mux/clips": typeof mux_clips;
+  "mux/events": typeof mux_events;
   "mux/httpActions": typeof mux_httpActions;
   "mux/mutations": typeof mux_mutations;
+  "mux/progress": typeof mux_progress;
   "mux/queries": typeof mux_queries;
+  "mux/reconcile": typeof mux_reconcile;
+  "mux/replace": typeof mux_replace;
+  "mux/sweep": typeof mux_sweep;
+  "mux/thumbnails": typeof mux_thumbnails;
+  "mux/tracks": typeof mux_tracks;
   "mux/types": typeof mux_types;
+  "mux/usage": typeof mux_usage;
   "mux/webhooks": typeof mux_webhooks;
+  ordering: typeof ordering;
   profiles: typeof profiles;
+  programDuplication: typeof programDuplication;
+  programModules: typeof programModules;
+  programPublishing: typeof programPublishing;
+  programs: typeof programs;
   users: typeof users;
+  workoutBlocks: typeof workoutBlocks;
+  workoutExercises: typeof workoutExercises;
+  workouts: typeof workouts;
 }>;
 
 /**
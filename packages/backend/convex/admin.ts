@@ -21,13 +21,21 @@ export const cleanAppTables = internalMutation({
     // Delete in order (respecting foreign key dependencies)
 
     // 1. Content tables (depend on other tables)
+    await clearTable("enrollments");
+    await clearTable("workoutExercises");
+    await clearTable("workoutBlocks");
     await clearTable("workouts");
     await clearTable("programModules");
     await clearTable("programs");
+    await clearTable("videoChapters");
     await clearTable("exercises");
     await clearTable("notifications");
 
     // 2. Media tables
+    await clearTable("muxWebhookEvents");
+    await clearTable("videoTracks");
+    await clearTable("videoProgress");
+    await clearTable("videoUsage");
     await clearTable("videos");
     await clearTable("files");
 
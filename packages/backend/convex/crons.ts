@@ -19,7 +19,8 @@ const crons = cronJobs();
  *
  * Runs daily at 4:00 AM UTC to remove stale video records.
  * Deletes videos stuck in "waiting_for_upload" or "uploading" status
- * for more than 24 hours (likely abandoned by users).
+ * for more than 24 hours (likely abandoned by users) and cancels their Mux
+ * uploads. Large backlogs are deleted in self-scheduling batches.
  *
  * Benefits:
  * - Prevents database bloat
@@ -32,7 +33,25 @@ const crons = cronJobs();
 crons.daily(
   "cleanup abandoned video uploads",
   { hourUTC: 4, minuteUTC: 0 },
-  internal.mux.mutations.cleanupAbandonedUploads
+  internal.mux.mutations.cleanupAbandonedUploads,
+  {}
+);
+
+/**
+ * Reconcile Stuck Videos
+ *
+ * Runs every 30 minutes to recover videos whose Mux webhooks were lost.
+ * Videos stuck in "waiting_for_upload", "uploading" or "processing" for
+ * over an hour are checked against their real upload/asset state in Mux,
+ * and the matching webhook transition is applied (see mux/reconcile.ts).
+ *
+ * Testing: Call reconcileVideos from mux/reconcile.ts with a stand-in
+ * MuxStateClient.
+ */
+crons.interval(
+  "reconcile stuck videos",
+  { minutes: 30 },
+  internal.mux.actions.reconcileStuckVideos
 );
 
 export default crons;
@@ -0,0 +1,81 @@
+import { v } from "convex/values";
+import type { Id } from "./_generated/dataModel";
+import type { MutationCtx, QueryCtx } from "./_generated/server";
+import { internalMutation } from "./_generated/server";
+
+/**
+ * Enrollments - Athlete Access to Programs
+ *
+ * An enrollment gives an athlete access to a program's content, including
+ * signed workout and exercise videos (see mux/queries.ts).
+ *
+ * Enrollments are granted internally (e.g. by checkout), never directly by
+ * the athlete.
+ */
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Is Enrolled (Helper)
+ *
+ * @returns Whether the athlete is enrolled in the program
+ */
+export async function isEnrolled(
+  ctx: QueryCtx | MutationCtx,
+  athleteProfileId: Id<"userProfiles">,
+  programId: Id<"programs">
+) {
+  const enrollment = await ctx.db
+    .query("enrollments")
+    .withIndex("by_athlete_program", (q) =>
+      q.eq("athleteProfileId", athleteProfileId).eq("programId", programId)
+    )
+    .first();
+
+  return enrollment !== null;
+}
+
+// ============================================================================
+// INTERNAL MUTATIONS
+// ============================================================================
+
+/**
+ * Grant Enrollment (Internal)
+ *
+ * Enrolls an athlete in a program. Granting an existing enrollment
+ * returns it unchanged.
+ *
+ * @returns The enrollment ID
+ */
+export const grantEnrollment = internalMutation({
+  args: {
+    programId: v.id("programs"),
+    athleteProfileId: v.id("userProfiles"),
+  },
+  handler: async (ctx, args) => {
+    const program = await ctx.db.get(args.programId);
+    if (!program) {
+      throw new Error("Program not found");
+    }
+
+    const existing = await ctx.db
+      .query("enrollments")
+      .withIndex("by_athlete_program", (q) =>
+        q
+          .eq("athleteProfileId", args.athleteProfileId)
+          .eq("programId", args.programId)
+      )
+      .first();
+    if (existing) {
+      return existing._id;
+    }
+
+    return await ctx.db.insert("enrollments", {
+      programId: args.programId,
+      athleteProfileId: args.athleteProfileId,
+      createdAt: Date.now(),
+    });
+  },
+});
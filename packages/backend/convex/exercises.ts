@@ -0,0 +1,308 @@
+import { paginationOptsValidator } from "convex/server";
+import { v } from "convex/values";
+import type { Id } from "./_generated/dataModel";
+import type { MutationCtx, QueryCtx } from "./_generated/server";
+import { mutation, query } from "./_generated/server";
+import { unlinkExerciseChapters } from "./mux/chapters";
+import { getCurrentCoachProfile } from "./profiles";
+
+/**
+ * Exercises - Coach Exercise Library
+ *
+ * Coaches build a library of reusable exercises. Exercises are private by
+ * default; public ones can be browsed by other coaches and forked into
+ * their own library as an editable private copy.
+ *
+ * Ownership: exercises belong to the userProfiles row of the coach who
+ * created them (createdBy).
+ */
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Get Owned Exercise (Helper)
+ *
+ * Loads an exercise and verifies the current coach created it.
+ *
+ * @throws Error if exercise not found or not owned by the current coach
+ * @returns Object containing profile, coachProfile and exercise
+ */
+export async function getOwnedExercise(
+  ctx: QueryCtx | MutationCtx,
+  exerciseId: Id<"exercises">
+) {
+  const { profile, coachProfile } = await getCurrentCoachProfile(ctx);
+
+  const exercise = await ctx.db.get(exerciseId);
+  if (!exercise) {
+    throw new Error("Exercise not found");
+  }
+
+  if (exercise.createdBy !== profile._id) {
+    throw new Error("Unauthorized - you don't own this exercise");
+  }
+
+  return { profile, coachProfile, exercise };
+}
+
+/**
+ * Verify that referenced media (demonstration video, thumbnail file)
+ * exists and was uploaded by the given profile.
+ */
+async function assertOwnedMedia(
+  ctx: MutationCtx,
+  profileId: Id<"userProfiles">,
+  media: { videoId?: Id<"videos">; thumbnailId?: Id<"files"> }
+) {
+  if (media.videoId) {
+    const video = await ctx.db.get(media.videoId);
+    if (!video) {
+      throw new Error("Video not found");
+    }
+    if (video.uploadedBy !== profileId) {
+      throw new Error("Unauthorized - you don't own this video");
+    }
+  }
+
+  if (media.thumbnailId) {
+    const file = await ctx.db.get(media.thumbnailId);
+    if (!file) {
+      throw new Error("Thumbnail file not found");
+    }
+    if (file.uploadedBy !== profileId) {
+      throw new Error("Unauthorized - you don't own this thumbnail");
+    }
+  }
+}
+
+// ============================================================================
+// QUERIES
+// ============================================================================
+
+/**
+ * List My Exercises
+ *
+ * Lists all exercises (private, public and forked) created by the current
+ * coach, newest first.
+ */
+export const listMyExercises = query({
+  args: {},
+  handler: async (ctx) => {
+    const { profile } = await getCurrentCoachProfile(ctx);
+
+    return await ctx.db
+      .query("exercises")
+      .withIndex("by_createdBy", (q) => q.eq("createdBy", profile._id))
+      .order("desc")
+      .collect();
+  },
+});
+
+/**
+ * Browse Public Exercises
+ *
+ * Paginated listing of public exercises from other coaches, newest first.
+ * `category` is filtered in the query; `equipment` (array membership)
+ * can't be expressed as a database filter, so it's applied per page -
+ * pages may come back shorter than numItems.
+ */
+export const browsePublicExercises = query({
+  args: {
+    paginationOpts: paginationOptsValidator,
+    category: v.optional(v.string()),
+    equipment: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const { profile } = await getCurrentCoachProfile(ctx);
+
+    let exercisesQuery = ctx.db
+      .query("exercises")
+      .withIndex("by_isPublic", (q) => q.eq("isPublic", true))
+      .filter((q) => q.neq(q.field("createdBy"), profile._id));
+
+    if (args.category) {
+      exercisesQuery = exercisesQuery.filter((q) =>
+        q.eq(q.field("category"), args.category)
+      );
+    }
+
+    const result = await exercisesQuery
+      .order("desc")
+      .paginate(args.paginationOpts);
+
+    const { equipment } = args;
+    const page = equipment
+      ? result.page.filter((exercise) => exercise.equipment.includes(equipment))
+      : result.page;
+
+    // Attach the creator's display name
+    const withCreators = await Promise.all(
+      page.map(async (exercise) => {
+        const creator = await ctx.db.get(exercise.createdBy);
+        return { ...exercise, creatorName: creator?.displayName ?? null };
+      })
+    );
+
+    return { ...result, page: withCreators };
+  },
+});
+
+// ============================================================================
+// MUTATIONS
+// ============================================================================
+
+/**
+ * Create Exercise
+ *
+ * Adds an exercise to the current coach's library (private by default).
+ */
+export const createExercise = mutation({
+  args: {
+    name: v.string(),
+    description: v.string(),
+    category: v.string(),
+    equipment: v.array(v.string()),
+    videoId: v.optional(v.id("videos")),
+    thumbnailId: v.optional(v.id("files")),
+    isPublic: v.optional(v.boolean()),
+  },
+  handler: async (ctx, args) => {
+    const { profile } = await getCurrentCoachProfile(ctx);
+
+    await assertOwnedMedia(ctx, profile._id, args);
+
+    const now = Date.now();
+    return await ctx.db.insert("exercises", {
+      createdBy: profile._id,
+      name: args.name,
+      description: args.description,
+      category: args.category,
+      equipment: args.equipment,
+      videoId: args.videoId,
+      thumbnailId: args.thumbnailId,
+      isPublic: args.isPublic ?? false,
+      createdAt: now,
+      updatedAt: now,
+    });
+  },
+});
+
+/**
+ * Update Exercise
+ *
+ * Updates exercise content, classification, media and sharing.
+ * Verifies the current coach owns the exercise.
+ */
+export const updateExercise = mutation({
+  args: {
+    exerciseId: v.id("exercises"),
+    name: v.optional(v.string()),
+    description: v.optional(v.string()),
+    category: v.optional(v.string()),
+    equipment: v.optional(v.array(v.string())),
+    videoId: v.optional(v.id("videos")),
+    thumbnailId: v.optional(v.id("files")),
+    isPublic: v.optional(v.boolean()),
+  },
+  handler: async (ctx, args) => {
+    const { exerciseId, ...updates } = args;
+    const { profile } = await getOwnedExercise(ctx, exerciseId);
+
+    await assertOwnedMedia(ctx, profile._id, updates);
+
+    await ctx.db.patch(exerciseId, {
+      ...updates,
+      updatedAt: Date.now(),
+    });
+
+    return { success: true };
+  },
+});
+
+/**
+ * Delete Exercise
+ *
+ * Removes an exercise from the owner's library.
+ * Exercises still prescribed in any workout (including other coaches'
+ * workouts using a public exercise) can't be deleted - make it private
+ * instead to hide it from the shared library.
+ * Referenced videos and files are NOT deleted (shared media), and forks
+ * other coaches made keep working since they are independent copies.
+ * Video chapters linking to the exercise lose the link.
+ */
+export const deleteExercise = mutation({
+  args: {
+    exerciseId: v.id("exercises"),
+  },
+  handler: async (ctx, args) => {
+    await getOwnedExercise(ctx, args.exerciseId);
+
+    const inUse = await ctx.db
+      .query("workoutExercises")
+      .withIndex("by_exercise", (q) => q.eq("exerciseId", args.exerciseId))
+      .first();
+    if (inUse) {
+      throw new Error(
+        "Exercise is used in workouts - remove it from those workouts first"
+      );
+    }
+
+    await unlinkExerciseChapters(ctx, args.exerciseId);
+    await ctx.db.delete(args.exerciseId);
+
+    return { success: true };
+  },
+});
+
+/**
+ * Fork Exercise ("Add to my library")
+ *
+ * Copies a public exercise from another coach into the current coach's
+ * library as a private exercise they can edit. The demonstration video and
+ * thumbnail are shared references, not copied.
+ *
+ * Forking the same exercise twice returns the existing copy.
+ */
+export const forkExercise = mutation({
+  args: {
+    exerciseId: v.id("exercises"),
+  },
+  handler: async (ctx, args) => {
+    const { profile } = await getCurrentCoachProfile(ctx);
+
+    const source = await ctx.db.get(args.exerciseId);
+    if (!source?.isPublic) {
+      throw new Error("Exercise not found");
+    }
+
+    if (source.createdBy === profile._id) {
+      throw new Error("Exercise is already in your library");
+    }
+
+    const existing = await ctx.db
+      .query("exercises")
+      .withIndex("by_createdBy", (q) => q.eq("createdBy", profile._id))
+      .filter((q) => q.eq(q.field("forkedFromId"), source._id))
+      .first();
+    if (existing) {
+      return existing._id;
+    }
+
+    const now = Date.now();
+    return await ctx.db.insert("exercises", {
+      createdBy: profile._id,
+      name: source.name,
+      description: source.description,
+      category: source.category,
+      equipment: source.equipment,
+      videoId: source.videoId, // Shared reference
+      thumbnailId: source.thumbnailId, // Shared reference
+      isPublic: false, // Forks start private
+      forkedFromId: source._id,
+      createdAt: now,
+      updatedAt: now,
+    });
+  },
+});
@@ -0,0 +1,394 @@
+import { paginationOptsValidator } from "convex/server";
+import { v } from "convex/values";
+import type { Id } from "./_generated/dataModel";
+import type { MutationCtx, QueryCtx } from "./_generated/server";
+import { mutation, query } from "./_generated/server";
+import { getCurrentUserProfile } from "./profiles";
+
+/**
+ * Files - Convex Storage Metadata
+ *
+ * Upload flow:
+ * 1. generateUploadUrl → client POSTs the file to the returned URL
+ * 2. registerUpload with the returned storageId → `files` row
+ *
+ * Registration checks the stored object itself (content type and size from
+ * the `_storage` system table), not what the client claims. URLs are never
+ * stored - they're generated on demand (ctx.storage.getUrl).
+ *
+ * Ownership: files belong to the userProfiles row that registered them
+ * (uploadedBy). Programs and exercises reference files as thumbnails,
+ * video tracks reference caption files.
+ */
+
+// ============================================================================
+// VALIDATORS
+// ============================================================================
+
+export const fileTypeValidator = v.union(
+  v.literal("image"),
+  v.literal("thumbnail"),
+  v.literal("document"),
+  v.literal("caption")
+);
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+type FileType = "image" | "thumbnail" | "document" | "caption";
+
+const MB = 1024 * 1024;
+const MAX_FILE_NAME_LENGTH = 255;
+
+const imageMimeTypes = ["image/jpeg", "image/png", "image/webp", "image/gif"];
+
+const fileTypeRules: Record<
+  FileType,
+  { mimeTypes: string[]; maxBytes: number; hasDimensions: boolean }
+> = {
+  image: { mimeTypes: imageMimeTypes, maxBytes: 5 * MB, hasDimensions: true },
+  thumbnail: {
+    mimeTypes: imageMimeTypes,
+    maxBytes: 2 * MB,
+    hasDimensions: true,
+  },
+  document: {
+    mimeTypes: ["application/pdf"],
+    maxBytes: 20 * MB,
+    hasDimensions: false,
+  },
+  // WebVTT/SRT subtitles, attached to videos as Mux text tracks
+  caption: {
+    mimeTypes: ["text/vtt", "application/x-subrip"],
+    maxBytes: 1 * MB,
+    hasDimensions: false,
+  },
+};
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Get Owned File (Helper)
+ *
+ * Loads a file row and verifies the current user uploaded it.
+ *
+ * @throws Error if file not found or not owned by the current user
+ * @returns Object containing authUser, profile and file
+ */
+export async function getOwnedFile(
+  ctx: QueryCtx | MutationCtx,
+  fileId: Id<"files">
+) {
+  const { authUser, profile } = await getCurrentUserProfile(ctx);
+
+  const file = await ctx.db.get(fileId);
+  if (!file) {
+    throw new Error("File not found");
+  }
+
+  if (file.uploadedBy !== profile._id) {
+    throw new Error("Unauthorized - you don't own this file");
+  }
+
+  return { authUser, profile, file };
+}
+
+/**
+ * Validate image dimensions reported by the client.
+ * Only image file types carry dimensions.
+ */
+function validateDimensions(
+  fileType: FileType,
+  dimensions: { width?: number; height?: number }
+) {
+  const { width, height } = dimensions;
+  if (width === undefined && height === undefined) {
+    return;
+  }
+
+  if (!fileTypeRules[fileType].hasDimensions) {
+    throw new Error(`Dimensions don't apply to ${fileType} files`);
+  }
+
+  for (const value of [width, height]) {
+    if (value === undefined || !Number.isInteger(value) || value < 1) {
+      throw new Error("Width and height must be positive whole numbers");
+    }
+  }
+}
+
+/**
+ * Find a program, exercise or video of the owner that uses the file as
+ * thumbnail.
+ * Thumbnails must be the owner's own files (see assertOwnedMedia), so only
+ * the owner's content needs checking. Other coaches' forks keep a shared
+ * reference and simply stop showing the thumbnail.
+ */
+async function findThumbnailUsage(
+  ctx: MutationCtx,
+  profileId: Id<"userProfiles">,
+  fileId: Id<"files">
+) {
+  const exercise = await ctx.db
+    .query("exercises")
+    .withIndex("by_createdBy", (q) => q.eq("createdBy", profileId))
+    .filter((q) => q.eq(q.field("thumbnailId"), fileId))
+    .first();
+  if (exercise) {
+    return `exercise "${exercise.name}"`;
+  }
+
+  const video = await ctx.db
+    .query("videos")
+    .withIndex("by_uploadedBy", (q) => q.eq("uploadedBy", profileId))
+    .filter((q) => q.eq(q.field("thumbnailFileId"), fileId))
+    .first();
+  if (video) {
+    return `video "${video.title}"`;
+  }
+
+  const coachProfile = await ctx.db
+    .query("coachProfiles")
+    .withIndex("by_profileId", (q) => q.eq("profileId", profileId))
+    .first();
+  if (!coachProfile) {
+    return null;
+  }
+
+  const program = await ctx.db
+    .query("programs")
+    .withIndex("by_coach", (q) => q.eq("coachProfileId", coachProfile._id))
+    .filter((q) => q.eq(q.field("thumbnailId"), fileId))
+    .first();
+  return program ? `program "${program.title}"` : null;
+}
+
+/**
+ * Find a video that uses the file as an uploaded caption track.
+ * Deleting the file would leave the track unable to be re-created, e.g.
+ * when the video's source is replaced.
+ */
+async function findCaptionUsage(ctx: MutationCtx, fileId: Id<"files">) {
+  const track = await ctx.db
+    .query("videoTracks")
+    .withIndex("by_fileId", (q) => q.eq("fileId", fileId))
+    .first();
+  if (!track) {
+    return null;
+  }
+
+  const video = await ctx.db.get(track.videoId);
+  return `"${track.name}" captions of video "${video?.title ?? "Unknown"}"`;
+}
+
+// ============================================================================
+// QUERIES
+// ============================================================================
+
+/**
+ * List My Files
+ *
+ * Paginated listing of the current user's files, newest first, with the
+ * URL and size resolved per page. Optional filters:
+ * - `fileType`: app category ("image", "thumbnail", "document", "caption")
+ * - `mimeType`: exact ("image/png") or a wildcard group ("image/*")
+ */
+export const listMyFiles = query({
+  args: {
+    paginationOpts: paginationOptsValidator,
+    fileType: v.optional(fileTypeValidator),
+    mimeType: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const { profile } = await getCurrentUserProfile(ctx);
+
+    let filesQuery = ctx.db
+      .query("files")
+      .withIndex("by_uploadedBy", (q) => q.eq("uploadedBy", profile._id));
+
+    if (args.fileType) {
+      const { fileType } = args;
+      filesQuery = filesQuery.filter((q) =>
+        q.eq(q.field("fileType"), fileType)
+      );
+    }
+
+    const { mimeType } = args;
+    if (mimeType?.endsWith("/*")) {
+      // "image/*" → "image/" <= mimeType < "image0" ("0" sorts right after "/")
+      const prefix = mimeType.slice(0, -1);
+      filesQuery = filesQuery.filter((q) =>
+        q.and(
+          q.gte(q.field("mimeType"), prefix),
+          q.lt(q.field("mimeType"), `${prefix.slice(0, -1)}0`)
+        )
+      );
+    } else if (mimeType) {
+      filesQuery = filesQuery.filter((q) =>
+        q.eq(q.field("mimeType"), mimeType)
+      );
+    }
+
+    const result = await filesQuery.order("desc").paginate(args.paginationOpts);
+
+    const page = await Promise.all(
+      result.page.map(async (file) => {
+        const [url, storage] = await Promise.all([
+          ctx.storage.getUrl(file.storageId),
+          ctx.db.system.get(file.storageId),
+        ]);
+        return { ...file, url, size: storage?.size ?? null };
+      })
+    );
+
+    return { ...result, page };
+  },
+});
+
+/**
+ * Get File URL
+ *
+ * Resolves a fresh URL for one of the current user's files.
+ * Returns null if the file or its storage object no longer exists.
+ */
+export const getFileUrl = query({
+  args: {
+    fileId: v.id("files"),
+  },
+  handler: async (ctx, args) => {
+    const { profile } = await getCurrentUserProfile(ctx);
+
+    const file = await ctx.db.get(args.fileId);
+    if (!file || file.uploadedBy !== profile._id) {
+      return null;
+    }
+
+    return await ctx.storage.getUrl(file.storageId);
+  },
+});
+
+// ============================================================================
+// MUTATIONS
+// ============================================================================
+
+/**
+ * Generate Upload URL
+ *
+ * Short-lived URL the client POSTs a file to. Finish with registerUpload.
+ */
+export const generateUploadUrl = mutation({
+  args: {},
+  handler: async (ctx) => {
+    await getCurrentUserProfile(ctx);
+
+    return await ctx.storage.generateUploadUrl();
+  },
+});
+
+/**
+ * Register Upload
+ *
+ * Records metadata for a finished upload. The content type and size come
+ * from the `_storage` system table and are checked against the file type
+ * (e.g. thumbnails: JPEG/PNG/WebP/GIF up to 2 MB).
+ *
+ * @returns The new file ID
+ */
+export const registerUpload = mutation({
+  args: {
+    storageId: v.id("_storage"),
+    fileName: v.string(),
+    fileType: fileTypeValidator,
+    width: v.optional(v.number()),
+    height: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const { profile } = await getCurrentUserProfile(ctx);
+
+    const storage = await ctx.db.system.get(args.storageId);
+    if (!storage) {
+      throw new Error("Upload not found");
+    }
+
+    const existing = await ctx.db
+      .query("files")
+      .withIndex("by_storageId", (q) => q.eq("storageId", args.storageId))
+      .first();
+    if (existing) {
+      throw new Error("Upload is already registered");
+    }
+
+    const fileName = args.fileName.trim();
+    if (!fileName || fileName.length > MAX_FILE_NAME_LENGTH) {
+      throw new Error(
+        `File name must be between 1 and ${MAX_FILE_NAME_LENGTH} characters`
+      );
+    }
+
+    const rules = fileTypeRules[args.fileType];
+    const mimeType = storage.contentType;
+    if (!(mimeType && rules.mimeTypes.includes(mimeType))) {
+      throw new Error(
+        `Unsupported ${args.fileType} format (${mimeType ?? "unknown"}) - use ${rules.mimeTypes.join(", ")}`
+      );
+    }
+
+    if (storage.size > rules.maxBytes) {
+      throw new Error(
+        `File is too large - ${args.fileType} files can be at most ${rules.maxBytes / MB} MB`
+      );
+    }
+
+    validateDimensions(args.fileType, args);
+
+    return await ctx.db.insert("files", {
+      uploadedBy: profile._id,
+      storageId: args.storageId,
+      fileName,
+      fileType: args.fileType,
+      width: args.width,
+      height: args.height,
+      mimeType,
+    });
+  },
+});
+
+/**
+ * Delete File
+ *
+ * Deletes the file row and its storage object.
+ * Files still used as a thumbnail by one of the owner's programs,
+ * exercises or videos can't be deleted - replace the thumbnail first.
+ * Caption files still used by a video track can't be deleted either -
+ * remove the caption track first (deleteCaptionTrack deletes the file).
+ */
+export const deleteFile = mutation({
+  args: {
+    fileId: v.id("files"),
+  },
+  handler: async (ctx, args) => {
+    const { profile, file } = await getOwnedFile(ctx, args.fileId);
+
+    const usage = await findThumbnailUsage(ctx, profile._id, file._id);
+    if (usage) {
+      throw new Error(
+        `File is used as the thumbnail of ${usage} - replace it first`
+      );
+    }
+
+    const captionUsage = await findCaptionUsage(ctx, file._id);
+    if (captionUsage) {
+      throw new Error(
+        `File is used as the ${captionUsage} - remove the caption track first`
+      );
+    }
+
+    await ctx.db.delete(file._id);
+    await ctx.storage.delete(file.storageId);
+
+    return { success: true };
+  },
+});
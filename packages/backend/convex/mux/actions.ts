@@ -3,7 +3,29 @@
 import Mux from "@mux/mux-node";
 import { v } from "convex/values";
 import { api, internal } from "../_generated/api";
+import type { Doc, Id } from "../_generated/dataModel";
 import { action, internalAction } from "../_generated/server";
+import {
+  type MuxStateClient,
+  type ReconcileCounts,
+  reconcileVideos,
+} from "./reconcile";
+import {
+  type MuxInventoryClient,
+  type OrphanSweepReport,
+  SWEEP_PAGE_SIZE,
+  sweepOrphans,
+} from "./sweep";
+import {
+  buildMuxImageUrl,
+  getAnimatedPreviewParams,
+  getThumbnailParams,
+} from "./thumbnails";
+import { CAPTION_FILE_MISSING } from "./tracks";
+import {
+  type GeneratedCaptionLanguage,
+  playbackPolicyValidator,
+} from "./types";
 
 /**
  * Mux Integration - Actions (Node.js Runtime)
@@ -18,6 +40,16 @@ import { action, internalAction } from "../_generated/server";
 // HELPER FUNCTIONS
 // ============================================================================
 
+/** Lifetime of signed playback tokens - clients request new ones before expiry. */
+const PLAYBACK_TOKEN_TTL_MINUTES = 60;
+
+type VideoPreview = {
+  videoId: Id<"videos">;
+  thumbnailUrl: string;
+  animatedPreviewUrl: string;
+  expiresAt: number | null;
+};
+
 /**
  * Create authenticated Mux client
  */
@@ -37,6 +69,136 @@ function createMuxClient() {
   });
 }
 
+/**
+ * Signing key for playback and image tokens, from Mux Dashboard →
+ * Settings → Signing Keys
+ */
+function getSigningKey() {
+  const keyId = process.env.MUX_SIGNING_KEY_ID;
+  const keySecret = process.env.MUX_SIGNING_PRIVATE_KEY;
+  if (!(keyId && keySecret)) {
+    throw new Error(
+      "Mux signing key not configured. Set MUX_SIGNING_KEY_ID and MUX_SIGNING_PRIVATE_KEY environment variables."
+    );
+  }
+
+  return { keyId, keySecret };
+}
+
+/**
+ * Cancel a direct upload whose row couldn't be written, so it doesn't
+ * wait in Mux for a file nobody will use. Failures are only logged.
+ */
+async function cancelUnusedUpload(mux: Mux, uploadId: string) {
+  try {
+    await mux.video.uploads.cancel(uploadId);
+  } catch (error) {
+    console.error("Failed to cancel Mux upload:", error);
+  }
+}
+
+/**
+ * Delete an asset whose row couldn't be written, so it doesn't sit in Mux
+ * unused. Failures are only logged - the orphan sweep catches it later.
+ */
+async function deleteUnusedAsset(mux: Mux, assetId: string) {
+  try {
+    await mux.video.assets.delete(assetId);
+  } catch (error) {
+    console.error("Failed to delete Mux asset:", error);
+  }
+}
+
+/**
+ * Mux state client for reconciliation - resolves null for unknown
+ * uploads and assets (404)
+ */
+function createMuxStateClient(mux: Mux): MuxStateClient {
+  const nullIfNotFound = (error: unknown) => {
+    if (error instanceof Mux.NotFoundError) {
+      return null;
+    }
+    throw error;
+  };
+
+  return {
+    getUpload: (uploadId) =>
+      mux.video.uploads.retrieve(uploadId).catch(nullIfNotFound),
+    getAsset: (assetId) =>
+      mux.video.assets.retrieve(assetId).catch(nullIfNotFound),
+  };
+}
+
+/**
+ * Create a text track on the asset: attach the uploaded file, or generate
+ * captions from the asset's audio track.
+ *
+ * @returns The Mux track ID
+ */
+async function createTextTrack(
+  mux: Mux,
+  request: {
+    track: Doc<"videoTracks">;
+    assetId: string;
+    fileUrl: string | null;
+  }
+) {
+  const { track, assetId, fileUrl } = request;
+
+  if (track.source === "uploaded") {
+    if (!fileUrl) {
+      throw new Error(CAPTION_FILE_MISSING);
+    }
+    const created = await mux.video.assets.createTrack(assetId, {
+      url: fileUrl,
+      type: "text",
+      text_type: "subtitles",
+      language_code: track.languageCode,
+      name: track.name,
+      closed_captions: track.closedCaptions,
+    });
+    return created.id;
+  }
+
+  const asset = await mux.video.assets.retrieve(assetId);
+  const audioTrack = asset.tracks?.find((t) => t.type === "audio");
+  if (!audioTrack?.id) {
+    throw new Error("Video has no audio to generate captions from");
+  }
+
+  const generated = await mux.video.assets.generateSubtitles(
+    assetId,
+    audioTrack.id,
+    {
+      generated_subtitles: [
+        {
+          language_code: track.languageCode as GeneratedCaptionLanguage,
+          name: track.name,
+        },
+      ],
+    }
+  );
+  return generated.find((t) => t.language_code === track.languageCode)?.id;
+}
+
+/**
+ * Mux listing and cleanup client for the orphan sweep
+ */
+function createMuxInventoryClient(mux: Mux): MuxInventoryClient {
+  return {
+    listAssets: async (page) =>
+      (await mux.video.assets.list({ page, limit: SWEEP_PAGE_SIZE })).data,
+    listUploads: async (page) =>
+      (await mux.video.uploads.list({ page, limit: SWEEP_PAGE_SIZE })).data,
+    deleteAsset: async (assetId) => {
+      await mux.video.assets.delete(assetId);
+    },
+    cancelUpload: async (uploadId) => {
+      await mux.video.uploads.cancel(uploadId);
+    },
+  };
+}
+
 // ============================================================================
 // INTERNAL ACTIONS
 // ============================================================================
@@ -74,6 +236,7 @@ export const verifyMuxWebhook = internalAction({
       return {
         success: true,
         event: {
+          id: event.id,
           type: event.type,
           data: event.data,
         },
@@ -112,10 +275,12 @@ export const verifyMuxWebhook = internalAction({
  * Create Direct Upload
  *
  * Generates a Mux upload URL for direct browser uploads.
+ * Checks the uploader's quota first (see mux/usage.ts).
  *
  * @param title - Video title
  * @param description - Optional video description
  * @param corsOrigin - CORS origin for upload (defaults to wildcard)
+ * @param playbackPolicy - "signed" (default) or "public"
  * @returns Upload URL, video ID, and upload ID
  */
 export const createDirectUpload = action({
@@ -123,6 +288,7 @@ export const createDirectUpload = action({
     title: v.string(),
     description: v.optional(v.string()),
     corsOrigin: v.optional(v.string()),
+    playbackPolicy: v.optional(playbackPolicyValidator),
   },
   handler: async (
     ctx,
@@ -142,27 +308,38 @@ export const createDirectUpload = action({
       throw new Error("Profile not found - complete onboarding first");
     }
 
+    // Fail before creating a Mux upload; insertVideo checks again
+    await ctx.runQuery(internal.mux.usage.checkUploadQuota, {
+      profileId: profile._id,
+    });
+
     const mux = createMuxClient();
+    const playbackPolicy = args.playbackPolicy ?? "signed";
 
     try {
       const upload = await mux.video.uploads.create({
         new_asset_settings: {
-          playback_policy: ["public"],
+          playback_policy: [playbackPolicy],
           video_quality: "plus",
         },
         cors_origin: args.corsOrigin || "*",
       });
 
-      const videoId: any = await ctx.runMutation(
-        internal.mux.mutations.insertVideo,
-        {
+      const videoId: any = await ctx
+        .runMutation(internal.mux.mutations.insertVideo, {
           uploadedBy: profile._id,
           muxUploadId: upload.id,
           title: args.title,
           description: args.description,
           status: "waiting_for_upload",
-        }
-      );
+          playbackPolicy,
+          enforceQuota: true,
+        })
+        .catch(async (error: unknown) => {
+          // e.g. a concurrent upload used up the quota
+          await cancelUnusedUpload(mux, upload.id);
+          throw error;
+        });
 
       return {
         uploadUrl: upload.url,
@@ -178,6 +355,297 @@ export const createDirectUpload = action({
   },
 });
 
+/**
+ * Create Replacement Upload
+ *
+ * Generates a Mux upload URL for a new source of an existing video. The
+ * current asset keeps serving until the new one is ready (see
+ * mux/replace.ts).
+ *
+ * @param videoId - Ready video owned by the current user
+ * @param corsOrigin - CORS origin for upload (defaults to wildcard)
+ * @returns Upload URL and upload ID
+ */
+export const createReplacementUpload = action({
+  args: {
+    videoId: v.id("videos"),
+    corsOrigin: v.optional(v.string()),
+  },
+  handler: async (
+    ctx,
+    args
+  ): Promise<{ uploadUrl: string; muxUploadId: string }> => {
+    const result = await ctx.runQuery(api.profiles.getCurrentUser, {
+      needImageUrl: false,
+    });
+
+    if (!result) {
+      throw new Error("Authentication required");
+    }
+
+    const { profile } = result;
+
+    if (!profile) {
+      throw new Error("Profile not found - complete onboarding first");
+    }
+
+    // Fail before creating a Mux upload; startReplacement checks again
+    const { playbackPolicy } = await ctx.runQuery(
+      internal.mux.replace.checkReplaceable,
+      { videoId: args.videoId, profileId: profile._id }
+    );
+
+    const mux = createMuxClient();
+
+    try {
+      const upload = await mux.video.uploads.create({
+        new_asset_settings: {
+          playback_policy: [playbackPolicy],
+          video_quality: "plus",
+        },
+        cors_origin: args.corsOrigin || "*",
+      });
+
+      await ctx
+        .runMutation(internal.mux.replace.startReplacement, {
+          videoId: args.videoId,
+          profileId: profile._id,
+          muxUploadId: upload.id,
+        })
+        .catch(async (error: unknown) => {
+          // e.g. another replacement started meanwhile
+          await cancelUnusedUpload(mux, upload.id);
+          throw error;
+        });
+
+      return {
+        uploadUrl: upload.url,
+        muxUploadId: upload.id,
+      };
+    } catch (error) {
+      console.error("Failed to create Mux replacement upload:", error);
+      throw new Error(
+        `Failed to create upload: ${error instanceof Error ? error.message : "Unknown error"}`
+      );
+    }
+  },
+});
+
+/**
+ * Create Clip
+ *
+ * Cuts a new video from a range of one of the current user's ready videos
+ * (e.g. a trailer from the first 30 seconds of a workout) using Mux asset
+ * clipping. The clip gets the source's playback policy, counts against the
+ * upload quota and is processed like an upload (see mux/clips.ts).
+ *
+ * @param videoId - Ready source video owned by the current user
+ * @param startTime - Start of the range in seconds
+ * @param endTime - End of the range in seconds
+ * @param title - Clip title (defaults to "<source title> (Clip)")
+ * @returns Video ID and Mux asset ID of the clip
+ */
+export const createClip = action({
+  args: {
+    videoId: v.id("videos"),
+    startTime: v.number(),
+    endTime: v.number(),
+    title: v.optional(v.string()),
+  },
+  handler: async (
+    ctx,
+    args
+  ): Promise<{ videoId: Id<"videos">; muxAssetId: string }> => {
+    const result = await ctx.runQuery(api.profiles.getCurrentUser, {
+      needImageUrl: false,
+    });
+
+    if (!result) {
+      throw new Error("Authentication required");
+    }
+
+    const { profile } = result;
+
+    if (!profile) {
+      throw new Error("Profile not found - complete onboarding first");
+    }
+
+    // Fail before creating a Mux asset; insertClip checks again
+    const source = await ctx.runQuery(internal.mux.clips.checkClippable, {
+      videoId: args.videoId,
+      profileId: profile._id,
+      startTime: args.startTime,
+      endTime: args.endTime,
+    });
+
+    const mux = createMuxClient();
+
+    try {
+      const asset = await mux.video.assets.create({
+        inputs: [
+          {
+            url: `mux://assets/${source.muxAssetId}`,
+            start_time: source.startTime,
+            end_time: source.endTime,
+          },
+        ],
+        playback_policy: [source.playbackPolicy],
+        video_quality: "plus",
+      });
+
+      const videoId: Id<"videos"> = await ctx
+        .runMutation(internal.mux.clips.insertClip, {
+          sourceVideoId: args.videoId,
+          profileId: profile._id,
+          muxAssetId: asset.id,
+          startTime: source.startTime,
+          endTime: source.endTime,
+          title: args.title,
+        })
+        .catch(async (error: unknown) => {
+          // e.g. the source was deleted meanwhile
+          await deleteUnusedAsset(mux, asset.id);
+          throw error;
+        });
+
+      return { videoId, muxAssetId: asset.id };
+    } catch (error) {
+      console.error("Failed to create Mux clip:", error);
+      throw new Error(
+        `Failed to create clip: ${error instanceof Error ? error.message : "Unknown error"}`
+      );
+    }
+  },
+});
+
+/**
+ * Get Playback Tokens
+ *
+ * Mints short-lived Mux JWTs (playback, thumbnail, storyboard) for a signed
+ * video after checking the viewer may watch it (see getPlaybackGrant).
+ * Public videos need no tokens: `tokens` is null.
+ *
+ * Requires MUX_SIGNING_KEY_ID and MUX_SIGNING_PRIVATE_KEY (base64-encoded
+ * private key) from Mux Dashboard → Settings → Signing Keys.
+ *
+ * @returns Playback ID, tokens and their expiry (ms timestamp)
+ */
+export const getPlaybackTokens = action({
+  args: {
+    videoId: v.id("videos"),
+  },
+  handler: async (
+    ctx,
+    args
+  ): Promise<{
+    playbackId: string;
+    tokens: { playback: string; thumbnail: string; storyboard: string } | null;
+    expiresAt: number | null;
+  }> => {
+    const grant = await ctx.runQuery(internal.mux.queries.getPlaybackGrant, {
+      videoId: args.videoId,
+    });
+
+    if (grant.playbackPolicy === "public") {
+      return { playbackId: grant.playbackId, tokens: null, expiresAt: null };
+    }
+
+    const mux = createMuxClient();
+    const expiresAt = Date.now() + PLAYBACK_TOKEN_TTL_MINUTES * 60 * 1000;
+
+    // The poster is the chosen thumbnail frame - signed URLs carry it in the token
+    const tokens = await mux.jwt.signPlaybackId(grant.playbackId, {
+      ...getSigningKey(),
+      type: ["video", ["thumbnail", getThumbnailParams(grant)], "storyboard"],
+      expiration: `${PLAYBACK_TOKEN_TTL_MINUTES}m`,
+    });
+
+    const playback = tokens["playback-token"];
+    const thumbnail = tokens["thumbnail-token"];
+    const storyboard = tokens["storyboard-token"];
+    if (!(playback && thumbnail && storyboard)) {
+      throw new Error("Failed to sign playback tokens");
+    }
+
+    return {
+      playbackId: grant.playbackId,
+      tokens: { playback, thumbnail, storyboard },
+      expiresAt,
+    };
+  },
+});
+
+/**
+ * Get Video Previews
+ *
+ * Thumbnail and animated hover preview (WebP) URLs for a batch of ready
+ * videos the viewer may watch (see getPreviewGrants):
+ * - thumbnailUrl: the custom image if one was uploaded, else the frame at
+ *   thumbnailTime (Mux picks the middle frame without one)
+ * - animatedPreviewUrl: a few seconds starting at thumbnailTime
+ *
+ * URLs of signed videos carry short-lived tokens (see expiresAt) with the
+ * image options inside.
+ *
+ * @returns One entry per previewable video
+ */
+export const getVideoPreviews = action({
+  args: {
+    videoIds: v.array(v.id("videos")),
+  },
+  handler: async (ctx, args): Promise<VideoPreview[]> => {
+    const grants = await ctx.runQuery(internal.mux.queries.getPreviewGrants, {
+      videoIds: args.videoIds,
+    });
+
+    const hasSigned = grants.some((grant) => grant.playbackPolicy === "signed");
+    const mux = hasSigned ? createMuxClient() : null;
+    const signingKey = hasSigned ? getSigningKey() : null;
+    const expiresAt = hasSigned
+      ? Date.now() + PLAYBACK_TOKEN_TTL_MINUTES * 60 * 1000
+      : null;
+
+    const previews: VideoPreview[] = [];
+    for (const grant of grants) {
+      const thumbnailParams = getThumbnailParams(grant);
+      const animatedParams = getAnimatedPreviewParams(grant);
+
+      const tokens =
+        mux && grant.playbackPolicy === "signed"
+          ? await mux.jwt.signPlaybackId(grant.playbackId, {
+              ...signingKey,
+              type: [
+                ["thumbnail", thumbnailParams],
+                ["gif", animatedParams],
+              ],
+              expiration: `${PLAYBACK_TOKEN_TTL_MINUTES}m`,
+            })
+          : null;
+
+      previews.push({
+        videoId: grant.videoId,
+        thumbnailUrl:
+          grant.imageUrl ??
+          buildMuxImageUrl(
+            grant.playbackId,
+            "thumbnail.jpg",
+            thumbnailParams,
+            tokens?.["thumbnail-token"]
+          ),
+        animatedPreviewUrl: buildMuxImageUrl(
+          grant.playbackId,
+          "animated.webp",
+          animatedParams,
+          tokens?.["gif-token"]
+        ),
+        expiresAt: tokens ? expiresAt : null,
+      });
+    }
+
+    return previews;
+  },
+});
+
 // ============================================================================
 // INTERNAL ACTIONS
 // ============================================================================
@@ -204,3 +672,136 @@ export const deleteMuxAsset = internalAction({
     }
   },
 });
+
+/**
+ * Reconcile Stuck Videos (Internal Action)
+ *
+ * Applies Mux's real upload/asset state to videos whose webhooks were
+ * lost (see mux/reconcile.ts). Runs on a cron (crons.ts).
+ */
+export const reconcileStuckVideos = internalAction({
+  args: {},
+  handler: async (ctx): Promise<ReconcileCounts> => {
+    const mux = createMuxClient();
+    return await reconcileVideos(ctx, createMuxStateClient(mux));
+  },
+});
+
+/**
+ * Sweep Orphaned Mux Media (Internal Action)
+ *
+ * Deletes Mux assets and cancels waiting uploads that no video references
+ * (see mux/sweep.ts). Dry run by default - review the report, then run
+ * again with dryRun: false:
+ * npx convex run mux/actions:sweepOrphanedMuxMedia '{"dryRun": false}'
+ */
+export const sweepOrphanedMuxMedia = internalAction({
+  args: {
+    dryRun: v.optional(v.boolean()),
+    gracePeriodHours: v.optional(v.number()),
+  },
+  handler: async (ctx, args): Promise<OrphanSweepReport> => {
+    const mux = createMuxClient();
+    return await sweepOrphans(ctx, createMuxInventoryClient(mux), args);
+  },
+});
+
+/**
+ * Cancel Mux Uploads (Internal Action)
+ *
+ * Cancels direct uploads whose video rows were deleted by
+ * cleanupAbandonedUploads, so a late upload can't create an asset nobody
+ * references. Uploads that already finished or timed out can't be
+ * cancelled - those failures are logged and skipped.
+ */
+export const cancelMuxUploads = internalAction({
+  args: {
+    uploadIds: v.array(v.string()),
+  },
+  handler: async (_ctx, args) => {
+    const mux = createMuxClient();
+
+    let cancelledCount = 0;
+    for (const uploadId of args.uploadIds) {
+      try {
+        await mux.video.uploads.cancel(uploadId);
+        cancelledCount += 1;
+      } catch (error) {
+        console.error("Failed to cancel Mux upload:", uploadId, error);
+      }
+    }
+
+    console.log(
+      `Cancelled ${cancelledCount} of ${args.uploadIds.length} Mux uploads`
+    );
+    return { cancelledCount };
+  },
+});
+
+/**
+ * Create Mux Track (Internal Action)
+ *
+ * Creates the Mux text track for a "preparing" videoTracks row (see
+ * mux/tracks.ts) and links its Mux ID. Failures mark the row errored;
+ * a track deleted meanwhile is removed from Mux again.
+ */
+export const createMuxTrack = internalAction({
+  args: {
+    trackId: v.id("videoTracks"),
+  },
+  handler: async (ctx, args) => {
+    try {
+      const request = await ctx.runQuery(internal.mux.tracks.getTrackRequest, {
+        trackId: args.trackId,
+      });
+      if (!request) {
+        return;
+      }
+
+      const mux = createMuxClient();
+      const muxTrackId = await createTextTrack(mux, request);
+      if (!muxTrackId) {
+        throw new Error("Mux didn't return a track");
+      }
+
+      const linked = await ctx.runMutation(internal.mux.tracks.linkMuxTrack, {
+        trackId: args.trackId,
+        muxTrackId,
+      });
+      if (!linked) {
+        await mux.video.assets.deleteTrack(request.assetId, muxTrackId);
+      }
+    } catch (error) {
+      console.error("Failed to create Mux track:", args.trackId, error);
+      await ctx.runMutation(internal.mux.tracks.markTrackErrored, {
+        trackId: args.trackId,
+        errorMessage:
+          error instanceof Error ? error.message : "Failed to create track",
+      });
+    }
+  },
+});
+
+/**
+ * Delete Mux Track (Internal Action)
+ *
+ * Removes a text track from its Mux asset.
+ * Called by deleteCaptionTrack after the track row is deleted.
+ */
+export const deleteMuxTrack = internalAction({
+  args: {
+    assetId: v.string(),
+    muxTrackId: v.string(),
+  },
+  handler: async (_ctx, args) => {
+    const mux = createMuxClient();
+
+    try {
+      await mux.video.assets.deleteTrack(args.assetId, args.muxTrackId);
+      console.log("Successfully deleted Mux track:", args.muxTrackId);
+    } catch (error) {
+      // Log error but don't throw - track record already deleted
+      console.error("Failed to delete Mux track:", args.muxTrackId, error);
+    }
+  },
+});
@@ -0,0 +1,379 @@
+import { v } from "convex/values";
+import type { Doc, Id } from "../_generated/dataModel";
+import type { MutationCtx } from "../_generated/server";
+import { mutation, query } from "../_generated/server";
+import { getCurrentUserProfile } from "../profiles";
+import { assertUsableExercise } from "../workoutExercises";
+import { canWatchVideo, getViewerProfile } from "./queries";
+
+/**
+ * Mux Integration - Chapters (V8 Isolate Runtime)
+ *
+ * Chapter markers of a video (videoChapters table). Owners add, edit and
+ * delete them; VideoPlayer passes them to the Mux player as chapters and
+ * lists them beside the video.
+ *
+ * A chapter can link to an exercise (the owner's or a public one), so
+ * viewers can jump from a workout video to the exercise's demonstration
+ * video.
+ */
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const MAX_CHAPTERS_PER_VIDEO = 100;
+const MAX_CHAPTER_TITLE_LENGTH = 100;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+type ChapterWithExercise = Doc<"videoChapters"> & {
+  exercise: {
+    _id: Id<"exercises">;
+    name: string;
+    demoVideoId: Id<"videos"> | null;
+  } | null;
+};
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Get Chapterable Video (Helper)
+ *
+ * Loads a video owned by the current user whose duration is known.
+ *
+ * @throws Error if the video doesn't exist, isn't owned or isn't ready
+ * @returns Object containing the owner's profile and the video
+ */
+async function getChapterableVideo(ctx: MutationCtx, videoId: Id<"videos">) {
+  const { profile } = await getCurrentUserProfile(ctx);
+
+  const video = await ctx.db.get(videoId);
+  if (!video) {
+    throw new Error("Video not found");
+  }
+
+  if (video.uploadedBy !== profile._id) {
+    throw new Error("Unauthorized - you don't own this video");
+  }
+
+  if (video.status !== "ready") {
+    throw new Error("Chapters can be added once the video is ready");
+  }
+
+  return { profile, video };
+}
+
+/**
+ * Validate Chapter (Helper)
+ *
+ * @param chapterId - The chapter being edited, ignored by the duplicate check
+ * @throws Error if the start time is outside the video or already used by
+ * another chapter, or the title is invalid
+ * @returns The start time rounded to 0.1s and the trimmed title
+ */
+async function validateChapter(
+  ctx: MutationCtx,
+  video: Doc<"videos">,
+  args: { startTime: number; title: string },
+  chapterId?: Id<"videoChapters">
+) {
+  const duration = video.duration ?? Number.POSITIVE_INFINITY;
+  if (
+    !Number.isFinite(args.startTime) ||
+    args.startTime < 0 ||
+    args.startTime >= duration
+  ) {
+    throw new Error("Chapter start must be within the video");
+  }
+  const startTime = Math.round(args.startTime * 10) / 10;
+
+  const title = args.title.trim();
+  if (!title || title.length > MAX_CHAPTER_TITLE_LENGTH) {
+    throw new Error(
+      `Chapter title must be between 1 and ${MAX_CHAPTER_TITLE_LENGTH} characters`
+    );
+  }
+
+  const existing = await ctx.db
+    .query("videoChapters")
+    .withIndex("by_videoId_startTime", (q) =>
+      q.eq("videoId", video._id).eq("startTime", startTime)
+    )
+    .first();
+  if (existing && existing._id !== chapterId) {
+    throw new Error(`Another chapter already starts at ${startTime}s`);
+  }
+
+  return { startTime, title };
+}
+
+/**
+ * Get Owned Chapter (Helper)
+ *
+ * @throws Error if the chapter doesn't exist or its video isn't owned by
+ * the current user
+ */
+async function getOwnedChapter(
+  ctx: MutationCtx,
+  chapterId: Id<"videoChapters">
+) {
+  const chapter = await ctx.db.get(chapterId);
+  if (!chapter) {
+    throw new Error("Chapter not found");
+  }
+
+  const { profile } = await getCurrentUserProfile(ctx);
+
+  const video = await ctx.db.get(chapter.videoId);
+  if (!video || video.uploadedBy !== profile._id) {
+    throw new Error("Unauthorized - you don't own this video");
+  }
+
+  return { profile, video, chapter };
+}
+
+/**
+ * Delete Video Chapters (Helper)
+ *
+ * Deletes all chapters of a video, e.g. when the video is deleted.
+ */
+export async function deleteVideoChapters(
+  ctx: MutationCtx,
+  videoId: Id<"videos">
+) {
+  const chapters = await ctx.db
+    .query("videoChapters")
+    .withIndex("by_videoId_startTime", (q) => q.eq("videoId", videoId))
+    .collect();
+
+  for (const chapter of chapters) {
+    await ctx.db.delete(chapter._id);
+  }
+}
+
+/**
+ * Delete Chapters From (Helper)
+ *
+ * Deletes the chapters of a video starting at or after a time, e.g. past
+ * the end of a shorter replacement source.
+ */
+export async function deleteChaptersFrom(
+  ctx: MutationCtx,
+  videoId: Id<"videos">,
+  startTime: number
+) {
+  const chapters = await ctx.db
+    .query("videoChapters")
+    .withIndex("by_videoId_startTime", (q) =>
+      q.eq("videoId", videoId).gte("startTime", startTime)
+    )
+    .collect();
+
+  for (const chapter of chapters) {
+    await ctx.db.delete(chapter._id);
+  }
+}
+
+/**
+ * Unlink Exercise Chapters (Helper)
+ *
+ * Removes a deleted exercise from the chapters linking to it. The
+ * chapters themselves stay.
+ */
+export async function unlinkExerciseChapters(
+  ctx: MutationCtx,
+  exerciseId: Id<"exercises">
+) {
+  const chapters = await ctx.db
+    .query("videoChapters")
+    .withIndex("by_exerciseId", (q) => q.eq("exerciseId", exerciseId))
+    .collect();
+
+  const now = Date.now();
+  for (const chapter of chapters) {
+    await ctx.db.patch(chapter._id, { exerciseId: undefined, updatedAt: now });
+  }
+}
+
+// ============================================================================
+// QUERIES
+// ============================================================================
+
+/**
+ * List Video Chapters
+ *
+ * Chapters of a video ordered by start time. Linked exercises come with
+ * their demonstration video - demoVideoId is only set when that video is
+ * ready and the viewer may watch it.
+ *
+ * @throws Error if the video doesn't exist or the viewer has no access
+ */
+export const listVideoChapters = query({
+  args: {
+    videoId: v.id("videos"),
+  },
+  handler: async (ctx, args) => {
+    const video = await ctx.db.get(args.videoId);
+    if (!video) {
+      throw new Error("Video not found");
+    }
+
+    const viewer = await getViewerProfile(ctx);
+
+    if (!(await canWatchVideo(ctx, video, viewer))) {
+      throw new Error("Unauthorized - you don't have access to this video");
+    }
+
+    const chapters = await ctx.db
+      .query("videoChapters")
+      .withIndex("by_videoId_startTime", (q) => q.eq("videoId", args.videoId))
+      .collect();
+
+    const results: ChapterWithExercise[] = [];
+    for (const chapter of chapters) {
+      const exercise = chapter.exerciseId
+        ? await ctx.db.get(chapter.exerciseId)
+        : null;
+      const demoVideo = exercise?.videoId
+        ? await ctx.db.get(exercise.videoId)
+        : null;
+      const canWatchDemo =
+        demoVideo?.status === "ready" &&
+        (await canWatchVideo(ctx, demoVideo, viewer));
+
+      results.push({
+        ...chapter,
+        exercise: exercise
+          ? {
+              _id: exercise._id,
+              name: exercise.name,
+              demoVideoId: canWatchDemo ? demoVideo._id : null,
+            }
+          : null,
+      });
+    }
+
+    return results;
+  },
+});
+
+// ============================================================================
+// MUTATIONS
+// ============================================================================
+
+/**
+ * Add Chapter
+ *
+ * Adds a chapter marker to a ready video.
+ *
+ * @param startTime - Seconds from the start of the video
+ * @param exerciseId - Exercise performed in this part (own or public)
+ * @returns The new chapter ID
+ */
+export const addChapter = mutation({
+  args: {
+    videoId: v.id("videos"),
+    startTime: v.number(),
+    title: v.string(),
+    exerciseId: v.optional(v.id("exercises")),
+  },
+  handler: async (ctx, args) => {
+    const { profile, video } = await getChapterableVideo(ctx, args.videoId);
+
+    const chapterCount = (
+      await ctx.db
+        .query("videoChapters")
+        .withIndex("by_videoId_startTime", (q) => q.eq("videoId", video._id))
+        .collect()
+    ).length;
+    if (chapterCount >= MAX_CHAPTERS_PER_VIDEO) {
+      throw new Error(
+        `A video can have at most ${MAX_CHAPTERS_PER_VIDEO} chapters`
+      );
+    }
+
+    const { startTime, title } = await validateChapter(ctx, video, args);
+
+    if (args.exerciseId) {
+      await assertUsableExercise(ctx, profile._id, args.exerciseId);
+    }
+
+    const now = Date.now();
+    return await ctx.db.insert("videoChapters", {
+      videoId: video._id,
+      startTime,
+      title,
+      exerciseId: args.exerciseId,
+      createdAt: now,
+      updatedAt: now,
+    });
+  },
+});
+
+/**
+ * Update Chapter
+ *
+ * Moves, renames or relinks a chapter. Pass `exerciseId: null` to remove
+ * the exercise link.
+ */
+export const updateChapter = mutation({
+  args: {
+    chapterId: v.id("videoChapters"),
+    startTime: v.optional(v.number()),
+    title: v.optional(v.string()),
+    exerciseId: v.optional(v.union(v.id("exercises"), v.null())),
+  },
+  handler: async (ctx, args) => {
+    const { profile, video, chapter } = await getOwnedChapter(
+      ctx,
+      args.chapterId
+    );
+
+    const { startTime, title } = await validateChapter(
+      ctx,
+      video,
+      {
+        startTime: args.startTime ?? chapter.startTime,
+        title: args.title ?? chapter.title,
+      },
+      chapter._id
+    );
+
+    if (args.exerciseId) {
+      await assertUsableExercise(ctx, profile._id, args.exerciseId);
+    }
+
+    // null removes the exercise link, undefined keeps it
+    await ctx.db.patch(chapter._id, {
+      startTime,
+      title,
+      ...(args.exerciseId !== undefined && {
+        exerciseId: args.exerciseId ?? undefined,
+      }),
+      updatedAt: Date.now(),
+    });
+
+    return { success: true };
+  },
+});
+
+/**
+ * Delete Chapter
+ */
+export const deleteChapter = mutation({
+  args: {
+    chapterId: v.id("videoChapters"),
+  },
+  handler: async (ctx, args) => {
+    const { chapter } = await getOwnedChapter(ctx, args.chapterId);
+
+    await ctx.db.delete(chapter._id);
+
+    return { success: true };
+  },
+});
@@ -0,0 +1,255 @@
+import { v } from "convex/values";
+import type { Doc, Id } from "../_generated/dataModel";
+import type { MutationCtx, QueryCtx } from "../_generated/server";
+import { internalMutation, internalQuery, query } from "../_generated/server";
+import { getCurrentUserProfile } from "../profiles";
+import { replayParkedEvents } from "./events";
+import { assertUploadQuota, recordVideoUsage } from "./usage";
+
+/**
+ * Mux Integration - Preview Clips (V8 Isolate Runtime)
+ *
+ * Clips are new videos cut from a range of an existing ready video, e.g.
+ * a program trailer from the first 30 seconds of a workout:
+ * 1. createClip (mux/actions.ts) asks Mux to create an asset from
+ *    mux://assets/{id} with start_time/end_time
+ * 2. insertClip records it as a "processing" video whose clip field points
+ *    at the source
+ * 3. The regular webhook handlers (mux/webhooks.ts) find it by asset ID
+ *    and mark it ready
+ *
+ * A clip is a video of its own: it counts against the upload quota, has
+ * its own thumbnails, captions and chapters, and outlives its source.
+ */
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const MIN_CLIP_SECONDS = 1;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Assert Clippable (Helper)
+ *
+ * @throws Error if the video doesn't exist, isn't owned by the profile or
+ * has no ready asset to clip from
+ */
+function assertClippable(
+  video: Doc<"videos"> | null,
+  profileId: Id<"userProfiles">
+): asserts video is Doc<"videos"> {
+  if (!video) {
+    throw new Error("Video not found");
+  }
+
+  if (video.uploadedBy !== profileId) {
+    throw new Error("Unauthorized - you don't own this video");
+  }
+
+  if (video.status !== "ready" || !video.muxAssetId) {
+    throw new Error("Only ready videos can be clipped");
+  }
+}
+
+/**
+ * Validate Clip Range (Helper)
+ *
+ * @throws Error if the range isn't within the video or is too short
+ * @returns Start and end rounded to tenths of a second
+ */
+function validateClipRange(
+  video: Doc<"videos">,
+  args: { startTime: number; endTime: number }
+) {
+  const startTime = Math.round(args.startTime * 10) / 10;
+  const endTime = Math.round(args.endTime * 10) / 10;
+  const duration = video.duration ?? Number.POSITIVE_INFINITY;
+
+  if (
+    !(Number.isFinite(startTime) && Number.isFinite(endTime)) ||
+    startTime < 0 ||
+    endTime > duration
+  ) {
+    throw new Error("Clip must be within the video");
+  }
+
+  if (endTime - startTime < MIN_CLIP_SECONDS) {
+    throw new Error(`Clip must be at least ${MIN_CLIP_SECONDS} second long`);
+  }
+
+  return { startTime, endTime };
+}
+
+/**
+ * Check Clip (Helper)
+ *
+ * Runs every check for cutting a clip - ownership, range and the owner's
+ * upload quota.
+ *
+ * @throws Error if the profile can't create the clip
+ */
+async function checkClip(
+  ctx: QueryCtx | MutationCtx,
+  args: {
+    videoId: Id<"videos">;
+    profileId: Id<"userProfiles">;
+    startTime: number;
+    endTime: number;
+  }
+) {
+  const video = await ctx.db.get(args.videoId);
+  assertClippable(video, args.profileId);
+  const range = validateClipRange(video, args);
+
+  const profile = await ctx.db.get(args.profileId);
+  if (!profile) {
+    throw new Error("Profile not found");
+  }
+  await assertUploadQuota(ctx, profile);
+
+  return { video, ...range };
+}
+
+/**
+ * Unlink Video Clips (Helper)
+ *
+ * Clears the source of a video's clips, e.g. when the video is deleted.
+ * The clips keep playing from their own assets.
+ */
+export async function unlinkVideoClips(
+  ctx: MutationCtx,
+  videoId: Id<"videos">
+) {
+  const clips = await ctx.db
+    .query("videos")
+    .withIndex("by_clipSourceVideoId", (q) =>
+      q.eq("clip.sourceVideoId", videoId)
+    )
+    .collect();
+
+  for (const clip of clips) {
+    await ctx.db.patch(clip._id, { clip: undefined, updatedAt: Date.now() });
+  }
+}
+
+// ============================================================================
+// QUERIES
+// ============================================================================
+
+/**
+ * List Video Clips
+ *
+ * Clips cut from one of the current user's videos, newest first.
+ *
+ * @throws Error if the video doesn't exist or isn't owned by the user
+ */
+export const listVideoClips = query({
+  args: {
+    videoId: v.id("videos"),
+  },
+  handler: async (ctx, args) => {
+    const { profile } = await getCurrentUserProfile(ctx);
+
+    const video = await ctx.db.get(args.videoId);
+    if (!video) {
+      throw new Error("Video not found");
+    }
+
+    if (video.uploadedBy !== profile._id) {
+      throw new Error("Unauthorized - you don't own this video");
+    }
+
+    return await ctx.db
+      .query("videos")
+      .withIndex("by_clipSourceVideoId", (q) =>
+        q.eq("clip.sourceVideoId", video._id)
+      )
+      .order("desc")
+      .collect();
+  },
+});
+
+// ============================================================================
+// INTERNAL QUERIES
+// ============================================================================
+
+/**
+ * Check Clippable (Internal)
+ *
+ * Lets createClip fail before it creates a Mux asset.
+ *
+ * @throws Error if the profile can't cut the clip
+ * @returns The source asset, the rounded range and the playback policy
+ * for the clip
+ */
+export const checkClippable = internalQuery({
+  args: {
+    videoId: v.id("videos"),
+    profileId: v.id("userProfiles"),
+    startTime: v.number(),
+    endTime: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const { video, startTime, endTime } = await checkClip(ctx, args);
+
+    return {
+      muxAssetId: video.muxAssetId,
+      playbackPolicy: video.playbackPolicy ?? "public",
+      startTime,
+      endTime,
+    };
+  },
+});
+
+// ============================================================================
+// INTERNAL MUTATIONS
+// ============================================================================
+
+/**
+ * Insert Clip (Internal)
+ *
+ * Records the Mux asset createClip cut from the source video, titled
+ * "<source title> (Clip)" unless a title is given. Events Mux sent for the
+ * asset before the row existed are replayed.
+ *
+ * @throws Error if the profile can't cut the clip (checked again - the
+ * source or quota may have changed since checkClippable)
+ * @returns The clip's video ID
+ */
+export const insertClip = internalMutation({
+  args: {
+    sourceVideoId: v.id("videos"),
+    profileId: v.id("userProfiles"),
+    muxAssetId: v.string(),
+    startTime: v.number(),
+    endTime: v.number(),
+    title: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const { video, startTime, endTime } = await checkClip(ctx, {
+      ...args,
+      videoId: args.sourceVideoId,
+    });
+
+    const now = Date.now();
+    const clipId = await ctx.db.insert("videos", {
+      uploadedBy: args.profileId,
+      muxAssetId: args.muxAssetId,
+      title: args.title?.trim() || `${video.title} (Clip)`,
+      status: "processing",
+      playbackPolicy: video.playbackPolicy,
+      clip: { sourceVideoId: video._id, startTime, endTime },
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    await recordVideoUsage(ctx, null, await ctx.db.get(clipId));
+    await replayParkedEvents(ctx, args.muxAssetId);
+
+    return clipId;
+  },
+});
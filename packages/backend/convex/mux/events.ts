@@ -0,0 +1,343 @@
+import { paginationOptsValidator } from "convex/server";
+import { v } from "convex/values";
+import { internal } from "../_generated/api";
+import type { Doc } from "../_generated/dataModel";
+import type { MutationCtx } from "../_generated/server";
+import {
+  internalAction,
+  internalMutation,
+  internalQuery,
+  query,
+} from "../_generated/server";
+import { requireAdmin } from "../profiles";
+import {
+  type WebhookEventStatus,
+  type WebhookOutcome,
+  webhookEventStatusValidator,
+} from "./types";
+import { applyMuxEvent, getMuxObjectId } from "./webhooks";
+
+/**
+ * Mux Integration - Webhook Event Log (V8 Isolate Runtime)
+ *
+ * Every verified webhook delivery is stored in muxWebhookEvents before it
+ * is applied, which makes processing idempotent and replayable:
+ * - Redeliveries of processed (or ignored) events are skipped
+ * - Events whose video isn't resolvable yet are parked; parked asset events
+ *   are replayed when video.upload.asset_created links their asset
+ * - Events whose handler threw are marked failed with the error
+ *
+ * Admins inspect the log with listWebhookEvents and re-apply parked or
+ * failed events with the replayWebhookEvents internal action.
+ */
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const DEFAULT_REPLAY_LIMIT = 50;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Attempt Event (Helper)
+ *
+ * Applies a stored event and records the outcome on its log row.
+ *
+ * @throws Error if the event handler fails (the caller's transaction
+ * rolls back - record the failure with markWebhookEventFailed)
+ * @returns The new event status
+ */
+async function attemptEvent(
+  ctx: MutationCtx,
+  event: Doc<"muxWebhookEvents">
+): Promise<WebhookOutcome> {
+  const outcome = await applyMuxEvent(ctx, event.type, event.data);
+  const now = Date.now();
+
+  await ctx.db.patch(event._id, {
+    status: outcome,
+    attempts: event.attempts + 1,
+    lastError: undefined,
+    processedAt: outcome === "processed" ? now : event.processedAt,
+    updatedAt: now,
+  });
+
+  return outcome;
+}
+
+/**
+ * Replay Parked Events (Helper)
+ *
+ * Re-applies events parked for a Mux object (asset or upload ID), e.g.
+ * video.asset.ready that arrived before the asset was linked to its video.
+ */
+export async function replayParkedEvents(
+  ctx: MutationCtx,
+  muxObjectId: string
+) {
+  const parked = await ctx.db
+    .query("muxWebhookEvents")
+    .withIndex("by_status_muxObjectId", (q) =>
+      q.eq("status", "parked").eq("muxObjectId", muxObjectId)
+    )
+    .collect();
+
+  for (const event of parked) {
+    const outcome = await attemptEvent(ctx, event);
+    console.log(
+      "Mux webhook: Replayed parked event",
+      event.muxEventId,
+      outcome
+    );
+  }
+}
+
+// ============================================================================
+// QUERIES
+// ============================================================================
+
+/**
+ * List Webhook Events (Admin)
+ *
+ * Paginated event log, newest first, optionally filtered by status.
+ * Includes the raw payload for inspection.
+ */
+export const listWebhookEvents = query({
+  args: {
+    paginationOpts: paginationOptsValidator,
+    status: v.optional(webhookEventStatusValidator),
+  },
+  handler: async (ctx, args) => {
+    await requireAdmin(ctx);
+
+    const { status } = args;
+    if (status) {
+      return await ctx.db
+        .query("muxWebhookEvents")
+        .withIndex("by_status_createdAt", (q) => q.eq("status", status))
+        .order("desc")
+        .paginate(args.paginationOpts);
+    }
+
+    return await ctx.db
+      .query("muxWebhookEvents")
+      .order("desc")
+      .paginate(args.paginationOpts);
+  },
+});
+
+/**
+ * List Replayable Events (Internal)
+ *
+ * A single event by ID, or the oldest events with the given status.
+ *
+ * @throws Error if eventId is given and the event doesn't exist
+ */
+export const listReplayableEvents = internalQuery({
+  args: {
+    eventId: v.optional(v.id("muxWebhookEvents")),
+    status: v.optional(v.union(v.literal("parked"), v.literal("failed"))),
+    limit: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    if (args.eventId) {
+      const event = await ctx.db.get(args.eventId);
+      if (!event) {
+        throw new Error("Webhook event not found");
+      }
+      return [event];
+    }
+
+    const status = args.status ?? "parked";
+    return await ctx.db
+      .query("muxWebhookEvents")
+      .withIndex("by_status_createdAt", (q) => q.eq("status", status))
+      .take(args.limit ?? DEFAULT_REPLAY_LIMIT);
+  },
+});
+
+// ============================================================================
+// INTERNAL MUTATIONS
+// ============================================================================
+
+/**
+ * Ingest Webhook Event (Internal)
+ *
+ * Stores a verified delivery and applies it.
+ * - New event: stored and applied
+ * - Redelivery of a processed or ignored event: skipped
+ * - Redelivery of a parked or failed event: applied again
+ *
+ * @returns The event status and whether it was already stored
+ */
+export const ingestWebhookEvent = internalMutation({
+  args: {
+    muxEventId: v.string(),
+    type: v.string(),
+    data: v.any(),
+  },
+  handler: async (
+    ctx,
+    args
+  ): Promise<{ status: WebhookEventStatus; duplicate: boolean }> => {
+    const existing = await ctx.db
+      .query("muxWebhookEvents")
+      .withIndex("by_muxEventId", (q) => q.eq("muxEventId", args.muxEventId))
+      .first();
+
+    if (existing) {
+      if (existing.status === "processed" || existing.status === "ignored") {
+        return { status: existing.status, duplicate: true };
+      }
+      return { status: await attemptEvent(ctx, existing), duplicate: true };
+    }
+
+    const now = Date.now();
+    const eventId = await ctx.db.insert("muxWebhookEvents", {
+      muxEventId: args.muxEventId,
+      type: args.type,
+      muxObjectId: getMuxObjectId(args.type, args.data),
+      data: args.data,
+      status: "parked",
+      attempts: 0,
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    const event = await ctx.db.get(eventId);
+    if (!event) {
+      throw new Error("Webhook event not found");
+    }
+
+    return { status: await attemptEvent(ctx, event), duplicate: false };
+  },
+});
+
+/**
+ * Retry Webhook Event (Internal)
+ *
+ * Re-applies a stored event regardless of its status.
+ *
+ * @throws Error if the event doesn't exist or its handler fails
+ * @returns The new event status
+ */
+export const retryWebhookEvent = internalMutation({
+  args: {
+    eventId: v.id("muxWebhookEvents"),
+  },
+  handler: async (ctx, args): Promise<WebhookOutcome> => {
+    const event = await ctx.db.get(args.eventId);
+    if (!event) {
+      throw new Error("Webhook event not found");
+    }
+
+    return await attemptEvent(ctx, event);
+  },
+});
+
+/**
+ * Mark Webhook Event Failed (Internal)
+ *
+ * Records a handler failure. Runs after the failed attempt rolled back,
+ * so a new event is stored here for the first time.
+ */
+export const markWebhookEventFailed = internalMutation({
+  args: {
+    muxEventId: v.string(),
+    type: v.string(),
+    data: v.any(),
+    error: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const now = Date.now();
+
+    const existing = await ctx.db
+      .query("muxWebhookEvents")
+      .withIndex("by_muxEventId", (q) => q.eq("muxEventId", args.muxEventId))
+      .first();
+
+    if (existing) {
+      await ctx.db.patch(existing._id, {
+        status: "failed",
+        attempts: existing.attempts + 1,
+        lastError: args.error,
+        updatedAt: now,
+      });
+      return { success: true };
+    }
+
+    await ctx.db.insert("muxWebhookEvents", {
+      muxEventId: args.muxEventId,
+      type: args.type,
+      muxObjectId: getMuxObjectId(args.type, args.data),
+      data: args.data,
+      status: "failed",
+      attempts: 1,
+      lastError: args.error,
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    return { success: true };
+  },
+});
+
+// ============================================================================
+// INTERNAL ACTIONS
+// ============================================================================
+
+/**
+ * Replay Webhook Events (Internal)
+ *
+ * Re-applies one event (eventId) or a batch of the oldest parked (default)
+ * or failed events. Each event runs in its own transaction; failures are
+ * recorded and don't stop the batch.
+ *
+ * Run from the Convex dashboard or CLI:
+ * npx convex run mux/events:replayWebhookEvents '{"status": "failed"}'
+ *
+ * @returns Number of replayed events per resulting status
+ */
+export const replayWebhookEvents = internalAction({
+  args: {
+    eventId: v.optional(v.id("muxWebhookEvents")),
+    status: v.optional(v.union(v.literal("parked"), v.literal("failed"))),
+    limit: v.optional(v.number()),
+  },
+  handler: async (ctx, args): Promise<Record<WebhookEventStatus, number>> => {
+    const events = await ctx.runQuery(
+      internal.mux.events.listReplayableEvents,
+      args
+    );
+
+    const counts: Record<WebhookEventStatus, number> = {
+      processed: 0,
+      parked: 0,
+      ignored: 0,
+      failed: 0,
+    };
+
+    for (const event of events) {
+      try {
+        const status = await ctx.runMutation(
+          internal.mux.events.retryWebhookEvent,
+          { eventId: event._id }
+        );
+        counts[status] += 1;
+      } catch (error) {
+        await ctx.runMutation(internal.mux.events.markWebhookEventFailed, {
+          muxEventId: event.muxEventId,
+          type: event.type,
+          data: event.data,
+          error: error instanceof Error ? error.message : "Unknown error",
+        });
+        counts.failed += 1;
+      }
+    }
+
+    return counts;
+  },
+});
@@ -6,11 +6,19 @@ import { httpAction } from "../_generated/server";
  *
  * Handles video lifecycle events from Mux.
  * Extracts webhook data and delegates signature verification to Node.js action.
+ * Verified events go through the event log (mux/events.ts): duplicates are
+ * skipped and events for videos that can't be resolved yet are parked.
  *
  * Events:
  * - video.upload.asset_created: Upload completed, asset created
+ * - video.upload.cancelled / video.upload.errored: Upload never produced an asset
  * - video.asset.ready: Video encoded and ready for playback
  * - video.asset.errored: Video encoding failed
+ * - video.asset.updated: Asset metadata or playback IDs changed
+ * - video.asset.deleted: Asset deleted from Mux (e.g. in the dashboard)
+ * - video.asset.static_renditions.ready: MP4 downloads ready
+ * - video.asset.track.created / ready / errored / deleted: Text track
+ *   (captions) status changes
  *
  * Security: Signature verification happens in Node.js action (verifyMuxWebhook).
  *
@@ -56,56 +64,31 @@ export const handleMuxWebhook = httpAction(async (ctx, request) => {
       });
     }
 
-    console.log("Mux webhook received:", event.type);
+    console.log("Mux webhook received:", event.type, event.id);
 
-    switch (event.type) {
-      case "video.upload.asset_created": {
-        const data = event.data as any;
+    const eventArgs = {
+      muxEventId: event.id,
+      type: event.type,
+      data: event.data,
+    };
 
-        const uploadId = data.id as string;
-        const assetId = data.asset_id as string;
-
-        await ctx.runMutation(internal.mux.webhooks.handleUploadAssetCreated, {
-          uploadId,
-          assetId,
-        });
-        break;
-      }
-
-      case "video.asset.ready": {
-        const data = event.data as any;
-
-        const assetId = data.id as string;
-        const playbackIds = (data.playback_ids || []) as Array<{
-          id: string;
-          policy: string;
-        }>;
-        const duration = data.duration as number | undefined;
-        const aspectRatio = data.aspect_ratio as string | undefined;
-
-        await ctx.runMutation(internal.mux.webhooks.handleAssetReady, {
-          assetId,
-          playbackIds,
-          duration,
-          aspectRatio,
-        });
-        break;
-      }
-
-      case "video.asset.errored": {
-        const data = event.data as any;
-        const assetId = data.id as string;
-        const errors = data.errors;
-
-        await ctx.runMutation(internal.mux.webhooks.handleAssetErrored, {
-          assetId,
-          errors,
-        });
-        break;
+    try {
+      const result = await ctx.runMutation(
+        internal.mux.events.ingestWebhookEvent,
+        eventArgs
+      );
+      if (result.duplicate) {
+        console.log("Mux webhook: Duplicate event", event.id, result.status);
+      } else if (result.status === "parked") {
+        console.warn("Mux webhook: Video not found yet, parked", event.id);
       }
-
-      default:
-        console.log("Mux webhook: Unhandled event type:", event.type);
+    } catch (error) {
+      // The failed attempt rolled back - store the event as failed
+      await ctx.runMutation(internal.mux.events.markWebhookEventFailed, {
+        ...eventArgs,
+        error: error instanceof Error ? error.message : "Unknown error",
+      });
+      throw error;
     }
 
     return new Response(JSON.stringify({ received: true }), {
@@ -1,8 +1,22 @@
 import { v } from "convex/values";
 import { internal } from "../_generated/api";
+import type { Doc, Id } from "../_generated/dataModel";
+import type { MutationCtx } from "../_generated/server";
 import { internalMutation, mutation } from "../_generated/server";
-import { getCurrentUserProfile } from "../profiles";
-import { videoStatusValidator } from "./types";
+import { getOwnedFile } from "../files";
+import {
+  clearIntroVideo,
+  getCurrentUserProfile,
+  resolvePendingIntroVideo,
+} from "../profiles";
+import { deleteVideoChapters } from "./chapters";
+import { unlinkVideoClips } from "./clips";
+import { deleteVideoProgress } from "./progress";
+import { discardReplacement } from "./replace";
+import { buildMuxImageUrl, getThumbnailParams } from "./thumbnails";
+import { deleteVideoTracks } from "./tracks";
+import { playbackPolicyValidator, videoStatusValidator } from "./types";
+import { assertUploadQuota, recordVideoUsage } from "./usage";
 
 /**
  * Mux Integration - Mutations (V8 Isolate Runtime)
@@ -11,6 +25,45 @@ import { videoStatusValidator } from "./types";
  * No external API calls - database operations only.
  */
 
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Uploads not finished after this long are considered abandoned. */
+const ABANDONED_UPLOAD_AGE_MS = 24 * 60 * 60 * 1000;
+
+/** Videos deleted per cleanup batch (bounded reads/writes per mutation). */
+const CLEANUP_BATCH_SIZE = 100;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Get Owned Ready Video (Helper)
+ *
+ * @throws Error if the video doesn't exist, isn't owned by the current
+ * user or isn't ready yet
+ */
+async function getOwnedReadyVideo(ctx: MutationCtx, videoId: Id<"videos">) {
+  const { profile } = await getCurrentUserProfile(ctx);
+
+  const video = await ctx.db.get(videoId);
+  if (!video) {
+    throw new Error("Video not found");
+  }
+
+  if (video.uploadedBy !== profile._id) {
+    throw new Error("Unauthorized - you don't own this video");
+  }
+
+  if (video.status !== "ready") {
+    throw new Error("Thumbnails can be chosen once the video is ready");
+  }
+
+  return video;
+}
+
 // ============================================================================
 // PUBLIC MUTATIONS
 // ============================================================================
@@ -44,9 +97,17 @@ export const deleteVideo = mutation({
         assetId: video.muxAssetId,
       });
     }
+    await discardReplacement(ctx, video);
 
-    // 3. Delete from database
+    // 3. Delete from database (tracks go with the Mux asset)
+    await deleteVideoTracks(ctx, args.videoId);
+    await deleteVideoChapters(ctx, args.videoId);
+    await deleteVideoProgress(ctx, args.videoId);
+    await unlinkVideoClips(ctx, args.videoId);
+    await resolvePendingIntroVideo(ctx, args.videoId, "error");
+    await clearIntroVideo(ctx, args.videoId);
     await ctx.db.delete(args.videoId);
+    await recordVideoUsage(ctx, video, null);
 
     return { success: true };
   },
@@ -90,6 +151,81 @@ export const updateVideoMetadata = mutation({
   },
 });
 
+/**
+ * Set Thumbnail Time
+ *
+ * Uses the frame at `time` (seconds) as the video's thumbnail and as the
+ * start of its animated preview. Replaces a custom thumbnail image.
+ *
+ * @throws Error if the video isn't the user's, isn't ready, or the time
+ * is outside the video
+ */
+export const setThumbnailTime = mutation({
+  args: {
+    videoId: v.id("videos"),
+    time: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const video = await getOwnedReadyVideo(ctx, args.videoId);
+
+    const duration = video.duration ?? Number.POSITIVE_INFINITY;
+    if (!Number.isFinite(args.time) || args.time < 0 || args.time > duration) {
+      throw new Error("Thumbnail time must be within the video");
+    }
+
+    const thumbnailTime = Math.round(args.time * 10) / 10;
+    const isPublic = (video.playbackPolicy ?? "public") === "public";
+
+    await ctx.db.patch(video._id, {
+      thumbnailTime,
+      thumbnailFileId: undefined,
+      thumbnailUrl:
+        isPublic && video.muxPlaybackId
+          ? buildMuxImageUrl(
+              video.muxPlaybackId,
+              "thumbnail.jpg",
+              getThumbnailParams({ thumbnailTime })
+            )
+          : video.thumbnailUrl,
+      updatedAt: Date.now(),
+    });
+
+    return { success: true };
+  },
+});
+
+/**
+ * Set Thumbnail Image
+ *
+ * Uses one of the owner's uploaded images (fileType "image" or
+ * "thumbnail") as the video's thumbnail. The animated preview still
+ * starts at thumbnailTime.
+ *
+ * @throws Error if the video or file isn't the user's, or the file isn't
+ * an image
+ */
+export const setThumbnailImage = mutation({
+  args: {
+    videoId: v.id("videos"),
+    fileId: v.id("files"),
+  },
+  handler: async (ctx, args) => {
+    const video = await getOwnedReadyVideo(ctx, args.videoId);
+
+    const { file } = await getOwnedFile(ctx, args.fileId);
+    if (file.fileType !== "image" && file.fileType !== "thumbnail") {
+      throw new Error("Thumbnail must be an image");
+    }
+
+    await ctx.db.patch(video._id, {
+      thumbnailFileId: file._id,
+      updatedAt: Date.now(),
+    });
+
+    return { success: true };
+  },
+});
+
 // ============================================================================
 // INTERNAL MUTATIONS
 // ============================================================================
@@ -97,39 +233,121 @@ export const updateVideoMetadata = mutation({
 /**
  * Cleanup Abandoned Uploads (Internal)
  *
- * Deletes video records stuck in incomplete states for >24 hours.
- * Called by daily cron job at 3:00 AM UTC.
+ * Deletes video records stuck in "waiting_for_upload" or "uploading" for
+ * more than 24 hours (likely abandoned by users) and cancels their Mux
+ * direct uploads (cancelMuxUploads).
+ * Called by daily cron job at 4:00 AM UTC.
+ *
+ * Walks the by_status_createdAt index in batches of CLEANUP_BATCH_SIZE.
+ * Deleted rows drop out of the index, so each batch simply starts over
+ * from the same cutoff; a full batch schedules the next one and passes
+ * the running totals along.
  *
- * Removes videos with status "waiting_for_upload" or "uploading"
- * that are older than 24 hours (likely abandoned by users).
+ * @returns Totals so far, and whether the cleanup finished in this batch
  */
 export const cleanupAbandonedUploads = internalMutation({
-  args: {},
-  handler: async (ctx) => {
-    const twentyFourHoursAgo = Date.now() - 24 * 60 * 60 * 1000;
-
-    // Find stale uploads
-    // TODO: da li da brišemo i "uploading" status?
-    const staleVideos = await ctx.db
-      .query("videos")
-      .filter((q) =>
-        q.and(
-          q.or(
-            q.eq(q.field("status"), "waiting_for_upload"),
-            q.eq(q.field("status"), "uploading")
-          ),
-          q.lt(q.field("createdAt"), twentyFourHoursAgo)
+  args: {
+    cutoff: v.optional(v.number()),
+    deletedSoFar: v.optional(v.number()),
+    batchesSoFar: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const cutoff = args.cutoff ?? Date.now() - ABANDONED_UPLOAD_AGE_MS;
+
+    const staleVideos: Doc<"videos">[] = [];
+    for (const status of ["waiting_for_upload", "uploading"] as const) {
+      const remaining = CLEANUP_BATCH_SIZE - staleVideos.length;
+      if (remaining === 0) {
+        break;
+      }
+      const videos = await ctx.db
+        .query("videos")
+        .withIndex("by_status_createdAt", (q) =>
+          q.eq("status", status).lt("createdAt", cutoff)
         )
-      )
-      .collect();
+        .take(remaining);
+      staleVideos.push(...videos);
+    }
 
-    // Delete each stale video
+    const uploadIds: string[] = [];
     for (const video of staleVideos) {
       await ctx.db.delete(video._id);
+      await recordVideoUsage(ctx, video, null);
+      await resolvePendingIntroVideo(ctx, video._id, "error");
+      if (video.muxUploadId) {
+        uploadIds.push(video.muxUploadId);
+      }
+    }
+
+    if (uploadIds.length > 0) {
+      await ctx.scheduler.runAfter(0, internal.mux.actions.cancelMuxUploads, {
+        uploadIds,
+      });
+    }
+
+    const deletedCount = (args.deletedSoFar ?? 0) + staleVideos.length;
+    const batchCount = (args.batchesSoFar ?? 0) + 1;
+    const isComplete = staleVideos.length < CLEANUP_BATCH_SIZE;
+
+    if (isComplete) {
+      console.log(
+        `Cleaned up ${deletedCount} abandoned video uploads in ${batchCount} batch(es)`
+      );
+    } else {
+      await ctx.scheduler.runAfter(
+        0,
+        internal.mux.mutations.cleanupAbandonedUploads,
+        { cutoff, deletedSoFar: deletedCount, batchesSoFar: batchCount }
+      );
     }
 
-    console.log(`Cleaned up ${staleVideos.length} abandoned video uploads`);
-    return { deletedCount: staleVideos.length };
+    return { deletedCount, batchCount, isComplete };
+  },
+});
+
+/**
+ * Record Orphaned Mux Uploads (Internal)
+ *
+ * Called by the orphan sweep with every waiting upload it found without a
+ * video. New ones are recorded as first seen now; recorded uploads that
+ * aren't in the list anymore (referenced, finished or cancelled) are
+ * forgotten.
+ *
+ * @returns The upload IDs first seen before seenBefore - orphaned past the
+ * grace period
+ */
+export const recordOrphanedMuxUploads = internalMutation({
+  args: {
+    uploadIds: v.array(v.string()),
+    seenBefore: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const now = Date.now();
+    const current = new Set(args.uploadIds);
+    const firstSeen = new Map<string, number>();
+
+    for (const row of await ctx.db.query("orphanedMuxUploads").collect()) {
+      if (current.has(row.uploadId)) {
+        firstSeen.set(row.uploadId, row.firstSeenAt);
+      } else {
+        await ctx.db.delete(row._id);
+      }
+    }
+
+    const expired: string[] = [];
+    for (const uploadId of current) {
+      const firstSeenAt = firstSeen.get(uploadId);
+      if (firstSeenAt === undefined) {
+        await ctx.db.insert("orphanedMuxUploads", {
+          uploadId,
+          firstSeenAt: now,
+        });
+      } else if (firstSeenAt < args.seenBefore) {
+        expired.push(uploadId);
+      }
+    }
+
+    return expired;
   },
 });
 
@@ -137,7 +355,10 @@ export const cleanupAbandonedUploads = internalMutation({
  * Insert Video (Internal)
  *
  * Creates a new video record in the database.
- * Called by createDirectUpload action.
+ * Called by createDirectUpload action, with enforceQuota so the upload
+ * quota is checked in the same transaction as the insert.
+ *
+ * @throws Error if enforceQuota is set and the uploader is over quota
  */
 export const insertVideo = internalMutation({
   args: {
@@ -146,19 +367,34 @@ export const insertVideo = internalMutation({
     title: v.string(),
     description: v.optional(v.string()),
     status: videoStatusValidator,
+    playbackPolicy: v.optional(playbackPolicyValidator),
+    enforceQuota: v.optional(v.boolean()),
   },
   handler: async (ctx, args) => {
+    if (args.enforceQuota) {
+      const profile = await ctx.db.get(args.uploadedBy);
+      if (!profile) {
+        throw new Error("Profile not found");
+      }
+      await assertUploadQuota(ctx, profile);
+    }
+
     const now = Date.now();
 
-    return await ctx.db.insert("videos", {
+    const videoId = await ctx.db.insert("videos", {
       uploadedBy: args.uploadedBy,
       muxUploadId: args.muxUploadId,
       muxAssetId: "", // Will be set by webhook
       title: args.title,
       description: args.description,
       status: args.status,
+      playbackPolicy: args.playbackPolicy,
       createdAt: now,
       updatedAt: now,
     });
+
+    await recordVideoUsage(ctx, null, await ctx.db.get(videoId));
+
+    return videoId;
   },
 });
@@ -0,0 +1,383 @@
+import { v } from "convex/values";
+import type { Doc, Id } from "../_generated/dataModel";
+import type { MutationCtx, QueryCtx } from "../_generated/server";
+import { mutation, query } from "../_generated/server";
+import { getCurrentUserProfile } from "../profiles";
+import { canWatchVideo, getViewerProfile } from "./queries";
+
+/**
+ * Mux Integration - Watch Progress (V8 Isolate Runtime)
+ *
+ * Per-viewer progress through a video (videoProgress table). VideoPlayer
+ * calls saveVideoProgress every few seconds while playing and when
+ * playback pauses or stops, resumes from getVideoProgress on load, and
+ * listContinueWatching feeds "continue watching" lists.
+ */
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Share of a video's duration that must be played to complete it, unless
+ * the VIDEO_COMPLETION_THRESHOLD environment variable sets another share
+ * (above 0, at most 1)
+ */
+export const DEFAULT_COMPLETION_THRESHOLD = 0.9;
+
+/** Positions this close to the start or end resume from the beginning */
+const RESUME_MARGIN_SECONDS = 5;
+
+/** Fastest playback rate offered by the player */
+const MAX_PLAYBACK_RATE = 2;
+
+/**
+ * Most video a single save can claim: VideoPlayer saves every 15 seconds
+ * of playback (30 seconds of video at 2x), plus slack for late timers
+ */
+const MAX_PLAYED_PER_SAVE_SECONDS = 40;
+
+/** Watched ranges closer than this are merged (timer and seek jitter) */
+const RANGE_MERGE_GAP_SECONDS = 1;
+
+const DEFAULT_CONTINUE_WATCHING_LIMIT = 10;
+const MAX_CONTINUE_WATCHING_LIMIT = 50;
+
+/**
+ * Unfinished rows read per requested entry - rows of videos that are no
+ * longer ready or watchable are skipped, but don't make the query walk a
+ * viewer's whole history
+ */
+const CONTINUE_WATCHING_SCAN_FACTOR = 2;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+type WatchedRange = Doc<"videoProgress">["watchedRanges"][number];
+
+function getCompletionThreshold() {
+  const configured = Number(process.env.VIDEO_COMPLETION_THRESHOLD);
+  return configured > 0 && configured <= 1
+    ? configured
+    : DEFAULT_COMPLETION_THRESHOLD;
+}
+
+/**
+ * Adds a played range to the sorted, non-overlapping watched ranges,
+ * merging it with the ranges it overlaps or nearly touches.
+ */
+function addWatchedRange(ranges: WatchedRange[], played: WatchedRange) {
+  const touches = (range: WatchedRange) =>
+    range.end + RANGE_MERGE_GAP_SECONDS >= played.start &&
+    range.start - RANGE_MERGE_GAP_SECONDS <= played.end;
+  const overlapping = ranges.filter(touches);
+
+  return [
+    ...ranges.filter((range) => !touches(range) && range.end < played.start),
+    {
+      start: Math.min(played.start, ...overlapping.map((range) => range.start)),
+      end: Math.max(played.end, ...overlapping.map((range) => range.end)),
+    },
+    ...ranges.filter((range) => !touches(range) && range.start > played.end),
+  ];
+}
+
+/**
+ * Adds the seconds a save claims were played up to the position, capped
+ * by the time since the previous save and MAX_PLAYED_PER_SAVE_SECONDS.
+ */
+function recordPlayed(
+  existing: Doc<"videoProgress"> | null,
+  position: number,
+  claimedSeconds: number,
+  now: number
+) {
+  const maxPlayed = Math.min(
+    existing
+      ? ((now - existing.updatedAt) / 1000) * MAX_PLAYBACK_RATE
+      : Number.POSITIVE_INFINITY,
+    MAX_PLAYED_PER_SAVE_SECONDS
+  );
+  // Playback can't have started before the beginning
+  const start = Math.max(
+    position - Math.min(Math.max(claimedSeconds, 0), maxPlayed),
+    0
+  );
+  const ranges = existing?.watchedRanges ?? [];
+
+  return {
+    watchedSeconds: (existing?.watchedSeconds ?? 0) + position - start,
+    watchedRanges:
+      position > start
+        ? addWatchedRange(ranges, { start, end: position })
+        : ranges,
+  };
+}
+
+/** Seconds of the video covered by the watched ranges */
+function getWatchedCoverage(ranges: WatchedRange[]) {
+  return ranges.reduce((total, range) => total + range.end - range.start, 0);
+}
+
+/**
+ * Where playback should start: the saved position, or the beginning if
+ * the viewer barely started or reached the end.
+ */
+function getResumePosition(
+  progress: Doc<"videoProgress">,
+  duration: number | undefined
+) {
+  const end = duration ?? Number.POSITIVE_INFINITY;
+  if (
+    progress.position < RESUME_MARGIN_SECONDS ||
+    progress.position > end - RESUME_MARGIN_SECONDS
+  ) {
+    return 0;
+  }
+
+  return progress.position;
+}
+
+async function getProgressRow(
+  ctx: QueryCtx | MutationCtx,
+  profileId: Id<"userProfiles">,
+  videoId: Id<"videos">
+) {
+  return await ctx.db
+    .query("videoProgress")
+    .withIndex("by_profileId_videoId", (q) =>
+      q.eq("profileId", profileId).eq("videoId", videoId)
+    )
+    .first();
+}
+
+/**
+ * Delete Video Progress (Helper)
+ *
+ * Deletes every viewer's progress through a video, e.g. when the video is
+ * deleted.
+ */
+export async function deleteVideoProgress(
+  ctx: MutationCtx,
+  videoId: Id<"videos">
+) {
+  const rows = await ctx.db
+    .query("videoProgress")
+    .withIndex("by_videoId", (q) => q.eq("videoId", videoId))
+    .collect();
+
+  for (const row of rows) {
+    await ctx.db.delete(row._id);
+  }
+}
+
+// ============================================================================
+// QUERIES
+// ============================================================================
+
+/**
+ * Get Video Progress
+ *
+ * The current user's progress through a video, with the position playback
+ * should resume from.
+ *
+ * @returns null for anonymous viewers or videos not watched yet
+ */
+export const getVideoProgress = query({
+  args: {
+    videoId: v.id("videos"),
+  },
+  handler: async (ctx, args) => {
+    const viewer = await getViewerProfile(ctx);
+    if (!viewer) {
+      return null;
+    }
+
+    const progress = await getProgressRow(ctx, viewer._id, args.videoId);
+    if (!progress) {
+      return null;
+    }
+
+    const video = await ctx.db.get(args.videoId);
+
+    return {
+      ...progress,
+      resumePosition: getResumePosition(progress, video?.duration),
+    };
+  },
+});
+
+/**
+ * List Continue Watching
+ *
+ * Videos the current user started but hasn't completed, most recently
+ * watched first. Reads only unfinished rows, at most
+ * CONTINUE_WATCHING_SCAN_FACTOR per entry; videos that are no longer ready
+ * or watchable are left out.
+ *
+ * @param limit - Number of videos (default 10, at most 50)
+ */
+export const listContinueWatching = query({
+  args: {
+    limit: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const { profile } = await getCurrentUserProfile(ctx);
+    const limit = Math.min(
+      Math.max(Math.floor(args.limit ?? DEFAULT_CONTINUE_WATCHING_LIMIT), 1),
+      MAX_CONTINUE_WATCHING_LIMIT
+    );
+
+    const rows = await ctx.db
+      .query("videoProgress")
+      .withIndex("by_profileId_completed_updatedAt", (q) =>
+        q.eq("profileId", profile._id).eq("completed", false)
+      )
+      .order("desc")
+      .take(limit * CONTINUE_WATCHING_SCAN_FACTOR);
+
+    const results: (Doc<"videoProgress"> & {
+      resumePosition: number;
+      video: Doc<"videos">;
+    })[] = [];
+    for (const progress of rows) {
+      if (results.length >= limit) {
+        break;
+      }
+
+      const video = await ctx.db.get(progress.videoId);
+      if (
+        video?.status !== "ready" ||
+        !(await canWatchVideo(ctx, video, profile))
+      ) {
+        continue;
+      }
+
+      results.push({
+        ...progress,
+        resumePosition: getResumePosition(progress, video.duration),
+        video,
+      });
+    }
+
+    return results;
+  },
+});
+
+// ============================================================================
+// MUTATIONS
+// ============================================================================
+
+/**
+ * Save Video Progress
+ *
+ * Records the current user's playback position and the seconds played
+ * since the previous save, which end at the position. VideoPlayer
+ * throttles the calls; the played seconds are capped by the time since
+ * the previous save and by MAX_PLAYED_PER_SAVE_SECONDS, so a client can't
+ * inflate them. The video is completed once the distinct parts played
+ * (watchedRanges) cover the completion threshold of its duration -
+ * rewatching a part doesn't count twice, and a completed video stays
+ * completed when rewatched.
+ *
+ * @param position - Current playback position in seconds
+ * @param watchedSeconds - Seconds played since the previous save
+ * @throws Error if the video doesn't exist, isn't ready or the viewer has
+ * no access
+ */
+export const saveVideoProgress = mutation({
+  args: {
+    videoId: v.id("videos"),
+    position: v.number(),
+    watchedSeconds: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const { profile } = await getCurrentUserProfile(ctx);
+
+    const video = await ctx.db.get(args.videoId);
+    if (!video) {
+      throw new Error("Video not found");
+    }
+
+    if (!(await canWatchVideo(ctx, video, profile))) {
+      throw new Error("Unauthorized - you don't have access to this video");
+    }
+
+    if (video.status !== "ready") {
+      throw new Error("Video is not ready for playback");
+    }
+
+    if (
+      !(Number.isFinite(args.position) && Number.isFinite(args.watchedSeconds))
+    ) {
+      throw new Error("Invalid playback progress");
+    }
+
+    const duration = video.duration ?? Number.POSITIVE_INFINITY;
+    const position = Math.min(Math.max(args.position, 0), duration);
+    const existing = await getProgressRow(ctx, profile._id, video._id);
+    const now = Date.now();
+
+    const { watchedSeconds, watchedRanges } = recordPlayed(
+      existing,
+      position,
+      args.watchedSeconds,
+      now
+    );
+
+    const completed =
+      existing?.completed === true ||
+      (video.duration !== undefined &&
+        getWatchedCoverage(watchedRanges) >=
+          video.duration * getCompletionThreshold());
+    const completedAt = existing?.completedAt ?? (completed ? now : undefined);
+
+    if (existing) {
+      await ctx.db.patch(existing._id, {
+        position,
+        watchedSeconds,
+        watchedRanges,
+        completed,
+        completedAt,
+        updatedAt: now,
+      });
+    } else {
+      await ctx.db.insert("videoProgress", {
+        profileId: profile._id,
+        videoId: video._id,
+        position,
+        watchedSeconds,
+        watchedRanges,
+        completed,
+        completedAt,
+        createdAt: now,
+        updatedAt: now,
+      });
+    }
+
+    return { success: true, completed };
+  },
+});
+
+/**
+ * Reset Video Progress
+ *
+ * Forgets the current user's progress through a video, e.g. to remove it
+ * from "continue watching".
+ */
+export const resetVideoProgress = mutation({
+  args: {
+    videoId: v.id("videos"),
+  },
+  handler: async (ctx, args) => {
+    const { profile } = await getCurrentUserProfile(ctx);
+
+    const progress = await getProgressRow(ctx, profile._id, args.videoId);
+    if (progress) {
+      await ctx.db.delete(progress._id);
+    }
+
+    return { success: true };
+  },
+});
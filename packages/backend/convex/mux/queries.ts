@@ -1,7 +1,11 @@
 import { v } from "convex/values";
-import { query } from "../_generated/server";
+import type { Doc, Id } from "../_generated/dataModel";
+import type { QueryCtx } from "../_generated/server";
+import { internalQuery, query } from "../_generated/server";
+import { authComponent } from "../auth";
+import { isEnrolled } from "../enrollments";
 import { getCurrentUserProfile } from "../profiles";
-import { videoStatusValidator } from "./types";
+import { type PlaybackPolicy, videoStatusValidator } from "./types";
 
 /**
  * Mux Integration - Queries (V8 Isolate Runtime)
@@ -10,6 +14,151 @@ import { videoStatusValidator } from "./types";
  * No external API calls - pure database reads.
  */
 
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Maximum videos per getVideoPreviews call (listUserVideos pages are 50). */
+const MAX_PREVIEW_BATCH = 50;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Get Viewer Profile (Helper)
+ *
+ * @returns The signed-in user's profile, or null for signed-out viewers
+ */
+export async function getViewerProfile(ctx: QueryCtx) {
+  const authUser = await authComponent.safeGetAuthUser(ctx);
+  if (!authUser) {
+    return null;
+  }
+
+  return await ctx.db
+    .query("userProfiles")
+    .withIndex("by_auth", (q) => q.eq("authId", authUser._id))
+    .first();
+}
+
+/**
+ * Programs whose content uses the video: as a workout video, or as the
+ * demonstration video of an exercise prescribed in one of their workouts.
+ */
+async function findContentPrograms(ctx: QueryCtx, videoId: Id<"videos">) {
+  const workouts = await ctx.db
+    .query("workouts")
+    .withIndex("by_videoId", (q) => q.eq("videoId", videoId))
+    .collect();
+
+  const exercises = await ctx.db
+    .query("exercises")
+    .withIndex("by_videoId", (q) => q.eq("videoId", videoId))
+    .collect();
+  for (const exercise of exercises) {
+    const prescriptions = await ctx.db
+      .query("workoutExercises")
+      .withIndex("by_exercise", (q) => q.eq("exerciseId", exercise._id))
+      .collect();
+    for (const prescription of prescriptions) {
+      const workout = await ctx.db.get(prescription.workoutId);
+      if (workout) {
+        workouts.push(workout);
+      }
+    }
+  }
+
+  const moduleIds = [...new Set(workouts.map((workout) => workout.moduleId))];
+  const programIds = new Set<Id<"programs">>();
+  for (const moduleId of moduleIds) {
+    const programModule = await ctx.db.get(moduleId);
+    if (programModule) {
+      programIds.add(programModule.programId);
+    }
+  }
+
+  const programs = await Promise.all(
+    [...programIds].map((id) => ctx.db.get(id))
+  );
+  return programs.filter((program) => program !== null);
+}
+
+/**
+ * Is Public Preview (Helper)
+ *
+ * Preview content anyone may watch: a published program's preview video,
+ * a coach's intro video, or the demonstration video of a public exercise.
+ */
+async function isPublicPreview(ctx: QueryCtx, videoId: Id<"videos">) {
+  const previewOf = await ctx.db
+    .query("programs")
+    .withIndex("by_previewVideoId", (q) => q.eq("previewVideoId", videoId))
+    .filter((q) => q.eq(q.field("isPublished"), true))
+    .first();
+  if (previewOf) {
+    return true;
+  }
+
+  const introOf = await ctx.db
+    .query("coachProfiles")
+    .withIndex("by_introVideoId", (q) => q.eq("introVideoId", videoId))
+    .first();
+  if (introOf) {
+    return true;
+  }
+
+  const publicExercise = await ctx.db
+    .query("exercises")
+    .withIndex("by_videoId", (q) => q.eq("videoId", videoId))
+    .filter((q) => q.eq(q.field("isPublic"), true))
+    .first();
+  return publicExercise !== null;
+}
+
+/**
+ * Can Watch Video (Helper)
+ *
+ * Access rules for video playback:
+ * 1. The uploader
+ * 2. Public previews (see isPublicPreview)
+ * 3. Enrolled athletes (and the program's coach) for videos used in a
+ *    program's workouts or prescribed exercises
+ */
+export async function canWatchVideo(
+  ctx: QueryCtx,
+  video: Doc<"videos">,
+  viewer: Doc<"userProfiles"> | null
+) {
+  if (viewer && video.uploadedBy === viewer._id) {
+    return true;
+  }
+
+  if (await isPublicPreview(ctx, video._id)) {
+    return true;
+  }
+
+  if (!viewer) {
+    return false;
+  }
+
+  for (const program of await findContentPrograms(ctx, video._id)) {
+    const coachProfile = await ctx.db.get(program.coachProfileId);
+    if (coachProfile?.profileId === viewer._id) {
+      return true;
+    }
+    if (await isEnrolled(ctx, viewer._id, program._id)) {
+      return true;
+    }
+  }
+
+  return false;
+}
+
+// ============================================================================
+// QUERIES
+// ============================================================================
+
 /**
  * Get Video by ID
  *
@@ -67,3 +216,233 @@ export const listUserVideos = query({
     return videos;
   },
 });
+
+// ============================================================================
+// INTERNAL QUERIES
+// ============================================================================
+
+/**
+ * Get Playback Grant (Internal)
+ *
+ * Checks that the current viewer may watch a video (see canWatchVideo) and
+ * returns what getPlaybackTokens needs to sign. Signed-out viewers only get
+ * public previews.
+ *
+ * @throws Error if the video isn't ready or the viewer has no access
+ */
+export const getPlaybackGrant = internalQuery({
+  args: {
+    videoId: v.id("videos"),
+  },
+  handler: async (ctx, args) => {
+    const video = await ctx.db.get(args.videoId);
+    if (!video) {
+      throw new Error("Video not found");
+    }
+
+    const viewer = await getViewerProfile(ctx);
+
+    if (!(await canWatchVideo(ctx, video, viewer))) {
+      throw new Error("Unauthorized - you don't have access to this video");
+    }
+
+    if (video.status !== "ready" || !video.muxPlaybackId) {
+      throw new Error("Video is not ready for playback");
+    }
+
+    return {
+      playbackId: video.muxPlaybackId,
+      playbackPolicy: video.playbackPolicy ?? "public",
+      thumbnailTime: video.thumbnailTime,
+    };
+  },
+});
+
+/**
+ * Get Preview Grants (Internal)
+ *
+ * What getVideoPreviews needs to build thumbnail and animated preview
+ * URLs for a batch of videos. Videos that aren't ready, or that the
+ * viewer can't watch (see canWatchVideo), are left out.
+ *
+ * @throws Error if more than MAX_PREVIEW_BATCH videos are requested
+ */
+export const getPreviewGrants = internalQuery({
+  args: {
+    videoIds: v.array(v.id("videos")),
+  },
+  handler: async (ctx, args) => {
+    if (args.videoIds.length > MAX_PREVIEW_BATCH) {
+      throw new Error(
+        `At most ${MAX_PREVIEW_BATCH} video previews can be requested at once`
+      );
+    }
+
+    const viewer = await getViewerProfile(ctx);
+    const grants: Array<{
+      videoId: Id<"videos">;
+      playbackId: string;
+      playbackPolicy: PlaybackPolicy;
+      thumbnailTime?: number;
+      duration?: number;
+      imageUrl: string | null;
+    }> = [];
+
+    for (const videoId of args.videoIds) {
+      const video = await ctx.db.get(videoId);
+      if (!(video?.status === "ready" && video.muxPlaybackId)) {
+        continue;
+      }
+      if (!(await canWatchVideo(ctx, video, viewer))) {
+        continue;
+      }
+
+      const image = video.thumbnailFileId
+        ? await ctx.db.get(video.thumbnailFileId)
+        : null;
+
+      grants.push({
+        videoId: video._id,
+        playbackId: video.muxPlaybackId,
+        playbackPolicy: video.playbackPolicy ?? "public",
+        thumbnailTime: video.thumbnailTime,
+        duration: video.duration,
+        imageUrl: image ? await ctx.storage.getUrl(image.storageId) : null,
+      });
+    }
+
+    return grants;
+  },
+});
+
+/**
+ * List Stuck Videos (Internal)
+ *
+ * Videos waiting on a webhook (upload or processing) that haven't changed
+ * since updatedBefore. Used by reconciliation (mux/reconcile.ts).
+ */
+export const listStuckVideos = internalQuery({
+  args: {
+    updatedBefore: v.number(),
+    limit: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const stuck: Doc<"videos">[] = [];
+
+    for (const status of [
+      "waiting_for_upload",
+      "uploading",
+      "processing",
+    ] as const) {
+      const videos = await ctx.db
+        .query("videos")
+        .withIndex("by_status", (q) => q.eq("status", status))
+        .filter((q) => q.lt(q.field("updatedAt"), args.updatedBefore))
+        .take(args.limit);
+      stuck.push(...videos);
+    }
+
+    return stuck;
+  },
+});
+
+/**
+ * Whether a video (or its source replacement) uses the Mux upload
+ */
+async function isReferencedUpload(ctx: QueryCtx, uploadId: string) {
+  const video = await ctx.db
+    .query("videos")
+    .withIndex("by_muxUploadId", (q) => q.eq("muxUploadId", uploadId))
+    .first();
+  if (video) {
+    return true;
+  }
+
+  const replaced = await ctx.db
+    .query("videos")
+    .withIndex("by_replacementUploadId", (q) =>
+      q.eq("replacement.muxUploadId", uploadId)
+    )
+    .first();
+
+  return replaced !== null;
+}
+
+/**
+ * Whether a video (or its source replacement) uses the Mux asset
+ */
+async function isReferencedAsset(ctx: QueryCtx, assetId: string) {
+  const video = await ctx.db
+    .query("videos")
+    .withIndex("by_muxAssetId", (q) => q.eq("muxAssetId", assetId))
+    .first();
+  if (video) {
+    return true;
+  }
+
+  const replaced = await ctx.db
+    .query("videos")
+    .withIndex("by_replacementAssetId", (q) =>
+      q.eq("replacement.muxAssetId", assetId)
+    )
+    .first();
+
+  return replaced !== null;
+}
+
+/**
+ * Find Orphaned Mux Assets (Internal)
+ *
+ * Returns the asset IDs no video points at - neither by asset ID nor, for
+ * assets whose asset_created webhook hasn't been applied, by upload ID.
+ * Source replacements in progress count as references. Used by the orphan
+ * sweep (mux/sweep.ts).
+ */
+export const findOrphanedMuxAssets = internalQuery({
+  args: {
+    assets: v.array(
+      v.object({
+        assetId: v.string(),
+        uploadId: v.optional(v.string()),
+      })
+    ),
+  },
+  handler: async (ctx, args) => {
+    const orphaned: string[] = [];
+
+    for (const { assetId, uploadId } of args.assets) {
+      const isReferenced =
+        (await isReferencedAsset(ctx, assetId)) ||
+        (uploadId !== undefined && (await isReferencedUpload(ctx, uploadId)));
+
+      if (!isReferenced) {
+        orphaned.push(assetId);
+      }
+    }
+
+    return orphaned;
+  },
+});
+
+/**
+ * Find Orphaned Mux Uploads (Internal)
+ *
+ * Returns the upload IDs no video (or source replacement) points at. Used
+ * by the orphan sweep.
+ */
+export const findOrphanedMuxUploads = internalQuery({
+  args: {
+    uploadIds: v.array(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const orphaned: string[] = [];
+
+    for (const uploadId of args.uploadIds) {
+      if (!(await isReferencedUpload(ctx, uploadId))) {
+        orphaned.push(uploadId);
+      }
+    }
+
+    return orphaned;
+  },
+});
@@ -0,0 +1,252 @@
+import { internal } from "../_generated/api";
+import type { Doc } from "../_generated/dataModel";
+import type { ActionCtx } from "../_generated/server";
+import type { WebhookOutcome } from "./types";
+
+/**
+ * Mux Integration - Reconciliation
+ *
+ * Recovers videos whose webhooks were lost: videos stuck in an upload or
+ * processing status are compared against Mux's real upload/asset state,
+ * and the event Mux would have sent is applied through the webhook
+ * handlers (applyMuxEvent), so transitions are identical.
+ *
+ * Mux is accessed through MuxStateClient, so tests can inject a stand-in.
+ * The reconcileStuckVideos action (mux/actions.ts) passes the SDK client.
+ */
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Videos untouched for longer than this are considered stuck. */
+export const STUCK_VIDEO_THRESHOLD_MS = 60 * 60 * 1000;
+
+/** Maximum videos checked per status and run. */
+export const RECONCILE_BATCH_SIZE = 50;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** The parts of a Mux upload used for reconciliation. */
+export type MuxUploadState = {
+  id: string;
+  status: string; // "waiting" | "asset_created" | "errored" | "cancelled" | "timed_out"
+  asset_id?: string;
+  error?: { type?: string; message?: string };
+};
+
+/** The parts of a Mux asset used for reconciliation. */
+export type MuxAssetState = {
+  id: string;
+  status: string; // "preparing" | "ready" | "errored"
+  playback_ids?: Array<{ id: string; policy: string }>;
+  duration?: number;
+  aspect_ratio?: string;
+  errors?: { type?: string; messages?: string[] };
+};
+
+/**
+ * Read access to Mux state. Both methods resolve null when Mux no longer
+ * knows the upload or asset (404).
+ */
+export type MuxStateClient = {
+  getUpload: (uploadId: string) => Promise<MuxUploadState | null>;
+  getAsset: (assetId: string) => Promise<MuxAssetState | null>;
+};
+
+type ReconcileCtx = Pick<ActionCtx, "runQuery" | "runMutation">;
+
+type ReconcileResult = "updated" | "unchanged" | "failed";
+
+export type ReconcileCounts = Record<ReconcileResult | "checked", number>;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Webhook event equivalent to an upload's current state, or null while the
+ * upload is still waiting for the file.
+ */
+function uploadStateToEvent(uploadId: string, upload: MuxUploadState | null) {
+  if (!upload) {
+    return {
+      type: "video.upload.errored",
+      data: { id: uploadId, error: { message: "Upload no longer exists" } },
+    };
+  }
+
+  switch (upload.status) {
+    case "asset_created":
+      return {
+        type: "video.upload.asset_created",
+        data: { id: upload.id, asset_id: upload.asset_id },
+      };
+    case "errored":
+      return {
+        type: "video.upload.errored",
+        data: { id: upload.id, error: upload.error },
+      };
+    case "timed_out":
+      return {
+        type: "video.upload.errored",
+        data: { id: upload.id, error: { message: "Upload timed out" } },
+      };
+    case "cancelled":
+      return { type: "video.upload.cancelled", data: { id: upload.id } };
+    default:
+      return null;
+  }
+}
+
+/**
+ * Webhook event equivalent to an asset's current state, or null while the
+ * asset is still preparing.
+ */
+function assetStateToEvent(assetId: string, asset: MuxAssetState | null) {
+  if (!asset) {
+    return { type: "video.asset.deleted", data: { id: assetId } };
+  }
+
+  switch (asset.status) {
+    case "ready":
+      return {
+        type: "video.asset.ready",
+        data: {
+          id: asset.id,
+          playback_ids: asset.playback_ids,
+          duration: asset.duration,
+          aspect_ratio: asset.aspect_ratio,
+        },
+      };
+    case "errored":
+      return {
+        type: "video.asset.errored",
+        data: { id: asset.id, errors: asset.errors },
+      };
+    default:
+      return null;
+  }
+}
+
+async function applyEvent(
+  ctx: ReconcileCtx,
+  event: { type: string; data: Record<string, unknown> }
+): Promise<WebhookOutcome> {
+  return await ctx.runMutation(internal.mux.webhooks.applyReconciledEvent, {
+    type: event.type,
+    data: event.data,
+  });
+}
+
+/**
+ * Apply the upload's state to a video still waiting on its upload.
+ *
+ * @returns Whether the video changed, and the asset ID once the upload
+ * created one
+ */
+async function reconcileUpload(
+  ctx: ReconcileCtx,
+  mux: MuxStateClient,
+  uploadId: string
+) {
+  const upload = await mux.getUpload(uploadId);
+  const event = uploadStateToEvent(uploadId, upload);
+  if (!event) {
+    return { updated: false, assetId: null };
+  }
+
+  const updated = (await applyEvent(ctx, event)) === "processed";
+  const assetId =
+    event.type === "video.upload.asset_created" ? upload?.asset_id : null;
+  return { updated, assetId: assetId ?? null };
+}
+
+/**
+ * Apply the asset's state to a processing video.
+ *
+ * @returns Whether the video changed
+ */
+async function reconcileAsset(
+  ctx: ReconcileCtx,
+  mux: MuxStateClient,
+  assetId: string
+) {
+  const asset = await mux.getAsset(assetId);
+  const event = assetStateToEvent(assetId, asset);
+  return event !== null && (await applyEvent(ctx, event)) === "processed";
+}
+
+/**
+ * Reconcile Video (Helper)
+ *
+ * Videos still uploading are checked against their upload first; once the
+ * upload created an asset (or for videos already processing), the asset
+ * state is applied.
+ */
+async function reconcileVideo(
+  ctx: ReconcileCtx,
+  mux: MuxStateClient,
+  video: Doc<"videos">
+): Promise<ReconcileResult> {
+  let assetId: string | null = video.muxAssetId || null;
+  let updated = false;
+
+  if (video.status !== "processing" && video.muxUploadId) {
+    ({ updated, assetId } = await reconcileUpload(ctx, mux, video.muxUploadId));
+  }
+
+  if (assetId && (await reconcileAsset(ctx, mux, assetId))) {
+    updated = true;
+  }
+
+  return updated ? "updated" : "unchanged";
+}
+
+// ============================================================================
+// RECONCILIATION
+// ============================================================================
+
+/**
+ * Reconcile Videos
+ *
+ * Checks videos in "waiting_for_upload", "uploading" or "processing" that
+ * haven't changed for stuckAfterMs (default 1 hour) against Mux. A failing
+ * video (e.g. Mux API error) is logged and retried on the next run.
+ *
+ * @returns Number of checked, updated, unchanged and failed videos
+ */
+export async function reconcileVideos(
+  ctx: ReconcileCtx,
+  mux: MuxStateClient,
+  options: { stuckAfterMs?: number } = {}
+): Promise<ReconcileCounts> {
+  const videos: Doc<"videos">[] = await ctx.runQuery(
+    internal.mux.queries.listStuckVideos,
+    {
+      updatedBefore:
+        Date.now() - (options.stuckAfterMs ?? STUCK_VIDEO_THRESHOLD_MS),
+      limit: RECONCILE_BATCH_SIZE,
+    }
+  );
+
+  const counts: ReconcileCounts = {
+    checked: videos.length,
+    updated: 0,
+    unchanged: 0,
+    failed: 0,
+  };
+
+  for (const video of videos) {
+    const result = await reconcileVideo(ctx, mux, video).catch((error) => {
+      console.error("Reconciliation failed for video:", video._id, error);
+      return "failed" as const;
+    });
+    counts[result] += 1;
+  }
+
+  console.log("Reconciled stuck videos:", counts);
+  return counts;
+}
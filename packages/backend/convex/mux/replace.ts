@@ -0,0 +1,188 @@
+import { v } from "convex/values";
+import { internal } from "../_generated/api";
+import type { Doc, Id } from "../_generated/dataModel";
+import type { MutationCtx } from "../_generated/server";
+import {
+  internalMutation,
+  internalQuery,
+  mutation,
+} from "../_generated/server";
+import { getCurrentUserProfile } from "../profiles";
+
+/**
+ * Mux Integration - Source Replacement (V8 Isolate Runtime)
+ *
+ * Re-recorded videos keep their row, and with it every reference from
+ * workouts, exercises, programs and coach profiles:
+ * 1. createReplacementUpload (mux/actions.ts) creates a Mux direct upload
+ *    and records it in videos.replacement (startReplacement)
+ * 2. The webhook handlers (mux/webhooks.ts) follow the new upload and
+ *    asset while the current asset keeps serving
+ * 3. When the new asset is ready, its IDs are swapped into the row in one
+ *    transaction and the old asset is deleted from Mux
+ *
+ * A failed replacement leaves the video unchanged; the owner cancels it or
+ * starts another one.
+ */
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Assert Replaceable (Helper)
+ *
+ * @throws Error if the video doesn't exist, isn't owned by the profile,
+ * isn't ready or already has a replacement in progress
+ */
+function assertReplaceable(
+  video: Doc<"videos"> | null,
+  profileId: Id<"userProfiles">
+): asserts video is Doc<"videos"> {
+  if (!video) {
+    throw new Error("Video not found");
+  }
+
+  if (video.uploadedBy !== profileId) {
+    throw new Error("Unauthorized - you don't own this video");
+  }
+
+  if (video.status !== "ready") {
+    throw new Error("Only ready videos can be replaced");
+  }
+
+  if (video.replacement && video.replacement.status !== "error") {
+    throw new Error("A replacement is already in progress - cancel it first");
+  }
+}
+
+/**
+ * Discard Replacement (Helper)
+ *
+ * Cancels the replacement's Mux upload, or deletes its asset if Mux
+ * already created one. The caller clears (or deletes) the row.
+ */
+export async function discardReplacement(
+  ctx: MutationCtx,
+  video: Doc<"videos">
+) {
+  const { replacement } = video;
+  if (!replacement) {
+    return;
+  }
+
+  if (replacement.muxAssetId) {
+    await ctx.scheduler.runAfter(0, internal.mux.actions.deleteMuxAsset, {
+      assetId: replacement.muxAssetId,
+    });
+  } else {
+    await ctx.scheduler.runAfter(0, internal.mux.actions.cancelMuxUploads, {
+      uploadIds: [replacement.muxUploadId],
+    });
+  }
+}
+
+// ============================================================================
+// MUTATIONS
+// ============================================================================
+
+/**
+ * Cancel Replacement
+ *
+ * Stops replacing a video's source (or dismisses a failed replacement).
+ * The video keeps its current asset.
+ */
+export const cancelReplacement = mutation({
+  args: {
+    videoId: v.id("videos"),
+  },
+  handler: async (ctx, args) => {
+    const { profile } = await getCurrentUserProfile(ctx);
+
+    const video = await ctx.db.get(args.videoId);
+    if (!video) {
+      throw new Error("Video not found");
+    }
+
+    if (video.uploadedBy !== profile._id) {
+      throw new Error("Unauthorized - you don't own this video");
+    }
+
+    if (!video.replacement) {
+      throw new Error("No replacement in progress");
+    }
+
+    await discardReplacement(ctx, video);
+
+    await ctx.db.patch(video._id, {
+      replacement: undefined,
+      updatedAt: Date.now(),
+    });
+
+    return { success: true };
+  },
+});
+
+// ============================================================================
+// INTERNAL QUERIES
+// ============================================================================
+
+/**
+ * Check Replaceable (Internal)
+ *
+ * Lets createReplacementUpload fail before it creates a Mux upload.
+ *
+ * @throws Error if the profile can't replace the video's source
+ * @returns The playback policy for the new asset
+ */
+export const checkReplaceable = internalQuery({
+  args: {
+    videoId: v.id("videos"),
+    profileId: v.id("userProfiles"),
+  },
+  handler: async (ctx, args) => {
+    const video = await ctx.db.get(args.videoId);
+    assertReplaceable(video, args.profileId);
+
+    return { playbackPolicy: video.playbackPolicy ?? "public" };
+  },
+});
+
+// ============================================================================
+// INTERNAL MUTATIONS
+// ============================================================================
+
+/**
+ * Start Replacement (Internal)
+ *
+ * Records the Mux upload of a new source. A failed previous replacement is
+ * discarded.
+ *
+ * @throws Error if the profile can't replace the video's source (checked
+ * again - the video may have changed since checkReplaceable)
+ */
+export const startReplacement = internalMutation({
+  args: {
+    videoId: v.id("videos"),
+    profileId: v.id("userProfiles"),
+    muxUploadId: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const video = await ctx.db.get(args.videoId);
+    assertReplaceable(video, args.profileId);
+
+    await discardReplacement(ctx, video);
+
+    const now = Date.now();
+    await ctx.db.patch(video._id, {
+      replacement: {
+        muxUploadId: args.muxUploadId,
+        status: "waiting_for_upload",
+        startedAt: now,
+      },
+      updatedAt: now,
+    });
+
+    return { success: true };
+  },
+});
@@ -0,0 +1,210 @@
+import { internal } from "../_generated/api";
+import type { ActionCtx } from "../_generated/server";
+
+/**
+ * Mux Integration - Orphaned Media Sweep
+ *
+ * Finds Mux assets and direct uploads no video row points at - e.g. when
+ * deleteMuxAsset failed, or cleanupAbandonedUploads deleted a row whose
+ * upload was still waiting - and deletes/cancels them once they stayed
+ * orphaned past the grace period.
+ *
+ * Mux is listed page by page; every page is checked against
+ * videos.by_muxAssetId / by_muxUploadId. Orphans are only acted on after
+ * the full listing, so deletions don't shift later pages.
+ *
+ * Dry run (the default) only reports - it still records when unreferenced
+ * uploads were first seen (orphanedMuxUploads). Mux is accessed through
+ * MuxInventoryClient, so tests can inject a stand-in; the
+ * sweepOrphanedMuxMedia action (mux/actions.ts) passes the SDK client.
+ */
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Assets younger than this, and uploads first seen unreferenced less than
+ * this long ago, are never orphans (webhooks or the video row may be
+ * pending).
+ */
+export const ORPHAN_GRACE_PERIOD_HOURS = 24;
+
+/** Items requested per Mux list call (Mux maximum). */
+export const SWEEP_PAGE_SIZE = 100;
+
+/** Safety cap on list calls per resource and sweep. */
+const MAX_SWEEP_PAGES = 100;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** The parts of a listed Mux asset used by the sweep. */
+export type MuxAssetSummary = {
+  id: string;
+  created_at: string; // Unix timestamp in seconds
+  upload_id?: string;
+};
+
+/** The parts of a listed Mux direct upload used by the sweep. */
+export type MuxUploadSummary = {
+  id: string;
+  status: string;
+};
+
+/**
+ * Mux listing and cleanup. List methods take a 1-based page number and
+ * return at most SWEEP_PAGE_SIZE items - fewer means the last page.
+ */
+export type MuxInventoryClient = {
+  listAssets: (page: number) => Promise<MuxAssetSummary[]>;
+  listUploads: (page: number) => Promise<MuxUploadSummary[]>;
+  deleteAsset: (assetId: string) => Promise<void>;
+  cancelUpload: (uploadId: string) => Promise<void>;
+};
+
+export type OrphanSweepReport = {
+  dryRun: boolean;
+  assets: {
+    scanned: number;
+    orphaned: string[];
+    deleted: number;
+    failed: number;
+  };
+  uploads: {
+    scanned: number;
+    orphaned: string[];
+    cancelled: number;
+    failed: number;
+  };
+};
+
+type SweepCtx = Pick<ActionCtx, "runQuery" | "runMutation">;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Collect items from all pages (up to MAX_SWEEP_PAGES), keeping the ones
+ * the filter reports as orphaned.
+ */
+async function collectOrphans<T>(
+  listPage: (page: number) => Promise<T[]>,
+  findOrphans: (items: T[]) => Promise<string[]>
+) {
+  let scanned = 0;
+  const orphaned: string[] = [];
+
+  for (let page = 1; page <= MAX_SWEEP_PAGES; page += 1) {
+    const items = await listPage(page);
+    scanned += items.length;
+    if (items.length > 0) {
+      orphaned.push(...(await findOrphans(items)));
+    }
+    if (items.length < SWEEP_PAGE_SIZE) {
+      break;
+    }
+  }
+
+  return { scanned, orphaned };
+}
+
+/**
+ * Run a cleanup call per ID; failures are logged and counted, the next
+ * sweep retries them.
+ */
+async function cleanUp(
+  ids: string[],
+  cleanUpOne: (id: string) => Promise<void>
+) {
+  let done = 0;
+  let failed = 0;
+
+  for (const id of ids) {
+    try {
+      await cleanUpOne(id);
+      done += 1;
+    } catch (error) {
+      console.error("Orphan sweep: cleanup failed for", id, error);
+      failed += 1;
+    }
+  }
+
+  return { done, failed };
+}
+
+// ============================================================================
+// SWEEP
+// ============================================================================
+
+/**
+ * Sweep Orphaned Mux Media
+ *
+ * - Assets: orphaned when no video has their asset ID (or, before the
+ *   asset_created webhook, their upload ID) and they're older than the
+ *   grace period → deleted
+ * - Uploads: orphaned when still "waiting", no video has their upload ID
+ *   and an earlier sweep already found them unreferenced before the grace
+ *   period → cancelled. Uploads carry no creation time, and their video
+ *   row is only inserted after the upload is created, so a fresh upload
+ *   is only recorded (orphanedMuxUploads)
+ *
+ * @returns Report of scanned and orphaned items, and what was cleaned up
+ */
+export async function sweepOrphans(
+  ctx: SweepCtx,
+  mux: MuxInventoryClient,
+  options: { dryRun?: boolean; gracePeriodHours?: number } = {}
+): Promise<OrphanSweepReport> {
+  const dryRun = options.dryRun ?? true;
+  const gracePeriodHours =
+    options.gracePeriodHours ?? ORPHAN_GRACE_PERIOD_HOURS;
+  const createdBefore = Date.now() - gracePeriodHours * 60 * 60 * 1000;
+
+  const assets = await collectOrphans(mux.listAssets, async (page) => {
+    const candidates = page.filter(
+      (asset) => Number(asset.created_at) * 1000 < createdBefore
+    );
+    return await ctx.runQuery(internal.mux.queries.findOrphanedMuxAssets, {
+      assets: candidates.map((asset) => ({
+        assetId: asset.id,
+        uploadId: asset.upload_id,
+      })),
+    });
+  });
+
+  const unreferenced = await collectOrphans(mux.listUploads, async (page) => {
+    const waiting = page.filter((upload) => upload.status === "waiting");
+    return await ctx.runQuery(internal.mux.queries.findOrphanedMuxUploads, {
+      uploadIds: waiting.map((upload) => upload.id),
+    });
+  });
+  const uploads = {
+    scanned: unreferenced.scanned,
+    orphaned: await ctx.runMutation(
+      internal.mux.mutations.recordOrphanedMuxUploads,
+      { uploadIds: unreferenced.orphaned, seenBefore: createdBefore }
+    ),
+  };
+
+  const report: OrphanSweepReport = {
+    dryRun,
+    assets: { ...assets, deleted: 0, failed: 0 },
+    uploads: { ...uploads, cancelled: 0, failed: 0 },
+  };
+
+  if (!dryRun) {
+    const deleted = await cleanUp(assets.orphaned, mux.deleteAsset);
+    report.assets.deleted = deleted.done;
+    report.assets.failed = deleted.failed;
+
+    const cancelled = await cleanUp(uploads.orphaned, mux.cancelUpload);
+    report.uploads.cancelled = cancelled.done;
+    report.uploads.failed = cancelled.failed;
+  }
+
+  console.log("Orphan sweep:", JSON.stringify(report));
+  return report;
+}
@@ -0,0 +1,81 @@
+import type { Doc } from "../_generated/dataModel";
+
+/**
+ * Mux Integration - Thumbnails and Animated Previews
+ *
+ * Builds image.mux.com URLs for a video's still thumbnail and its animated
+ * (WebP) hover preview. Both start at the owner's chosen thumbnailTime;
+ * without one, Mux picks the middle frame for the still and the preview
+ * starts at the beginning.
+ *
+ * Public playback IDs take the options as query parameters. Signed ones
+ * need them inside the JWT instead (see getVideoPreviews), so the URL only
+ * carries the token.
+ */
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Length of the animated preview (Mux allows at most 10 seconds). */
+export const ANIMATED_PREVIEW_SECONDS = 4;
+
+const ANIMATED_PREVIEW_WIDTH = 320;
+const ANIMATED_PREVIEW_FPS = 12;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+type ThumbnailSource = Pick<Doc<"videos">, "thumbnailTime" | "duration">;
+
+/** Options for thumbnail.jpg */
+export function getThumbnailParams(
+  video: ThumbnailSource
+): Record<string, string> {
+  return video.thumbnailTime === undefined
+    ? {}
+    : { time: String(video.thumbnailTime) };
+}
+
+/**
+ * Options for animated.webp: ANIMATED_PREVIEW_SECONDS from the thumbnail
+ * time, moved back so the clip ends within the video.
+ */
+export function getAnimatedPreviewParams(
+  video: ThumbnailSource
+): Record<string, string> {
+  let start = video.thumbnailTime ?? 0;
+  let end = start + ANIMATED_PREVIEW_SECONDS;
+
+  if (video.duration !== undefined && end > video.duration) {
+    start = Math.max(video.duration - ANIMATED_PREVIEW_SECONDS, 0);
+    end = video.duration;
+  }
+
+  return {
+    start: String(start),
+    end: String(end),
+    width: String(ANIMATED_PREVIEW_WIDTH),
+    fps: String(ANIMATED_PREVIEW_FPS),
+  };
+}
+
+/**
+ * Mux Image URL (Helper)
+ *
+ * @param token - Signed image token; replaces the params (they're in it)
+ */
+export function buildMuxImageUrl(
+  playbackId: string,
+  image: "thumbnail.jpg" | "animated.webp",
+  params: Record<string, string>,
+  token?: string
+) {
+  const query = token
+    ? `token=${token}`
+    : new URLSearchParams(params).toString();
+  const base = `https://image.mux.com/${playbackId}/${image}`;
+
+  return query ? `${base}?${query}` : base;
+}
@@ -0,0 +1,472 @@
+import { v } from "convex/values";
+import { internal } from "../_generated/api";
+import type { Doc, Id } from "../_generated/dataModel";
+import type { MutationCtx } from "../_generated/server";
+import {
+  internalMutation,
+  internalQuery,
+  mutation,
+  query,
+} from "../_generated/server";
+import { getOwnedFile } from "../files";
+import { getCurrentUserProfile } from "../profiles";
+import { canWatchVideo, getViewerProfile } from "./queries";
+import { GENERATED_CAPTION_LANGUAGES, type TrackSource } from "./types";
+
+/**
+ * Mux Integration - Text Tracks (V8 Isolate Runtime)
+ *
+ * Captions and subtitles of a video (videoTracks table):
+ * - addCaptionTrack: attaches an uploaded WebVTT/SRT file (files.ts,
+ *   fileType "caption") as a Mux text track
+ * - requestGeneratedCaptions: asks Mux to auto-generate captions
+ *
+ * Both insert a "preparing" row and schedule createMuxTrack
+ * (mux/actions.ts). Mux reports progress with video.asset.track.*
+ * webhooks (mux/webhooks.ts).
+ */
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const MAX_TRACK_NAME_LENGTH = 64;
+
+// e.g. "en", "sr", "sr-Latn", "pt-BR"
+const LANGUAGE_CODE_PATTERN = /^[a-z]{2,3}(-[A-Za-z0-9]{2,8})*$/;
+
+/** Error for uploaded tracks whose caption file is gone from storage */
+export const CAPTION_FILE_MISSING =
+  "Caption file not found in storage - upload it again";
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Get Captionable Video (Helper)
+ *
+ * Loads a video owned by the current user that has a Mux asset to attach
+ * tracks to.
+ *
+ * @throws Error if the video doesn't exist, isn't owned or isn't ready
+ */
+async function getCaptionableVideo(ctx: MutationCtx, videoId: Id<"videos">) {
+  const { profile } = await getCurrentUserProfile(ctx);
+
+  const video = await ctx.db.get(videoId);
+  if (!video) {
+    throw new Error("Video not found");
+  }
+
+  if (video.uploadedBy !== profile._id) {
+    throw new Error("Unauthorized - you don't own this video");
+  }
+
+  if (video.status !== "ready" || !video.muxAssetId) {
+    throw new Error("Captions can be added once the video is ready");
+  }
+
+  return video;
+}
+
+/**
+ * Validate Track (Helper)
+ *
+ * @throws Error if the language code or name is invalid, or the video
+ * already has a track for the language from the same source
+ * @returns The trimmed track name
+ */
+async function validateTrack(
+  ctx: MutationCtx,
+  videoId: Id<"videos">,
+  args: { languageCode: string; name: string; source: TrackSource }
+) {
+  if (!LANGUAGE_CODE_PATTERN.test(args.languageCode)) {
+    throw new Error(`Invalid language code "${args.languageCode}"`);
+  }
+
+  const name = args.name.trim();
+  if (!name || name.length > MAX_TRACK_NAME_LENGTH) {
+    throw new Error(
+      `Track name must be between 1 and ${MAX_TRACK_NAME_LENGTH} characters`
+    );
+  }
+
+  const existing = await ctx.db
+    .query("videoTracks")
+    .withIndex("by_videoId", (q) => q.eq("videoId", videoId))
+    .filter((q) =>
+      q.and(
+        q.eq(q.field("languageCode"), args.languageCode),
+        q.eq(q.field("source"), args.source)
+      )
+    )
+    .first();
+  if (existing) {
+    throw new Error(
+      `The video already has ${args.source} captions in "${args.languageCode}" - delete them first`
+    );
+  }
+
+  return name;
+}
+
+/**
+ * Delete Track Row (Helper)
+ *
+ * Deletes a track row and its uploaded caption file. The Mux track itself
+ * is left to the caller (deleteMuxTrack, or gone with its asset).
+ */
+export async function deleteTrackRow(
+  ctx: MutationCtx,
+  track: Doc<"videoTracks">
+) {
+  if (track.fileId) {
+    const file = await ctx.db.get(track.fileId);
+    if (file) {
+      await ctx.db.delete(file._id);
+      await ctx.storage.delete(file.storageId);
+    }
+  }
+
+  await ctx.db.delete(track._id);
+}
+
+/**
+ * Delete Video Tracks (Helper)
+ *
+ * Deletes all track rows of a video, e.g. when the video or its Mux asset
+ * is deleted (Mux deletes the tracks with the asset).
+ */
+export async function deleteVideoTracks(
+  ctx: MutationCtx,
+  videoId: Id<"videos">
+) {
+  const tracks = await ctx.db
+    .query("videoTracks")
+    .withIndex("by_videoId", (q) => q.eq("videoId", videoId))
+    .collect();
+
+  for (const track of tracks) {
+    await deleteTrackRow(ctx, track);
+  }
+}
+
+/**
+ * Reattach Video Tracks (Helper)
+ *
+ * Called once a replacement asset is swapped in (the old tracks go with
+ * the old asset): uploaded tracks are created again from their stored
+ * caption files and generated ones requested again, both as "preparing"
+ * rows. Tracks without a stored file (created outside EKVI) can't be
+ * recreated and are deleted.
+ */
+export async function reattachVideoTracks(
+  ctx: MutationCtx,
+  videoId: Id<"videos">
+) {
+  const tracks = await ctx.db
+    .query("videoTracks")
+    .withIndex("by_videoId", (q) => q.eq("videoId", videoId))
+    .collect();
+
+  for (const track of tracks) {
+    if (track.source === "uploaded" && !track.fileId) {
+      await deleteTrackRow(ctx, track);
+      continue;
+    }
+
+    await ctx.db.patch(track._id, {
+      muxTrackId: undefined,
+      status: "preparing",
+      errorMessage: undefined,
+      updatedAt: Date.now(),
+    });
+    await ctx.scheduler.runAfter(0, internal.mux.actions.createMuxTrack, {
+      trackId: track._id,
+    });
+  }
+}
+
+// ============================================================================
+// QUERIES
+// ============================================================================
+
+/**
+ * List Video Tracks
+ *
+ * Text tracks of a video, oldest first. The owner sees every track with
+ * its status; other viewers (see canWatchVideo) only ready tracks.
+ *
+ * @throws Error if the video doesn't exist or the viewer has no access
+ */
+export const listVideoTracks = query({
+  args: {
+    videoId: v.id("videos"),
+  },
+  handler: async (ctx, args) => {
+    const video = await ctx.db.get(args.videoId);
+    if (!video) {
+      throw new Error("Video not found");
+    }
+
+    const viewer = await getViewerProfile(ctx);
+
+    if (!(await canWatchVideo(ctx, video, viewer))) {
+      throw new Error("Unauthorized - you don't have access to this video");
+    }
+
+    const tracks = await ctx.db
+      .query("videoTracks")
+      .withIndex("by_videoId", (q) => q.eq("videoId", args.videoId))
+      .collect();
+
+    const isOwner = viewer !== null && video.uploadedBy === viewer._id;
+    return isOwner ? tracks : tracks.filter((t) => t.status === "ready");
+  },
+});
+
+// ============================================================================
+// MUTATIONS
+// ============================================================================
+
+/**
+ * Add Caption Track
+ *
+ * Attaches an uploaded caption file (registerUpload with fileType
+ * "caption") to a ready video as a subtitles track.
+ *
+ * @param languageCode - BCP 47 code, e.g. "sr" or "sr-Latn"
+ * @param name - Label shown in the player, e.g. "Srpski"
+ * @param closedCaptions - Whether the file also describes non-speech audio
+ * @returns The new track ID
+ */
+export const addCaptionTrack = mutation({
+  args: {
+    videoId: v.id("videos"),
+    fileId: v.id("files"),
+    languageCode: v.string(),
+    name: v.string(),
+    closedCaptions: v.optional(v.boolean()),
+  },
+  handler: async (ctx, args) => {
+    const video = await getCaptionableVideo(ctx, args.videoId);
+
+    const { file } = await getOwnedFile(ctx, args.fileId);
+    if (file.fileType !== "caption") {
+      throw new Error("File is not a caption file");
+    }
+
+    const name = await validateTrack(ctx, video._id, {
+      languageCode: args.languageCode,
+      name: args.name,
+      source: "uploaded",
+    });
+
+    const now = Date.now();
+    const trackId = await ctx.db.insert("videoTracks", {
+      videoId: video._id,
+      source: "uploaded",
+      languageCode: args.languageCode,
+      name,
+      closedCaptions: args.closedCaptions ?? false,
+      fileId: file._id,
+      status: "preparing",
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    await ctx.scheduler.runAfter(0, internal.mux.actions.createMuxTrack, {
+      trackId,
+    });
+
+    return trackId;
+  },
+});
+
+/**
+ * Request Generated Captions
+ *
+ * Asks Mux to transcribe a ready video's audio into captions. Only the
+ * languages in GENERATED_CAPTION_LANGUAGES are supported - for others,
+ * upload a caption file.
+ *
+ * @returns The new track ID
+ */
+export const requestGeneratedCaptions = mutation({
+  args: {
+    videoId: v.id("videos"),
+    languageCode: v.string(),
+    name: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const video = await getCaptionableVideo(ctx, args.videoId);
+
+    if (
+      !(GENERATED_CAPTION_LANGUAGES as readonly string[]).includes(
+        args.languageCode
+      )
+    ) {
+      throw new Error(
+        `Mux can't generate captions in "${args.languageCode}" - upload a caption file instead`
+      );
+    }
+
+    const name = await validateTrack(ctx, video._id, {
+      languageCode: args.languageCode,
+      name: args.name,
+      source: "generated",
+    });
+
+    const now = Date.now();
+    const trackId = await ctx.db.insert("videoTracks", {
+      videoId: video._id,
+      source: "generated",
+      languageCode: args.languageCode,
+      name,
+      closedCaptions: true,
+      status: "preparing",
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    await ctx.scheduler.runAfter(0, internal.mux.actions.createMuxTrack, {
+      trackId,
+    });
+
+    return trackId;
+  },
+});
+
+/**
+ * Delete Caption Track
+ *
+ * Deletes a track (and its caption file), then removes it from Mux.
+ * Also used to clear errored tracks before trying again.
+ */
+export const deleteCaptionTrack = mutation({
+  args: {
+    trackId: v.id("videoTracks"),
+  },
+  handler: async (ctx, args) => {
+    const { profile } = await getCurrentUserProfile(ctx);
+
+    const track = await ctx.db.get(args.trackId);
+    if (!track) {
+      throw new Error("Track not found");
+    }
+
+    const video = await ctx.db.get(track.videoId);
+    if (!video || video.uploadedBy !== profile._id) {
+      throw new Error("Unauthorized - you don't own this video");
+    }
+
+    if (track.muxTrackId && video.muxAssetId) {
+      await ctx.scheduler.runAfter(0, internal.mux.actions.deleteMuxTrack, {
+        assetId: video.muxAssetId,
+        muxTrackId: track.muxTrackId,
+      });
+    }
+
+    await deleteTrackRow(ctx, track);
+
+    return { success: true };
+  },
+});
+
+// ============================================================================
+// INTERNAL QUERIES
+// ============================================================================
+
+/**
+ * Get Track Request (Internal)
+ *
+ * What createMuxTrack needs to create a track: the track, its video's
+ * asset ID and, for uploaded tracks, a URL Mux can fetch the file from.
+ *
+ * @returns null if the track was deleted in the meantime
+ */
+export const getTrackRequest = internalQuery({
+  args: {
+    trackId: v.id("videoTracks"),
+  },
+  handler: async (ctx, args) => {
+    const track = await ctx.db.get(args.trackId);
+    if (!track) {
+      return null;
+    }
+
+    const video = await ctx.db.get(track.videoId);
+    if (!video?.muxAssetId) {
+      throw new Error("Video has no Mux asset");
+    }
+
+    const file = track.fileId ? await ctx.db.get(track.fileId) : null;
+    const fileUrl = file ? await ctx.storage.getUrl(file.storageId) : null;
+    if (track.source === "uploaded" && !fileUrl) {
+      throw new Error(CAPTION_FILE_MISSING);
+    }
+
+    return { track, assetId: video.muxAssetId, fileUrl };
+  },
+});
+
+// ============================================================================
+// INTERNAL MUTATIONS
+// ============================================================================
+
+/**
+ * Link Mux Track (Internal)
+ *
+ * Stores the ID of the track Mux created. A webhook may already have
+ * linked it (see applyTrackEvent).
+ *
+ * @returns Whether the track row still exists - if not, the caller
+ * deletes the Mux track
+ */
+export const linkMuxTrack = internalMutation({
+  args: {
+    trackId: v.id("videoTracks"),
+    muxTrackId: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const track = await ctx.db.get(args.trackId);
+    if (!track) {
+      return false;
+    }
+
+    await ctx.db.patch(track._id, {
+      muxTrackId: args.muxTrackId,
+      updatedAt: Date.now(),
+    });
+
+    return true;
+  },
+});
+
+/**
+ * Mark Track Errored (Internal)
+ *
+ * Records a failed Mux request (e.g. unreachable file, no audio track).
+ */
+export const markTrackErrored = internalMutation({
+  args: {
+    trackId: v.id("videoTracks"),
+    errorMessage: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const track = await ctx.db.get(args.trackId);
+    if (!track) {
+      return { success: true };
+    }
+
+    await ctx.db.patch(track._id, {
+      status: "errored",
+      errorMessage: args.errorMessage,
+      updatedAt: Date.now(),
+    });
+
+    return { success: true };
+  },
+});
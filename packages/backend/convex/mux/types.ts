@@ -20,9 +20,160 @@ export const videoStatusValidator = v.union(
   v.literal("error")
 );
 
+/**
+ * Playback Policy
+ *
+ * "public": anyone with the playback ID can watch.
+ * "signed": playback needs a short-lived JWT (see getPlaybackTokens).
+ */
+export const playbackPolicyValidator = v.union(
+  v.literal("public"),
+  v.literal("signed")
+);
+
+export type PlaybackPolicy = "public" | "signed";
+
 export type VideoStatus =
   | "waiting_for_upload"
   | "uploading"
   | "processing"
   | "ready"
   | "error";
+
+/**
+ * Webhook Event Status
+ *
+ * Stored Mux webhook events (muxWebhookEvents table):
+ * - "processed": applied to its video
+ * - "parked": video not resolvable yet (e.g. asset.ready before
+ *   upload.asset_created linked the asset) - retried later
+ * - "ignored": event type we don't handle (kept for deduplication)
+ * - "failed": handler threw - see lastError, replay once fixed
+ */
+export const webhookEventStatusValidator = v.union(
+  v.literal("processed"),
+  v.literal("parked"),
+  v.literal("ignored"),
+  v.literal("failed")
+);
+
+export type WebhookEventStatus = "processed" | "parked" | "ignored" | "failed";
+
+/** Result of applying a webhook event (failures throw instead) */
+export type WebhookOutcome = Exclude<WebhookEventStatus, "failed">;
+
+/**
+ * Text Track Source
+ *
+ * - "uploaded": WebVTT/SRT file attached by the owner (or a track added
+ *   outside EKVI, e.g. in the Mux dashboard)
+ * - "generated": Mux auto-generated captions from the audio
+ */
+export const trackSourceValidator = v.union(
+  v.literal("uploaded"),
+  v.literal("generated")
+);
+
+export type TrackSource = "uploaded" | "generated";
+
+/**
+ * Text Track Status
+ *
+ * Mirrors the Mux track status: "preparing" until Mux has ingested the
+ * file (or transcribed the audio), then "ready" or "errored".
+ */
+export const trackStatusValidator = v.union(
+  v.literal("preparing"),
+  v.literal("ready"),
+  v.literal("errored")
+);
+
+export type TrackStatus = "preparing" | "ready" | "errored";
+
+/** Languages Mux can auto-generate captions for */
+export const GENERATED_CAPTION_LANGUAGES = [
+  "en",
+  "es",
+  "it",
+  "pt",
+  "de",
+  "fr",
+  "pl",
+  "ru",
+  "nl",
+  "ca",
+  "tr",
+  "sv",
+  "uk",
+  "no",
+  "fi",
+  "sk",
+  "el",
+  "cs",
+  "hr",
+  "da",
+  "ro",
+  "bg",
+] as const;
+
+export type GeneratedCaptionLanguage =
+  (typeof GENERATED_CAPTION_LANGUAGES)[number];
+
+/**
+ * Upload Plan
+ *
+ * Selects the upload quotas of a profile together with its role (see
+ * UPLOAD_QUOTAS in mux/usage.ts). Profiles without a plan are on "free".
+ */
+export const uploadPlanValidator = v.union(v.literal("free"), v.literal("pro"));
+
+export type UploadPlan = "free" | "pro";
+
+/**
+ * Upload Quota Limits
+ *
+ * Per-limit admin overrides of a profile's plan quotas (videoUsage table).
+ */
+export const quotaOverrideValidator = v.object({
+  maxVideos: v.optional(v.number()),
+  maxTotalDuration: v.optional(v.number()), // Seconds
+  maxPendingUploads: v.optional(v.number()),
+});
+
+/**
+ * Source Replacement
+ *
+ * A new upload replacing the asset of a ready video (see mux/replace.ts).
+ * The current asset keeps serving until the replacement is ready:
+ * - "waiting_for_upload": upload URL created, awaiting the file
+ * - "processing": Mux created the new asset and is encoding it
+ * - "error": the upload or asset failed - the video is unchanged
+ */
+export const replacementStatusValidator = v.union(
+  v.literal("waiting_for_upload"),
+  v.literal("processing"),
+  v.literal("error")
+);
+
+export type ReplacementStatus = "waiting_for_upload" | "processing" | "error";
+
+export const videoReplacementValidator = v.object({
+  muxUploadId: v.string(),
+  muxAssetId: v.optional(v.string()), // Set by video.upload.asset_created
+  status: replacementStatusValidator,
+  errorMessage: v.optional(v.string()),
+  startedAt: v.number(),
+});
+
+/**
+ * Preview Clip
+ *
+ * The source range a clip video was cut from (see mux/clips.ts). The clip
+ * is a separate Mux asset, so it keeps playing if the source is replaced
+ * or deleted; deleting the source clears this field.
+ */
+export const videoClipValidator = v.object({
+  sourceVideoId: v.id("videos"),
+  startTime: v.number(), // Seconds into the source
+  endTime: v.number(),
+});
@@ -0,0 +1,394 @@
+import { v } from "convex/values";
+import type { Doc, Id } from "../_generated/dataModel";
+import type { MutationCtx, QueryCtx } from "../_generated/server";
+import { internalQuery, mutation, query } from "../_generated/server";
+import { getCurrentUserProfile, requireAdmin } from "../profiles";
+import {
+  quotaOverrideValidator,
+  type UploadPlan,
+  uploadPlanValidator,
+} from "./types";
+
+/**
+ * Mux Integration - Upload Quotas and Usage (V8 Isolate Runtime)
+ *
+ * Limits how much each profile can upload, by role and plan:
+ * - maxVideos: videos not in "error" (pending uploads included)
+ * - maxTotalDuration: seconds of ready videos
+ * - maxPendingUploads: uploads still waiting for / receiving their file
+ *
+ * Usage is counted in the videoUsage table. Every write that inserts,
+ * deletes or changes the status or duration of a video calls
+ * recordVideoUsage, so the counters follow the webhook handlers as Mux
+ * reports progress and duration.
+ *
+ * createDirectUpload checks the quota before creating the Mux upload and
+ * insertVideo checks it again in the same transaction as the insert. The
+ * duration of a new video isn't known until it's ready, so the duration
+ * limit blocks further uploads once reached rather than rejecting the
+ * video that crosses it.
+ */
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+type ProfileRole = Doc<"userProfiles">["role"];
+
+/** null = unlimited */
+type QuotaLimits = {
+  maxVideos: number | null;
+  maxTotalDuration: number | null; // Seconds
+  maxPendingUploads: number | null;
+};
+
+const HOUR = 60 * 60;
+
+const UNLIMITED: QuotaLimits = {
+  maxVideos: null,
+  maxTotalDuration: null,
+  maxPendingUploads: null,
+};
+
+/** Quotas by role and plan. Athletes need a plan to upload. */
+export const UPLOAD_QUOTAS: Record<
+  ProfileRole,
+  Record<UploadPlan, QuotaLimits>
+> = {
+  athlete: {
+    free: { maxVideos: 0, maxTotalDuration: 0, maxPendingUploads: 0 },
+    pro: { maxVideos: 10, maxTotalDuration: 1 * HOUR, maxPendingUploads: 1 },
+  },
+  coach: {
+    free: { maxVideos: 50, maxTotalDuration: 10 * HOUR, maxPendingUploads: 3 },
+    pro: {
+      maxVideos: 500,
+      maxTotalDuration: 100 * HOUR,
+      maxPendingUploads: 10,
+    },
+  },
+  admin: { free: UNLIMITED, pro: UNLIMITED },
+};
+
+const PENDING_STATUSES: Doc<"videos">["status"][] = [
+  "waiting_for_upload",
+  "uploading",
+];
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+type UsageCounters = Pick<
+  Doc<"videoUsage">,
+  "videoCount" | "pendingUploadCount" | "totalDuration"
+>;
+
+/**
+ * What a video counts towards its owner's usage. Failed (and deleted)
+ * videos count nothing.
+ */
+function getVideoContribution(video: Doc<"videos"> | null): UsageCounters {
+  if (!video || video.status === "error") {
+    return { videoCount: 0, pendingUploadCount: 0, totalDuration: 0 };
+  }
+
+  return {
+    videoCount: 1,
+    pendingUploadCount: PENDING_STATUSES.includes(video.status) ? 1 : 0,
+    totalDuration: video.status === "ready" ? (video.duration ?? 0) : 0,
+  };
+}
+
+/** Usage counted from scratch from the profile's videos */
+async function countUsage(
+  ctx: QueryCtx | MutationCtx,
+  profileId: Id<"userProfiles">
+): Promise<UsageCounters> {
+  const videos = await ctx.db
+    .query("videos")
+    .withIndex("by_uploadedBy", (q) => q.eq("uploadedBy", profileId))
+    .collect();
+
+  const usage = { videoCount: 0, pendingUploadCount: 0, totalDuration: 0 };
+  for (const video of videos) {
+    const counted = getVideoContribution(video);
+    usage.videoCount += counted.videoCount;
+    usage.pendingUploadCount += counted.pendingUploadCount;
+    usage.totalDuration += counted.totalDuration;
+  }
+
+  return usage;
+}
+
+async function getUsageRow(
+  ctx: QueryCtx | MutationCtx,
+  profileId: Id<"userProfiles">
+) {
+  return await ctx.db
+    .query("videoUsage")
+    .withIndex("by_profileId", (q) => q.eq("profileId", profileId))
+    .first();
+}
+
+/**
+ * Get Or Create Usage Row (Helper)
+ *
+ * New rows start from the profile's current videos, so profiles with
+ * videos from before quotas were introduced are counted correctly.
+ */
+async function getOrCreateUsageRow(
+  ctx: MutationCtx,
+  profileId: Id<"userProfiles">
+) {
+  const existing = await getUsageRow(ctx, profileId);
+  if (existing) {
+    return existing;
+  }
+
+  const now = Date.now();
+  const usageId = await ctx.db.insert("videoUsage", {
+    profileId,
+    ...(await countUsage(ctx, profileId)),
+    createdAt: now,
+    updatedAt: now,
+  });
+
+  return (await ctx.db.get(usageId)) as Doc<"videoUsage">;
+}
+
+function getQuotaLimits(
+  role: ProfileRole,
+  usage: Doc<"videoUsage"> | null
+): QuotaLimits {
+  return {
+    ...UPLOAD_QUOTAS[role][usage?.plan ?? "free"],
+    ...usage?.quotaOverride,
+  };
+}
+
+/**
+ * Why the profile can't start another upload, or null if it can.
+ */
+function getQuotaViolation(usage: UsageCounters, limits: QuotaLimits) {
+  if (limits.maxVideos === 0) {
+    return "Your plan doesn't include video uploads";
+  }
+
+  if (limits.maxVideos !== null && usage.videoCount >= limits.maxVideos) {
+    return `Video limit reached (${limits.maxVideos} videos) - delete videos to upload more`;
+  }
+
+  if (
+    limits.maxTotalDuration !== null &&
+    usage.totalDuration >= limits.maxTotalDuration
+  ) {
+    const minutes = Math.round(limits.maxTotalDuration / 60);
+    return `Video storage limit reached (${minutes} minutes) - delete videos to upload more`;
+  }
+
+  if (
+    limits.maxPendingUploads !== null &&
+    usage.pendingUploadCount >= limits.maxPendingUploads
+  ) {
+    return `${limits.maxPendingUploads} uploads are already in progress - wait for them to finish`;
+  }
+
+  return null;
+}
+
+/**
+ * Get Usage Summary (Helper)
+ *
+ * Counters come from the usage row, or are counted on the fly for
+ * profiles that don't have one yet (queries can't create it).
+ */
+async function getUsageSummary(
+  ctx: QueryCtx | MutationCtx,
+  profile: Doc<"userProfiles">
+) {
+  const row = await getUsageRow(ctx, profile._id);
+  const usage: UsageCounters = row
+    ? {
+        videoCount: row.videoCount,
+        pendingUploadCount: row.pendingUploadCount,
+        totalDuration: row.totalDuration,
+      }
+    : await countUsage(ctx, profile._id);
+  const limits = getQuotaLimits(profile.role, row);
+
+  return {
+    profileId: profile._id,
+    role: profile.role,
+    plan: row?.plan ?? "free",
+    quotaOverride: row?.quotaOverride ?? null,
+    usage,
+    limits,
+    blockedReason: getQuotaViolation(usage, limits),
+  };
+}
+
+/**
+ * Assert Upload Quota (Helper)
+ *
+ * @throws Error if the profile can't start another upload
+ */
+export async function assertUploadQuota(
+  ctx: QueryCtx | MutationCtx,
+  profile: Doc<"userProfiles">
+) {
+  const { blockedReason } = await getUsageSummary(ctx, profile);
+  if (blockedReason) {
+    throw new Error(blockedReason);
+  }
+}
+
+/**
+ * Record Video Usage (Helper)
+ *
+ * Call after a write that inserts (previous = null), deletes (current =
+ * null) or changes the status or duration of a video: applies the
+ * difference to the owner's counters.
+ */
+export async function recordVideoUsage(
+  ctx: MutationCtx,
+  previous: Doc<"videos"> | null,
+  current: Doc<"videos"> | null
+) {
+  const profileId = (current ?? previous)?.uploadedBy;
+  if (!profileId) {
+    return;
+  }
+
+  const before = getVideoContribution(previous);
+  const after = getVideoContribution(current);
+  const change = {
+    videoCount: after.videoCount - before.videoCount,
+    pendingUploadCount: after.pendingUploadCount - before.pendingUploadCount,
+    totalDuration: after.totalDuration - before.totalDuration,
+  };
+  if (Object.values(change).every((value) => value === 0)) {
+    return;
+  }
+
+  const existing = await getUsageRow(ctx, profileId);
+  if (!existing) {
+    // Counted from the videos, which already include this write
+    await getOrCreateUsageRow(ctx, profileId);
+    return;
+  }
+
+  await ctx.db.patch(existing._id, {
+    videoCount: Math.max(existing.videoCount + change.videoCount, 0),
+    pendingUploadCount: Math.max(
+      existing.pendingUploadCount + change.pendingUploadCount,
+      0
+    ),
+    totalDuration: Math.max(existing.totalDuration + change.totalDuration, 0),
+    updatedAt: Date.now(),
+  });
+}
+
+// ============================================================================
+// QUERIES
+// ============================================================================
+
+/**
+ * Get Video Usage
+ *
+ * Upload usage and limits of the current user - or, for admins, of any
+ * profile. Limits are null when unlimited; blockedReason explains why no
+ * further upload can be started (null if one can).
+ */
+export const getVideoUsage = query({
+  args: {
+    profileId: v.optional(v.id("userProfiles")),
+  },
+  handler: async (ctx, args) => {
+    const { profile } = await getCurrentUserProfile(ctx);
+
+    if (!args.profileId || args.profileId === profile._id) {
+      return await getUsageSummary(ctx, profile);
+    }
+
+    await requireAdmin(ctx);
+
+    const target = await ctx.db.get(args.profileId);
+    if (!target) {
+      throw new Error("Profile not found");
+    }
+
+    return await getUsageSummary(ctx, target);
+  },
+});
+
+// ============================================================================
+// MUTATIONS
+// ============================================================================
+
+/**
+ * Set Upload Quota (Admin)
+ *
+ * Changes a profile's plan and/or replaces its per-limit overrides
+ * (maxVideos, maxTotalDuration in seconds, maxPendingUploads). Pass
+ * `quotaOverride: {}` to go back to the plan's limits.
+ */
+export const setUploadQuota = mutation({
+  args: {
+    profileId: v.id("userProfiles"),
+    plan: v.optional(uploadPlanValidator),
+    quotaOverride: v.optional(quotaOverrideValidator),
+  },
+  handler: async (ctx, args) => {
+    await requireAdmin(ctx);
+
+    const profile = await ctx.db.get(args.profileId);
+    if (!profile) {
+      throw new Error("Profile not found");
+    }
+
+    const limits = Object.values(args.quotaOverride ?? {});
+    if (limits.some((limit) => !Number.isInteger(limit) || limit < 0)) {
+      throw new Error("Quota limits must be whole numbers of 0 or more");
+    }
+
+    const usage = await getOrCreateUsageRow(ctx, profile._id);
+
+    await ctx.db.patch(usage._id, {
+      ...(args.plan !== undefined && { plan: args.plan }),
+      ...(args.quotaOverride !== undefined && {
+        quotaOverride: limits.length > 0 ? args.quotaOverride : undefined,
+      }),
+      updatedAt: Date.now(),
+    });
+
+    return { success: true };
+  },
+});
+
+// ============================================================================
+// INTERNAL QUERIES
+// ============================================================================
+
+/**
+ * Check Upload Quota (Internal)
+ *
+ * Lets createDirectUpload fail before it creates a Mux upload.
+ *
+ * @throws Error if the profile can't start another upload
+ */
+export const checkUploadQuota = internalQuery({
+  args: {
+    profileId: v.id("userProfiles"),
+  },
+  handler: async (ctx, args) => {
+    const profile = await ctx.db.get(args.profileId);
+    if (!profile) {
+      throw new Error("Profile not found");
+    }
+
+    await assertUploadQuota(ctx, profile);
+
+    return null;
+  },
+});
@@ -1,56 +1,881 @@
 import { v } from "convex/values";
+import { internal } from "../_generated/api";
+import type { Doc, Id } from "../_generated/dataModel";
+import type { MutationCtx } from "../_generated/server";
 import { internalMutation } from "../_generated/server";
+import { resolvePendingIntroVideo } from "../profiles";
+import { deleteChaptersFrom } from "./chapters";
+import { replayParkedEvents } from "./events";
+import { buildMuxImageUrl, getThumbnailParams } from "./thumbnails";
+import {
+  deleteTrackRow,
+  deleteVideoTracks,
+  reattachVideoTracks,
+} from "./tracks";
+import type { TrackSource, TrackStatus, WebhookOutcome } from "./types";
+import { recordVideoUsage } from "./usage";
 
 /**
  * Mux Integration - Webhook Handlers
  *
- * Internal mutations called by the HTTP webhook handler.
- * Process Mux webhook events and update database.
+ * Apply Mux webhook events to the database. The HTTP webhook handler goes
+ * through the event log (mux/events.ts), which calls applyMuxEvent.
+ *
+ * Each apply helper returns false when the event's video can't be found
+ * (yet) - the event log parks those events instead of dropping them.
+ * Status and duration changes also update the uploader's usage counters
+ * (recordVideoUsage, mux/usage.ts).
+ *
+ * Events about the upload or asset of a source replacement (mux/replace.ts)
+ * go to the replacement handlers instead - the video keeps its current
+ * asset until the new one is ready.
  */
 
+type PlaybackIds = Array<{ id: string; policy: string }>;
+
+type VideoReplacement = NonNullable<Doc<"videos">["replacement"]>;
+
+/** Track status set by each track event ("created" keeps the status) */
+const TRACK_EVENT_STATUS: Record<string, TrackStatus> = {
+  "video.asset.track.ready": "ready",
+  "video.asset.track.errored": "errored",
+};
+
+/** The parts of a video.asset.track.* payload used by the track handlers */
+type MuxTrackData = {
+  id: string;
+  asset_id: string;
+  type?: string; // "video" | "audio" | "text"
+  text_source?: string; // "uploaded" | "embedded" | "generated_vod" | ...
+  language_code?: string;
+  name?: string;
+  closed_captions?: boolean;
+  error?: { type?: string; messages?: string[] };
+};
+
+// ============================================================================
+// EVENT DISPATCH
+// ============================================================================
+
 /**
- * Handle video.upload.asset_created Webhook
+ * Get Mux Object ID (Helper)
+ *
+ * The object an event is about: the asset for video.asset.* events
+ * (track events carry it as asset_id), the upload for video.upload.* events.
+ * Parked events are replayed by this ID.
+ */
+export function getMuxObjectId(type: string, data: any): string | undefined {
+  if (type.startsWith("video.asset.track.")) {
+    return data?.asset_id;
+  }
+  return data?.id;
+}
+
+/**
+ * Apply Mux Event (Helper)
+ *
+ * Routes a verified webhook event to its handler.
+ *
+ * @returns "processed", "parked" (video not resolvable yet) or "ignored"
+ * (event type not handled)
+ */
+export async function applyMuxEvent(
+  ctx: MutationCtx,
+  type: string,
+  data: any
+): Promise<WebhookOutcome> {
+  let resolved: boolean;
+
+  switch (type) {
+    case "video.upload.asset_created":
+      resolved = await applyUploadAssetCreated(ctx, {
+        uploadId: data.id as string,
+        assetId: data.asset_id as string,
+      });
+      break;
+
+    case "video.upload.cancelled":
+      resolved = await applyUploadFailed(ctx, {
+        uploadId: data.id as string,
+        errorMessage: "Upload was cancelled",
+      });
+      break;
+
+    case "video.upload.errored":
+      resolved = await applyUploadFailed(ctx, {
+        uploadId: data.id as string,
+        errorMessage: data.error?.message || "Upload failed",
+      });
+      break;
+
+    case "video.asset.ready":
+      resolved = await applyAssetReady(ctx, {
+        assetId: data.id as string,
+        playbackIds: (data.playback_ids || []) as PlaybackIds,
+        duration: data.duration as number | undefined,
+        aspectRatio: data.aspect_ratio as string | undefined,
+      });
+      break;
+
+    case "video.asset.errored":
+      resolved = await applyAssetErrored(ctx, {
+        assetId: data.id as string,
+        errors: data.errors,
+      });
+      break;
+
+    case "video.asset.updated":
+      resolved = await applyAssetUpdated(ctx, {
+        assetId: data.id as string,
+        playbackIds: data.playback_ids as PlaybackIds | undefined,
+        duration: data.duration as number | undefined,
+        aspectRatio: data.aspect_ratio as string | undefined,
+      });
+      break;
+
+    case "video.asset.deleted":
+      resolved = await applyAssetDeleted(ctx, { assetId: data.id as string });
+      break;
+
+    case "video.asset.static_renditions.ready":
+      resolved = await applyStaticRenditionsReady(ctx, {
+        assetId: data.id as string,
+        files: data.static_renditions?.files || [],
+      });
+      break;
+
+    case "video.asset.track.created":
+    case "video.asset.track.ready":
+    case "video.asset.track.errored":
+      resolved = await applyTrackEvent(ctx, type, data as MuxTrackData);
+      break;
+
+    case "video.asset.track.deleted":
+      resolved = await applyTrackDeleted(ctx, { muxTrackId: data.id });
+      break;
+
+    default:
+      console.log("Mux webhook: Unhandled event type:", type);
+      return "ignored";
+  }
+
+  return resolved ? "processed" : "parked";
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+async function findVideoByUploadId(ctx: MutationCtx, uploadId: string) {
+  const video = await ctx.db
+    .query("videos")
+    .withIndex("by_muxUploadId", (q) => q.eq("muxUploadId", uploadId))
+    .first();
+
+  if (!video) {
+    console.error("Video not found for upload ID:", uploadId);
+  }
+  return video;
+}
+
+async function findVideoByAssetId(ctx: MutationCtx, assetId: string) {
+  const video = await ctx.db
+    .query("videos")
+    .withIndex("by_muxAssetId", (q) => q.eq("muxAssetId", assetId))
+    .first();
+
+  if (!video) {
+    console.error("Video not found for asset ID:", assetId);
+  }
+  return video;
+}
+
+async function findReplacementByUploadId(ctx: MutationCtx, uploadId: string) {
+  const video = await ctx.db
+    .query("videos")
+    .withIndex("by_replacementUploadId", (q) =>
+      q.eq("replacement.muxUploadId", uploadId)
+    )
+    .first();
+
+  return video?.replacement ? { video, replacement: video.replacement } : null;
+}
+
+async function findReplacementByAssetId(ctx: MutationCtx, assetId: string) {
+  const video = await ctx.db
+    .query("videos")
+    .withIndex("by_replacementAssetId", (q) =>
+      q.eq("replacement.muxAssetId", assetId)
+    )
+    .first();
+
+  return video?.replacement ? { video, replacement: video.replacement } : null;
+}
+
+/**
+ * Pick the playback ID matching the video's playback policy. The static
+ * thumbnail URL is only stored for public videos (signed ones need a token).
+ */
+function selectPlayback(video: Doc<"videos">, playbackIds: PlaybackIds) {
+  const policy = video.playbackPolicy ?? "public";
+  const playbackId = playbackIds.find((p) => p.policy === policy)?.id;
+
+  const thumbnailUrl =
+    playbackId && policy === "public"
+      ? buildMuxImageUrl(playbackId, "thumbnail.jpg", getThumbnailParams(video))
+      : undefined;
+
+  return { policy, playbackId, thumbnailUrl };
+}
+
+// ============================================================================
+// HANDLERS
+// ============================================================================
+
+/**
+ * Handle video.upload.asset_created
  *
  * Called when Mux creates an asset from an upload.
- * Updates video record with asset ID and changes status to 'processing'.
+ * Updates video record with asset ID and changes status to 'processing',
+ * then replays asset events that arrived before the asset was linked.
+ */
+async function applyUploadAssetCreated(
+  ctx: MutationCtx,
+  args: { uploadId: string; assetId: string }
+) {
+  const replacing = await findReplacementByUploadId(ctx, args.uploadId);
+  if (replacing) {
+    return await applyReplacementAssetCreated(ctx, replacing, args.assetId);
+  }
+
+  const video = await findVideoByUploadId(ctx, args.uploadId);
+  if (!video) {
+    return false;
+  }
+
+  // Update with asset ID and processing status
+  await ctx.db.patch(video._id, {
+    muxAssetId: args.assetId,
+    status: "processing",
+    updatedAt: Date.now(),
+  });
+
+  await recordVideoUsage(ctx, video, await ctx.db.get(video._id));
+
+  console.log(
+    "Video processing started:",
+    video._id,
+    "Asset ID:",
+    args.assetId
+  );
+
+  // e.g. video.asset.ready delivered before this event
+  await replayParkedEvents(ctx, args.assetId);
+
+  return true;
+}
+
+/**
+ * Handle video.upload.cancelled and video.upload.errored
+ *
+ * The upload never produced an asset: marks the video as failed so the
+ * owner can delete it or upload again. Videos that already moved past the
+ * upload stage are left alone.
+ */
+async function applyUploadFailed(
+  ctx: MutationCtx,
+  args: { uploadId: string; errorMessage: string }
+) {
+  const replacing = await findReplacementByUploadId(ctx, args.uploadId);
+  if (replacing) {
+    if (replacing.replacement.status === "waiting_for_upload") {
+      await applyReplacementFailed(ctx, replacing, args.errorMessage);
+    }
+    return true;
+  }
+
+  const video = await findVideoByUploadId(ctx, args.uploadId);
+  if (!video) {
+    return false;
+  }
+
+  if (video.status !== "waiting_for_upload" && video.status !== "uploading") {
+    console.log("Upload already finished, ignoring failure:", video._id);
+    return true;
+  }
+
+  await ctx.db.patch(video._id, {
+    status: "error",
+    errorMessage: args.errorMessage,
+    updatedAt: Date.now(),
+  });
+
+  await recordVideoUsage(ctx, video, await ctx.db.get(video._id));
+
+  await resolvePendingIntroVideo(ctx, video._id, "error");
+
+  console.error("Video upload failed:", video._id, "Error:", args.errorMessage);
+
+  return true;
+}
+
+/**
+ * Handle video.asset.ready
+ *
+ * Called when Mux finishes encoding the video.
+ * Updates video record with playback ID and metadata.
+ */
+async function applyAssetReady(
+  ctx: MutationCtx,
+  args: {
+    assetId: string;
+    playbackIds: PlaybackIds;
+    duration?: number;
+    aspectRatio?: string;
+  }
+) {
+  const replacing = await findReplacementByAssetId(ctx, args.assetId);
+  if (replacing) {
+    return await applyReplacementReady(ctx, replacing, args);
+  }
+
+  const video = await findVideoByAssetId(ctx, args.assetId);
+  if (!video) {
+    return false;
+  }
+
+  const { policy, playbackId, thumbnailUrl } = selectPlayback(
+    video,
+    args.playbackIds
+  );
+
+  if (!playbackId) {
+    console.error(`No ${policy} playback ID found for asset:`, args.assetId);
+    // Still mark as ready but without playback ID
+  }
+
+  await ctx.db.patch(video._id, {
+    status: "ready",
+    muxPlaybackId: playbackId,
+    duration: args.duration,
+    aspectRatio: args.aspectRatio,
+    thumbnailUrl,
+    updatedAt: Date.now(),
+  });
+
+  await recordVideoUsage(ctx, video, await ctx.db.get(video._id));
+
+  // Activate coach intro videos that were waiting on this one
+  await resolvePendingIntroVideo(ctx, video._id, "ready");
+
+  console.log(
+    "Video ready:",
+    video._id,
+    "Playback ID:",
+    playbackId,
+    "Duration:",
+    args.duration
+  );
+
+  return true;
+}
+
+/**
+ * Handle video.asset.errored
+ *
+ * Called when Mux encounters an error processing the video.
+ * Updates video record with error status and message.
+ */
+async function applyAssetErrored(
+  ctx: MutationCtx,
+  args: { assetId: string; errors?: any }
+) {
+  const errorMessage =
+    args.errors?.messages?.[0] ||
+    args.errors?.message ||
+    "Unknown encoding error";
+
+  const replacing = await findReplacementByAssetId(ctx, args.assetId);
+  if (replacing) {
+    await applyReplacementFailed(ctx, replacing, errorMessage);
+    return true;
+  }
+
+  const video = await findVideoByAssetId(ctx, args.assetId);
+  if (!video) {
+    return false;
+  }
+
+  await ctx.db.patch(video._id, {
+    status: "error",
+    errorMessage,
+    updatedAt: Date.now(),
+  });
+
+  await recordVideoUsage(ctx, video, await ctx.db.get(video._id));
+
+  await resolvePendingIntroVideo(ctx, video._id, "error");
+
+  console.error("Video processing error:", video._id, "Error:", errorMessage);
+
+  return true;
+}
+
+/**
+ * Handle video.asset.updated
+ *
+ * Syncs asset metadata changed outside of encoding (e.g. playback IDs
+ * added or removed in the Mux dashboard). Playback fields are only synced
+ * once the video is ready - video.asset.ready sets them initially.
+ */
+async function applyAssetUpdated(
+  ctx: MutationCtx,
+  args: {
+    assetId: string;
+    playbackIds?: PlaybackIds;
+    duration?: number;
+    aspectRatio?: string;
+  }
+) {
+  // Replacement assets are synced by video.asset.ready when swapped in
+  if (await findReplacementByAssetId(ctx, args.assetId)) {
+    return true;
+  }
+
+  const video = await findVideoByAssetId(ctx, args.assetId);
+  if (!video) {
+    return false;
+  }
+
+  const playback =
+    video.status === "ready" && args.playbackIds
+      ? selectPlayback(video, args.playbackIds)
+      : null;
+
+  await ctx.db.patch(video._id, {
+    ...(args.duration !== undefined && { duration: args.duration }),
+    ...(args.aspectRatio !== undefined && { aspectRatio: args.aspectRatio }),
+    ...(playback && {
+      muxPlaybackId: playback.playbackId,
+      thumbnailUrl: playback.thumbnailUrl,
+    }),
+    updatedAt: Date.now(),
+  });
+
+  await recordVideoUsage(ctx, video, await ctx.db.get(video._id));
+
+  console.log("Video updated from Mux:", video._id);
+
+  return true;
+}
+
+/**
+ * Handle video.asset.deleted
+ *
+ * The asset is gone from Mux (e.g. deleted in the Mux dashboard): the
+ * video can no longer play, so it's marked as failed and its playback
+ * fields are cleared. Videos deleted in EKVI (deleteVideo) no longer have
+ * a row - nothing to reflect.
+ */
+async function applyAssetDeleted(ctx: MutationCtx, args: { assetId: string }) {
+  const replacing = await findReplacementByAssetId(ctx, args.assetId);
+  if (replacing) {
+    await applyReplacementFailed(
+      ctx,
+      replacing,
+      "New version was deleted from Mux - replace the video again"
+    );
+    return true;
+  }
+
+  const video = await ctx.db
+    .query("videos")
+    .withIndex("by_muxAssetId", (q) => q.eq("muxAssetId", args.assetId))
+    .first();
+
+  if (!video) {
+    console.log("Deleted asset has no video:", args.assetId);
+    return true;
+  }
+
+  await ctx.db.patch(video._id, {
+    status: "error",
+    errorMessage: "Video was deleted from Mux - upload it again",
+    muxPlaybackId: undefined,
+    thumbnailUrl: undefined,
+    staticRenditions: undefined,
+    updatedAt: Date.now(),
+  });
+
+  await recordVideoUsage(ctx, video, await ctx.db.get(video._id));
+
+  await deleteVideoTracks(ctx, video._id);
+
+  await resolvePendingIntroVideo(ctx, video._id, "error");
+
+  console.error("Video asset deleted from Mux:", video._id);
+
+  return true;
+}
+
+/**
+ * Handle video.asset.static_renditions.ready
+ *
+ * Records the downloadable MP4/M4A files that are ready, e.g. "high.mp4"
+ * (served from https://stream.mux.com/{playbackId}/{name}).
+ */
+async function applyStaticRenditionsReady(
+  ctx: MutationCtx,
+  args: { assetId: string; files: Array<{ name?: string; status?: string }> }
+) {
+  const video = await findVideoByAssetId(ctx, args.assetId);
+  if (!video) {
+    return false;
+  }
+
+  const staticRenditions = args.files
+    .filter((file) => file.name && (file.status ?? "ready") === "ready")
+    .map((file) => file.name as string);
+
+  await ctx.db.patch(video._id, {
+    staticRenditions,
+    updatedAt: Date.now(),
+  });
+
+  console.log("Static renditions ready:", video._id, staticRenditions);
+
+  return true;
+}
+
+/**
+ * Find Track Row (Helper)
+ *
+ * The row of a Mux track: by its Mux ID, or else the row still waiting
+ * for createMuxTrack to link it (same language and source) - webhooks can
+ * arrive before the action stored the ID.
+ */
+async function findTrackRow(
+  ctx: MutationCtx,
+  videoId: Id<"videos">,
+  track: { muxTrackId: string; languageCode: string; source: TrackSource }
+) {
+  const linked = await ctx.db
+    .query("videoTracks")
+    .withIndex("by_muxTrackId", (q) => q.eq("muxTrackId", track.muxTrackId))
+    .first();
+  if (linked) {
+    return linked;
+  }
+
+  return await ctx.db
+    .query("videoTracks")
+    .withIndex("by_videoId", (q) => q.eq("videoId", videoId))
+    .filter((q) =>
+      q.and(
+        q.eq(q.field("muxTrackId"), undefined),
+        q.eq(q.field("languageCode"), track.languageCode),
+        q.eq(q.field("source"), track.source)
+      )
+    )
+    .first();
+}
+
+/**
+ * Handle video.asset.track.created / ready / errored
+ *
+ * Updates the text track's row (subtitles/captions); tracks created
+ * outside EKVI (Mux dashboard, embedded captions) get a row too.
+ * "created" never downgrades a track that is already ready. Audio and
+ * video tracks need no bookkeeping.
+ */
+async function applyTrackEvent(
+  ctx: MutationCtx,
+  type: string,
+  data: MuxTrackData
+) {
+  if (data.type !== "text" || !data.language_code) {
+    return true;
+  }
+
+  const video = await findVideoByAssetId(ctx, data.asset_id);
+  if (!video) {
+    return false;
+  }
+
+  const source: TrackSource = data.text_source?.startsWith("generated")
+    ? "generated"
+    : "uploaded";
+  const status = TRACK_EVENT_STATUS[type] ?? null;
+  const errorMessage =
+    status === "errored"
+      ? data.error?.messages?.join(", ") || "Track processing failed"
+      : undefined;
+  const now = Date.now();
+
+  const existing = await findTrackRow(ctx, video._id, {
+    muxTrackId: data.id,
+    languageCode: data.language_code,
+    source,
+  });
+
+  if (existing) {
+    await ctx.db.patch(existing._id, {
+      muxTrackId: data.id,
+      ...(status && { status, errorMessage }),
+      updatedAt: now,
+    });
+  } else {
+    await ctx.db.insert("videoTracks", {
+      videoId: video._id,
+      muxTrackId: data.id,
+      source,
+      languageCode: data.language_code,
+      name: data.name || data.language_code,
+      closedCaptions: data.closed_captions ?? false,
+      status: status ?? "preparing",
+      errorMessage,
+      createdAt: now,
+      updatedAt: now,
+    });
+  }
+
+  console.log("Text track", status ?? "created", video._id, data.language_code);
+
+  return true;
+}
+
+/**
+ * Handle video.asset.track.deleted
+ *
+ * Removes the track's row. Tracks deleted in EKVI (deleteCaptionTrack)
+ * no longer have a row - nothing to do.
+ */
+async function applyTrackDeleted(
+  ctx: MutationCtx,
+  args: { muxTrackId: string }
+) {
+  const track = await ctx.db
+    .query("videoTracks")
+    .withIndex("by_muxTrackId", (q) => q.eq("muxTrackId", args.muxTrackId))
+    .first();
+
+  if (track) {
+    await deleteTrackRow(ctx, track);
+  }
+
+  return true;
+}
+
+// ============================================================================
+// REPLACEMENT HANDLERS
+// ============================================================================
+
+type Replacing = { video: Doc<"videos">; replacement: VideoReplacement };
+
+/**
+ * Handle video.upload.asset_created for a Replacement
+ *
+ * Links the new asset to the replacement, then replays its events that
+ * arrived first (e.g. video.asset.ready).
+ */
+async function applyReplacementAssetCreated(
+  ctx: MutationCtx,
+  { video, replacement }: Replacing,
+  assetId: string
+) {
+  await ctx.db.patch(video._id, {
+    replacement: { ...replacement, muxAssetId: assetId, status: "processing" },
+    updatedAt: Date.now(),
+  });
+
+  console.log(
+    "Replacement processing started:",
+    video._id,
+    "Asset ID:",
+    assetId
+  );
+
+  await replayParkedEvents(ctx, assetId);
+
+  return true;
+}
+
+/**
+ * Replacement Failed (Helper)
+ *
+ * Records why the new upload or asset failed. The video keeps playing its
+ * current asset; the owner cancels the replacement (which deletes the
+ * failed asset) or starts another one.
+ */
+async function applyReplacementFailed(
+  ctx: MutationCtx,
+  { video, replacement }: Replacing,
+  errorMessage: string
+) {
+  await ctx.db.patch(video._id, {
+    replacement: { ...replacement, status: "error", errorMessage },
+    updatedAt: Date.now(),
+  });
+
+  console.error("Video replacement failed:", video._id, "Error:", errorMessage);
+}
+
+/**
+ * Handle video.asset.ready for a Replacement
+ *
+ * Swaps the new asset into the video in one patch, so viewers go straight
+ * from the old source to the new one, then deletes the old asset from Mux.
+ * Caption tracks are created again on the new asset (reattachVideoTracks).
+ * What only fits the old source goes with it: static renditions, chapters
+ * past the new end and a thumbnail frame past the new end (back to the
+ * middle frame).
+ */
+async function applyReplacementReady(
+  ctx: MutationCtx,
+  { video, replacement }: Replacing,
+  args: {
+    assetId: string;
+    playbackIds: PlaybackIds;
+    duration?: number;
+    aspectRatio?: string;
+  }
+) {
+  const duration = args.duration ?? Number.POSITIVE_INFINITY;
+  const thumbnailTime =
+    video.thumbnailTime !== undefined && video.thumbnailTime < duration
+      ? video.thumbnailTime
+      : undefined;
+  const { policy, playbackId, thumbnailUrl } = selectPlayback(
+    { ...video, thumbnailTime },
+    args.playbackIds
+  );
+
+  if (!playbackId) {
+    await applyReplacementFailed(
+      ctx,
+      { video, replacement },
+      `New version has no ${policy} playback ID`
+    );
+    return true;
+  }
+
+  await ctx.db.patch(video._id, {
+    muxAssetId: args.assetId,
+    muxUploadId: replacement.muxUploadId,
+    muxPlaybackId: playbackId,
+    status: "ready",
+    duration: args.duration,
+    aspectRatio: args.aspectRatio,
+    thumbnailUrl,
+    thumbnailTime,
+    staticRenditions: undefined,
+    errorMessage: undefined,
+    replacement: undefined,
+    updatedAt: Date.now(),
+  });
+
+  await recordVideoUsage(ctx, video, await ctx.db.get(video._id));
+
+  await reattachVideoTracks(ctx, video._id);
+  await deleteChaptersFrom(ctx, video._id, duration);
+
+  if (video.muxAssetId) {
+    await ctx.scheduler.runAfter(0, internal.mux.actions.deleteMuxAsset, {
+      assetId: video.muxAssetId,
+    });
+  }
+
+  // The old source may have failed meanwhile (e.g. deleted from Mux)
+  await resolvePendingIntroVideo(ctx, video._id, "ready");
+
+  // e.g. static renditions of the new asset, parked until it was swapped in
+  await replayParkedEvents(ctx, args.assetId);
+
+  console.log("Video source replaced:", video._id, "Asset ID:", args.assetId);
+
+  return true;
+}
+
+// ============================================================================
+// INTERNAL MUTATIONS
+// ============================================================================
+
+/**
+ * Apply Reconciled Event
+ *
+ * Applies the event Mux would have sent for a video's current upload or
+ * asset state (see mux/reconcile.ts). Bypasses the event log - there is no
+ * Mux event ID.
+ *
+ * @returns The webhook outcome
+ */
+export const applyReconciledEvent = internalMutation({
+  args: {
+    type: v.string(),
+    data: v.any(),
+  },
+  handler: async (ctx, args): Promise<WebhookOutcome> =>
+    await applyMuxEvent(ctx, args.type, args.data),
+});
+
+/**
+ * Handle video.upload.asset_created Webhook
+ *
+ * Applies the event directly, bypassing the event log.
+ *
+ * @returns Whether the video was found
  */
 export const handleUploadAssetCreated = internalMutation({
   args: {
     uploadId: v.string(),
     assetId: v.string(),
   },
-  handler: async (ctx, args) => {
-    const video = await ctx.db
-      .query("videos")
-      .withIndex("by_muxUploadId", (q) => q.eq("muxUploadId", args.uploadId))
-      .first();
-
-    if (!video) {
-      console.error("Video not found for upload ID:", args.uploadId);
-      return;
-    }
+  handler: async (ctx, args) => await applyUploadAssetCreated(ctx, args),
+});
 
-    // Update with asset ID and processing status
-    await ctx.db.patch(video._id, {
-      muxAssetId: args.assetId,
-      status: "processing",
-      updatedAt: Date.now(),
-    });
+/**
+ * Handle video.upload.cancelled Webhook
+ *
+ * Applies the event directly, bypassing the event log.
+ *
+ * @returns Whether the video was found
+ */
+export const handleUploadCancelled = internalMutation({
+  args: {
+    uploadId: v.string(),
+  },
+  handler: async (ctx, args) =>
+    await applyUploadFailed(ctx, {
+      uploadId: args.uploadId,
+      errorMessage: "Upload was cancelled",
+    }),
+});
 
-    console.log(
-      "Video processing started:",
-      video._id,
-      "Asset ID:",
-      args.assetId
-    );
+/**
+ * Handle video.upload.errored Webhook
+ *
+ * Applies the event directly, bypassing the event log.
+ *
+ * @returns Whether the video was found
+ */
+export const handleUploadErrored = internalMutation({
+  args: {
+    uploadId: v.string(),
+    error: v.optional(v.any()),
   },
+  handler: async (ctx, args) =>
+    await applyUploadFailed(ctx, {
+      uploadId: args.uploadId,
+      errorMessage: args.error?.message || "Upload failed",
+    }),
 });
 
 /**
  * Handle video.asset.ready Webhook
  *
- * Called when Mux finishes encoding the video.
- * Updates video record with playback ID and metadata.
+ * Applies the event directly, bypassing the event log.
+ *
+ * @returns Whether the video was found
  */
 export const handleAssetReady = internalMutation({
   args: {
@@ -59,84 +884,117 @@ export const handleAssetReady = internalMutation({
     duration: v.optional(v.number()),
     aspectRatio: v.optional(v.string()),
   },
-  handler: async (ctx, args) => {
-    const video = await ctx.db
-      .query("videos")
-      .withIndex("by_muxAssetId", (q) => q.eq("muxAssetId", args.assetId))
-      .first();
-
-    if (!video) {
-      console.error("Video not found for asset ID:", args.assetId);
-      return;
-    }
-
-    const publicPlayback = args.playbackIds.find(
-      (p: { policy: string }) => p.policy === "public"
-    );
-    const playbackId = publicPlayback?.id;
-
-    if (!playbackId) {
-      console.error("No public playback ID found for asset:", args.assetId);
-      // Still mark as ready but without playback ID
-    }
-
-    const thumbnailUrl = playbackId
-      ? `https://image.mux.com/${playbackId}/thumbnail.jpg?time=0`
-      : undefined;
-
-    await ctx.db.patch(video._id, {
-      status: "ready",
-      muxPlaybackId: playbackId,
-      duration: args.duration,
-      aspectRatio: args.aspectRatio,
-      thumbnailUrl,
-      updatedAt: Date.now(),
-    });
-
-    console.log(
-      "Video ready:",
-      video._id,
-      "Playback ID:",
-      playbackId,
-      "Duration:",
-      args.duration
-    );
-  },
+  handler: async (ctx, args) => await applyAssetReady(ctx, args),
 });
 
 /**
  * Handle video.asset.errored Webhook
  *
- * Called when Mux encounters an error processing the video.
- * Updates video record with error status and message.
+ * Applies the event directly, bypassing the event log.
+ *
+ * @returns Whether the video was found
  */
 export const handleAssetErrored = internalMutation({
   args: {
     assetId: v.string(),
     errors: v.optional(v.any()),
   },
-  handler: async (ctx, args) => {
-    const video = await ctx.db
-      .query("videos")
-      .withIndex("by_muxAssetId", (q) => q.eq("muxAssetId", args.assetId))
-      .first();
-
-    if (!video) {
-      console.error("Video not found for asset ID:", args.assetId);
-      return;
-    }
+  handler: async (ctx, args) => await applyAssetErrored(ctx, args),
+});
+
+/**
+ * Handle video.asset.updated Webhook
+ *
+ * Applies the event directly, bypassing the event log.
+ *
+ * @returns Whether the video was found
+ */
+export const handleAssetUpdated = internalMutation({
+  args: {
+    assetId: v.string(),
+    playbackIds: v.optional(v.array(v.any())),
+    duration: v.optional(v.number()),
+    aspectRatio: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => await applyAssetUpdated(ctx, args),
+});
 
-    const errorMessage =
-      args.errors?.messages?.[0] ||
-      args.errors?.message ||
-      "Unknown encoding error";
+/**
+ * Handle video.asset.deleted Webhook
+ *
+ * Applies the event directly, bypassing the event log.
+ *
+ * @returns Always true - deleted assets without a video need no retry
+ */
+export const handleAssetDeleted = internalMutation({
+  args: {
+    assetId: v.string(),
+  },
+  handler: async (ctx, args) => await applyAssetDeleted(ctx, args),
+});
 
-    await ctx.db.patch(video._id, {
-      status: "error",
-      errorMessage,
-      updatedAt: Date.now(),
-    });
+/**
+ * Handle video.asset.static_renditions.ready Webhook
+ *
+ * Applies the event directly, bypassing the event log.
+ *
+ * @returns Whether the video was found
+ */
+export const handleStaticRenditionsReady = internalMutation({
+  args: {
+    assetId: v.string(),
+    files: v.array(v.any()),
+  },
+  handler: async (ctx, args) => await applyStaticRenditionsReady(ctx, args),
+});
 
-    console.error("Video processing error:", video._id, "Error:", errorMessage);
+/**
+ * Handle video.asset.track.created / ready / errored Webhooks
+ *
+ * Applies the event directly, bypassing the event log.
+ *
+ * @returns Whether the video was found (always true for non-text tracks)
+ */
+export const handleTrackEvent = internalMutation({
+  args: {
+    type: v.union(
+      v.literal("video.asset.track.created"),
+      v.literal("video.asset.track.ready"),
+      v.literal("video.asset.track.errored")
+    ),
+    trackId: v.string(),
+    assetId: v.string(),
+    trackType: v.optional(v.string()),
+    textSource: v.optional(v.string()),
+    languageCode: v.optional(v.string()),
+    name: v.optional(v.string()),
+    closedCaptions: v.optional(v.boolean()),
+    errorMessages: v.optional(v.array(v.string())),
+  },
+  handler: async (ctx, args) =>
+    await applyTrackEvent(ctx, args.type, {
+      id: args.trackId,
+      asset_id: args.assetId,
+      type: args.trackType,
+      text_source: args.textSource,
+      language_code: args.languageCode,
+      name: args.name,
+      closed_captions: args.closedCaptions,
+      error: args.errorMessages && { messages: args.errorMessages },
+    }),
+});
+
+/**
+ * Handle video.asset.track.deleted Webhook
+ *
+ * Applies the event directly, bypassing the event log.
+ *
+ * @returns Always true - tracks deleted in EKVI have no row to remove
+ */
+export const handleTrackDeleted = internalMutation({
+  args: {
+    trackId: v.string(),
   },
+  handler: async (ctx, args) =>
+    await applyTrackDeleted(ctx, { muxTrackId: args.trackId }),
 });
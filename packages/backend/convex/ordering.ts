@@ -0,0 +1,81 @@
+import type { Doc } from "./_generated/dataModel";
+import type { MutationCtx } from "./_generated/server";
+
+/**
+ * Ordering Helpers
+ *
+ * Shared logic for maintaining the `order` field on programModules, workouts,
+ * workoutExercises and workoutBlocks.
+ *
+ * Invariant: siblings (modules in a program, workouts in a module, exercises
+ * and blocks in a workout container) always use contiguous orders 0..n-1
+ * with no duplicates.
+ *
+ * Concurrency: every mutation that changes ordering reads the full sibling
+ * list through the ordered index before writing. Convex mutations are
+ * serializable, so two overlapping edits (e.g. a coach reordering in two tabs)
+ * conflict and one is retried against the updated list instead of producing
+ * duplicate or gapped orders.
+ */
+
+type OrderedDoc =
+  | Doc<"programModules">
+  | Doc<"workouts">
+  | Doc<"workoutExercises">
+  | Doc<"workoutBlocks">;
+
+/**
+ * Rewrite orders so the given (already sorted) siblings use 0..n-1.
+ * Only patches documents whose order actually changes.
+ */
+export async function resequence(ctx: MutationCtx, siblings: OrderedDoc[]) {
+  const now = Date.now();
+
+  for (const [index, doc] of siblings.entries()) {
+    if (doc.order !== index) {
+      await ctx.db.patch(doc._id, { order: index, updatedAt: now });
+    }
+  }
+}
+
+/**
+ * Apply a client-requested ordering.
+ *
+ * The requested IDs must be exactly the current siblings. A mismatch means the
+ * client is working from a stale list (another tab added, removed or moved an
+ * item), so we reject instead of guessing.
+ *
+ * @throws Error if requested IDs don't match the current siblings
+ */
+export async function applyRequestedOrder<T extends OrderedDoc>(
+  ctx: MutationCtx,
+  siblings: T[],
+  requestedIds: T["_id"][]
+) {
+  const byId = new Map<string, T>(siblings.map((doc) => [doc._id, doc]));
+  const uniqueRequested = new Set<string>(requestedIds);
+
+  if (
+    requestedIds.length !== siblings.length ||
+    uniqueRequested.size !== requestedIds.length ||
+    requestedIds.some((id) => !byId.has(id))
+  ) {
+    throw new Error("Order is out of date - refresh and try again");
+  }
+
+  await resequence(
+    ctx,
+    requestedIds.map((id) => byId.get(id) as T)
+  );
+}
+
+/**
+ * Clamp a requested insert position to a valid index for a list of `length`.
+ * Undefined means "append to the end".
+ */
+export function clampIndex(index: number | undefined, length: number) {
+  if (index === undefined) {
+    return length;
+  }
+  return Math.max(0, Math.min(Math.floor(index), length));
+}
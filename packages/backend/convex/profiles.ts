@@ -1,5 +1,6 @@
 import { v } from "convex/values";
 import { components } from "./_generated/api";
+import type { Doc, Id } from "./_generated/dataModel";
 import type { MutationCtx, QueryCtx } from "./_generated/server";
 import { mutation, query } from "./_generated/server";
 import { authComponent } from "./auth";
@@ -30,6 +31,168 @@ export async function getCurrentUserProfile(ctx: QueryCtx | MutationCtx) {
   return { authUser, profile };
 }
 
+/**
+ * Require Admin (Helper)
+ *
+ * @throws Error if the current user is not an admin
+ * @returns The admin's profile
+ */
+export async function requireAdmin(ctx: QueryCtx | MutationCtx) {
+  const { profile } = await getCurrentUserProfile(ctx);
+
+  if (profile.role !== "admin") {
+    throw new Error("Admin access required");
+  }
+
+  return profile;
+}
+
+const MAX_SPECIALTIES = 10;
+const MAX_CERTIFICATIONS = 20;
+const MAX_LABEL_LENGTH = 100; // Single specialty / certification
+const MAX_COACH_BIO_LENGTH = 2000;
+const MIN_COACH_AGE = 18;
+
+type CoachProfileFields = Pick<
+  Doc<"coachProfiles">,
+  "specialties" | "certifications" | "dateOfBirth" | "bio"
+>;
+
+/**
+ * Normalize Coach Profile (Helper)
+ *
+ * Trims and de-duplicates specialties/certifications and trims the bio,
+ * then validates the result.
+ *
+ * @throws Error describing the first invalid field
+ * @returns Normalized fields, ready to store
+ */
+function normalizeCoachProfile(fields: CoachProfileFields): CoachProfileFields {
+  const clean = (values: string[]) => [
+    ...new Set(values.map((value) => value.trim()).filter(Boolean)),
+  ];
+  const specialties = clean(fields.specialties);
+  const certifications = clean(fields.certifications);
+  const bio = fields.bio.trim();
+
+  if (specialties.length === 0) {
+    throw new Error("Add at least one specialty");
+  }
+  if (specialties.length > MAX_SPECIALTIES) {
+    throw new Error(`Add at most ${MAX_SPECIALTIES} specialties`);
+  }
+  if (certifications.length > MAX_CERTIFICATIONS) {
+    throw new Error(`Add at most ${MAX_CERTIFICATIONS} certifications`);
+  }
+  if (
+    [...specialties, ...certifications].some(
+      (value) => value.length > MAX_LABEL_LENGTH
+    )
+  ) {
+    throw new Error(
+      `Specialties and certifications must be at most ${MAX_LABEL_LENGTH} characters`
+    );
+  }
+
+  if (!bio) {
+    throw new Error("Coach bio is required");
+  }
+  if (bio.length > MAX_COACH_BIO_LENGTH) {
+    throw new Error(
+      `Coach bio must be at most ${MAX_COACH_BIO_LENGTH} characters`
+    );
+  }
+
+  const latestBirthDate = new Date();
+  latestBirthDate.setFullYear(latestBirthDate.getFullYear() - MIN_COACH_AGE);
+  if (
+    !Number.isFinite(fields.dateOfBirth) ||
+    fields.dateOfBirth > latestBirthDate.getTime()
+  ) {
+    throw new Error(`Coaches must be at least ${MIN_COACH_AGE} years old`);
+  }
+
+  return { specialties, certifications, bio, dateOfBirth: fields.dateOfBirth };
+}
+
+/**
+ * Get Current Coach Profile (Helper)
+ *
+ * Resolves the authenticated user's profile and their coachProfiles entry.
+ * Use for coach-only operations (program authoring, content ownership).
+ *
+ * @throws Error if user is not a coach or coach onboarding is incomplete
+ * @returns Object containing authUser, profile and coachProfile
+ */
+export async function getCurrentCoachProfile(ctx: QueryCtx | MutationCtx) {
+  const { authUser, profile } = await getCurrentUserProfile(ctx);
+
+  if (profile.role !== "coach") {
+    throw new Error("Coach access required");
+  }
+
+  const coachProfile = await ctx.db
+    .query("coachProfiles")
+    .withIndex("by_profileId", (q) => q.eq("profileId", profile._id))
+    .first();
+
+  if (!coachProfile) {
+    throw new Error(
+      "Coach profile not found - complete coach onboarding first"
+    );
+  }
+
+  return { authUser, profile, coachProfile };
+}
+
+/**
+ * Resolve Pending Intro Video (Helper)
+ *
+ * Called from the Mux webhook handlers once a video finishes processing.
+ * Coach profiles waiting on this video either get it as their intro video
+ * (ready) or drop the pending link (errored, the current intro stays).
+ */
+export async function resolvePendingIntroVideo(
+  ctx: MutationCtx,
+  videoId: Id<"videos">,
+  outcome: "ready" | "error"
+) {
+  const waiting = await ctx.db
+    .query("coachProfiles")
+    .withIndex("by_pendingIntroVideoId", (q) =>
+      q.eq("pendingIntroVideoId", videoId)
+    )
+    .collect();
+
+  for (const coachProfile of waiting) {
+    await ctx.db.patch(coachProfile._id, {
+      ...(outcome === "ready" && { introVideoId: videoId }),
+      pendingIntroVideoId: undefined,
+      updatedAt: Date.now(),
+    });
+  }
+}
+
+/**
+ * Clear Intro Video (Helper)
+ *
+ * Called when a video is deleted: coach profiles using it as their intro
+ * video are left without one.
+ */
+export async function clearIntroVideo(ctx: MutationCtx, videoId: Id<"videos">) {
+  const coachProfiles = await ctx.db
+    .query("coachProfiles")
+    .withIndex("by_introVideoId", (q) => q.eq("introVideoId", videoId))
+    .collect();
+
+  for (const coachProfile of coachProfiles) {
+    await ctx.db.patch(coachProfile._id, {
+      introVideoId: undefined,
+      updatedAt: Date.now(),
+    });
+  }
+}
+
 // Get full user (auth + profile)
 export const getCurrentUser = query({
   args: { needImageUrl: v.optional(v.boolean()) },
@@ -59,6 +222,15 @@ export const getCurrentUser = query({
       };
     }
 
+    // Coaches finish onboarding with a second step (createCoachProfile)
+    const coachProfile =
+      profile.role === "coach"
+        ? await ctx.db
+            .query("coachProfiles")
+            .withIndex("by_profileId", (q) => q.eq("profileId", profile._id))
+            .first()
+        : null;
+
     const needUrl = args.needImageUrl ?? true;
     const profileImageUrl =
       needUrl && profile.profileImage
@@ -80,6 +252,7 @@ export const getCurrentUser = query({
         profileImage: profileImageUrl,
         role: profile.role,
         location: profile.location,
+        needsCoachProfile: profile.role === "coach" && !coachProfile,
       },
     };
   },
@@ -177,6 +350,142 @@ export const updateProfile = mutation({
   },
 });
 
+// Get the current coach's extended profile (null until coach onboarding is done)
+export const getMyCoachProfile = query({
+  args: {},
+  handler: async (ctx) => {
+    const { profile } = await getCurrentUserProfile(ctx);
+
+    return await ctx.db
+      .query("coachProfiles")
+      .withIndex("by_profileId", (q) => q.eq("profileId", profile._id))
+      .first();
+  },
+});
+
+// Create coach profile (second onboarding step for coaches)
+export const createCoachProfile = mutation({
+  args: {
+    specialties: v.array(v.string()),
+    certifications: v.array(v.string()),
+    dateOfBirth: v.number(), // Timestamp
+    bio: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const { profile } = await getCurrentUserProfile(ctx);
+
+    if (profile.role !== "coach") {
+      throw new Error("Coach access required");
+    }
+
+    // One coach profile per user profile
+    const existing = await ctx.db
+      .query("coachProfiles")
+      .withIndex("by_profileId", (q) => q.eq("profileId", profile._id))
+      .first();
+
+    if (existing) {
+      throw new Error("Coach profile already exists");
+    }
+
+    const fields = normalizeCoachProfile(args);
+
+    const now = Date.now();
+    return await ctx.db.insert("coachProfiles", {
+      profileId: profile._id,
+      ...fields,
+      createdAt: now,
+      updatedAt: now,
+    });
+  },
+});
+
+// Update coach profile (from settings)
+export const updateCoachProfile = mutation({
+  args: {
+    specialties: v.optional(v.array(v.string())),
+    certifications: v.optional(v.array(v.string())),
+    dateOfBirth: v.optional(v.number()),
+    bio: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const { coachProfile } = await getCurrentCoachProfile(ctx);
+
+    const fields = normalizeCoachProfile({
+      specialties: args.specialties ?? coachProfile.specialties,
+      certifications: args.certifications ?? coachProfile.certifications,
+      dateOfBirth: args.dateOfBirth ?? coachProfile.dateOfBirth,
+      bio: args.bio ?? coachProfile.bio,
+    });
+
+    await ctx.db.patch(coachProfile._id, {
+      ...fields,
+      updatedAt: Date.now(),
+    });
+
+    return { success: true };
+  },
+});
+
+// Attach one of the coach's own videos as their intro video.
+// Ready videos become active right away; videos still uploading/processing
+// are stored as pending and activated by the asset ready webhook.
+export const setCoachIntroVideo = mutation({
+  args: {
+    videoId: v.id("videos"),
+  },
+  handler: async (ctx, args) => {
+    const { profile, coachProfile } = await getCurrentCoachProfile(ctx);
+
+    const video = await ctx.db.get(args.videoId);
+    if (!video) {
+      throw new Error("Video not found");
+    }
+
+    if (video.uploadedBy !== profile._id) {
+      throw new Error("Unauthorized - you don't own this video");
+    }
+
+    if (video.status === "error") {
+      throw new Error(
+        "This video failed to process and can't be used as your intro video - upload it again"
+      );
+    }
+
+    if (video.status === "ready") {
+      await ctx.db.patch(coachProfile._id, {
+        introVideoId: video._id,
+        pendingIntroVideoId: undefined,
+        updatedAt: Date.now(),
+      });
+      return { status: "active" as const };
+    }
+
+    // Current intro video (if any) stays active until this one is ready
+    await ctx.db.patch(coachProfile._id, {
+      pendingIntroVideoId: video._id,
+      updatedAt: Date.now(),
+    });
+    return { status: "pending" as const };
+  },
+});
+
+// Remove the coach's intro video (and any pending one)
+export const removeCoachIntroVideo = mutation({
+  args: {},
+  handler: async (ctx) => {
+    const { coachProfile } = await getCurrentCoachProfile(ctx);
+
+    await ctx.db.patch(coachProfile._id, {
+      introVideoId: undefined,
+      pendingIntroVideoId: undefined,
+      updatedAt: Date.now(),
+    });
+
+    return { success: true };
+  },
+});
+
 // Get user by profile ID (for public profiles)
 export const getUserByProfileId = query({
   args: { profileId: v.id("userProfiles") },
@@ -0,0 +1,303 @@
+import { v } from "convex/values";
+import { internal } from "./_generated/api";
+import type { Doc, Id } from "./_generated/dataModel";
+import type { MutationCtx } from "./_generated/server";
+import { internalMutation, mutation } from "./_generated/server";
+import { getOwnedProgram } from "./programs";
+import { insertWorkoutContents, loadWorkoutContents } from "./workoutExercises";
+
+/**
+ * Program Duplication
+ *
+ * Deep-clones a program (program → modules → workouts → workout exercises
+ * and blocks) into a new draft.
+ * Videos, thumbnails and exercises are shared references, not copied.
+ *
+ * Large programs are copied in batches: the first batch runs inside
+ * duplicateProgram, and if the write budget runs out the rest continues in
+ * scheduled internal mutations. While batches are pending the new program
+ * has `copyingFromId` set, which blocks publishing (see programPublishing.ts).
+ *
+ * Batches walk the source through the by_program_order / by_module_order
+ * indexes, so copied modules and workouts keep their original `order`.
+ * Adding, removing or reordering modules and workouts would shift that
+ * cursor, so those edits are rejected on both programs until the copy is
+ * done (assertNotCopying in programs.ts).
+ */
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Target documents inserted per batch. Keeps each mutation well under
+ * Convex's per-transaction write limits. A workout is never split from its
+ * contents, so a batch may overshoot by one workout's worth.
+ */
+const DUPLICATE_BATCH_SIZE = 200;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+type CopyJob = {
+  sourceProgramId: Id<"programs">;
+  targetProgramId: Id<"programs">;
+};
+
+type CopyCursor = {
+  moduleOrder: number; // Source module currently being copied
+  workoutOrder: number; // Next source workout order within that module
+  targetModuleId?: Id<"programModules">; // Copy of the current module, once created
+};
+
+/**
+ * Copy a workout and its contents (prescriptions and blocks) into
+ * `targetModuleId`. Exercises and videos are shared references.
+ */
+async function copyWorkout(
+  ctx: MutationCtx,
+  workout: Doc<"workouts">,
+  contents: Awaited<ReturnType<typeof loadWorkoutContents>>,
+  targetModuleId: Id<"programModules">
+) {
+  const now = Date.now();
+  const workoutId = await ctx.db.insert("workouts", {
+    moduleId: targetModuleId,
+    title: workout.title,
+    description: workout.description,
+    instructions: workout.instructions,
+    order: workout.order,
+    videoId: workout.videoId, // Shared reference
+    duration: workout.duration,
+    difficulty: workout.difficulty,
+    createdAt: now,
+    updatedAt: now,
+  });
+
+  await insertWorkoutContents(ctx, contents, workoutId);
+}
+
+/**
+ * Copy one module (if not yet copied) and as many of its workouts (with
+ * their contents) as fit in `budget`, starting at the cursor position.
+ *
+ * @returns Number of documents written and the cursor to resume from
+ *          (null when the source has no module at cursor.moduleOrder)
+ */
+async function copyModuleSlice(
+  ctx: MutationCtx,
+  { sourceProgramId, targetProgramId }: CopyJob,
+  cursor: CopyCursor,
+  budget: number
+): Promise<{ written: number; next: CopyCursor | null }> {
+  const sourceModule = await ctx.db
+    .query("programModules")
+    .withIndex("by_program_order", (q) =>
+      q.eq("programId", sourceProgramId).eq("order", cursor.moduleOrder)
+    )
+    .first();
+
+  if (!sourceModule) {
+    return { written: 0, next: null };
+  }
+
+  const now = Date.now();
+  let written = 0;
+  let targetModuleId = cursor.targetModuleId;
+
+  if (!targetModuleId) {
+    targetModuleId = await ctx.db.insert("programModules", {
+      programId: targetProgramId,
+      title: sourceModule.title,
+      description: sourceModule.description,
+      order: sourceModule.order,
+      duration: sourceModule.duration,
+      createdAt: now,
+      updatedAt: now,
+    });
+    written += 1;
+  }
+
+  // Always fetch at least one workout so every slice makes progress
+  const limit = Math.max(budget - written, 1);
+  const workouts = await ctx.db
+    .query("workouts")
+    .withIndex("by_module_order", (q) =>
+      q.eq("moduleId", sourceModule._id).gte("order", cursor.workoutOrder)
+    )
+    .take(limit);
+
+  let resumeAt: number | null = null;
+  for (const workout of workouts) {
+    const contents = await loadWorkoutContents(ctx, workout._id);
+    const cost = 1 + contents.prescriptions.length + contents.blocks.length;
+
+    // Keep a workout and its contents in the same batch
+    if (written > 0 && written + cost > budget) {
+      resumeAt = workout.order;
+      break;
+    }
+
+    await copyWorkout(ctx, workout, contents, targetModuleId);
+    written += cost;
+  }
+
+  const lastWorkout = workouts.at(-1);
+  if (resumeAt === null && lastWorkout && workouts.length === limit) {
+    resumeAt = lastWorkout.order + 1;
+  }
+
+  // Fewer workouts than requested and all copied: this module is finished
+  if (resumeAt === null) {
+    return {
+      written,
+      next: { moduleOrder: cursor.moduleOrder + 1, workoutOrder: 0 },
+    };
+  }
+
+  return {
+    written,
+    next: {
+      moduleOrder: cursor.moduleOrder,
+      workoutOrder: resumeAt,
+      targetModuleId,
+    },
+  };
+}
+
+/**
+ * Copy Program Batch (Helper)
+ *
+ * Copies modules/workouts from the cursor until the source is exhausted or
+ * DUPLICATE_BATCH_SIZE documents were written. Schedules the next batch if
+ * needed, otherwise clears `copyingFromId` on the target.
+ *
+ * @returns true when the copy is complete
+ */
+async function copyProgramBatch(
+  ctx: MutationCtx,
+  job: CopyJob,
+  start: CopyCursor
+) {
+  let cursor: CopyCursor | null = start;
+  let written = 0;
+
+  while (cursor && written < DUPLICATE_BATCH_SIZE) {
+    const slice = await copyModuleSlice(
+      ctx,
+      job,
+      cursor,
+      DUPLICATE_BATCH_SIZE - written
+    );
+    written += slice.written;
+    cursor = slice.next;
+  }
+
+  if (cursor) {
+    await ctx.scheduler.runAfter(
+      0,
+      internal.programDuplication.continueProgramDuplication,
+      { ...job, cursor }
+    );
+    return false;
+  }
+
+  await ctx.db.patch(job.targetProgramId, {
+    copyingFromId: undefined,
+    updatedAt: Date.now(),
+  });
+  return true;
+}
+
+// ============================================================================
+// MUTATIONS
+// ============================================================================
+
+/**
+ * Duplicate Program
+ *
+ * Creates a new draft program titled "<title> (copy)" with copies of all
+ * modules and workouts in their original order.
+ *
+ * Returns the new program ID immediately. `isComplete` is false when the
+ * remaining modules/workouts are still being copied in scheduled batches.
+ */
+export const duplicateProgram = mutation({
+  args: {
+    programId: v.id("programs"),
+  },
+  handler: async (ctx, args) => {
+    const { program } = await getOwnedProgram(ctx, args.programId);
+
+    if (program.copyingFromId) {
+      throw new Error("Program is still being copied - try again shortly");
+    }
+
+    const now = Date.now();
+    const newProgramId = await ctx.db.insert("programs", {
+      coachProfileId: program.coachProfileId,
+      title: `${program.title} (copy)`,
+      description: program.description,
+      category: program.category,
+      level: program.level,
+      thumbnailId: program.thumbnailId, // Shared reference
+      previewVideoId: program.previewVideoId, // Shared reference
+      isPublished: false, // Copies always start as drafts
+      copyingFromId: program._id,
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    const isComplete = await copyProgramBatch(
+      ctx,
+      { sourceProgramId: program._id, targetProgramId: newProgramId },
+      { moduleOrder: 0, workoutOrder: 0 }
+    );
+
+    return { programId: newProgramId, isComplete };
+  },
+});
+
+// ============================================================================
+// INTERNAL MUTATIONS
+// ============================================================================
+
+/**
+ * Continue Program Duplication (Internal)
+ *
+ * Scheduled by copyProgramBatch to copy the next batch.
+ * Stops quietly if the copy was deleted in the meantime.
+ */
+export const continueProgramDuplication = internalMutation({
+  args: {
+    sourceProgramId: v.id("programs"),
+    targetProgramId: v.id("programs"),
+    cursor: v.object({
+      moduleOrder: v.number(),
+      workoutOrder: v.number(),
+      targetModuleId: v.optional(v.id("programModules")),
+    }),
+  },
+  handler: async (ctx, args) => {
+    const target = await ctx.db.get(args.targetProgramId);
+    if (!target) {
+      console.log("Program duplication stopped (copy deleted)");
+      return;
+    }
+
+    const source = await ctx.db.get(args.sourceProgramId);
+    if (!source) {
+      // Source deleted mid-copy: keep what was copied so far
+      await ctx.db.patch(target._id, {
+        copyingFromId: undefined,
+        updatedAt: Date.now(),
+      });
+      console.warn("Program duplication source deleted:", args.sourceProgramId);
+      return;
+    }
+
+    const { cursor, ...job } = args;
+    await copyProgramBatch(ctx, job, cursor);
+  },
+});
@@ -0,0 +1,177 @@
+import { v } from "convex/values";
+import type { Id } from "./_generated/dataModel";
+import type { MutationCtx, QueryCtx } from "./_generated/server";
+import { mutation } from "./_generated/server";
+import { applyRequestedOrder, clampIndex, resequence } from "./ordering";
+import { assertNotCopying, getOwnedProgram } from "./programs";
+import { deleteWorkoutContents } from "./workoutExercises";
+
+/**
+ * Program Modules - Coach Authoring API
+ *
+ * Add, edit, remove and reorder modules within a program.
+ * Module `order` is kept contiguous (0..n-1) - see ordering.ts.
+ */
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Get Owned Module (Helper)
+ *
+ * Loads a module and verifies the current coach owns its program.
+ *
+ * @throws Error if module not found or not owned by the current coach
+ * @returns Object containing profile, coachProfile, program and module
+ */
+export async function getOwnedModule(
+  ctx: QueryCtx | MutationCtx,
+  moduleId: Id<"programModules">
+) {
+  const programModule = await ctx.db.get(moduleId);
+  if (!programModule) {
+    throw new Error("Module not found");
+  }
+
+  const owned = await getOwnedProgram(ctx, programModule.programId);
+
+  return { ...owned, programModule };
+}
+
+/**
+ * List a program's modules sorted by order (via by_program_order index).
+ */
+export async function listProgramModules(
+  ctx: QueryCtx | MutationCtx,
+  programId: Id<"programs">
+) {
+  return await ctx.db
+    .query("programModules")
+    .withIndex("by_program_order", (q) => q.eq("programId", programId))
+    .collect();
+}
+
+// ============================================================================
+// MUTATIONS
+// ============================================================================
+
+/**
+ * Add Module
+ *
+ * Inserts a module at `index` (defaults to the end) and shifts later modules.
+ */
+export const addModule = mutation({
+  args: {
+    programId: v.id("programs"),
+    title: v.string(),
+    description: v.string(),
+    duration: v.optional(v.number()),
+    index: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const { program } = await getOwnedProgram(ctx, args.programId);
+    await assertNotCopying(ctx, program);
+
+    const siblings = await listProgramModules(ctx, args.programId);
+    const position = clampIndex(args.index, siblings.length);
+
+    const now = Date.now();
+    const moduleId = await ctx.db.insert("programModules", {
+      programId: args.programId,
+      title: args.title,
+      description: args.description,
+      duration: args.duration,
+      order: position,
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    const inserted = await ctx.db.get(moduleId);
+    if (inserted) {
+      siblings.splice(position, 0, inserted);
+    }
+    await resequence(ctx, siblings);
+
+    return moduleId;
+  },
+});
+
+/**
+ * Update Module
+ *
+ * Updates module title, description and estimated duration.
+ */
+export const updateModule = mutation({
+  args: {
+    moduleId: v.id("programModules"),
+    title: v.optional(v.string()),
+    description: v.optional(v.string()),
+    duration: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const { moduleId, ...updates } = args;
+    await getOwnedModule(ctx, moduleId);
+
+    await ctx.db.patch(moduleId, {
+      ...updates,
+      updatedAt: Date.now(),
+    });
+
+    return { success: true };
+  },
+});
+
+/**
+ * Remove Module
+ *
+ * Deletes a module and its workouts, then closes the gap in module order.
+ */
+export const removeModule = mutation({
+  args: {
+    moduleId: v.id("programModules"),
+  },
+  handler: async (ctx, args) => {
+    const { program, programModule } = await getOwnedModule(ctx, args.moduleId);
+    await assertNotCopying(ctx, program);
+
+    const workouts = await ctx.db
+      .query("workouts")
+      .withIndex("by_module", (q) => q.eq("moduleId", args.moduleId))
+      .collect();
+
+    for (const workout of workouts) {
+      await deleteWorkoutContents(ctx, workout._id);
+      await ctx.db.delete(workout._id);
+    }
+
+    await ctx.db.delete(args.moduleId);
+
+    const siblings = await listProgramModules(ctx, programModule.programId);
+    await resequence(ctx, siblings);
+
+    return { success: true, deletedWorkouts: workouts.length };
+  },
+});
+
+/**
+ * Reorder Modules
+ *
+ * Applies a full ordering of a program's modules (e.g. after drag-and-drop).
+ * `moduleIds` must contain every module of the program exactly once.
+ */
+export const reorderModules = mutation({
+  args: {
+    programId: v.id("programs"),
+    moduleIds: v.array(v.id("programModules")),
+  },
+  handler: async (ctx, args) => {
+    const { program } = await getOwnedProgram(ctx, args.programId);
+    await assertNotCopying(ctx, program);
+
+    const siblings = await listProgramModules(ctx, args.programId);
+    await applyRequestedOrder(ctx, siblings, args.moduleIds);
+
+    return { success: true };
+  },
+});
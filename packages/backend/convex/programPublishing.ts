@@ -0,0 +1,459 @@
+import { v } from "convex/values";
+import { internal } from "./_generated/api";
+import type { Doc, Id } from "./_generated/dataModel";
+import type { MutationCtx, QueryCtx } from "./_generated/server";
+import { internalMutation, mutation, query } from "./_generated/server";
+import { getOwnedProgram } from "./programs";
+
+/**
+ * Program Publishing
+ *
+ * Publish/unpublish workflow with a pre-publish validation pass.
+ *
+ * Validation failures are returned as a structured list of problems
+ * (not thrown) so the builder UI can show them inline next to the
+ * module, workout or media they refer to.
+ *
+ * Scheduled publishing: coaches can set a future publishAt. A scheduled
+ * function (ctx.scheduler.runAt) runs the same validation at that time and
+ * notifies the coach via the notifications table if it fails.
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type PublishProblemCode =
+  | "no_modules"
+  | "no_workouts"
+  | "missing_thumbnail"
+  | "video_missing"
+  | "video_not_ready"
+  | "copy_in_progress";
+
+export type PublishProblem = {
+  code: PublishProblemCode;
+  message: string;
+  moduleId?: Id<"programModules">;
+  workoutId?: Id<"workouts">;
+  videoId?: Id<"videos">;
+};
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Check a referenced video is playable (status "ready" with a playback ID).
+ */
+async function checkVideo(
+  ctx: QueryCtx | MutationCtx,
+  videoId: Id<"videos">,
+  label: string,
+  refs: Pick<PublishProblem, "moduleId" | "workoutId">
+): Promise<PublishProblem | null> {
+  const video = await ctx.db.get(videoId);
+
+  if (!video) {
+    return {
+      code: "video_missing",
+      message: `${label} video no longer exists`,
+      videoId,
+      ...refs,
+    };
+  }
+
+  if (video.status !== "ready" || !video.muxPlaybackId) {
+    return {
+      code: "video_not_ready",
+      message: `${label} video "${video.title}" is not ready for playback (status: ${video.status})`,
+      videoId,
+      ...refs,
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Check a workout's video and the demo videos of the exercises it
+ * prescribes (each exercise once) are playable.
+ */
+async function checkWorkoutVideos(
+  ctx: QueryCtx | MutationCtx,
+  workout: Doc<"workouts">
+): Promise<PublishProblem[]> {
+  const refs = { moduleId: workout.moduleId, workoutId: workout._id };
+  const problems: PublishProblem[] = [];
+
+  if (workout.videoId) {
+    const problem = await checkVideo(
+      ctx,
+      workout.videoId,
+      `Workout "${workout.title}"`,
+      refs
+    );
+    if (problem) {
+      problems.push(problem);
+    }
+  }
+
+  const prescriptions = await ctx.db
+    .query("workoutExercises")
+    .withIndex("by_workout", (q) => q.eq("workoutId", workout._id))
+    .collect();
+  const exerciseIds = new Set(prescriptions.map((p) => p.exerciseId));
+
+  for (const exerciseId of exerciseIds) {
+    const exercise = await ctx.db.get(exerciseId);
+    if (!exercise?.videoId) {
+      continue;
+    }
+    const problem = await checkVideo(
+      ctx,
+      exercise.videoId,
+      `Exercise "${exercise.name}" demo`,
+      refs
+    );
+    if (problem) {
+      problems.push(problem);
+    }
+  }
+
+  return problems;
+}
+
+/**
+ * Check program structure: at least one module and one workout, and every
+ * workout video and prescribed exercise demo video is playable.
+ */
+async function validateProgramContent(
+  ctx: QueryCtx | MutationCtx,
+  programId: Id<"programs">
+): Promise<PublishProblem[]> {
+  const modules = await ctx.db
+    .query("programModules")
+    .withIndex("by_program_order", (q) => q.eq("programId", programId))
+    .collect();
+
+  if (modules.length === 0) {
+    return [{ code: "no_modules", message: "Add at least one module" }];
+  }
+
+  const problems: PublishProblem[] = [];
+  let workoutCount = 0;
+
+  for (const programModule of modules) {
+    const workouts = await ctx.db
+      .query("workouts")
+      .withIndex("by_module_order", (q) => q.eq("moduleId", programModule._id))
+      .collect();
+
+    workoutCount += workouts.length;
+
+    for (const workout of workouts) {
+      problems.push(...(await checkWorkoutVideos(ctx, workout)));
+    }
+  }
+
+  if (workoutCount === 0) {
+    problems.push({ code: "no_workouts", message: "Add at least one workout" });
+  }
+
+  return problems;
+}
+
+/**
+ * Validate Program For Publish (Helper)
+ *
+ * Runs every pre-publish check and collects all problems found.
+ * An empty list means the program can go live.
+ *
+ * Checks:
+ * - Program is not still being copied (duplicateProgram batches)
+ * - Thumbnail is set and its files row exists
+ * - Preview video (if set) is "ready" with a muxPlaybackId
+ * - At least one module and at least one workout exist
+ * - Workout videos and the demo videos of prescribed exercises are
+ *   "ready" with a muxPlaybackId
+ */
+export async function validateProgramForPublish(
+  ctx: QueryCtx | MutationCtx,
+  program: Doc<"programs">
+): Promise<PublishProblem[]> {
+  // A partially copied program can't be validated (or published) yet
+  if (program.copyingFromId) {
+    return [
+      {
+        code: "copy_in_progress",
+        message: "Program is still being copied - try again shortly",
+      },
+    ];
+  }
+
+  const problems: PublishProblem[] = [];
+
+  // 1. Thumbnail
+  const thumbnail = program.thumbnailId
+    ? await ctx.db.get(program.thumbnailId)
+    : null;
+  if (!thumbnail) {
+    problems.push({
+      code: "missing_thumbnail",
+      message: "Add a thumbnail image before publishing",
+    });
+  }
+
+  // 2. Preview video
+  if (program.previewVideoId) {
+    const problem = await checkVideo(
+      ctx,
+      program.previewVideoId,
+      "Preview",
+      {}
+    );
+    if (problem) {
+      problems.push(problem);
+    }
+  }
+
+  // 3. Modules, workouts, workout and exercise demo videos
+  problems.push(...(await validateProgramContent(ctx, program._id)));
+
+  return problems;
+}
+
+/**
+ * Cancel a pending scheduled publish (if any) and clear the schedule fields.
+ * Does not touch isPublished or updatedAt - callers patch those themselves.
+ */
+async function clearPublishSchedule(
+  ctx: MutationCtx,
+  program: Doc<"programs">
+) {
+  if (program.publishJobId) {
+    await ctx.scheduler.cancel(program.publishJobId);
+  }
+
+  if (program.publishAt !== undefined || program.publishJobId !== undefined) {
+    await ctx.db.patch(program._id, {
+      publishAt: undefined,
+      publishJobId: undefined,
+    });
+  }
+}
+
+// ============================================================================
+// QUERIES
+// ============================================================================
+
+/**
+ * Get Publish Readiness
+ *
+ * Runs validation without publishing, so the builder can show
+ * problems inline while the coach edits.
+ */
+export const getPublishReadiness = query({
+  args: {
+    programId: v.id("programs"),
+  },
+  handler: async (ctx, args) => {
+    const { program } = await getOwnedProgram(ctx, args.programId);
+
+    const problems = await validateProgramForPublish(ctx, program);
+
+    return {
+      isPublished: program.isPublished,
+      publishAt: program.publishAt,
+      canPublish: problems.length === 0,
+      problems,
+    };
+  },
+});
+
+// ============================================================================
+// MUTATIONS
+// ============================================================================
+
+/**
+ * Publish Program
+ *
+ * Validates the program and publishes it if no problems are found.
+ * Returns the problem list instead of throwing when validation fails.
+ */
+export const publishProgram = mutation({
+  args: {
+    programId: v.id("programs"),
+  },
+  handler: async (ctx, args) => {
+    const { program } = await getOwnedProgram(ctx, args.programId);
+
+    const problems = await validateProgramForPublish(ctx, program);
+    if (problems.length > 0) {
+      return { success: false as const, problems };
+    }
+
+    // Publishing now supersedes any scheduled publish
+    await clearPublishSchedule(ctx, program);
+
+    await ctx.db.patch(program._id, {
+      isPublished: true,
+      updatedAt: Date.now(),
+    });
+
+    return { success: true as const, problems };
+  },
+});
+
+/**
+ * Unpublish Program
+ *
+ * Takes a program off the marketplace (back to draft).
+ */
+export const unpublishProgram = mutation({
+  args: {
+    programId: v.id("programs"),
+  },
+  handler: async (ctx, args) => {
+    const { program } = await getOwnedProgram(ctx, args.programId);
+
+    await clearPublishSchedule(ctx, program);
+
+    await ctx.db.patch(args.programId, {
+      isPublished: false,
+      updatedAt: Date.now(),
+    });
+
+    return { success: true };
+  },
+});
+
+/**
+ * Schedule Publish
+ *
+ * Schedules the program to go live at `publishAt`.
+ * Rescheduling cancels the previously pending scheduled function.
+ *
+ * Returns the problems found right now as a heads-up; they don't block
+ * scheduling since the coach may fix them before the launch date.
+ */
+export const schedulePublish = mutation({
+  args: {
+    programId: v.id("programs"),
+    publishAt: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const { program } = await getOwnedProgram(ctx, args.programId);
+
+    if (program.isPublished) {
+      throw new Error("Program is already published");
+    }
+
+    if (args.publishAt <= Date.now()) {
+      throw new Error("Publish date must be in the future");
+    }
+
+    await clearPublishSchedule(ctx, program);
+
+    const publishJobId = await ctx.scheduler.runAt(
+      args.publishAt,
+      internal.programPublishing.runScheduledPublish,
+      { programId: program._id, publishAt: args.publishAt }
+    );
+
+    await ctx.db.patch(program._id, {
+      publishAt: args.publishAt,
+      publishJobId,
+      updatedAt: Date.now(),
+    });
+
+    const problems = await validateProgramForPublish(ctx, program);
+
+    return { success: true, problems };
+  },
+});
+
+/**
+ * Cancel Scheduled Publish
+ *
+ * Cancels the pending scheduled function and clears publishAt.
+ */
+export const cancelScheduledPublish = mutation({
+  args: {
+    programId: v.id("programs"),
+  },
+  handler: async (ctx, args) => {
+    const { program } = await getOwnedProgram(ctx, args.programId);
+
+    await clearPublishSchedule(ctx, program);
+
+    await ctx.db.patch(program._id, { updatedAt: Date.now() });
+
+    return { success: true };
+  },
+});
+
+// ============================================================================
+// INTERNAL MUTATIONS
+// ============================================================================
+
+/**
+ * Run Scheduled Publish (Internal)
+ *
+ * Called by the scheduler at publishAt. Runs the same validation as a
+ * manual publish. On failure the program stays a draft and the coach
+ * gets a "program_publish_failed" notification listing the problems.
+ *
+ * `publishAt` guards against stale runs: if the schedule was changed or
+ * cleared after this job started, the stored value no longer matches.
+ */
+export const runScheduledPublish = internalMutation({
+  args: {
+    programId: v.id("programs"),
+    publishAt: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const program = await ctx.db.get(args.programId);
+
+    if (!program || program.publishAt !== args.publishAt) {
+      console.log("Scheduled publish skipped (stale):", args.programId);
+      return { published: false };
+    }
+
+    const problems = await validateProgramForPublish(ctx, program);
+    const now = Date.now();
+
+    await ctx.db.patch(program._id, {
+      publishAt: undefined,
+      publishJobId: undefined,
+      ...(problems.length === 0 && { isPublished: true }),
+      updatedAt: now,
+    });
+
+    if (problems.length === 0) {
+      console.log("Scheduled publish succeeded:", program._id);
+      return { published: true };
+    }
+
+    const coachProfile = await ctx.db.get(program.coachProfileId);
+    if (coachProfile) {
+      await ctx.db.insert("notifications", {
+        userId: coachProfile.profileId,
+        type: "program_publish_failed",
+        title: `"${program.title}" was not published`,
+        content: problems.map((problem) => problem.message).join("\n"),
+        actionUrl: `/coach/programs/${program._id}`,
+        isRead: false,
+        metadata: { raw: { programId: program._id, problems } },
+        createdAt: now,
+      });
+    }
+
+    console.error(
+      "Scheduled publish failed validation:",
+      program._id,
+      problems.map((problem) => problem.code)
+    );
+    return { published: false };
+  },
+});
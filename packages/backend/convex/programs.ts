@@ -0,0 +1,479 @@
+import { paginationOptsValidator } from "convex/server";
+import { v } from "convex/values";
+import type { Doc, Id } from "./_generated/dataModel";
+import type { MutationCtx, QueryCtx } from "./_generated/server";
+import { mutation, query } from "./_generated/server";
+import { authComponent } from "./auth";
+import { getCurrentCoachProfile } from "./profiles";
+import { deleteWorkoutContents } from "./workoutExercises";
+
+/**
+ * Programs - Coach Authoring API
+ *
+ * Create, update, read and delete training programs.
+ * Structure: Program → Modules → Workouts
+ *
+ * Ownership: programs belong to a coachProfiles row, resolved from the
+ * authenticated user via getCurrentCoachProfile.
+ */
+
+// ============================================================================
+// VALIDATORS
+// ============================================================================
+
+export const programLevelValidator = v.union(
+  v.literal("beginner"),
+  v.literal("intermediate"),
+  v.literal("advanced")
+);
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Get Owned Program (Helper)
+ *
+ * Loads a program and verifies the current coach owns it.
+ *
+ * @throws Error if program not found or not owned by the current coach
+ * @returns Object containing profile, coachProfile and program
+ */
+export async function getOwnedProgram(
+  ctx: QueryCtx | MutationCtx,
+  programId: Id<"programs">
+) {
+  const { profile, coachProfile } = await getCurrentCoachProfile(ctx);
+
+  const program = await ctx.db.get(programId);
+  if (!program) {
+    throw new Error("Program not found");
+  }
+
+  if (program.coachProfileId !== coachProfile._id) {
+    throw new Error("Unauthorized - you don't own this program");
+  }
+
+  return { profile, coachProfile, program };
+}
+
+/**
+ * Assert Not Copying (Helper)
+ *
+ * duplicateProgram batches find the next module/workout to copy by its
+ * `order`, so adding, removing or reordering modules and workouts would
+ * make them skip or repeat rows. These edits wait until the copy is done,
+ * on the copy itself and on the program it is copied from.
+ *
+ * @throws Error if the program is being copied or copied from
+ */
+export async function assertNotCopying(
+  ctx: QueryCtx | MutationCtx,
+  program: Doc<"programs">
+) {
+  if (program.copyingFromId) {
+    throw new Error("Program is still being copied - try again shortly");
+  }
+
+  const copy = await ctx.db
+    .query("programs")
+    .withIndex("by_copyingFromId", (q) => q.eq("copyingFromId", program._id))
+    .first();
+  if (copy) {
+    throw new Error("Program is being duplicated - try again shortly");
+  }
+}
+
+/**
+ * Can View Program (Helper)
+ *
+ * Published programs are visible to everyone (including signed-out users).
+ * Drafts are only visible to the owning coach. Never throws.
+ */
+export async function canViewProgram(
+  ctx: QueryCtx | MutationCtx,
+  program: Doc<"programs">
+) {
+  if (program.isPublished) {
+    return true;
+  }
+
+  const authUser = await authComponent.safeGetAuthUser(ctx);
+  if (!authUser) {
+    return false;
+  }
+
+  const profile = await ctx.db
+    .query("userProfiles")
+    .withIndex("by_auth", (q) => q.eq("authId", authUser._id))
+    .first();
+  const coachProfile = await ctx.db.get(program.coachProfileId);
+
+  return Boolean(
+    profile && coachProfile && coachProfile.profileId === profile._id
+  );
+}
+
+/**
+ * Verify that referenced media (thumbnail file, preview video) exists
+ * and was uploaded by the given profile.
+ */
+async function assertOwnedMedia(
+  ctx: MutationCtx,
+  profileId: Id<"userProfiles">,
+  media: { thumbnailId?: Id<"files">; previewVideoId?: Id<"videos"> }
+) {
+  if (media.thumbnailId) {
+    const file = await ctx.db.get(media.thumbnailId);
+    if (!file) {
+      throw new Error("Thumbnail file not found");
+    }
+    if (file.uploadedBy !== profileId) {
+      throw new Error("Unauthorized - you don't own this thumbnail");
+    }
+  }
+
+  if (media.previewVideoId) {
+    const video = await ctx.db.get(media.previewVideoId);
+    if (!video) {
+      throw new Error("Preview video not found");
+    }
+    if (video.uploadedBy !== profileId) {
+      throw new Error("Unauthorized - you don't own this video");
+    }
+  }
+}
+
+/**
+ * Resolve display data for a page of catalog programs.
+ *
+ * Batches lookups: each coach, thumbnail and preview video is fetched once
+ * per page even if several programs share it.
+ */
+async function resolveCatalogEntries(
+  ctx: QueryCtx,
+  programs: Doc<"programs">[]
+) {
+  async function loadOnce<K extends string, R>(
+    ids: K[],
+    load: (id: K) => Promise<R>
+  ) {
+    const unique = [...new Set(ids)];
+    const values = await Promise.all(unique.map(load));
+    return new Map(unique.map((id, i) => [id, values[i]]));
+  }
+
+  const coachNames = await loadOnce(
+    programs.map((p) => p.coachProfileId),
+    async (coachProfileId) => {
+      const coachProfile = await ctx.db.get(coachProfileId);
+      const profile = coachProfile
+        ? await ctx.db.get(coachProfile.profileId)
+        : null;
+      return profile?.displayName ?? null;
+    }
+  );
+
+  const thumbnailUrls = await loadOnce(
+    programs.flatMap((p) => (p.thumbnailId ? [p.thumbnailId] : [])),
+    async (fileId) => {
+      const file = await ctx.db.get(fileId);
+      return file ? await ctx.storage.getUrl(file.storageId) : null;
+    }
+  );
+
+  const previewPlaybackIds = await loadOnce(
+    programs.flatMap((p) => (p.previewVideoId ? [p.previewVideoId] : [])),
+    async (videoId) => {
+      const video = await ctx.db.get(videoId);
+      return video?.status === "ready" ? (video.muxPlaybackId ?? null) : null;
+    }
+  );
+
+  return programs.map((program) => ({
+    _id: program._id,
+    title: program.title,
+    description: program.description,
+    category: program.category,
+    level: program.level,
+    coachName: coachNames.get(program.coachProfileId) ?? null,
+    thumbnailUrl: program.thumbnailId
+      ? (thumbnailUrls.get(program.thumbnailId) ?? null)
+      : null,
+    previewPlaybackId: program.previewVideoId
+      ? (previewPlaybackIds.get(program.previewVideoId) ?? null)
+      : null,
+    createdAt: program.createdAt,
+  }));
+}
+
+/**
+ * Query Published Programs (Helper)
+ *
+ * Published programs through the index matching the category/level
+ * filters, so filtered pages don't scan the whole catalog.
+ */
+function queryPublishedPrograms(
+  ctx: QueryCtx,
+  filters: { category?: string; level?: Doc<"programs">["level"] }
+) {
+  const { category, level } = filters;
+  const programs = ctx.db.query("programs");
+
+  if (category && level) {
+    return programs.withIndex("by_published_category_level", (q) =>
+      q.eq("isPublished", true).eq("category", category).eq("level", level)
+    );
+  }
+  if (category) {
+    return programs.withIndex("by_published_category", (q) =>
+      q.eq("isPublished", true).eq("category", category)
+    );
+  }
+  if (level) {
+    return programs.withIndex("by_published_level", (q) =>
+      q.eq("isPublished", true).eq("level", level)
+    );
+  }
+  return programs.withIndex("by_published", (q) => q.eq("isPublished", true));
+}
+
+// ============================================================================
+// QUERIES
+// ============================================================================
+
+/**
+ * List Published Programs (Marketplace Catalog)
+ *
+ * Public, paginated listing of published programs, newest first.
+ * Optional category/level filters use the matching by_published_* index,
+ * so filtered pages are full and don't scan the whole catalog.
+ *
+ * Each row is resolved with the coach display name, thumbnail URL and
+ * preview playback ID so the catalog renders from a single query.
+ */
+export const listPublishedPrograms = query({
+  args: {
+    paginationOpts: paginationOptsValidator,
+    category: v.optional(v.string()),
+    level: v.optional(programLevelValidator),
+  },
+  handler: async (ctx, args) => {
+    const programsQuery = queryPublishedPrograms(ctx, args);
+
+    const result = await programsQuery
+      .order("desc")
+      .paginate(args.paginationOpts);
+
+    return {
+      ...result,
+      page: await resolveCatalogEntries(ctx, result.page),
+    };
+  },
+});
+
+/**
+ * Get Program
+ *
+ * Published programs are visible to everyone.
+ * Drafts are only visible to the owning coach (null otherwise).
+ */
+export const getProgram = query({
+  args: {
+    programId: v.id("programs"),
+  },
+  handler: async (ctx, args) => {
+    const program = await ctx.db.get(args.programId);
+
+    if (!(program && (await canViewProgram(ctx, program)))) {
+      return null;
+    }
+
+    return program;
+  },
+});
+
+/**
+ * List My Programs
+ *
+ * Lists all programs (drafts and published) owned by the current coach,
+ * newest first.
+ */
+export const listMyPrograms = query({
+  args: {},
+  handler: async (ctx) => {
+    const { coachProfile } = await getCurrentCoachProfile(ctx);
+
+    return await ctx.db
+      .query("programs")
+      .withIndex("by_coach", (q) => q.eq("coachProfileId", coachProfile._id))
+      .order("desc")
+      .collect();
+  },
+});
+
+/**
+ * Get Program Outline
+ *
+ * Returns an owned program with its modules and workouts, both sorted by
+ * order. Used by the coach-facing program builder.
+ */
+export const getProgramOutline = query({
+  args: {
+    programId: v.id("programs"),
+  },
+  handler: async (ctx, args) => {
+    const { program } = await getOwnedProgram(ctx, args.programId);
+
+    const modules = await ctx.db
+      .query("programModules")
+      .withIndex("by_program_order", (q) => q.eq("programId", program._id))
+      .collect();
+
+    const modulesWithWorkouts = await Promise.all(
+      modules.map(async (programModule) => ({
+        ...programModule,
+        workouts: await ctx.db
+          .query("workouts")
+          .withIndex("by_module_order", (q) =>
+            q.eq("moduleId", programModule._id)
+          )
+          .collect(),
+      }))
+    );
+
+    return { ...program, modules: modulesWithWorkouts };
+  },
+});
+
+// ============================================================================
+// MUTATIONS
+// ============================================================================
+
+/**
+ * Create Program
+ *
+ * Creates a new draft program owned by the current coach.
+ * Only users with a coach profile can create programs.
+ */
+export const createProgram = mutation({
+  args: {
+    title: v.string(),
+    description: v.string(),
+    category: v.string(),
+    level: programLevelValidator,
+    thumbnailId: v.optional(v.id("files")),
+    previewVideoId: v.optional(v.id("videos")),
+  },
+  handler: async (ctx, args) => {
+    const { profile, coachProfile } = await getCurrentCoachProfile(ctx);
+
+    await assertOwnedMedia(ctx, profile._id, args);
+
+    const now = Date.now();
+    return await ctx.db.insert("programs", {
+      coachProfileId: coachProfile._id,
+      title: args.title,
+      description: args.description,
+      category: args.category,
+      level: args.level,
+      thumbnailId: args.thumbnailId,
+      previewVideoId: args.previewVideoId,
+      isPublished: false, // Programs start as drafts
+      createdAt: now,
+      updatedAt: now,
+    });
+  },
+});
+
+/**
+ * Update Program
+ *
+ * Updates program content, classification and media.
+ * Verifies the current coach owns the program.
+ */
+export const updateProgram = mutation({
+  args: {
+    programId: v.id("programs"),
+    title: v.optional(v.string()),
+    description: v.optional(v.string()),
+    category: v.optional(v.string()),
+    level: v.optional(programLevelValidator),
+    thumbnailId: v.optional(v.id("files")),
+    previewVideoId: v.optional(v.id("videos")),
+  },
+  handler: async (ctx, args) => {
+    const { programId, ...updates } = args;
+    const { profile } = await getOwnedProgram(ctx, programId);
+
+    await assertOwnedMedia(ctx, profile._id, updates);
+
+    await ctx.db.patch(programId, {
+      ...updates,
+      updatedAt: Date.now(),
+    });
+
+    return { success: true };
+  },
+});
+
+/**
+ * Delete Program
+ *
+ * Deletes a program together with all of its modules, workouts and
+ * workout contents (exercise prescriptions and blocks).
+ * Referenced videos, files and exercises are NOT deleted (shared media).
+ * Programs with enrolled athletes can't be deleted - unpublish instead.
+ */
+export const deleteProgram = mutation({
+  args: {
+    programId: v.id("programs"),
+  },
+  handler: async (ctx, args) => {
+    const { program } = await getOwnedProgram(ctx, args.programId);
+
+    const enrollment = await ctx.db
+      .query("enrollments")
+      .withIndex("by_program", (q) => q.eq("programId", args.programId))
+      .first();
+    if (enrollment) {
+      throw new Error(
+        "Program has enrolled athletes - unpublish it instead of deleting"
+      );
+    }
+
+    // Cancel pending scheduled publish
+    if (program.publishJobId) {
+      await ctx.scheduler.cancel(program.publishJobId);
+    }
+
+    const modules = await ctx.db
+      .query("programModules")
+      .withIndex("by_program", (q) => q.eq("programId", args.programId))
+      .collect();
+
+    let deletedWorkouts = 0;
+    for (const programModule of modules) {
+      const workouts = await ctx.db
+        .query("workouts")
+        .withIndex("by_module", (q) => q.eq("moduleId", programModule._id))
+        .collect();
+
+      for (const workout of workouts) {
+        await deleteWorkoutContents(ctx, workout._id);
+        await ctx.db.delete(workout._id);
+      }
+      deletedWorkouts += workouts.length;
+
+      await ctx.db.delete(programModule._id);
+    }
+
+    await ctx.db.delete(args.programId);
+
+    return {
+      success: true,
+      deletedModules: modules.length,
+      deletedWorkouts,
+    };
+  },
+});
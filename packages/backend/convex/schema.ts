@@ -1,5 +1,15 @@
 import { defineSchema, defineTable } from "convex/server";
 import { v } from "convex/values";
+import {
+  playbackPolicyValidator,
+  quotaOverrideValidator,
+  trackSourceValidator,
+  trackStatusValidator,
+  uploadPlanValidator,
+  videoClipValidator,
+  videoReplacementValidator,
+  webhookEventStatusValidator,
+} from "./mux/types";
 
 /**
  * EKVI Database Schema
@@ -94,6 +104,7 @@ export default defineSchema({
    * Relationships:
    * - profileId → userProfiles (1:1)
    * - introVideoId → videos (optional)
+   * - pendingIntroVideoId → videos (optional, still processing)
    */
   coachProfiles: defineTable({
     profileId: v.id("userProfiles"), // Link to user profile
@@ -106,11 +117,15 @@ export default defineSchema({
 
     // Media
     introVideoId: v.optional(v.id("videos")), // Coach intro video
+    pendingIntroVideoId: v.optional(v.id("videos")), // Becomes introVideoId when ready
 
     // Metadata
     createdAt: v.number(),
     updatedAt: v.number(),
-  }).index("by_profileId", ["profileId"]), // Unique - one coach profile per user
+  })
+    .index("by_profileId", ["profileId"]) // Unique - one coach profile per user
+    .index("by_introVideoId", ["introVideoId"]) // For playback access checks
+    .index("by_pendingIntroVideoId", ["pendingIntroVideoId"]), // For asset ready webhooks
 
   // ============================================================================
   // 3. VIDEO INFRASTRUCTURE (MUX)
@@ -127,9 +142,34 @@ export default defineSchema({
    * 3. Webhook: video.upload.asset_created → status: "processing", set muxAssetId
    * 4. Webhook: video.asset.ready → status: "ready", set muxPlaybackId, duration, etc.
    *
+   * Failures: cancelled/errored uploads and errored assets → status: "error"
+   * with errorMessage. Assets deleted in the Mux dashboard → status: "error",
+   * playback fields cleared.
+   *
+   * Playback: "signed" videos need short-lived JWTs (mux/actions.ts
+   * getPlaybackTokens); "public" ones play from the playback ID alone.
+   * Rows without playbackPolicy predate signed playback and are public.
+   *
+   * Thumbnails: owners pick a frame (thumbnailTime) or upload an image
+   * (thumbnailFileId); see mux/thumbnails.ts.
+   *
+   * Replacing the source: a new upload is tracked in replacement while the
+   * current asset keeps serving; once it's ready the Mux IDs are swapped
+   * in and the old asset is deleted (mux/replace.ts).
+   *
+   * Preview clips: videos cut from a range of another video's asset (e.g.
+   * a program trailer) record their source in clip (mux/clips.ts). They
+   * have no upload - Mux creates the asset directly.
+   *
+   * Captions and subtitles live in videoTracks, chapter markers in
+   * videoChapters.
+   *
    * Relationships:
    * - uploadedBy → userProfiles
-   * - Referenced by: programs (preview), coachProfiles (intro), workouts, exercises
+   * - thumbnailFileId → files (optional)
+   * - clip.sourceVideoId → videos (optional)
+   * - Referenced by: programs (preview), coachProfiles (intro), workouts,
+   *   exercises, videoTracks, videoChapters
    */
   videos: defineTable({
     uploadedBy: v.id("userProfiles"),
@@ -138,6 +178,7 @@ export default defineSchema({
     muxAssetId: v.string(), // Mux asset ID (from webhook)
     muxUploadId: v.optional(v.string()), // Mux upload ID (from direct upload creation)
     muxPlaybackId: v.optional(v.string()), // Mux playback ID (from video.asset.ready)
+    playbackPolicy: v.optional(playbackPolicyValidator), // Unset = public
 
     // Status tracking
     status: v.union(
@@ -155,19 +196,208 @@ export default defineSchema({
     // Video properties (from Mux webhooks)
     duration: v.optional(v.number()), // Duration in seconds
     aspectRatio: v.optional(v.string()), // e.g., "16:9"
-    thumbnailUrl: v.optional(v.string()), // Mux auto-generated thumbnail
+    thumbnailUrl: v.optional(v.string()), // Mux thumbnail (public videos only)
+    thumbnailTime: v.optional(v.number()), // Chosen thumbnail frame in seconds, unset = middle
+    thumbnailFileId: v.optional(v.id("files")), // Custom thumbnail image (overrides thumbnailTime)
+    staticRenditions: v.optional(v.array(v.string())), // Ready MP4 downloads, e.g. "high.mp4"
 
     // Error handling
     errorMessage: v.optional(v.string()),
 
+    // New source being uploaded/processed (the current one keeps serving)
+    replacement: v.optional(videoReplacementValidator),
+
+    // Source range, for clips cut from another video
+    clip: v.optional(videoClipValidator),
+
     // Timestamps
     createdAt: v.number(),
     updatedAt: v.number(),
   })
     .index("by_uploadedBy", ["uploadedBy"])
     .index("by_status", ["status"])
+    .index("by_status_createdAt", ["status", "createdAt"]) // For abandoned upload cleanup
     .index("by_muxAssetId", ["muxAssetId"]) // For webhook lookups
-    .index("by_muxUploadId", ["muxUploadId"]), // For upload status checks
+    .index("by_muxUploadId", ["muxUploadId"]) // For upload status checks
+    .index("by_replacementUploadId", ["replacement.muxUploadId"]) // For replacement webhooks
+    .index("by_replacementAssetId", ["replacement.muxAssetId"]) // For replacement webhooks
+    .index("by_clipSourceVideoId", ["clip.sourceVideoId"]), // Clips of a video
+
+  /**
+   * Video Tracks (Captions / Subtitles)
+   *
+   * Text tracks of a video's Mux asset, one row per language and source:
+   * - "uploaded": owner's WebVTT/SRT file (fileId), attached via
+   *   mux.video.assets.createTrack
+   * - "generated": Mux auto-generated captions from the audio track
+   *
+   * Rows are created as "preparing" before Mux is called; muxTrackId is set
+   * once Mux created the track. video.asset.track.* webhooks update the
+   * status (and add rows for tracks created outside EKVI).
+   *
+   * Relationships:
+   * - videoId → videos
+   * - fileId → files (uploaded tracks)
+   */
+  videoTracks: defineTable({
+    videoId: v.id("videos"),
+    muxTrackId: v.optional(v.string()), // Set once Mux created the track
+
+    source: trackSourceValidator,
+    languageCode: v.string(), // BCP 47, e.g. "en", "sr-Latn"
+    name: v.string(), // Label shown in the player, e.g. "Srpski"
+    closedCaptions: v.boolean(), // Also describes non-speech audio (SDH)
+    fileId: v.optional(v.id("files")), // Uploaded WebVTT/SRT file
+
+    // Status tracking
+    status: trackStatusValidator,
+    errorMessage: v.optional(v.string()),
+
+    // Timestamps
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  })
+    .index("by_videoId", ["videoId"])
+    .index("by_muxTrackId", ["muxTrackId"]) // For webhook lookups
+    .index("by_fileId", ["fileId"]), // Caption files still in use
+
+  /**
+   * Video Chapters
+   *
+   * Navigation markers of a video, edited by its owner. Shown as Mux player
+   * chapters - each runs until the next one starts (or the video ends).
+   * A marker can link to the exercise performed in that part; viewers can
+   * open the exercise's demonstration video from it.
+   *
+   * Relationships:
+   * - videoId → videos
+   * - exerciseId → exercises (optional, cleared when the exercise is deleted)
+   */
+  videoChapters: defineTable({
+    videoId: v.id("videos"),
+
+    startTime: v.number(), // Seconds from the start of the video
+    title: v.string(),
+    exerciseId: v.optional(v.id("exercises")),
+
+    // Timestamps
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  })
+    .index("by_videoId_startTime", ["videoId", "startTime"]) // Ordered chapter list
+    .index("by_exerciseId", ["exerciseId"]), // For unlinking deleted exercises
+
+  /**
+   * Video Progress
+   *
+   * Where a viewer is in a video, for resuming playback and "continue
+   * watching" lists. VideoPlayer saves it every few seconds while playing
+   * (saveVideoProgress in mux/progress.ts).
+   *
+   * Relationships:
+   * - profileId → userProfiles
+   * - videoId → videos (deleted with the video)
+   */
+  videoProgress: defineTable({
+    profileId: v.id("userProfiles"),
+    videoId: v.id("videos"),
+
+    position: v.number(), // Seconds - last playback position
+    watchedSeconds: v.number(), // Seconds actually played (rewatching counts)
+    watchedRanges: v.array(v.object({ start: v.number(), end: v.number() })), // Distinct parts played, sorted
+    completed: v.boolean(), // watchedRanges cover the completion threshold
+    completedAt: v.optional(v.number()), // First completion
+
+    // Timestamps
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  })
+    .index("by_profileId_videoId", ["profileId", "videoId"]) // Unique - one row per viewer and video
+    .index("by_profileId_completed_updatedAt", [
+      "profileId",
+      "completed",
+      "updatedAt",
+    ]) // Unfinished videos, recently watched first
+    .index("by_videoId", ["videoId"]), // For deleting with the video
+
+  /**
+   * Video Usage (Upload Quotas)
+   *
+   * Per-profile counters of what counts against upload quotas, kept up to
+   * date by every write that inserts, deletes or changes the status or
+   * duration of a video (recordVideoUsage in mux/usage.ts). Created on the
+   * first such write, from the profile's existing videos.
+   *
+   * Limits come from the profile's role and plan; admins can change the
+   * plan or override single limits.
+   *
+   * Relationships:
+   * - profileId → userProfiles (1:1)
+   */
+  videoUsage: defineTable({
+    profileId: v.id("userProfiles"),
+
+    // Counters
+    videoCount: v.number(), // Videos not in "error" (including pending ones)
+    pendingUploadCount: v.number(), // "waiting_for_upload" or "uploading"
+    totalDuration: v.number(), // Seconds of ready videos
+
+    // Limits
+    plan: v.optional(uploadPlanValidator), // Unset = "free"
+    quotaOverride: v.optional(quotaOverrideValidator), // Admin overrides
+
+    // Timestamps
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  }).index("by_profileId", ["profileId"]), // Unique - one row per profile
+
+  /**
+   * Mux Webhook Events (Event Log)
+   *
+   * Every verified Mux webhook delivery, keyed by its Mux event ID.
+   * Mux delivers at least once and in no guaranteed order, so:
+   * - Redeliveries of processed/ignored events are skipped (by_muxEventId)
+   * - Events whose video can't be resolved yet are "parked" and replayed
+   *   when the upload links their asset (see mux/events.ts)
+   * - Admins inspect the log with listWebhookEvents; replayWebhookEvents
+   *   re-applies parked or failed events
+   *
+   * muxObjectId is the event subject (data.id): the asset ID for
+   * video.asset.* events, the upload ID for video.upload.* events.
+   */
+  muxWebhookEvents: defineTable({
+    muxEventId: v.string(), // Mux event ID (unique per event, shared by redeliveries)
+    type: v.string(), // e.g., "video.asset.ready"
+    muxObjectId: v.optional(v.string()), // Event subject (asset or upload ID)
+    data: v.any(), // Raw event payload
+
+    // Processing state
+    status: webhookEventStatusValidator,
+    attempts: v.number(),
+    lastError: v.optional(v.string()),
+    processedAt: v.optional(v.number()),
+
+    // Timestamps
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  })
+    .index("by_muxEventId", ["muxEventId"]) // For deduplication
+    .index("by_status_createdAt", ["status", "createdAt"]) // For admin listing and replays
+    .index("by_status_muxObjectId", ["status", "muxObjectId"]), // For replaying parked events
+
+  /**
+   * Orphaned Mux Uploads (Sweep Bookkeeping)
+   *
+   * Waiting Mux direct uploads the orphan sweep found without a video.
+   * Mux uploads carry no creation time, so the sweep records when it first
+   * saw each one and only cancels it once it stayed unreferenced past the
+   * grace period (see mux/sweep.ts). Rows of uploads that are referenced
+   * again or no longer waiting are removed by the next sweep.
+   */
+  orphanedMuxUploads: defineTable({
+    uploadId: v.string(), // Mux upload ID
+    firstSeenAt: v.number(), // First sweep that found it unreferenced
+  }),
 
   // ============================================================================
   // 4. FILE STORAGE (CONVEX STORAGE)
@@ -202,7 +432,7 @@ export default defineSchema({
 
     // Custom metadata (not in Convex _storage)
     fileName: v.string(), // User-friendly file name
-    fileType: v.string(), // App categorization: "image", "thumbnail", "document"
+    fileType: v.string(), // App categorization: "image", "thumbnail", "document", "caption"
 
     // Image dimensions (not in Convex _storage)
     width: v.optional(v.number()), // Image width in pixels
@@ -259,6 +489,11 @@ export default defineSchema({
 
     // Publishing
     isPublished: v.boolean(),
+    publishAt: v.optional(v.number()), // Scheduled go-live timestamp
+    publishJobId: v.optional(v.id("_scheduled_functions")), // Pending scheduled publish
+
+    // Duplication
+    copyingFromId: v.optional(v.id("programs")), // Set while a batched duplicate is still copying
 
     // Metadata
     createdAt: v.number(),
@@ -267,7 +502,12 @@ export default defineSchema({
     .index("by_coach", ["coachProfileId"])
     .index("by_category", ["category"])
     .index("by_level", ["level"])
-    .index("by_published", ["isPublished"]),
+    .index("by_published", ["isPublished"])
+    .index("by_published_category", ["isPublished", "category"]) // Catalog filters
+    .index("by_published_level", ["isPublished", "level"])
+    .index("by_published_category_level", ["isPublished", "category", "level"])
+    .index("by_copyingFromId", ["copyingFromId"]) // Copies still being filled from a program
+    .index("by_previewVideoId", ["previewVideoId"]), // For playback access checks
 
   /**
    * Program Modules
@@ -330,7 +570,8 @@ export default defineSchema({
     updatedAt: v.number(),
   })
     .index("by_module", ["moduleId"])
-    .index("by_module_order", ["moduleId", "order"]), // Compound index for ordered queries
+    .index("by_module_order", ["moduleId", "order"]) // Compound index for ordered queries
+    .index("by_videoId", ["videoId"]), // For playback access checks
 
   /**
    * Exercises
@@ -360,6 +601,7 @@ export default defineSchema({
 
     // Sharing
     isPublic: v.boolean(), // Can other coaches use this exercise?
+    forkedFromId: v.optional(v.id("exercises")), // Public exercise this was copied from
 
     // Timestamps
     createdAt: v.number(),
@@ -367,7 +609,108 @@ export default defineSchema({
   })
     .index("by_createdBy", ["createdBy"])
     .index("by_category", ["category"])
-    .index("by_isPublic", ["isPublic"]),
+    .index("by_isPublic", ["isPublic"])
+    .index("by_videoId", ["videoId"]), // For playback access checks
+
+  /**
+   * Workout Exercises
+   *
+   * Structured prescriptions: which exercises a workout contains and how to
+   * perform each one (sets, reps or time, load, tempo, rest).
+   *
+   * Relationships:
+   * - workoutId → workouts
+   * - exerciseId → exercises
+   * - blockId → workoutBlocks (optional)
+   */
+  workoutExercises: defineTable({
+    workoutId: v.id("workouts"),
+    exerciseId: v.id("exercises"),
+    blockId: v.optional(v.id("workoutBlocks")), // Containing block (top level if unset)
+
+    // Ordering
+    order: v.number(), // Display order within container (shared with blocks)
+
+    // Prescription
+    sets: v.number(),
+    reps: v.optional(v.string()), // e.g., "8", "8-12" (set either reps or durationSeconds)
+    durationSeconds: v.optional(v.number()), // Time-based work, e.g., 30s plank
+    load: v.optional(v.string()), // e.g., "60kg", "RPE 8", "bodyweight"
+    tempo: v.optional(v.string()), // e.g., "3-1-1-0"
+    restSeconds: v.optional(v.number()), // Rest between sets
+    notes: v.optional(v.string()),
+
+    // Timestamps
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  })
+    .index("by_workout", ["workoutId"])
+    .index("by_container_order", ["workoutId", "blockId", "order"]) // Ordered queries per container
+    .index("by_exercise", ["exerciseId"]),
+
+  /**
+   * Workout Blocks
+   *
+   * Groups of exercises performed together: supersets, circuits, EMOM,
+   * AMRAP and Tabata. Blocks can be nested (e.g. supersets inside a circuit).
+   * Which parameters a block needs depends on its type (see workoutBlocks.ts).
+   *
+   * Relationships:
+   * - workoutId → workouts
+   * - parentBlockId → workoutBlocks (optional)
+   * - Has many: workoutExercises, workoutBlocks
+   */
+  workoutBlocks: defineTable({
+    workoutId: v.id("workouts"),
+    parentBlockId: v.optional(v.id("workoutBlocks")), // Top level if unset
+
+    // Type
+    type: v.union(
+      v.literal("superset"),
+      v.literal("circuit"),
+      v.literal("emom"),
+      v.literal("amrap"),
+      v.literal("tabata")
+    ),
+    title: v.optional(v.string()),
+    notes: v.optional(v.string()),
+
+    // Ordering
+    order: v.number(), // Display order within container (shared with exercises)
+
+    // Parameters (per type)
+    rounds: v.optional(v.number()), // Circuit/Tabata rounds, EMOM intervals
+    timeCapSeconds: v.optional(v.number()), // AMRAP time cap
+    intervalSeconds: v.optional(v.number()), // EMOM interval length (default 60)
+    workSeconds: v.optional(v.number()), // Tabata work interval
+    restSeconds: v.optional(v.number()), // Circuit rest between rounds, Tabata rest interval
+
+    // Timestamps
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  })
+    .index("by_workout", ["workoutId"])
+    .index("by_container_order", ["workoutId", "parentBlockId", "order"]), // Ordered queries per container
+
+  /**
+   * Enrollments
+   *
+   * Athletes with access to a program's content (workout and exercise
+   * videos). Granted internally (grantEnrollment) - e.g. after checkout.
+   *
+   * Relationships:
+   * - programId → programs
+   * - athleteProfileId → userProfiles
+   */
+  enrollments: defineTable({
+    programId: v.id("programs"),
+    athleteProfileId: v.id("userProfiles"),
+
+    // Timestamp
+    createdAt: v.number(),
+  })
+    .index("by_athlete_program", ["athleteProfileId", "programId"]) // Unique per athlete + program
+    .index("by_program", ["programId"]),
 
   // ============================================================================
   // 6. NOTIFICATIONS
@@ -0,0 +1,383 @@
+import { v } from "convex/values";
+import type { Doc, Id } from "./_generated/dataModel";
+import type { MutationCtx, QueryCtx } from "./_generated/server";
+import { mutation, query } from "./_generated/server";
+import { clampIndex, resequence } from "./ordering";
+import {
+  buildWorkoutTree,
+  getViewableProgram,
+  getWorkoutBlock,
+  listContainerItems,
+  loadWorkoutContents,
+} from "./workoutExercises";
+import { getOwnedWorkout } from "./workouts";
+
+/**
+ * Workout Blocks - Supersets, Circuits and Intervals
+ *
+ * Groups exercises inside a workout into blocks. Blocks share their
+ * container's order with exercise prescriptions (see workoutExercises.ts)
+ * and can be nested up to MAX_BLOCK_DEPTH levels.
+ *
+ * Block types and their parameters:
+ * - superset: optional rounds
+ * - circuit:  rounds (required), optional restSeconds between rounds
+ * - emom:     rounds = number of intervals (required), intervalSeconds (default 60)
+ * - amrap:    timeCapSeconds (required)
+ * - tabata:   rounds (default 8), workSeconds (default 20), restSeconds (default 10)
+ */
+
+// ============================================================================
+// VALIDATORS
+// ============================================================================
+
+export const blockTypeValidator = v.union(
+  v.literal("superset"),
+  v.literal("circuit"),
+  v.literal("emom"),
+  v.literal("amrap"),
+  v.literal("tabata")
+);
+
+const blockParameterFields = {
+  rounds: v.optional(v.number()),
+  timeCapSeconds: v.optional(v.number()),
+  intervalSeconds: v.optional(v.number()),
+  workSeconds: v.optional(v.number()),
+  restSeconds: v.optional(v.number()),
+};
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Top-level blocks are depth 1; a block inside it is depth 2. */
+const MAX_BLOCK_DEPTH = 2;
+
+type BlockType = Doc<"workoutBlocks">["type"];
+type BlockParameter = keyof typeof blockParameterFields;
+type BlockParameters = Partial<Record<BlockParameter, number>>;
+
+const blockRules: Record<
+  BlockType,
+  {
+    label: string;
+    required: BlockParameter[];
+    allowed: BlockParameter[];
+    defaults?: BlockParameters;
+  }
+> = {
+  superset: { label: "Superset", required: [], allowed: ["rounds"] },
+  circuit: {
+    label: "Circuit",
+    required: ["rounds"],
+    allowed: ["rounds", "restSeconds"],
+  },
+  emom: {
+    label: "EMOM",
+    required: ["rounds"],
+    allowed: ["rounds", "intervalSeconds"],
+    defaults: { intervalSeconds: 60 },
+  },
+  amrap: {
+    label: "AMRAP",
+    required: ["timeCapSeconds"],
+    allowed: ["timeCapSeconds"],
+  },
+  tabata: {
+    label: "Tabata",
+    required: [],
+    allowed: ["rounds", "workSeconds", "restSeconds"],
+    defaults: { rounds: 8, workSeconds: 20, restSeconds: 10 },
+  },
+};
+
+const parameterLabels: Record<BlockParameter, string> = {
+  rounds: "Rounds",
+  timeCapSeconds: "Time cap",
+  intervalSeconds: "Interval",
+  workSeconds: "Work interval",
+  restSeconds: "Rest",
+};
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Validate Block Parameters (Helper)
+ *
+ * Checks that a block type gets the parameters it needs (e.g. rounds for
+ * circuits, a time cap for AMRAP) and none that don't apply to it.
+ * Parameters must be whole numbers; rest may be 0, everything else >= 1.
+ *
+ * @throws Error describing the first invalid parameter
+ */
+function validateBlockParameters(type: BlockType, params: BlockParameters) {
+  const rules = blockRules[type];
+
+  for (const field of rules.required) {
+    if (params[field] === undefined) {
+      throw new Error(
+        `${rules.label} blocks need ${parameterLabels[field].toLowerCase()}`
+      );
+    }
+  }
+
+  for (const [field, value] of Object.entries(params) as [
+    BlockParameter,
+    number | undefined,
+  ][]) {
+    if (value === undefined) {
+      continue;
+    }
+    if (!rules.allowed.includes(field)) {
+      throw new Error(
+        `${parameterLabels[field]} doesn't apply to ${rules.label} blocks`
+      );
+    }
+    const min = field === "restSeconds" ? 0 : 1;
+    if (!Number.isInteger(value) || value < min) {
+      throw new Error(
+        `${parameterLabels[field]} must be a whole number of at least ${min}`
+      );
+    }
+  }
+}
+
+/**
+ * Get Owned Block (Helper)
+ *
+ * Loads a block and verifies the current coach owns its workout.
+ *
+ * @throws Error if block not found or not owned by the current coach
+ * @returns Object containing profile, coachProfile, program, module, workout
+ *          and block
+ */
+export async function getOwnedBlock(
+  ctx: QueryCtx | MutationCtx,
+  blockId: Id<"workoutBlocks">
+) {
+  const block = await ctx.db.get(blockId);
+  if (!block) {
+    throw new Error("Block not found");
+  }
+
+  const owned = await getOwnedWorkout(ctx, block.workoutId);
+
+  return { ...owned, block };
+}
+
+/**
+ * Depth a new block would have inside `parentBlockId` (1 = top level).
+ */
+async function getChildDepth(
+  ctx: MutationCtx,
+  parentBlockId: Id<"workoutBlocks"> | undefined
+) {
+  let depth = 1;
+  let current = parentBlockId ? await ctx.db.get(parentBlockId) : null;
+  while (current) {
+    depth += 1;
+    current = current.parentBlockId
+      ? await ctx.db.get(current.parentBlockId)
+      : null;
+  }
+  return depth;
+}
+
+// ============================================================================
+// QUERIES
+// ============================================================================
+
+/**
+ * Get Workout Tree
+ *
+ * Returns a workout with its render-ready structure: top-level `items` in
+ * order, where each item is either an exercise prescription (with the
+ * exercise resolved) or a block with its own ordered `items`.
+ * Same visibility as getProgram (null if not visible).
+ */
+export const getWorkoutTree = query({
+  args: {
+    workoutId: v.id("workouts"),
+  },
+  handler: async (ctx, args) => {
+    const workout = await ctx.db.get(args.workoutId);
+    if (!workout) {
+      return null;
+    }
+
+    if (!(await getViewableProgram(ctx, workout.moduleId))) {
+      return null;
+    }
+
+    return {
+      ...workout,
+      items: await buildWorkoutTree(ctx, workout._id, new Map()),
+    };
+  },
+});
+
+// ============================================================================
+// MUTATIONS
+// ============================================================================
+
+/**
+ * Add Block
+ *
+ * Inserts a block at `index` (defaults to the end) of the workout's top
+ * level, or inside `parentBlockId`. Type defaults (e.g. Tabata 8 × 20s/10s)
+ * are filled in before validation.
+ */
+export const addBlock = mutation({
+  args: {
+    workoutId: v.id("workouts"),
+    parentBlockId: v.optional(v.id("workoutBlocks")),
+    type: blockTypeValidator,
+    title: v.optional(v.string()),
+    notes: v.optional(v.string()),
+    ...blockParameterFields,
+    index: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const { workoutId, parentBlockId, type, title, notes, index, ...params } =
+      args;
+    await getOwnedWorkout(ctx, workoutId);
+
+    if (parentBlockId) {
+      await getWorkoutBlock(ctx, workoutId, parentBlockId);
+      if ((await getChildDepth(ctx, parentBlockId)) > MAX_BLOCK_DEPTH) {
+        throw new Error(
+          `Blocks can be nested at most ${MAX_BLOCK_DEPTH} levels deep`
+        );
+      }
+    }
+
+    const parameters = { ...blockRules[type].defaults, ...params };
+    validateBlockParameters(type, parameters);
+
+    const siblings = await listContainerItems(ctx, workoutId, parentBlockId);
+    const position = clampIndex(index, siblings.length);
+
+    const now = Date.now();
+    const blockId = await ctx.db.insert("workoutBlocks", {
+      workoutId,
+      parentBlockId,
+      type,
+      title,
+      notes,
+      order: position,
+      ...parameters,
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    const inserted = await ctx.db.get(blockId);
+    if (inserted) {
+      siblings.splice(position, 0, inserted);
+    }
+    await resequence(ctx, siblings);
+
+    return blockId;
+  },
+});
+
+/**
+ * Update Block
+ *
+ * Updates a block's title, notes and parameters. The merged result is
+ * validated against the block's type. The type itself can't change -
+ * remove the block and add a new one instead.
+ */
+export const updateBlock = mutation({
+  args: {
+    blockId: v.id("workoutBlocks"),
+    title: v.optional(v.string()),
+    notes: v.optional(v.string()),
+    ...blockParameterFields,
+  },
+  handler: async (ctx, args) => {
+    const { blockId, title, notes, ...params } = args;
+    const { block } = await getOwnedBlock(ctx, blockId);
+
+    const parameters: BlockParameters = {
+      rounds: block.rounds,
+      timeCapSeconds: block.timeCapSeconds,
+      intervalSeconds: block.intervalSeconds,
+      workSeconds: block.workSeconds,
+      restSeconds: block.restSeconds,
+    };
+    for (const [field, value] of Object.entries(params)) {
+      if (value !== undefined) {
+        parameters[field as BlockParameter] = value;
+      }
+    }
+    validateBlockParameters(block.type, parameters);
+
+    await ctx.db.patch(blockId, {
+      ...(title !== undefined && { title }),
+      ...(notes !== undefined && { notes }),
+      ...parameters,
+      updatedAt: Date.now(),
+    });
+
+    return { success: true };
+  },
+});
+
+/**
+ * Remove Block
+ *
+ * Deletes a block together with everything inside it (nested blocks and
+ * their exercise prescriptions), then closes the gap in its container.
+ */
+export const removeBlock = mutation({
+  args: {
+    blockId: v.id("workoutBlocks"),
+  },
+  handler: async (ctx, args) => {
+    const { block } = await getOwnedBlock(ctx, args.blockId);
+
+    const { prescriptions, blocks } = await loadWorkoutContents(
+      ctx,
+      block.workoutId
+    );
+
+    // Collect the block and all of its descendants
+    const removedBlockIds = new Set<Id<"workoutBlocks">>([block._id]);
+    for (const candidate of blocks) {
+      if (
+        candidate.parentBlockId &&
+        removedBlockIds.has(candidate.parentBlockId)
+      ) {
+        removedBlockIds.add(candidate._id);
+      }
+    }
+
+    const removedPrescriptions = prescriptions.filter(
+      (prescription) =>
+        prescription.blockId && removedBlockIds.has(prescription.blockId)
+    );
+
+    for (const prescription of removedPrescriptions) {
+      await ctx.db.delete(prescription._id);
+    }
+    for (const blockId of removedBlockIds) {
+      await ctx.db.delete(blockId);
+    }
+
+    const siblings = await listContainerItems(
+      ctx,
+      block.workoutId,
+      block.parentBlockId
+    );
+    await resequence(ctx, siblings);
+
+    return {
+      success: true,
+      deletedBlocks: removedBlockIds.size,
+      deletedExercises: removedPrescriptions.length,
+    };
+  },
+});
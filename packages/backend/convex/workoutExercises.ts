@@ -0,0 +1,663 @@
+import { v } from "convex/values";
+import type { Doc, Id } from "./_generated/dataModel";
+import type { MutationCtx, QueryCtx } from "./_generated/server";
+import { mutation, query } from "./_generated/server";
+import { applyRequestedOrder, clampIndex, resequence } from "./ordering";
+import { canViewProgram } from "./programs";
+import { getOwnedWorkout } from "./workouts";
+
+/**
+ * Workout Exercises - Structured Prescriptions
+ *
+ * Links exercises to workouts with a per-exercise prescription
+ * (sets, reps or time, load, tempo, rest, notes).
+ *
+ * Prescriptions live either at the workout's top level or inside a block
+ * (superset, circuit, ...; see workoutBlocks.ts). A "container" is the
+ * workout root or one block; prescriptions and blocks in the same container
+ * share one contiguous order (0..n-1) - see ordering.ts.
+ *
+ * Coaches can prescribe their own exercises or public ones from the shared
+ * library. Exercises are referenced, not copied.
+ */
+
+// ============================================================================
+// VALIDATORS
+// ============================================================================
+
+const prescriptionFields = {
+  sets: v.number(),
+  reps: v.optional(v.string()),
+  durationSeconds: v.optional(v.number()),
+  load: v.optional(v.string()),
+  tempo: v.optional(v.string()),
+  restSeconds: v.optional(v.number()),
+  notes: v.optional(v.string()),
+};
+
+type Prescription = Pick<
+  Doc<"workoutExercises">,
+  "sets" | "reps" | "durationSeconds" | "restSeconds"
+>;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** Anything that takes a slot in a container's order. */
+export type ContainerItem = Doc<"workoutExercises"> | Doc<"workoutBlocks">;
+
+type ResolvedExercise = Awaited<ReturnType<typeof resolveExercise>>;
+
+export type ResolvedPrescription = Doc<"workoutExercises"> & {
+  exercise: ResolvedExercise;
+};
+
+/** Render-ready workout structure returned by buildWorkoutTree. */
+export type WorkoutTreeItem =
+  | ({ kind: "exercise" } & ResolvedPrescription)
+  | ({ kind: "block"; items: WorkoutTreeItem[] } & Doc<"workoutBlocks">);
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Validate a (complete) prescription: positive whole sets, exactly one of
+ * reps/durationSeconds, and non-negative rest.
+ */
+function validatePrescription(prescription: Prescription) {
+  if (!Number.isInteger(prescription.sets) || prescription.sets < 1) {
+    throw new Error("Sets must be a whole number of at least 1");
+  }
+
+  const hasReps = Boolean(prescription.reps?.trim());
+  const hasDuration = prescription.durationSeconds !== undefined;
+  if (hasReps === hasDuration) {
+    throw new Error("Prescribe either reps or a duration (not both)");
+  }
+
+  if (
+    prescription.durationSeconds !== undefined &&
+    prescription.durationSeconds <= 0
+  ) {
+    throw new Error("Duration must be greater than 0 seconds");
+  }
+
+  if (prescription.restSeconds !== undefined && prescription.restSeconds < 0) {
+    throw new Error("Rest can't be negative");
+  }
+}
+
+/**
+ * Verify the exercise exists and the coach may use it
+ * (their own exercise, or a public one from the shared library).
+ */
+export async function assertUsableExercise(
+  ctx: MutationCtx,
+  profileId: Id<"userProfiles">,
+  exerciseId: Id<"exercises">
+) {
+  const exercise = await ctx.db.get(exerciseId);
+  if (!exercise) {
+    throw new Error("Exercise not found");
+  }
+  if (!exercise.isPublic && exercise.createdBy !== profileId) {
+    throw new Error("Unauthorized - this exercise is private");
+  }
+}
+
+/**
+ * Get Workout Block (Helper)
+ *
+ * Loads a block and verifies it belongs to the given workout.
+ *
+ * @throws Error if block not found or in another workout
+ * @returns The block
+ */
+export async function getWorkoutBlock(
+  ctx: QueryCtx | MutationCtx,
+  workoutId: Id<"workouts">,
+  blockId: Id<"workoutBlocks">
+) {
+  const block = await ctx.db.get(blockId);
+  if (!block) {
+    throw new Error("Block not found");
+  }
+  if (block.workoutId !== workoutId) {
+    throw new Error("Block belongs to a different workout");
+  }
+  return block;
+}
+
+/**
+ * Get Owned Workout Exercise (Helper)
+ *
+ * Loads a prescription and verifies the current coach owns its workout.
+ *
+ * @throws Error if prescription not found or not owned by the current coach
+ * @returns Object containing profile, coachProfile, program, module, workout
+ *          and workoutExercise
+ */
+export async function getOwnedWorkoutExercise(
+  ctx: QueryCtx | MutationCtx,
+  workoutExerciseId: Id<"workoutExercises">
+) {
+  const workoutExercise = await ctx.db.get(workoutExerciseId);
+  if (!workoutExercise) {
+    throw new Error("Workout exercise not found");
+  }
+
+  const owned = await getOwnedWorkout(ctx, workoutExercise.workoutId);
+
+  return { ...owned, workoutExercise };
+}
+
+/**
+ * List a container's prescriptions and blocks merged by their shared order.
+ * `blockId` undefined means the workout's top level.
+ */
+export async function listContainerItems(
+  ctx: QueryCtx | MutationCtx,
+  workoutId: Id<"workouts">,
+  blockId: Id<"workoutBlocks"> | undefined
+): Promise<ContainerItem[]> {
+  const [prescriptions, blocks] = await Promise.all([
+    ctx.db
+      .query("workoutExercises")
+      .withIndex("by_container_order", (q) =>
+        q.eq("workoutId", workoutId).eq("blockId", blockId)
+      )
+      .collect(),
+    ctx.db
+      .query("workoutBlocks")
+      .withIndex("by_container_order", (q) =>
+        q.eq("workoutId", workoutId).eq("parentBlockId", blockId)
+      )
+      .collect(),
+  ]);
+
+  return [...prescriptions, ...blocks].sort((a, b) => a.order - b.order);
+}
+
+/**
+ * Load every prescription and block of a workout (any container).
+ * Blocks come back in creation order, so parents precede their children.
+ */
+export async function loadWorkoutContents(
+  ctx: QueryCtx | MutationCtx,
+  workoutId: Id<"workouts">
+) {
+  const [prescriptions, blocks] = await Promise.all([
+    ctx.db
+      .query("workoutExercises")
+      .withIndex("by_workout", (q) => q.eq("workoutId", workoutId))
+      .collect(),
+    ctx.db
+      .query("workoutBlocks")
+      .withIndex("by_workout", (q) => q.eq("workoutId", workoutId))
+      .collect(),
+  ]);
+
+  return { prescriptions, blocks };
+}
+
+/**
+ * Copy loaded workout contents (see loadWorkoutContents) into another
+ * workout, remapping block references. Exercises are shared references.
+ */
+export async function insertWorkoutContents(
+  ctx: MutationCtx,
+  contents: Awaited<ReturnType<typeof loadWorkoutContents>>,
+  targetWorkoutId: Id<"workouts">
+) {
+  const now = Date.now();
+  const blockIds = new Map<Id<"workoutBlocks">, Id<"workoutBlocks">>();
+
+  for (const block of contents.blocks) {
+    const { _id, _creationTime, parentBlockId, ...fields } = block;
+    const newId = await ctx.db.insert("workoutBlocks", {
+      ...fields,
+      workoutId: targetWorkoutId,
+      parentBlockId: parentBlockId && blockIds.get(parentBlockId),
+      createdAt: now,
+      updatedAt: now,
+    });
+    blockIds.set(_id, newId);
+  }
+
+  for (const prescription of contents.prescriptions) {
+    const { _id, _creationTime, blockId, ...fields } = prescription;
+    await ctx.db.insert("workoutExercises", {
+      ...fields,
+      workoutId: targetWorkoutId,
+      blockId: blockId && blockIds.get(blockId),
+      createdAt: now,
+      updatedAt: now,
+    });
+  }
+}
+
+/**
+ * Delete all prescriptions and blocks of a workout (used when deleting
+ * workouts).
+ *
+ * @returns Number of prescriptions deleted
+ */
+export async function deleteWorkoutContents(
+  ctx: MutationCtx,
+  workoutId: Id<"workouts">
+) {
+  const { prescriptions, blocks } = await loadWorkoutContents(ctx, workoutId);
+
+  for (const doc of [...prescriptions, ...blocks]) {
+    await ctx.db.delete(doc._id);
+  }
+
+  return prescriptions.length;
+}
+
+async function resolveExercise(ctx: QueryCtx, exerciseId: Id<"exercises">) {
+  const exercise = await ctx.db.get(exerciseId);
+  if (!exercise) {
+    return null;
+  }
+
+  const video = exercise.videoId ? await ctx.db.get(exercise.videoId) : null;
+  const thumbnail = exercise.thumbnailId
+    ? await ctx.db.get(exercise.thumbnailId)
+    : null;
+
+  return {
+    _id: exercise._id,
+    name: exercise.name,
+    description: exercise.description,
+    category: exercise.category,
+    equipment: exercise.equipment,
+    videoPlaybackId:
+      video?.status === "ready" ? (video.muxPlaybackId ?? null) : null,
+    thumbnailUrl: thumbnail
+      ? await ctx.storage.getUrl(thumbnail.storageId)
+      : null,
+  };
+}
+
+/**
+ * Build Workout Tree (Helper)
+ *
+ * Returns the workout's top-level items in order; blocks carry their own
+ * ordered `items`. Each prescription has its exercise resolved (demo video
+ * playback ID and thumbnail URL included; null if the exercise was deleted).
+ *
+ * `cache` lets callers resolve exercises shared across workouts once.
+ */
+export async function buildWorkoutTree(
+  ctx: QueryCtx,
+  workoutId: Id<"workouts">,
+  cache: Map<Id<"exercises">, Promise<ResolvedExercise>>
+): Promise<WorkoutTreeItem[]> {
+  const { prescriptions, blocks } = await loadWorkoutContents(ctx, workoutId);
+
+  const resolved = await Promise.all(
+    prescriptions.map(async (prescription) => {
+      let exercise = cache.get(prescription.exerciseId);
+      if (!exercise) {
+        exercise = resolveExercise(ctx, prescription.exerciseId);
+        cache.set(prescription.exerciseId, exercise);
+      }
+      return { ...prescription, exercise: await exercise };
+    })
+  );
+
+  const build = (containerId: Id<"workoutBlocks"> | undefined) => {
+    const items: WorkoutTreeItem[] = [
+      ...resolved
+        .filter((prescription) => prescription.blockId === containerId)
+        .map((prescription) => ({
+          kind: "exercise" as const,
+          ...prescription,
+        })),
+      ...blocks
+        .filter((block) => block.parentBlockId === containerId)
+        .map((block) => ({
+          kind: "block" as const,
+          ...block,
+          items: build(block._id),
+        })),
+    ];
+    return items.sort((a, b) => a.order - b.order);
+  };
+
+  return build(undefined);
+}
+
+/**
+ * Flatten a workout tree into prescriptions in the order they're performed.
+ */
+export function flattenWorkoutTree(
+  items: WorkoutTreeItem[]
+): ResolvedPrescription[] {
+  return items.flatMap((item) => {
+    if (item.kind === "block") {
+      return flattenWorkoutTree(item.items);
+    }
+    const { kind: _kind, ...prescription } = item;
+    return [prescription];
+  });
+}
+
+/**
+ * Load a workout's program if the current user may view it
+ * (published, or a draft owned by the current coach).
+ */
+export async function getViewableProgram(
+  ctx: QueryCtx,
+  moduleId: Id<"programModules">
+) {
+  const programModule = await ctx.db.get(moduleId);
+  const program = programModule
+    ? await ctx.db.get(programModule.programId)
+    : null;
+
+  if (!(program && (await canViewProgram(ctx, program)))) {
+    return null;
+  }
+
+  return program;
+}
+
+// ============================================================================
+// QUERIES
+// ============================================================================
+
+/**
+ * Get Workout With Exercises
+ *
+ * Returns a workout with its fully resolved exercise list, flattened in the
+ * order the exercises are performed (use workoutBlocks.getWorkoutTree for
+ * the block structure).
+ * Same visibility as getProgram: published programs are public, drafts
+ * are only visible to the owning coach (null otherwise).
+ */
+export const getWorkoutWithExercises = query({
+  args: {
+    workoutId: v.id("workouts"),
+  },
+  handler: async (ctx, args) => {
+    const workout = await ctx.db.get(args.workoutId);
+    if (!workout) {
+      return null;
+    }
+
+    if (!(await getViewableProgram(ctx, workout.moduleId))) {
+      return null;
+    }
+
+    const tree = await buildWorkoutTree(ctx, workout._id, new Map());
+
+    return { ...workout, exercises: flattenWorkoutTree(tree) };
+  },
+});
+
+/**
+ * Get Module Workouts With Exercises
+ *
+ * Returns every workout of a module (in order), each with its resolved
+ * exercise list - e.g. a full training week in one query.
+ * Exercises shared between workouts are resolved once.
+ */
+export const getModuleWorkoutsWithExercises = query({
+  args: {
+    moduleId: v.id("programModules"),
+  },
+  handler: async (ctx, args) => {
+    if (!(await getViewableProgram(ctx, args.moduleId))) {
+      return null;
+    }
+
+    const workouts = await ctx.db
+      .query("workouts")
+      .withIndex("by_module_order", (q) => q.eq("moduleId", args.moduleId))
+      .collect();
+
+    const cache = new Map<Id<"exercises">, Promise<ResolvedExercise>>();
+
+    return await Promise.all(
+      workouts.map(async (workout) => ({
+        ...workout,
+        exercises: flattenWorkoutTree(
+          await buildWorkoutTree(ctx, workout._id, cache)
+        ),
+      }))
+    );
+  },
+});
+
+// ============================================================================
+// MUTATIONS
+// ============================================================================
+
+/**
+ * Add Workout Exercise
+ *
+ * Prescribes an exercise at `index` (defaults to the end) of the workout's
+ * top level, or of `blockId` when given.
+ */
+export const addWorkoutExercise = mutation({
+  args: {
+    workoutId: v.id("workouts"),
+    exerciseId: v.id("exercises"),
+    blockId: v.optional(v.id("workoutBlocks")),
+    ...prescriptionFields,
+    index: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const { profile } = await getOwnedWorkout(ctx, args.workoutId);
+    await assertUsableExercise(ctx, profile._id, args.exerciseId);
+    validatePrescription(args);
+
+    if (args.blockId) {
+      await getWorkoutBlock(ctx, args.workoutId, args.blockId);
+    }
+
+    const siblings = await listContainerItems(
+      ctx,
+      args.workoutId,
+      args.blockId
+    );
+    const position = clampIndex(args.index, siblings.length);
+
+    const now = Date.now();
+    const workoutExerciseId = await ctx.db.insert("workoutExercises", {
+      workoutId: args.workoutId,
+      exerciseId: args.exerciseId,
+      blockId: args.blockId,
+      order: position,
+      sets: args.sets,
+      reps: args.reps,
+      durationSeconds: args.durationSeconds,
+      load: args.load,
+      tempo: args.tempo,
+      restSeconds: args.restSeconds,
+      notes: args.notes,
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    const inserted = await ctx.db.get(workoutExerciseId);
+    if (inserted) {
+      siblings.splice(position, 0, inserted);
+    }
+    await resequence(ctx, siblings);
+
+    return workoutExerciseId;
+  },
+});
+
+/**
+ * Update Workout Exercise
+ *
+ * Updates the prescription (or swaps the exercise).
+ * Pass `reps: ""` together with `durationSeconds` to switch a rep-based
+ * prescription to a timed one.
+ */
+export const updateWorkoutExercise = mutation({
+  args: {
+    workoutExerciseId: v.id("workoutExercises"),
+    exerciseId: v.optional(v.id("exercises")),
+    sets: v.optional(v.number()),
+    reps: v.optional(v.string()),
+    durationSeconds: v.optional(v.union(v.number(), v.null())),
+    load: v.optional(v.string()),
+    tempo: v.optional(v.string()),
+    restSeconds: v.optional(v.number()),
+    notes: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const { workoutExerciseId, durationSeconds, ...updates } = args;
+    const { profile, workoutExercise } = await getOwnedWorkoutExercise(
+      ctx,
+      workoutExerciseId
+    );
+
+    if (updates.exerciseId) {
+      await assertUsableExercise(ctx, profile._id, updates.exerciseId);
+    }
+
+    // null clears durationSeconds (switching to reps)
+    const patch = {
+      ...updates,
+      ...(updates.reps !== undefined && {
+        reps: updates.reps.trim() || undefined,
+      }),
+      ...(durationSeconds !== undefined && {
+        durationSeconds: durationSeconds ?? undefined,
+      }),
+    };
+
+    validatePrescription({ ...workoutExercise, ...patch });
+
+    await ctx.db.patch(workoutExerciseId, {
+      ...patch,
+      updatedAt: Date.now(),
+    });
+
+    return { success: true };
+  },
+});
+
+/**
+ * Remove Workout Exercise
+ *
+ * Deletes a prescription and closes the gap in its container's order.
+ * The exercise itself stays in the library.
+ */
+export const removeWorkoutExercise = mutation({
+  args: {
+    workoutExerciseId: v.id("workoutExercises"),
+  },
+  handler: async (ctx, args) => {
+    const { workoutExercise } = await getOwnedWorkoutExercise(
+      ctx,
+      args.workoutExerciseId
+    );
+
+    await ctx.db.delete(args.workoutExerciseId);
+
+    const siblings = await listContainerItems(
+      ctx,
+      workoutExercise.workoutId,
+      workoutExercise.blockId
+    );
+    await resequence(ctx, siblings);
+
+    return { success: true };
+  },
+});
+
+/**
+ * Move Workout Exercise
+ *
+ * Moves a prescription to `index` in another container of the same workout
+ * (into a block, out to the top level, or between blocks).
+ * Source and target containers are resequenced in the same transaction.
+ */
+export const moveWorkoutExercise = mutation({
+  args: {
+    workoutExerciseId: v.id("workoutExercises"),
+    targetBlockId: v.optional(v.id("workoutBlocks")),
+    index: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const { workoutExercise } = await getOwnedWorkoutExercise(
+      ctx,
+      args.workoutExerciseId
+    );
+    const { workoutId } = workoutExercise;
+
+    if (args.targetBlockId) {
+      await getWorkoutBlock(ctx, workoutId, args.targetBlockId);
+    }
+
+    // Remove from source list
+    const sourceSiblings = (
+      await listContainerItems(ctx, workoutId, workoutExercise.blockId)
+    ).filter((doc) => doc._id !== workoutExercise._id);
+
+    const targetSiblings =
+      args.targetBlockId === workoutExercise.blockId
+        ? sourceSiblings
+        : await listContainerItems(ctx, workoutId, args.targetBlockId);
+
+    const position = clampIndex(args.index, targetSiblings.length);
+
+    await ctx.db.patch(workoutExercise._id, {
+      blockId: args.targetBlockId,
+      order: position,
+      updatedAt: Date.now(),
+    });
+
+    const moved = await ctx.db.get(workoutExercise._id);
+    if (moved) {
+      targetSiblings.splice(position, 0, moved);
+    }
+
+    await resequence(ctx, targetSiblings);
+    if (targetSiblings !== sourceSiblings) {
+      await resequence(ctx, sourceSiblings);
+    }
+
+    return { success: true };
+  },
+});
+
+/**
+ * Reorder Workout Items
+ *
+ * Applies a full ordering of one container (the workout's top level, or
+ * `blockId`). `itemIds` must contain every prescription and block of that
+ * container exactly once.
+ */
+export const reorderWorkoutItems = mutation({
+  args: {
+    workoutId: v.id("workouts"),
+    blockId: v.optional(v.id("workoutBlocks")),
+    itemIds: v.array(v.union(v.id("workoutExercises"), v.id("workoutBlocks"))),
+  },
+  handler: async (ctx, args) => {
+    await getOwnedWorkout(ctx, args.workoutId);
+
+    if (args.blockId) {
+      await getWorkoutBlock(ctx, args.workoutId, args.blockId);
+    }
+
+    const siblings = await listContainerItems(
+      ctx,
+      args.workoutId,
+      args.blockId
+    );
+    await applyRequestedOrder(ctx, siblings, args.itemIds);
+
+    return { success: true };
+  },
+});
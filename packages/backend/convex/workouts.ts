@@ -0,0 +1,268 @@
+import { v } from "convex/values";
+import type { Id } from "./_generated/dataModel";
+import type { MutationCtx, QueryCtx } from "./_generated/server";
+import { mutation } from "./_generated/server";
+import { applyRequestedOrder, clampIndex, resequence } from "./ordering";
+import { getOwnedModule } from "./programModules";
+import { assertNotCopying } from "./programs";
+import { deleteWorkoutContents } from "./workoutExercises";
+
+/**
+ * Workouts - Coach Authoring API
+ *
+ * Add, edit, remove, reorder and move workouts within a program's modules.
+ * Workout `order` is kept contiguous (0..n-1) per module - see ordering.ts.
+ */
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Get Owned Workout (Helper)
+ *
+ * Loads a workout and verifies the current coach owns its program.
+ *
+ * @throws Error if workout not found or not owned by the current coach
+ * @returns Object containing profile, coachProfile, program, module and workout
+ */
+export async function getOwnedWorkout(
+  ctx: QueryCtx | MutationCtx,
+  workoutId: Id<"workouts">
+) {
+  const workout = await ctx.db.get(workoutId);
+  if (!workout) {
+    throw new Error("Workout not found");
+  }
+
+  const owned = await getOwnedModule(ctx, workout.moduleId);
+
+  return { ...owned, workout };
+}
+
+/**
+ * List a module's workouts sorted by order (via by_module_order index).
+ */
+export async function listModuleWorkouts(
+  ctx: QueryCtx | MutationCtx,
+  moduleId: Id<"programModules">
+) {
+  return await ctx.db
+    .query("workouts")
+    .withIndex("by_module_order", (q) => q.eq("moduleId", moduleId))
+    .collect();
+}
+
+/**
+ * Validate workout fields shared by add and update.
+ */
+async function validateWorkoutFields(
+  ctx: MutationCtx,
+  profileId: Id<"userProfiles">,
+  fields: { difficulty?: number; videoId?: Id<"videos"> }
+) {
+  if (
+    fields.difficulty !== undefined &&
+    !(
+      Number.isInteger(fields.difficulty) &&
+      fields.difficulty >= 1 &&
+      fields.difficulty <= 5
+    )
+  ) {
+    throw new Error("Difficulty must be a whole number between 1 and 5");
+  }
+
+  if (fields.videoId) {
+    const video = await ctx.db.get(fields.videoId);
+    if (!video) {
+      throw new Error("Video not found");
+    }
+    if (video.uploadedBy !== profileId) {
+      throw new Error("Unauthorized - you don't own this video");
+    }
+  }
+}
+
+// ============================================================================
+// MUTATIONS
+// ============================================================================
+
+/**
+ * Add Workout
+ *
+ * Inserts a workout into a module at `index` (defaults to the end).
+ */
+export const addWorkout = mutation({
+  args: {
+    moduleId: v.id("programModules"),
+    title: v.string(),
+    description: v.string(),
+    instructions: v.optional(v.string()),
+    videoId: v.optional(v.id("videos")),
+    duration: v.optional(v.number()),
+    difficulty: v.number(),
+    index: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const { profile, program } = await getOwnedModule(ctx, args.moduleId);
+    await assertNotCopying(ctx, program);
+    await validateWorkoutFields(ctx, profile._id, args);
+
+    const siblings = await listModuleWorkouts(ctx, args.moduleId);
+    const position = clampIndex(args.index, siblings.length);
+
+    const now = Date.now();
+    const workoutId = await ctx.db.insert("workouts", {
+      moduleId: args.moduleId,
+      title: args.title,
+      description: args.description,
+      instructions: args.instructions,
+      videoId: args.videoId,
+      duration: args.duration,
+      difficulty: args.difficulty,
+      order: position,
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    const inserted = await ctx.db.get(workoutId);
+    if (inserted) {
+      siblings.splice(position, 0, inserted);
+    }
+    await resequence(ctx, siblings);
+
+    return workoutId;
+  },
+});
+
+/**
+ * Update Workout
+ *
+ * Updates workout content, media and metadata.
+ */
+export const updateWorkout = mutation({
+  args: {
+    workoutId: v.id("workouts"),
+    title: v.optional(v.string()),
+    description: v.optional(v.string()),
+    instructions: v.optional(v.string()),
+    videoId: v.optional(v.id("videos")),
+    duration: v.optional(v.number()),
+    difficulty: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const { workoutId, ...updates } = args;
+    const { profile } = await getOwnedWorkout(ctx, workoutId);
+    await validateWorkoutFields(ctx, profile._id, updates);
+
+    await ctx.db.patch(workoutId, {
+      ...updates,
+      updatedAt: Date.now(),
+    });
+
+    return { success: true };
+  },
+});
+
+/**
+ * Remove Workout
+ *
+ * Deletes a workout (and its exercise prescriptions and blocks) and closes
+ * the gap in its module's order.
+ */
+export const removeWorkout = mutation({
+  args: {
+    workoutId: v.id("workouts"),
+  },
+  handler: async (ctx, args) => {
+    const { workout, program } = await getOwnedWorkout(ctx, args.workoutId);
+    await assertNotCopying(ctx, program);
+
+    await deleteWorkoutContents(ctx, args.workoutId);
+    await ctx.db.delete(args.workoutId);
+
+    const siblings = await listModuleWorkouts(ctx, workout.moduleId);
+    await resequence(ctx, siblings);
+
+    return { success: true };
+  },
+});
+
+/**
+ * Reorder Workouts
+ *
+ * Applies a full ordering of a module's workouts (e.g. after drag-and-drop).
+ * `workoutIds` must contain every workout of the module exactly once.
+ */
+export const reorderWorkouts = mutation({
+  args: {
+    moduleId: v.id("programModules"),
+    workoutIds: v.array(v.id("workouts")),
+  },
+  handler: async (ctx, args) => {
+    const { program } = await getOwnedModule(ctx, args.moduleId);
+    await assertNotCopying(ctx, program);
+
+    const siblings = await listModuleWorkouts(ctx, args.moduleId);
+    await applyRequestedOrder(ctx, siblings, args.workoutIds);
+
+    return { success: true };
+  },
+});
+
+/**
+ * Move Workout
+ *
+ * Moves a workout to `index` in another module (or the same module).
+ * Both modules must belong to the same program.
+ * Source and target modules are resequenced in the same transaction.
+ */
+export const moveWorkout = mutation({
+  args: {
+    workoutId: v.id("workouts"),
+    targetModuleId: v.id("programModules"),
+    index: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const { workout, program } = await getOwnedWorkout(ctx, args.workoutId);
+    const { programModule: targetModule } = await getOwnedModule(
+      ctx,
+      args.targetModuleId
+    );
+
+    if (targetModule.programId !== program._id) {
+      throw new Error("Workouts can only be moved within the same program");
+    }
+    await assertNotCopying(ctx, program);
+
+    // Remove from source list
+    const sourceSiblings = (
+      await listModuleWorkouts(ctx, workout.moduleId)
+    ).filter((doc) => doc._id !== workout._id);
+
+    const targetSiblings =
+      targetModule._id === workout.moduleId
+        ? sourceSiblings
+        : await listModuleWorkouts(ctx, targetModule._id);
+
+    const position = clampIndex(args.index, targetSiblings.length);
+
+    await ctx.db.patch(workout._id, {
+      moduleId: targetModule._id,
+      order: position,
+      updatedAt: Date.now(),
+    });
+
+    const moved = await ctx.db.get(workout._id);
+    if (moved) {
+      targetSiblings.splice(position, 0, moved);
+    }
+
+    await resequence(ctx, targetSiblings);
+    if (targetSiblings !== sourceSiblings) {
+      await resequence(ctx, sourceSiblings);
+    }
+
+    return { success: true };
+  },
+});